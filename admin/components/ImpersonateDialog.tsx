@@ -0,0 +1,138 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { LifeBuoy } from 'lucide-react';
+import { useAdminApi } from '../hooks/useAdminApi';
+
+interface ImpersonateDialogProps {
+  tenant: { id: string; name: string } | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Opens the tenant app in a new tab as the chosen user.
+ * Access is time-boxed, shown to the tenant with a banner and audited request by request.
+ */
+export function ImpersonateDialog({ tenant, open, onOpenChange }: ImpersonateDialogProps) {
+  const { getTenantUsers, impersonateUser } = useAdminApi();
+  const [users, setUsers] = useState<any[]>([]);
+  const [allowImpersonation, setAllowImpersonation] = useState(true);
+  const [userId, setUserId] = useState('');
+  const [reason, setReason] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!open || !tenant) return;
+
+    setUserId('');
+    setReason('');
+    setError('');
+    getTenantUsers(tenant.id)
+      .then((data) => {
+        setUsers(data.users.filter((user: any) => user.isActive));
+        setAllowImpersonation(data.allowImpersonation);
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load users'));
+  }, [open, tenant]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!tenant) return;
+    setError('');
+
+    try {
+      setIsLoading(true);
+      const session = await impersonateUser(tenant.id, userId, reason);
+      // The fragment never reaches the server or its access logs
+      window.open(`/suporte#token=${encodeURIComponent(session.accessToken)}`, '_blank', 'noopener');
+      onOpenChange(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start support access');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <LifeBuoy className="h-5 w-5 mr-2" />
+            Support Access
+          </DialogTitle>
+          <DialogDescription>
+            Act as a user of {tenant?.name}. The session expires automatically and every request is audited.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-md">
+              <p className="text-sm text-red-600">{error}</p>
+            </div>
+          )}
+
+          {!allowImpersonation && (
+            <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-md">
+              <p className="text-sm text-yellow-800">This tenant has disabled support access.</p>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label>User</Label>
+            <Select value={userId} onValueChange={setUserId} disabled={!allowImpersonation}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select a user" />
+              </SelectTrigger>
+              <SelectContent>
+                {users.map((user) => (
+                  <SelectItem key={user.id} value={user.id}>
+                    {user.name} ({user.email})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="impersonation-reason">Reason</Label>
+            <Textarea
+              id="impersonation-reason"
+              placeholder="Ticket number or description of the issue"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              disabled={!allowImpersonation}
+            />
+          </div>
+
+          <div className="flex justify-end space-x-2 pt-4">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isLoading || !allowImpersonation || !userId || reason.trim().length < 5}>
+              {isLoading ? 'Starting...' : 'Start Support Access'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   Dialog,
   DialogContent,
@@ -29,7 +29,8 @@ interface TenantFormProps {
 }
 
 export function TenantForm({ open, onOpenChange, onSuccess }: TenantFormProps) {
-  const { createTenant } = useAdminApi();
+  const { createTenant, getPlans } = useAdminApi();
+  const [plans, setPlans] = useState<{ type: string; limits: { users: number; storage: number } }[]>([]);
   const [formData, setFormData] = useState({
     name: '',
     planType: 'basic',
@@ -40,6 +41,12 @@ export function TenantForm({ open, onOpenChange, onSuccess }: TenantFormProps) {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState('');
 
+  useEffect(() => {
+    if (open && plans.length === 0) {
+      getPlans().then(setPlans).catch(() => undefined);
+    }
+  }, [open]);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
@@ -75,6 +82,16 @@ export function TenantForm({ open, onOpenChange, onSuccess }: TenantFormProps) {
     if (error) setError('');
   };
 
+  // Picking a plan fills in its seats and storage; both can still be raised for this tenant
+  const handlePlanChange = (planType: string) => {
+    const plan = plans.find((item) => item.type === planType);
+    setFormData(prev => ({
+      ...prev,
+      planType,
+      ...(plan && { maxUsers: plan.limits.users, maxStorage: plan.limits.storage }),
+    }));
+  };
+
   const formatBytes = (bytes: number) => {
     if (bytes === 0) return '0 Bytes';
     const k = 1024;
@@ -116,7 +133,7 @@ export function TenantForm({ open, onOpenChange, onSuccess }: TenantFormProps) {
 
           <div className="space-y-2">
             <Label htmlFor="planType">Plan Type</Label>
-            <Select value={formData.planType} onValueChange={(value) => handleInputChange('planType', value)}>
+            <Select value={formData.planType} onValueChange={handlePlanChange}>
               <SelectTrigger>
                 <SelectValue />
               </SelectTrigger>
@@ -155,6 +172,7 @@ export function TenantForm({ open, onOpenChange, onSuccess }: TenantFormProps) {
                   <SelectItem value="5368709120">5 GB</SelectItem>
                   <SelectItem value="10737418240">10 GB</SelectItem>
                   <SelectItem value="53687091200">50 GB</SelectItem>
+                  <SelectItem value="107374182400">100 GB</SelectItem>
                 </SelectContent>
               </Select>
             </div>
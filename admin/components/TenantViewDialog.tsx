@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   Dialog,
   DialogContent,
@@ -9,6 +9,13 @@ import {
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Separator } from '@/components/ui/separator';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import {
   Building,
   Users,
@@ -17,7 +24,12 @@ import {
   Activity,
   Settings,
   AlertTriangle,
+  Download,
+  PackageOpen,
+  Upload,
 } from 'lucide-react';
+import { Progress } from '@/components/ui/progress';
+import { useAdminApi } from '../hooks/useAdminApi';
 
 interface Tenant {
   id: string;
@@ -38,6 +50,294 @@ interface Tenant {
   };
 }
 
+interface PlanUsage {
+  plan: { type: string; name: string };
+  features: string[];
+  usage: Record<string, { used: number; limit: number | null }>;
+}
+
+const LIMIT_LABELS: Record<string, string> = {
+  users: 'Users',
+  storage: 'Storage',
+  monthlyInvoices: 'Invoices this month',
+  monitoredPublications: 'Monitored OAB numbers',
+};
+
+const FEATURE_LABELS: Record<string, string> = {
+  receivables_automation: 'Receivables automation',
+  publications: 'Publications',
+  client_portal: 'Client portal',
+};
+
+const formatLimitValue = (key: string, value: number) =>
+  key === 'storage' ? `${(value / 1024 / 1024 / 1024).toFixed(2)} GB` : String(value);
+
+// Usage against the plan's limits; changing the plan resets seats and storage to the new plan's
+function TenantPlan({ tenantId }: { tenantId: string }) {
+  const { getTenantPlan, changeTenantPlan } = useAdminApi();
+  const [plan, setPlan] = useState<PlanUsage | null>(null);
+  const [planType, setPlanType] = useState('');
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    getTenantPlan(tenantId)
+      .then((usage: PlanUsage) => {
+        setPlan(usage);
+        setPlanType(usage.plan.type);
+      })
+      .catch((err) => setError(err.message));
+  }, [tenantId]);
+
+  const changePlan = async () => {
+    if (!confirm(`Move this tenant to the ${planType} plan? Seat and storage limits will be reset to the plan's.`)) return;
+
+    setError('');
+    try {
+      setPlan(await changeTenantPlan(tenantId, { planType }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to change plan');
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-lg font-semibold flex items-center">
+          <HardDrive className="h-5 w-5 mr-2" />
+          Plan & Usage
+        </h3>
+        <div className="flex items-center space-x-2">
+          <Select value={planType} onValueChange={setPlanType}>
+            <SelectTrigger className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="basic">Basic</SelectItem>
+              <SelectItem value="premium">Premium</SelectItem>
+              <SelectItem value="enterprise">Enterprise</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="sm" onClick={changePlan} disabled={!plan || planType === plan.plan.type}>
+            Change Plan
+          </Button>
+        </div>
+      </div>
+      {error && <p className="text-sm text-red-600 mb-2">{error}</p>}
+      {plan && (
+        <div className="bg-muted/50 rounded-lg p-4 space-y-3 text-sm">
+          {Object.entries(plan.usage).map(([key, { used, limit }]) => (
+            <div key={key} className="space-y-1">
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">{LIMIT_LABELS[key] || key}</span>
+                <span className={limit !== null && used >= limit ? 'text-red-600 font-medium' : ''}>
+                  {formatLimitValue(key, used)} / {limit === null ? 'unlimited' : formatLimitValue(key, limit)}
+                </span>
+              </div>
+              {limit !== null && <Progress value={limit > 0 ? Math.min((used / limit) * 100, 100) : 100} />}
+            </div>
+          ))}
+          <div className="flex flex-wrap gap-2 pt-1">
+            {Object.entries(FEATURE_LABELS).map(([feature, label]) => (
+              <Badge key={feature} variant={plan.features.includes(feature) ? 'default' : 'outline'}>
+                {label}
+              </Badge>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface TenantExport {
+  id: string;
+  status: 'pending' | 'running' | 'completed' | 'failed' | 'expired';
+  progress: number;
+  error: string | null;
+  fileSize: number | null;
+  createdAt: string;
+  expiresAt: string | null;
+  downloadUrl?: string;
+}
+
+// Same archive the tenant's GERENCIAL users can request; links are short-lived, so fetch one on click
+function TenantExports({ tenantId }: { tenantId: string }) {
+  const { getTenantExports, exportTenant } = useAdminApi();
+  const [exports, setExports] = useState<TenantExport[]>([]);
+  const [error, setError] = useState('');
+
+  const inProgress = exports.some((item) => item.status === 'pending' || item.status === 'running');
+
+  const load = () => {
+    getTenantExports(tenantId)
+      .then(setExports)
+      .catch((err) => setError(err.message));
+  };
+
+  useEffect(load, [tenantId]);
+
+  useEffect(() => {
+    if (!inProgress) return;
+    const timer = setInterval(load, 2000);
+    return () => clearInterval(timer);
+  }, [inProgress, tenantId]);
+
+  const startExport = async () => {
+    setError('');
+    try {
+      await exportTenant(tenantId);
+      load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start export');
+    }
+  };
+
+  const download = async (exportId: string) => {
+    const latest: TenantExport[] = await getTenantExports(tenantId);
+    setExports(latest);
+    const url = latest.find((item) => item.id === exportId)?.downloadUrl;
+    if (url) {
+      window.location.href = url;
+    } else {
+      setError('Export is no longer available');
+    }
+  };
+
+  const latest = exports[0];
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-lg font-semibold flex items-center">
+          <PackageOpen className="h-5 w-5 mr-2" />
+          Data Export
+        </h3>
+        <Button variant="outline" size="sm" onClick={startExport} disabled={inProgress}>
+          Export all data
+        </Button>
+      </div>
+      {error && <p className="text-sm text-red-600 mb-2">{error}</p>}
+      {!latest ? (
+        <p className="text-sm text-muted-foreground">No exports yet.</p>
+      ) : (
+        <div className="bg-muted/50 rounded-lg p-4 space-y-2 text-sm">
+          <div className="flex items-center justify-between">
+            <span>
+              {new Date(latest.createdAt).toLocaleString('en-US')}
+              {latest.fileSize !== null && ` · ${(latest.fileSize / 1024 / 1024).toFixed(1)} MB`}
+            </span>
+            <div className="flex items-center space-x-2">
+              <Badge variant={latest.status === 'failed' ? 'destructive' : 'secondary'}>{latest.status}</Badge>
+              {latest.downloadUrl && (
+                <Button size="sm" variant="outline" onClick={() => download(latest.id)}>
+                  <Download className="h-4 w-4 mr-1" />
+                  Download
+                </Button>
+              )}
+            </div>
+          </div>
+          {inProgress && <Progress value={latest.progress} />}
+          {latest.status === 'completed' && latest.expiresAt && (
+            <p className="text-xs text-muted-foreground">Available until {new Date(latest.expiresAt).toLocaleString('en-US')}</p>
+          )}
+          {latest.error && <p className="text-xs text-red-600">{latest.error}</p>}
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface ImportReport {
+  dryRun: boolean;
+  conflicts: number;
+  sourceTenant: { name: string };
+  global: { name: string; rows: number; inserted: number; updated: number; skipped: number }[];
+  tables: { name: string; rows: number; inserted: number; updated: number; skipped: number }[];
+  warnings: string[];
+}
+
+// Restore over this tenant: always previewed (dry run) before anything is written
+function TenantRestore({ tenantId }: { tenantId: string }) {
+  const { importTenant } = useAdminApi();
+  const [archive, setArchive] = useState<File | null>(null);
+  const [conflict, setConflict] = useState('skip');
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [error, setError] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const run = async (dryRun: boolean) => {
+    if (!archive) return;
+    if (!dryRun && !confirm('Restore this archive into the tenant? Existing data may be changed.')) return;
+
+    setBusy(true);
+    setError('');
+    try {
+      setReport(await importTenant(tenantId, archive, { dryRun, conflict }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import archive');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const selectArchive = (file: File | null) => {
+    setArchive(file);
+    setReport(null);
+  };
+
+  return (
+    <div>
+      <h3 className="text-lg font-semibold flex items-center mb-3">
+        <Upload className="h-5 w-5 mr-2" />
+        Restore from Export
+      </h3>
+      <div className="flex items-center space-x-2">
+        <input
+          type="file"
+          accept=".zip,application/zip"
+          className="text-sm flex-1"
+          onChange={(event) => selectArchive(event.target.files?.[0] || null)}
+        />
+        <Select value={conflict} onValueChange={(value) => { setConflict(value); setReport(null); }}>
+          <SelectTrigger className="w-44">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="skip">Keep existing rows</SelectItem>
+            <SelectItem value="overwrite">Overwrite existing</SelectItem>
+            <SelectItem value="fail">Fail on conflict</SelectItem>
+          </SelectContent>
+        </Select>
+        <Button variant="outline" size="sm" onClick={() => run(true)} disabled={!archive || busy}>
+          Preview
+        </Button>
+        <Button size="sm" onClick={() => run(false)} disabled={!report?.dryRun || busy}>
+          Restore
+        </Button>
+      </div>
+      {error && <p className="text-sm text-red-600 mt-2">{error}</p>}
+      {report && (
+        <div className="bg-muted/50 rounded-lg p-4 mt-3 space-y-1 text-sm">
+          <p className="font-medium">
+            {report.dryRun ? 'Preview' : 'Restored'} from {report.sourceTenant.name} · {report.conflicts} conflicts
+          </p>
+          {[...report.global, ...report.tables].map((table) => (
+            <div key={table.name} className="flex justify-between text-muted-foreground">
+              <span>{table.name}</span>
+              <span>
+                {table.rows} rows · {table.inserted} new · {table.updated} updated · {table.skipped} kept
+              </span>
+            </div>
+          ))}
+          {report.warnings.map((warning) => (
+            <p key={warning} className="text-xs text-amber-700">{warning}</p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
 interface TenantViewDialogProps {
   tenant: Tenant | null;
   open: boolean;
@@ -180,28 +480,13 @@ export function TenantViewDialog({ tenant, open, onOpenChange }: TenantViewDialo
 
           <Separator />
 
-          {/* Plan Information */}
-          <div>
-            <h3 className="text-lg font-semibold mb-3">Plan Information</h3>
-            <div className="bg-muted/50 rounded-lg p-4">
-              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                <div className="text-center">
-                  <div className="text-2xl font-bold text-blue-600">{tenant.planType.toUpperCase()}</div>
-                  <div className="text-sm text-muted-foreground">Current Plan</div>
-                </div>
-                <div className="text-center">
-                  <div className="text-2xl font-bold">{tenant.userCount}</div>
-                  <div className="text-sm text-muted-foreground">Active Users</div>
-                </div>
-                <div className="text-center">
-                  <div className="text-2xl font-bold text-green-600">
-                    {tenant.stats.clients + tenant.stats.projects + tenant.stats.tasks}
-                  </div>
-                  <div className="text-sm text-muted-foreground">Total Records</div>
-                </div>
-              </div>
-            </div>
-          </div>
+          <TenantPlan tenantId={tenant.id} />
+
+          <Separator />
+
+          <TenantExports tenantId={tenant.id} />
+
+          <TenantRestore tenantId={tenant.id} />
 
           {/* Actions */}
           <div className="flex justify-between">
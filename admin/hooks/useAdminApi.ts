@@ -3,7 +3,7 @@ import { useState } from 'react';
 class AdminApiService {
   private baseUrl = '/api/admin';
 
-  private async request(endpoint: string, options: RequestInit = {}) {
+  private async request(endpoint: string, options: RequestInit = {}, retry = true) {
     const token = localStorage.getItem('admin_access_token');
     
     const response = await fetch(`${this.baseUrl}${endpoint}`, {
@@ -15,14 +15,49 @@ class AdminApiService {
       },
     });
 
+    const tokenRejected = response.status === 401
+      || (response.status === 403 && (await response.clone().json().catch(() => ({}))).code === 'ADMIN_003');
+
+    if (tokenRejected && retry) {
+      // Access token expired, try to refresh once
+      const refreshed = await this.refreshToken();
+      if (refreshed) {
+        return this.request(endpoint, options, false);
+      }
+    }
+
     if (!response.ok) {
       const error = await response.json();
-      throw new Error(error.message || 'API request failed');
+      throw new Error(error.error || error.message || 'API request failed');
     }
 
     return response.json();
   }
 
+  private async refreshToken(): Promise<boolean> {
+    try {
+      const refreshToken = localStorage.getItem('admin_refresh_token');
+      if (!refreshToken) return false;
+
+      const response = await fetch(`${this.baseUrl}/auth/refresh`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ refreshToken }),
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        localStorage.setItem('admin_access_token', data.tokens.accessToken);
+        localStorage.setItem('admin_refresh_token', data.tokens.refreshToken);
+        return true;
+      }
+    } catch (error) {
+      console.error('Admin token refresh failed:', error);
+    }
+
+    return false;
+  }
+
   // Global Metrics
   async getGlobalMetrics() {
     return this.request('/metrics');
@@ -47,6 +82,71 @@ class AdminApiService {
     });
   }
 
+  async cancelTenantDeletion(tenantId: string) {
+    return this.request(`/tenants/${tenantId}/cancel-deletion`, {
+      method: 'POST',
+    });
+  }
+
+  async getTenantDeletions() {
+    const response = await this.request('/tenant-deletions');
+    return response.tenants;
+  }
+
+  // Plans
+  async getPlans() {
+    const response = await this.request('/plans');
+    return response.plans;
+  }
+
+  async getTenantPlan(tenantId: string) {
+    const response = await this.request(`/tenants/${tenantId}/plan`);
+    return response.plan;
+  }
+
+  async changeTenantPlan(tenantId: string, plan: { planType: string; maxUsers?: number; maxStorage?: number }) {
+    const response = await this.request(`/tenants/${tenantId}/plan`, {
+      method: 'PATCH',
+      body: JSON.stringify(plan),
+    });
+    return response.plan;
+  }
+
+  // Support Access
+  async getTenantUsers(tenantId: string) {
+    return this.request(`/tenants/${tenantId}/users`);
+  }
+
+  async impersonateUser(tenantId: string, userId: string, reason: string) {
+    return this.request(`/tenants/${tenantId}/impersonate`, {
+      method: 'POST',
+      body: JSON.stringify({ userId, reason }),
+    });
+  }
+
+  // Data Export
+  async getTenantExports(tenantId: string) {
+    const response = await this.request(`/tenants/${tenantId}/exports`);
+    return response.exports;
+  }
+
+  async exportTenant(tenantId: string) {
+    return this.request(`/tenants/${tenantId}/exports`, {
+      method: 'POST',
+    });
+  }
+
+  // Restore: the archive is the request body, options go in the query string
+  async importTenant(tenantId: string, archive: File, options: { dryRun: boolean; conflict: string }) {
+    const query = new URLSearchParams({ dryRun: String(options.dryRun), conflict: options.conflict });
+    const response = await this.request(`/tenants/${tenantId}/import?${query}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/zip' },
+      body: archive,
+    });
+    return response.report;
+  }
+
   // Registration Keys
   async getRegistrationKeys(tenantId?: string) {
     const params = tenantId ? `?tenantId=${tenantId}` : '';
@@ -116,6 +216,25 @@ export function useAdminApi() {
     getTenants: () => withLoading(() => adminApiService.getTenants()),
     createTenant: (data: any) => withLoading(() => adminApiService.createTenant(data)),
     deleteTenant: (id: string) => withLoading(() => adminApiService.deleteTenant(id)),
+    cancelTenantDeletion: (id: string) => withLoading(() => adminApiService.cancelTenantDeletion(id)),
+    getTenantDeletions: () => withLoading(() => adminApiService.getTenantDeletions()),
+
+    // Plans
+    getPlans: () => withLoading(() => adminApiService.getPlans()),
+    getTenantPlan: (tenantId: string) => withLoading(() => adminApiService.getTenantPlan(tenantId)),
+    changeTenantPlan: (tenantId: string, plan: { planType: string; maxUsers?: number; maxStorage?: number }) =>
+      withLoading(() => adminApiService.changeTenantPlan(tenantId, plan)),
+
+    // Support Access
+    getTenantUsers: (tenantId: string) => withLoading(() => adminApiService.getTenantUsers(tenantId)),
+    impersonateUser: (tenantId: string, userId: string, reason: string) =>
+      withLoading(() => adminApiService.impersonateUser(tenantId, userId, reason)),
+
+    // Data Export
+    getTenantExports: (tenantId: string) => withLoading(() => adminApiService.getTenantExports(tenantId)),
+    exportTenant: (tenantId: string) => withLoading(() => adminApiService.exportTenant(tenantId)),
+    importTenant: (tenantId: string, archive: File, options: { dryRun: boolean; conflict: string }) =>
+      withLoading(() => adminApiService.importTenant(tenantId, archive, options)),
 
     // Registration Keys
     getRegistrationKeys: (tenantId?: string) => withLoading(() => adminApiService.getRegistrationKeys(tenantId)),
@@ -4,7 +4,7 @@ interface AdminUser {
   id: string;
   email: string;
   name: string;
-  role: 'admin' | 'super_admin';
+  role: 'super_admin' | 'admin' | 'support';
 }
 
 interface AdminAuthContextType {
@@ -75,7 +75,7 @@ export function AdminAuthProvider({ children }: { children: React.ReactNode }) {
 
     if (!response.ok) {
       const error = await response.json();
-      throw new Error(error.message || 'Login failed');
+      throw new Error(error.error || error.message || 'Login failed');
     }
 
     const data = await response.json();
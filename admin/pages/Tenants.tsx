@@ -36,10 +36,13 @@ import {
   Users,
   Calendar,
   AlertTriangle,
+  LifeBuoy,
+  Undo2,
 } from 'lucide-react';
 import { useAdminApi } from '../hooks/useAdminApi';
 import { TenantForm } from '../components/TenantForm';
 import { TenantViewDialog } from '../components/TenantViewDialog';
+import { ImpersonateDialog } from '../components/ImpersonateDialog';
 
 interface Tenant {
   id: string;
@@ -50,6 +53,8 @@ interface Tenant {
   maxUsers: number;
   userCount: number;
   planExpiresAt?: string;
+  deletedAt?: string | null;
+  purgeAfter?: string | null;
   createdAt: string;
   stats: {
     clients: number;
@@ -61,7 +66,7 @@ interface Tenant {
 }
 
 export function AdminTenants() {
-  const { getTenants, deleteTenant } = useAdminApi();
+  const { getTenants, deleteTenant, cancelTenantDeletion } = useAdminApi();
   const [tenants, setTenants] = useState<Tenant[]>([]);
   const [filteredTenants, setFilteredTenants] = useState<Tenant[]>([]);
   const [searchTerm, setSearchTerm] = useState('');
@@ -69,6 +74,7 @@ export function AdminTenants() {
   const [showCreateForm, setShowCreateForm] = useState(false);
   const [showViewDialog, setShowViewDialog] = useState(false);
   const [selectedTenant, setSelectedTenant] = useState<Tenant | null>(null);
+  const [showImpersonateDialog, setShowImpersonateDialog] = useState(false);
 
   useEffect(() => {
     loadTenants();
@@ -96,7 +102,7 @@ export function AdminTenants() {
   };
 
   const handleDeleteTenant = async (tenantId: string) => {
-    if (!confirm('Are you sure you want to delete this tenant? This action cannot be undone.')) {
+    if (!confirm('Delete this tenant? It is deactivated now and purged for good after the grace period.')) {
       return;
     }
 
@@ -109,11 +115,30 @@ export function AdminTenants() {
     }
   };
 
+  const handleCancelDeletion = async (tenantId: string) => {
+    try {
+      await cancelTenantDeletion(tenantId);
+      await loadTenants();
+    } catch (error) {
+      console.error('Failed to cancel tenant deletion:', error);
+      alert('Failed to cancel tenant deletion');
+    }
+  };
+
+  const pendingPurges = tenants
+    .filter((tenant) => tenant.deletedAt)
+    .sort((a, b) => new Date(a.purgeAfter!).getTime() - new Date(b.purgeAfter!).getTime());
+
   const handleViewTenant = (tenant: Tenant) => {
     setSelectedTenant(tenant);
     setShowViewDialog(true);
   };
 
+  const handleImpersonate = (tenant: Tenant) => {
+    setSelectedTenant(tenant);
+    setShowImpersonateDialog(true);
+  };
+
   const getPlanBadgeColor = (planType: string) => {
     switch (planType) {
       case 'enterprise':
@@ -170,6 +195,35 @@ export function AdminTenants() {
           </div>
         </div>
 
+        {/* Pending Purges */}
+        {pendingPurges.length > 0 && (
+          <Card className="border-red-200">
+            <CardHeader>
+              <CardTitle className="flex items-center text-red-700">
+                <Trash2 className="h-5 w-5 mr-2" />
+                Pending Purges ({pendingPurges.length})
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {pendingPurges.map((tenant) => (
+                <div key={tenant.id} className="flex items-center justify-between border rounded-lg p-3">
+                  <div>
+                    <div className="font-medium">{tenant.name}</div>
+                    <div className="text-xs text-muted-foreground">
+                      Deleted {new Date(tenant.deletedAt!).toLocaleDateString()} · purged after{' '}
+                      {new Date(tenant.purgeAfter!).toLocaleString()}
+                    </div>
+                  </div>
+                  <Button size="sm" variant="outline" onClick={() => handleCancelDeletion(tenant.id)}>
+                    <Undo2 className="h-4 w-4 mr-1" />
+                    Cancel Deletion
+                  </Button>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
         {/* Tenants Table */}
         <Card>
           <CardHeader>
@@ -250,7 +304,7 @@ export function AdminTenants() {
                               variant={tenant.isActive ? "default" : "destructive"}
                               className={tenant.isActive ? "bg-green-100 text-green-800" : ""}
                             >
-                              {tenant.isActive ? 'Active' : 'Inactive'}
+                              {tenant.isActive ? 'Active' : tenant.deletedAt ? 'Deleting' : 'Inactive'}
                             </Badge>
                             {isExpired(tenant.planExpiresAt) && (
                               <Badge variant="destructive" className="ml-1">
@@ -280,13 +334,27 @@ export function AdminTenants() {
                                   <Settings className="mr-2 h-4 w-4" />
                                   Configure APIs
                                 </DropdownMenuItem>
-                                <DropdownMenuItem 
-                                  onClick={() => handleDeleteTenant(tenant.id)}
-                                  className="text-destructive"
+                                <DropdownMenuItem
+                                  onClick={() => handleImpersonate(tenant)}
+                                  disabled={!tenant.isActive}
                                 >
-                                  <Trash2 className="mr-2 h-4 w-4" />
-                                  Delete
+                                  <LifeBuoy className="mr-2 h-4 w-4" />
+                                  Support Access
                                 </DropdownMenuItem>
+                                {tenant.deletedAt ? (
+                                  <DropdownMenuItem onClick={() => handleCancelDeletion(tenant.id)}>
+                                    <Undo2 className="mr-2 h-4 w-4" />
+                                    Cancel Deletion
+                                  </DropdownMenuItem>
+                                ) : (
+                                  <DropdownMenuItem 
+                                    onClick={() => handleDeleteTenant(tenant.id)}
+                                    className="text-destructive"
+                                  >
+                                    <Trash2 className="mr-2 h-4 w-4" />
+                                    Delete
+                                  </DropdownMenuItem>
+                                )}
                               </DropdownMenuContent>
                             </DropdownMenu>
                           </TableCell>
@@ -313,6 +381,13 @@ export function AdminTenants() {
           open={showViewDialog}
           onOpenChange={setShowViewDialog}
         />
+
+        {/* Support Access Dialog */}
+        <ImpersonateDialog
+          tenant={selectedTenant}
+          open={showImpersonateDialog}
+          onOpenChange={setShowImpersonateDialog}
+        />
       </div>
     </AdminLayout>
   );
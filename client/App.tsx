@@ -18,7 +18,14 @@ import { Publications } from "./pages/Publications";
 import { PublicationDetail } from "./pages/PublicationDetail";
 import { Settings } from "./pages/Settings";
 import { Notifications } from "./pages/Notifications";
+import { Trash } from "./pages/Trash";
 import { Login } from "./pages/Login";
+import { ResetPassword } from "./pages/ResetPassword";
+import { ClientPortal } from "./pages/ClientPortal";
+import { PortalActivate } from "./pages/PortalActivate";
+import { AcceptInvite } from "./pages/AcceptInvite";
+import { SupportAccess } from "./pages/SupportAccess";
+import { SsoCallback } from "./pages/SsoCallback";
 import NotFound from "./pages/NotFound";
 import { initializeResizeObserverFix } from "@/lib/resize-observer-fix";
 import {
@@ -53,7 +60,14 @@ const AppContent = () => {
             <Route path="/publicacoes/:id" element={<PublicationDetail />} />
             <Route path="/configuracoes" element={<Settings />} />
             <Route path="/notificacoes" element={<Notifications />} />
+            <Route path="/lixeira" element={<Trash />} />
             <Route path="/login" element={<Login />} />
+            <Route path="/login/sso" element={<SsoCallback />} />
+            <Route path="/redefinir-senha" element={<ResetPassword />} />
+            <Route path="/convite" element={<AcceptInvite />} />
+            <Route path="/suporte" element={<SupportAccess />} />
+            <Route path="/portal" element={<ClientPortal />} />
+            <Route path="/portal/ativar" element={<PortalActivate />} />
             {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
             <Route path="*" element={<NotFound />} />
           </Routes>
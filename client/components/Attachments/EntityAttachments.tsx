@@ -0,0 +1,126 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Download, Paperclip, Trash2, Upload } from 'lucide-react';
+import { apiService } from '@/services/apiService';
+import { Attachment, AttachmentEntityType } from '@/types/attachments';
+
+function formatSize(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+interface EntityAttachmentsProps {
+  entityType: AttachmentEntityType;
+  entityId: string;
+  // Read-only views hide upload and delete
+  readOnly?: boolean;
+}
+
+/**
+ * Anexos de um registro (cliente, projeto, tarefa, transação ou fatura): lista, envio,
+ * download e exclusão. O espaço usado conta na cota de armazenamento do plano.
+ */
+export function EntityAttachments({ entityType, entityId, readOnly = false }: EntityAttachmentsProps) {
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const load = async () => {
+    try {
+      const response = await apiService.getAttachments(entityType, entityId);
+      setAttachments(response.attachments);
+    } catch (loadError) {
+      setError('Erro ao carregar anexos');
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, [entityType, entityId]);
+
+  const run = async (action: () => Promise<unknown>) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      await action();
+      await load();
+    } catch (actionError) {
+      setError(actionError instanceof Error ? actionError.message : 'Erro ao processar anexo');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const upload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (file) {
+      run(() => apiService.uploadAttachment(entityType, entityId, file));
+    }
+  };
+
+  const download = async (attachment: Attachment) => {
+    try {
+      const url = URL.createObjectURL(await apiService.downloadAttachment(attachment.id));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = attachment.name;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (downloadError) {
+      setError('Erro ao baixar anexo');
+    }
+  };
+
+  const remove = (attachment: Attachment) => {
+    if (!confirm(`Excluir o anexo ${attachment.name}?`)) return;
+    run(() => apiService.deleteAttachment(attachment.id));
+  };
+
+  if (readOnly && attachments.length === 0) {
+    return null;
+  }
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-lg font-semibold flex items-center">
+          <Paperclip className="h-5 w-5 mr-2" />
+          Anexos ({attachments.length})
+        </h3>
+        {!readOnly && (
+          <>
+            <input ref={fileInput} type="file" className="hidden" onChange={upload} />
+            <Button variant="outline" size="sm" onClick={() => fileInput.current?.click()} disabled={isLoading}>
+              <Upload className="h-4 w-4 mr-1" />
+              Enviar arquivo
+            </Button>
+          </>
+        )}
+      </div>
+      {error && <p className="text-sm text-red-600 mb-2">{error}</p>}
+      <div className="space-y-2">
+        {attachments.map((attachment) => (
+          <div key={attachment.id} className="flex items-center justify-between p-2 border rounded">
+            <div className="text-sm">
+              <span>{attachment.name}</span>
+              <span className="text-muted-foreground ml-2">{formatSize(attachment.size)}</span>
+            </div>
+            <div className="flex gap-1">
+              <Button variant="ghost" size="sm" onClick={() => download(attachment)}>
+                <Download className="h-4 w-4" />
+              </Button>
+              {!readOnly && (
+                <Button variant="ghost" size="sm" onClick={() => remove(attachment)} disabled={isLoading}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,114 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Lock } from 'lucide-react';
+import { apiService } from '@/services/apiService';
+
+interface ChangePasswordFormProps {
+  title?: string;
+  description?: string;
+  onSuccess: () => void;
+  onCancel?: () => void;
+}
+
+/**
+ * Troca de senha validada pela política do escritório. Usada no login,
+ * quando a senha expirou ou o administrador exigiu a troca, e nas
+ * configurações de segurança.
+ */
+export function ChangePasswordForm({ title, description, onSuccess, onCancel }: ChangePasswordFormProps) {
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [errorMessage, setErrorMessage] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setErrorMessage('');
+
+    if (newPassword !== confirmPassword) {
+      setErrorMessage('Senhas não coincidem');
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      await apiService.changePassword(currentPassword, newPassword);
+      setCurrentPassword('');
+      setNewPassword('');
+      setConfirmPassword('');
+      onSuccess();
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : 'Erro ao alterar senha');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {title && (
+        <div className="text-center">
+          <Lock className="h-8 w-8 text-blue-600 mx-auto mb-2" />
+          <h3 className="text-lg font-medium">{title}</h3>
+          {description && <p className="text-sm text-gray-600 mt-1">{description}</p>}
+        </div>
+      )}
+
+      {errorMessage && (
+        <Alert className="border-red-200 bg-red-50">
+          <AlertDescription className="text-red-800">{errorMessage}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="space-y-2">
+        <Label htmlFor="current-password">Senha atual</Label>
+        <Input
+          id="current-password"
+          type="password"
+          value={currentPassword}
+          onChange={(e) => setCurrentPassword(e.target.value)}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="new-password">Nova senha</Label>
+        <Input
+          id="new-password"
+          type="password"
+          value={newPassword}
+          onChange={(e) => setNewPassword(e.target.value)}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="confirm-new-password">Confirmar nova senha</Label>
+        <Input
+          id="confirm-new-password"
+          type="password"
+          value={confirmPassword}
+          onChange={(e) => setConfirmPassword(e.target.value)}
+        />
+      </div>
+
+      <Button type="submit" className="w-full" disabled={isLoading || !currentPassword || !newPassword}>
+        {isLoading ? 'Salvando...' : 'Alterar senha'}
+      </Button>
+
+      {onCancel && (
+        <div className="text-center">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="text-sm text-blue-600 hover:text-blue-500"
+          >
+            Voltar ao login
+          </button>
+        </div>
+      )}
+    </form>
+  );
+}
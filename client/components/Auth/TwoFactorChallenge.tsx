@@ -0,0 +1,160 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
+import { ShieldCheck, KeyRound } from 'lucide-react';
+import { apiService } from '@/services/apiService';
+
+export interface TwoFactorSetupData {
+  secret: string;
+  otpauthUri: string;
+  qrCode: string;
+}
+
+interface TwoFactorChallengeProps {
+  challengeToken: string;
+  mode: 'verify' | 'setup';
+  setup?: TwoFactorSetupData;
+  onSuccess: (user: any) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Segunda etapa do login: código TOTP do aplicativo autenticador,
+ * código de recuperação ou, quando o escritório exige 2FA, o cadastro
+ * do autenticador antes do primeiro acesso.
+ */
+export function TwoFactorChallenge({ challengeToken, mode, setup, onSuccess, onCancel }: TwoFactorChallengeProps) {
+  const [code, setCode] = useState('');
+  const [recoveryCode, setRecoveryCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [user, setUser] = useState<any>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [errorMessage, setErrorMessage] = useState('');
+
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setErrorMessage('');
+
+    try {
+      const response = await apiService.verifyTwoFactorLogin(
+        challengeToken,
+        useRecoveryCode ? { recoveryCode } : { code },
+      );
+
+      // Após o cadastro, exibir os códigos de recuperação uma única vez
+      if (response.recoveryCodes) {
+        setUser(response.user);
+        setRecoveryCodes(response.recoveryCodes);
+      } else {
+        onSuccess(response.user);
+      }
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : 'Código inválido');
+      setCode('');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (recoveryCodes) {
+    return (
+      <div className="space-y-4 mt-6">
+        <div className="text-center">
+          <KeyRound className="h-8 w-8 text-blue-600 mx-auto mb-2" />
+          <h3 className="text-lg font-medium">Códigos de recuperação</h3>
+          <p className="text-sm text-gray-600 mt-1">
+            Guarde estes códigos em local seguro. Cada um pode ser usado uma vez caso você perca o acesso ao autenticador.
+          </p>
+        </div>
+        <div className="grid grid-cols-2 gap-2 p-3 bg-gray-50 rounded-lg font-mono text-sm">
+          {recoveryCodes.map((recovery) => (
+            <span key={recovery}>{recovery}</span>
+          ))}
+        </div>
+        <Button className="w-full" onClick={() => onSuccess(user)}>
+          Já guardei, continuar
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleVerify} className="space-y-4 mt-6">
+      <div className="text-center">
+        <ShieldCheck className="h-8 w-8 text-blue-600 mx-auto mb-2" />
+        <h3 className="text-lg font-medium">
+          {mode === 'setup' ? 'Configure a verificação em duas etapas' : 'Verificação em duas etapas'}
+        </h3>
+        <p className="text-sm text-gray-600 mt-1">
+          {mode === 'setup'
+            ? 'Seu escritório exige 2FA. Escaneie o QR code com seu aplicativo autenticador e informe o código gerado.'
+            : 'Informe o código de 6 dígitos do seu aplicativo autenticador.'}
+        </p>
+      </div>
+
+      {errorMessage && (
+        <Alert className="border-red-200 bg-red-50">
+          <AlertDescription className="text-red-800">{errorMessage}</AlertDescription>
+        </Alert>
+      )}
+
+      {mode === 'setup' && setup && (
+        <div className="flex flex-col items-center space-y-2">
+          <img src={setup.qrCode} alt="QR code do autenticador" className="h-44 w-44" />
+          <p className="text-xs text-gray-500">Ou digite a chave manualmente:</p>
+          <code className="text-xs bg-gray-100 px-2 py-1 rounded break-all">{setup.secret}</code>
+        </div>
+      )}
+
+      {useRecoveryCode ? (
+        <div className="space-y-2">
+          <Label htmlFor="recovery-code">Código de recuperação</Label>
+          <Input
+            id="recovery-code"
+            placeholder="xxxxx-xxxxx"
+            value={recoveryCode}
+            onChange={(e) => setRecoveryCode(e.target.value)}
+          />
+        </div>
+      ) : (
+        <div className="flex justify-center">
+          <InputOTP maxLength={6} value={code} onChange={setCode}>
+            <InputOTPGroup>
+              {[0, 1, 2, 3, 4, 5].map((index) => (
+                <InputOTPSlot key={index} index={index} />
+              ))}
+            </InputOTPGroup>
+          </InputOTP>
+        </div>
+      )}
+
+      <Button
+        type="submit"
+        className="w-full"
+        disabled={isLoading || (useRecoveryCode ? !recoveryCode : code.length !== 6)}
+      >
+        {isLoading ? 'Verificando...' : 'Verificar'}
+      </Button>
+
+      <div className="flex items-center justify-between text-sm">
+        {mode === 'verify' ? (
+          <button
+            type="button"
+            onClick={() => setUseRecoveryCode(!useRecoveryCode)}
+            className="text-blue-600 hover:text-blue-500"
+          >
+            {useRecoveryCode ? 'Usar código do autenticador' : 'Usar código de recuperação'}
+          </button>
+        ) : <span />}
+        <button type="button" onClick={onCancel} className="text-gray-600 hover:text-gray-800">
+          Voltar ao login
+        </button>
+      </div>
+    </form>
+  );
+}
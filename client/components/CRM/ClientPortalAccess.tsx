@@ -0,0 +1,149 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Globe, X } from 'lucide-react';
+import { apiService } from '@/services/apiService';
+
+interface ClientPortalAccessProps {
+  clientId: string;
+  defaultEmail?: string;
+}
+
+/**
+ * Convite e controle de acesso do cliente ao portal (/portal).
+ * O cliente vê apenas suas faturas, seus processos e as publicações compartilhadas aqui.
+ */
+export function ClientPortalAccess({ clientId, defaultEmail }: ClientPortalAccessProps) {
+  const [account, setAccount] = useState<any>(null);
+  const [shares, setShares] = useState<any[]>([]);
+  const [email, setEmail] = useState(defaultEmail || '');
+  const [publicationId, setPublicationId] = useState('');
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const loadAccess = async () => {
+    try {
+      const response = await apiService.getClientPortal(clientId);
+      setAccount(response.account);
+      setShares(response.shares);
+      if (response.account?.email) {
+        setEmail(response.account.email);
+      }
+    } catch (error) {
+      setMessage({ type: 'error', text: 'Erro ao carregar acesso ao portal' });
+    }
+  };
+
+  useEffect(() => {
+    loadAccess();
+  }, [clientId]);
+
+  const run = async (operation: () => Promise<void>) => {
+    setIsLoading(true);
+    setMessage(null);
+    try {
+      await operation();
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Operação falhou' });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const invite = () => run(async () => {
+    const response = await apiService.inviteClientToPortal(clientId, email);
+    setAccount(response.account);
+    setMessage({ type: 'success', text: 'Convite enviado por email' });
+  });
+
+  const disable = () => run(async () => {
+    await apiService.disableClientPortal(clientId);
+    setAccount((current: any) => current && { ...current, isActive: false });
+  });
+
+  const share = () => run(async () => {
+    const response = await apiService.shareWithClientPortal(clientId, publicationId.trim());
+    setShares((current) => [response.share, ...current.filter((entry) => entry.id !== response.share.id)]);
+    setPublicationId('');
+  });
+
+  const unshare = (shareId: string) => run(async () => {
+    await apiService.unshareFromClientPortal(clientId, shareId);
+    setShares((current) => current.filter((entry) => entry.id !== shareId));
+  });
+
+  const status = !account
+    ? { label: 'Sem acesso', className: 'bg-gray-100 text-gray-800' }
+    : !account.isActive
+      ? { label: 'Desativado', className: 'bg-red-100 text-red-800' }
+      : account.activated
+        ? { label: 'Ativo', className: 'bg-green-100 text-green-800' }
+        : { label: 'Convite pendente', className: 'bg-yellow-100 text-yellow-800' };
+
+  return (
+    <div className="space-y-4">
+      <h3 className="text-lg font-semibold flex items-center">
+        <Globe className="h-5 w-5 mr-2" />
+        Portal do Cliente
+        <Badge className={`ml-2 ${status.className}`}>{status.label}</Badge>
+      </h3>
+
+      {message && (
+        <p className={`text-sm ${message.type === 'success' ? 'text-green-600' : 'text-red-600'}`}>{message.text}</p>
+      )}
+
+      <div className="flex items-end gap-2">
+        <div className="flex-1 space-y-2">
+          <Label htmlFor={`portal-email-${clientId}`}>Email de acesso</Label>
+          <Input
+            id={`portal-email-${clientId}`}
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+          />
+        </div>
+        <Button onClick={invite} disabled={isLoading || !email}>
+          {account ? 'Reenviar convite' : 'Enviar convite'}
+        </Button>
+        {account?.isActive && (
+          <Button variant="outline" onClick={disable} disabled={isLoading}>
+            Desativar
+          </Button>
+        )}
+      </div>
+      {account?.lastLogin && (
+        <p className="text-sm text-muted-foreground">
+          Último acesso: {new Date(account.lastLogin).toLocaleString('pt-BR')}
+        </p>
+      )}
+
+      <div className="space-y-2">
+        <Label htmlFor={`portal-share-${clientId}`}>Publicações compartilhadas</Label>
+        <div className="flex gap-2">
+          <Input
+            id={`portal-share-${clientId}`}
+            placeholder="ID da publicação"
+            value={publicationId}
+            onChange={(e) => setPublicationId(e.target.value)}
+          />
+          <Button variant="outline" onClick={share} disabled={isLoading || !publicationId.trim()}>
+            Compartilhar
+          </Button>
+        </div>
+        {shares.map((entry) => (
+          <div key={entry.id} className="flex items-center justify-between p-2 border rounded text-sm">
+            <span className="font-mono truncate">{entry.resourceId}</span>
+            <Button variant="ghost" size="sm" onClick={() => unshare(entry.id)} disabled={isLoading}>
+              <X className="h-3 w-3" />
+            </Button>
+          </div>
+        ))}
+        {shares.length === 0 && (
+          <p className="text-sm text-muted-foreground">Nenhuma publicação compartilhada</p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -6,6 +6,7 @@ import {
   DialogHeader,
   DialogTitle,
 } from '@/components/ui/dialog';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Badge } from '@/components/ui/badge';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Button } from '@/components/ui/button';
@@ -23,6 +24,8 @@ import {
   Tag,
 } from 'lucide-react';
 import { Client } from '@/types/crm';
+import { ClientPortalAccess } from './ClientPortalAccess';
+import { RecordHistory } from '@/components/History/RecordHistory';
 
 interface ClientViewDialogProps {
   open: boolean;
@@ -127,226 +130,244 @@ export function ClientViewDialog({
           </div>
         </DialogHeader>
 
-        <div className="space-y-6">
-          {/* Informações Básicas */}
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-            <div className="space-y-4">
-              <h3 className="text-lg font-semibold flex items-center">
-                <User className="h-5 w-5 mr-2" />
-                Informações Pessoais
-              </h3>
-              <div className="space-y-3">
-                <div className="flex items-center space-x-2">
-                  <Mail className="h-4 w-4 text-muted-foreground" />
-                  <span className="text-sm">{client.email}</span>
-                </div>
-                <div className="flex items-center space-x-2">
-                  <Phone className="h-4 w-4 text-muted-foreground" />
-                  <span className="text-sm">{client.mobile}</span>
-                </div>
-                <div className="flex items-center space-x-2">
-                  <MapPin className="h-4 w-4 text-muted-foreground" />
-                  <span className="text-sm">
-                    {client.address}, {client.city} - {client.state}, {client.zipCode}
-                  </span>
-                </div>
-                {client.cpf && (
-                  <div className="flex justify-between text-sm">
-                    <span className="text-muted-foreground">CPF:</span>
-                    <span>{client.cpf}</span>
-                  </div>
-                )}
-                {client.rg && (
-                  <div className="flex justify-between text-sm">
-                    <span className="text-muted-foreground">RG:</span>
-                    <span>{client.rg}</span>
-                  </div>
-                )}
-                {client.birthDate && (
-                  <div className="flex justify-between text-sm">
-                    <span className="text-muted-foreground">Data de Nascimento:</span>
-                    <span>{formatDate(client.birthDate)}</span>
-                  </div>
-                )}
-                {client.maritalStatus && (
-                  <div className="flex justify-between text-sm">
-                    <span className="text-muted-foreground">Estado Civil:</span>
-                    <span>{getMaritalStatusLabel(client.maritalStatus)}</span>
-                  </div>
-                )}
-                {client.professionalTitle && (
-                  <div className="flex justify-between text-sm">
-                    <span className="text-muted-foreground">Profissão:</span>
-                    <span>{client.professionalTitle}</span>
-                  </div>
-                )}
-              </div>
-            </div>
+        <Tabs defaultValue="details">
+          <TabsList>
+            <TabsTrigger value="details">Detalhes</TabsTrigger>
+            <TabsTrigger value="history">Histórico</TabsTrigger>
+          </TabsList>
 
-            <div className="space-y-4">
-              <h3 className="text-lg font-semibold flex items-center">
-                <DollarSign className="h-5 w-5 mr-2" />
-                Informações Financeiras
-              </h3>
-              <div className="space-y-3">
-                <div className="flex justify-between text-sm">
-                  <span className="text-muted-foreground">Orçamento:</span>
-                  <span className="font-medium">
-                    {formatCurrency(client.budget, client.currency)}
-                  </span>
-                </div>
-                {client.amountPaid && (
-                  <div className="flex justify-between text-sm">
-                    <span className="text-muted-foreground">Valor Pago:</span>
-                    <span className="font-medium text-green-600">
-                      {formatCurrency(client.amountPaid, client.currency)}
-                    </span>
-                  </div>
-                )}
-                {client.level && (
-                  <div className="flex justify-between text-sm">
-                    <span className="text-muted-foreground">Nível:</span>
-                    <Badge variant="outline">{client.level}</Badge>
-                  </div>
-                )}
-                {client.inssStatus && (
-                  <div className="flex justify-between text-sm">
-                    <span className="text-muted-foreground">Status INSS:</span>
-                    <Badge variant={client.inssStatus === 'active' ? 'default' : 'secondary'}>
-                      {client.inssStatus === 'active' ? 'Ativo' : 'Inativo'}
-                    </Badge>
+          <TabsContent value="details">
+            <div className="space-y-6">
+              {/* Informações Básicas */}
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div className="space-y-4">
+                  <h3 className="text-lg font-semibold flex items-center">
+                    <User className="h-5 w-5 mr-2" />
+                    Informações Pessoais
+                  </h3>
+                  <div className="space-y-3">
+                    <div className="flex items-center space-x-2">
+                      <Mail className="h-4 w-4 text-muted-foreground" />
+                      <span className="text-sm">{client.email}</span>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <Phone className="h-4 w-4 text-muted-foreground" />
+                      <span className="text-sm">{client.mobile}</span>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <MapPin className="h-4 w-4 text-muted-foreground" />
+                      <span className="text-sm">
+                        {client.address}, {client.city} - {client.state}, {client.zipCode}
+                      </span>
+                    </div>
+                    {client.cpf && (
+                      <div className="flex justify-between text-sm">
+                        <span className="text-muted-foreground">CPF:</span>
+                        <span>{client.cpf}</span>
+                      </div>
+                    )}
+                    {client.rg && (
+                      <div className="flex justify-between text-sm">
+                        <span className="text-muted-foreground">RG:</span>
+                        <span>{client.rg}</span>
+                      </div>
+                    )}
+                    {client.birthDate && (
+                      <div className="flex justify-between text-sm">
+                        <span className="text-muted-foreground">Data de Nascimento:</span>
+                        <span>{formatDate(client.birthDate)}</span>
+                      </div>
+                    )}
+                    {client.maritalStatus && (
+                      <div className="flex justify-between text-sm">
+                        <span className="text-muted-foreground">Estado Civil:</span>
+                        <span>{getMaritalStatusLabel(client.maritalStatus)}</span>
+                      </div>
+                    )}
+                    {client.professionalTitle && (
+                      <div className="flex justify-between text-sm">
+                        <span className="text-muted-foreground">Profissão:</span>
+                        <span>{client.professionalTitle}</span>
+                      </div>
+                    )}
                   </div>
-                )}
-              </div>
-            </div>
-          </div>
-
-          <Separator />
+                </div>
 
-          {/* Tags */}
-          {client.tags && client.tags.length > 0 && (
-            <div>
-              <h3 className="text-lg font-semibold flex items-center mb-3">
-                <Tag className="h-5 w-5 mr-2" />
-                Tags
-              </h3>
-              <div className="flex flex-wrap gap-2">
-                {client.tags.map((tag) => (
-                  <Badge key={tag} variant="secondary">
-                    {tag}
-                  </Badge>
-                ))}
+                <div className="space-y-4">
+                  <h3 className="text-lg font-semibold flex items-center">
+                    <DollarSign className="h-5 w-5 mr-2" />
+                    Informações Financeiras
+                  </h3>
+                  <div className="space-y-3">
+                    <div className="flex justify-between text-sm">
+                      <span className="text-muted-foreground">Orçamento:</span>
+                      <span className="font-medium">
+                        {formatCurrency(client.budget, client.currency)}
+                      </span>
+                    </div>
+                    {client.amountPaid && (
+                      <div className="flex justify-between text-sm">
+                        <span className="text-muted-foreground">Valor Pago:</span>
+                        <span className="font-medium text-green-600">
+                          {formatCurrency(client.amountPaid, client.currency)}
+                        </span>
+                      </div>
+                    )}
+                    {client.level && (
+                      <div className="flex justify-between text-sm">
+                        <span className="text-muted-foreground">Nível:</span>
+                        <Badge variant="outline">{client.level}</Badge>
+                      </div>
+                    )}
+                    {client.inssStatus && (
+                      <div className="flex justify-between text-sm">
+                        <span className="text-muted-foreground">Status INSS:</span>
+                        <Badge variant={client.inssStatus === 'active' ? 'default' : 'secondary'}>
+                          {client.inssStatus === 'active' ? 'Ativo' : 'Inativo'}
+                        </Badge>
+                      </div>
+                    )}
+                  </div>
+                </div>
               </div>
-            </div>
-          )}
 
-          {/* Descrição */}
-          {client.description && (
-            <div>
-              <h3 className="text-lg font-semibold flex items-center mb-3">
-                <FileText className="h-5 w-5 mr-2" />
-                Descrição
-              </h3>
-              <p className="text-sm text-muted-foreground">
-                {client.description}
-              </p>
-            </div>
-          )}
+              <Separator />
 
-          {/* Informações Adicionais */}
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-            <div>
-              <h3 className="text-lg font-semibold flex items-center mb-3">
-                <Calendar className="h-5 w-5 mr-2" />
-                Datas Importantes
-              </h3>
-              <div className="space-y-2 text-sm">
-                <div className="flex justify-between">
-                  <span className="text-muted-foreground">Criado em:</span>
-                  <span>{formatDate(client.createdAt)}</span>
+              {/* Tags */}
+              {client.tags && client.tags.length > 0 && (
+                <div>
+                  <h3 className="text-lg font-semibold flex items-center mb-3">
+                    <Tag className="h-5 w-5 mr-2" />
+                    Tags
+                  </h3>
+                  <div className="flex flex-wrap gap-2">
+                    {client.tags.map((tag) => (
+                      <Badge key={tag} variant="secondary">
+                        {tag}
+                      </Badge>
+                    ))}
+                  </div>
                 </div>
-                <div className="flex justify-between">
-                  <span className="text-muted-foreground">Atualizado em:</span>
-                  <span>{formatDate(client.updatedAt)}</span>
+              )}
+
+              {/* Descrição */}
+              {client.description && (
+                <div>
+                  <h3 className="text-lg font-semibold flex items-center mb-3">
+                    <FileText className="h-5 w-5 mr-2" />
+                    Descrição
+                  </h3>
+                  <p className="text-sm text-muted-foreground">
+                    {client.description}
+                  </p>
                 </div>
-              </div>
-            </div>
+              )}
 
-            {(client.referredBy || client.registeredBy) && (
-              <div>
-                <h3 className="text-lg font-semibold mb-3">Referências</h3>
-                <div className="space-y-2 text-sm">
-                  {client.referredBy && (
+              {/* Informações Adicionais */}
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div>
+                  <h3 className="text-lg font-semibold flex items-center mb-3">
+                    <Calendar className="h-5 w-5 mr-2" />
+                    Datas Importantes
+                  </h3>
+                  <div className="space-y-2 text-sm">
                     <div className="flex justify-between">
-                      <span className="text-muted-foreground">Indicado por:</span>
-                      <span>{client.referredBy}</span>
+                      <span className="text-muted-foreground">Criado em:</span>
+                      <span>{formatDate(client.createdAt)}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">Atualizado em:</span>
+                      <span>{formatDate(client.updatedAt)}</span>
                     </div>
-                  )}
-                  <div className="flex justify-between">
-                    <span className="text-muted-foreground">Cadastrado por:</span>
-                    <span>{client.registeredBy || 'Sistema Automático'}</span>
                   </div>
                 </div>
-              </div>
-            )}
 
-            {/* IMPLEMENTAÇÃO: Seção de Documentos do Cliente */}
-            <div className="col-span-2">
-              <Separator className="my-6" />
-              <div>
-                <h3 className="text-lg font-semibold mb-3 flex items-center">
-                  <FileText className="h-5 w-5 mr-2" />
-                  Documentos do Cliente
-                </h3>
-                {/* COMENTÁRIO IMPLEMENTAÇÃO FUTURA:
-                    Esta seção mostrará os arquivos enviados no formulário de cliente.
+                {(client.referredBy || client.registeredBy) && (
+                  <div>
+                    <h3 className="text-lg font-semibold mb-3">Referências</h3>
+                    <div className="space-y-2 text-sm">
+                      {client.referredBy && (
+                        <div className="flex justify-between">
+                          <span className="text-muted-foreground">Indicado por:</span>
+                          <span>{client.referredBy}</span>
+                        </div>
+                      )}
+                      <div className="flex justify-between">
+                        <span className="text-muted-foreground">Cadastrado por:</span>
+                        <span>{client.registeredBy || 'Sistema Automático'}</span>
+                      </div>
+                    </div>
+                  </div>
+                )}
+
+                {/* IMPLEMENTAÇÃO: Seção de Documentos do Cliente */}
+                <div className="col-span-2">
+                  <Separator className="my-6" />
+                  <div>
+                    <h3 className="text-lg font-semibold mb-3 flex items-center">
+                      <FileText className="h-5 w-5 mr-2" />
+                      Documentos do Cliente
+                    </h3>
+                    {/* COMENTÁRIO IMPLEMENTAÇÃO FUTURA:
+                        Esta seção mostrará os arquivos enviados no formulário de cliente.
 
-                    BACKEND IMPLEMENTA��ÃO:
-                    - Tabela: client_files
-                      * id, client_id, original_name, file_path, file_type, file_size
-                      * uploaded_at, uploaded_by
-                    - API: GET /api/clients/{id}/files
-                    - Storage: AWS S3 ou similar para arquivos
+                        BACKEND IMPLEMENTA��ÃO:
+                        - Tabela: client_files
+                          * id, client_id, original_name, file_path, file_type, file_size
+                          * uploaded_at, uploaded_by
+                        - API: GET /api/clients/{id}/files
+                        - Storage: AWS S3 ou similar para arquivos
 
-                    FUNCIONALIDADES:
-                    - Preview de imagens (PNG, JPEG)
-                    - Download de PDFs
-                    - Controle de acesso (só quem pode ver)
-                    - Logs de acesso aos arquivos
-                */}
-                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-                  {/* Exemplo de arquivo - será dinâmico */}
-                  <div className="border rounded-lg p-3 hover:shadow-md transition-shadow">
-                    <div className="flex items-center space-x-3">
-                      <div className="w-10 h-10 bg-blue-100 rounded-lg flex items-center justify-center">
-                        <FileText className="h-5 w-5 text-blue-600" />
+                        FUNCIONALIDADES:
+                        - Preview de imagens (PNG, JPEG)
+                        - Download de PDFs
+                        - Controle de acesso (só quem pode ver)
+                        - Logs de acesso aos arquivos
+                    */}
+                    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                      {/* Exemplo de arquivo - será dinâmico */}
+                      <div className="border rounded-lg p-3 hover:shadow-md transition-shadow">
+                        <div className="flex items-center space-x-3">
+                          <div className="w-10 h-10 bg-blue-100 rounded-lg flex items-center justify-center">
+                            <FileText className="h-5 w-5 text-blue-600" />
+                          </div>
+                          <div className="flex-1 min-w-0">
+                            <p className="text-sm font-medium truncate">documento_cliente.pdf</p>
+                            <p className="text-xs text-muted-foreground">245 KB • PDF</p>
+                          </div>
+                        </div>
+                        <div className="mt-3 flex space-x-2">
+                          <Button size="sm" variant="outline" className="flex-1">
+                            Visualizar
+                          </Button>
+                          <Button size="sm" variant="outline" className="flex-1">
+                            Download
+                          </Button>
+                        </div>
                       </div>
-                      <div className="flex-1 min-w-0">
-                        <p className="text-sm font-medium truncate">documento_cliente.pdf</p>
-                        <p className="text-xs text-muted-foreground">245 KB • PDF</p>
+
+                      {/* Quando não há arquivos */}
+                      <div className="col-span-full text-center py-8 text-muted-foreground">
+                        <FileText className="h-12 w-12 mx-auto mb-3 opacity-50" />
+                        <p>Nenhum documento anexado</p>
+                        <p className="text-sm">Os arquivos enviados no cadastro aparecerão aqui</p>
                       </div>
                     </div>
-                    <div className="mt-3 flex space-x-2">
-                      <Button size="sm" variant="outline" className="flex-1">
-                        Visualizar
-                      </Button>
-                      <Button size="sm" variant="outline" className="flex-1">
-                        Download
-                      </Button>
-                    </div>
                   </div>
+                </div>
 
-                  {/* Quando não há arquivos */}
-                  <div className="col-span-full text-center py-8 text-muted-foreground">
-                    <FileText className="h-12 w-12 mx-auto mb-3 opacity-50" />
-                    <p>Nenhum documento anexado</p>
-                    <p className="text-sm">Os arquivos enviados no cadastro aparecerão aqui</p>
-                  </div>
+                <div className="col-span-2">
+                  <Separator className="my-6" />
+                  <ClientPortalAccess clientId={client.id} defaultEmail={client.email} />
                 </div>
               </div>
             </div>
-          </div>
-        </div>
+          </TabsContent>
+
+          <TabsContent value="history">
+            <RecordHistory resource="clients" recordId={client.id} />
+          </TabsContent>
+        </Tabs>
       </DialogContent>
     </Dialog>
   );
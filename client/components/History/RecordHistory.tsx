@@ -0,0 +1,118 @@
+import React, { useEffect, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { History, RotateCcw } from 'lucide-react';
+import { apiService } from '@/services/apiService';
+import { HistoryEntry, HistoryResource } from '@/types/history';
+
+const OPERATION_LABELS: Record<string, string> = {
+  CREATE: 'Criado',
+  UPDATE: 'Alterado',
+  DELETE: 'Excluído',
+  RESTORE: 'Versão restaurada',
+};
+
+function formatValue(value: unknown) {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+interface RecordHistoryProps {
+  resource: HistoryResource;
+  recordId: string;
+}
+
+/**
+ * Histórico de alterações de um registro, campo a campo, com autor e data.
+ * "Restaurar esta versão" volta o registro ao estado deixado por aquela alteração.
+ */
+export function RecordHistory({ resource, recordId }: RecordHistoryProps) {
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const load = async () => {
+    try {
+      const response = await apiService.getRecordHistory(resource, recordId);
+      setEntries(response.history);
+    } catch (loadError) {
+      setMessage({ type: 'error', text: 'Erro ao carregar o histórico' });
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, [resource, recordId]);
+
+  const restore = async (entry: HistoryEntry) => {
+    if (!confirm(`Restaurar a versão de ${new Date(entry.createdAt).toLocaleString('pt-BR')}?`)) return;
+
+    setIsLoading(true);
+    setMessage(null);
+    try {
+      await apiService.restoreRecordVersion(resource, recordId, entry.id);
+      await load();
+      setMessage({ type: 'success', text: 'Versão restaurada. Reabra o registro para ver os dados atualizados.' });
+    } catch (restoreError) {
+      setMessage({
+        type: 'error',
+        text: restoreError instanceof Error ? restoreError.message : 'Erro ao restaurar a versão',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div>
+      <h3 className="text-lg font-semibold flex items-center mb-3">
+        <History className="h-5 w-5 mr-2" />
+        Histórico de alterações
+      </h3>
+      {message && (
+        <p className={`text-sm mb-2 ${message.type === 'error' ? 'text-red-600' : 'text-green-600'}`}>{message.text}</p>
+      )}
+      {entries.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Nenhuma alteração registrada.</p>
+      ) : (
+        <div className="space-y-3">
+          {entries.map((entry, index) => (
+            <div key={entry.id} className="border rounded-lg p-3 space-y-2">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center space-x-2 text-sm">
+                  <Badge variant={entry.operation === 'DELETE' ? 'destructive' : 'secondary'}>
+                    {OPERATION_LABELS[entry.operation] || entry.operation}
+                  </Badge>
+                  <span>{entry.actor?.name || 'Sistema'}</span>
+                  {entry.impersonatedBy && (
+                    <span className="text-muted-foreground">(suporte: {entry.impersonatedBy})</span>
+                  )}
+                  <span className="text-muted-foreground">{new Date(entry.createdAt).toLocaleString('pt-BR')}</span>
+                </div>
+                {/* A primeira entrada já é o estado atual */}
+                {entry.restorable && index > 0 && (
+                  <Button variant="outline" size="sm" onClick={() => restore(entry)} disabled={isLoading}>
+                    <RotateCcw className="h-4 w-4 mr-1" />
+                    Restaurar esta versão
+                  </Button>
+                )}
+              </div>
+              {entry.operation !== 'CREATE' && entry.changes.length > 0 && (
+                <div className="text-xs space-y-1">
+                  {entry.changes.map((change) => (
+                    <div key={change.field} className="grid grid-cols-3 gap-2">
+                      <span className="font-mono text-muted-foreground">{change.field}</span>
+                      <span className="line-through text-red-700 break-all">{formatValue(change.from)}</span>
+                      <span className="text-green-700 break-all">{formatValue(change.to)}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -56,10 +56,12 @@ import {
   Scale,
   Newspaper,
   CreditCard,
+  Trash2,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { UserProfileDialog } from "./UserProfileDialog";
 import { NotificationsPanel } from "./NotificationsPanel";
+import { ImpersonationBanner } from "./ImpersonationBanner";
 import { useDialogBodyFix } from "@/hooks/use-dialog-body-fix";
 
 const navigation = [
@@ -71,6 +73,7 @@ const navigation = [
   { name: "Gestão de Recebíveis", href: "/recebiveis", icon: CreditCard },
   { name: "Fluxo de Caixa", href: "/fluxo-caixa", icon: TrendingUp },
   { name: "Painel de Publicações", href: "/publicacoes", icon: Newspaper },
+  { name: "Lixeira", href: "/lixeira", icon: Trash2 },
   { name: "Configurações", href: "/configuracoes", icon: Settings },
 ];
 
@@ -206,6 +209,9 @@ export function DashboardLayout({ children }: DashboardLayoutProps) {
 
       {/* Main Content */}
       <div className="flex-1 flex flex-col overflow-hidden">
+        {/* Support access banner */}
+        <ImpersonationBanner />
+
         {/* Top Header */}
         <header className="bg-background border-b border-border px-6 py-4">
           <div className="flex items-center justify-between">
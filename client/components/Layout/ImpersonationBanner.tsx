@@ -0,0 +1,57 @@
+import React, { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { ShieldAlert } from "lucide-react";
+import { apiService } from "@/services/apiService";
+
+interface ImpersonationInfo {
+  adminName: string;
+  adminEmail: string;
+  expiresAt: string;
+}
+
+/**
+ * Faixa exibida enquanto o suporte acessa o sistema como um usuário.
+ * Tudo o que é feito nesta aba fica na auditoria com a identidade do suporte.
+ */
+export function ImpersonationBanner() {
+  const [impersonation, setImpersonation] = useState<ImpersonationInfo | null>(null);
+  const [userName, setUserName] = useState("");
+
+  useEffect(() => {
+    if (!apiService.isImpersonating()) {
+      return;
+    }
+    apiService.getProfile()
+      .then((response) => {
+        setImpersonation(response.impersonation);
+        setUserName(response.user.name);
+      })
+      .catch((error) => console.error("Erro ao carregar acesso de suporte:", error));
+  }, []);
+
+  const endAccess = async () => {
+    await apiService.endImpersonation();
+    window.location.href = "/suporte";
+  };
+
+  if (!impersonation) {
+    return null;
+  }
+
+  return (
+    <div className="bg-amber-500 text-amber-950 px-6 py-2 flex items-center justify-between text-sm">
+      <div className="flex items-center">
+        <ShieldAlert className="h-4 w-4 mr-2" />
+        <span>
+          <strong>Acesso de suporte:</strong> {impersonation.adminName} ({impersonation.adminEmail}) está
+          usando o sistema como {userName} até{" "}
+          {new Date(impersonation.expiresAt).toLocaleTimeString("pt-BR", { hour: "2-digit", minute: "2-digit" })}.
+          Todas as ações são registradas na auditoria.
+        </span>
+      </div>
+      <Button variant="outline" size="sm" className="bg-transparent border-amber-950" onClick={endAccess}>
+        Encerrar acesso
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,253 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Key, Plus, Copy } from 'lucide-react';
+import { apiService } from '@/services/apiService';
+import { ApiKey, Permission } from '@/types/settings';
+import { MODULE_LABELS, ACTION_LABELS } from './RoleEditorDialog';
+
+const MODULES = Object.keys(MODULE_LABELS);
+const ACTIONS = Object.keys(ACTION_LABELS) as Permission['action'][];
+
+/**
+ * Chaves de API para integrações (n8n, scripts).
+ * A chave age em nome de quem a criou, limitada aos escopos escolhidos,
+ * e só é exibida uma vez, logo após a criação.
+ */
+export function ApiKeys() {
+  const [apiKeys, setApiKeys] = useState<ApiKey[]>([]);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [expiresAt, setExpiresAt] = useState('');
+  const [scopes, setScopes] = useState<Set<string>>(new Set());
+  const [createdKey, setCreatedKey] = useState<string | null>(null);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const loadKeys = async () => {
+    try {
+      const response = await apiService.getApiKeys();
+      setApiKeys(response.apiKeys);
+    } catch (error) {
+      setMessage({ type: 'error', text: 'Erro ao carregar chaves de API' });
+    }
+  };
+
+  useEffect(() => {
+    loadKeys();
+  }, []);
+
+  const openDialog = () => {
+    setName('');
+    setExpiresAt('');
+    setScopes(new Set());
+    setIsDialogOpen(true);
+  };
+
+  const toggleScope = (key: string, checked: boolean) => {
+    setScopes((current) => {
+      const next = new Set(current);
+      if (checked) {
+        next.add(key);
+      } else {
+        next.delete(key);
+      }
+      return next;
+    });
+  };
+
+  const createKey = async () => {
+    setIsLoading(true);
+    setMessage(null);
+    try {
+      const response = await apiService.createApiKey({
+        name,
+        expiresAt: expiresAt ? new Date(`${expiresAt}T23:59:59`).toISOString() : null,
+        scopes: Array.from(scopes).map((key) => {
+          const [module, action] = key.split(':');
+          return { module, action: action as Permission['action'], granted: true };
+        }),
+      });
+      setCreatedKey(response.key);
+      setApiKeys((current) => [response.apiKey, ...current]);
+      setIsDialogOpen(false);
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Erro ao criar chave' });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const revokeKey = async (id: string) => {
+    setMessage(null);
+    try {
+      await apiService.revokeApiKey(id);
+      setApiKeys((current) => current.filter((apiKey) => apiKey.id !== id));
+      setMessage({ type: 'success', text: 'Chave revogada' });
+    } catch (error) {
+      setMessage({ type: 'error', text: 'Erro ao revogar chave' });
+    }
+  };
+
+  const describeScopes = (apiKey: ApiKey) => {
+    if (apiKey.scopes.length === 0) {
+      return 'Mesmas permissões do criador';
+    }
+
+    return apiKey.scopes
+      .map((scope) => `${MODULE_LABELS[scope.module] || scope.module}: ${ACTION_LABELS[scope.action]}`)
+      .join(', ');
+  };
+
+  return (
+    <div className="space-y-6">
+      {message && (
+        <Alert className={message.type === 'success' ? 'border-green-200 bg-green-50' : 'border-red-200 bg-red-50'}>
+          <AlertDescription className={message.type === 'success' ? 'text-green-800' : 'text-red-800'}>
+            {message.text}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {createdKey && (
+        <Alert className="border-yellow-200 bg-yellow-50">
+          <AlertDescription className="space-y-2 text-yellow-900">
+            <p>Copie a chave agora. Ela não será exibida novamente.</p>
+            <div className="flex items-center gap-2">
+              <code className="flex-1 p-2 bg-white border rounded text-sm break-all">{createdKey}</code>
+              <Button variant="outline" size="sm" onClick={() => navigator.clipboard.writeText(createdKey)}>
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+            <Button variant="ghost" size="sm" onClick={() => setCreatedKey(null)}>
+              Já copiei
+            </Button>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between">
+            <span className="flex items-center">
+              <Key className="h-5 w-5 mr-2" />
+              Chaves de API
+            </span>
+            <Button size="sm" onClick={openDialog}>
+              <Plus className="h-4 w-4 mr-1" />
+              Nova chave
+            </Button>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <p className="text-sm text-muted-foreground">
+            Envie a chave no cabeçalho <code>Authorization: Bearer &lt;chave&gt;</code> ou <code>X-API-Key</code>.
+          </p>
+          {apiKeys.map((apiKey) => (
+            <div key={apiKey.id} className="flex items-center justify-between p-3 border rounded-lg">
+              <div>
+                <div className="font-medium flex items-center gap-2">
+                  {apiKey.name}
+                  <Badge variant="secondary">{apiKey.prefix}…</Badge>
+                </div>
+                <p className="text-sm text-muted-foreground">{describeScopes(apiKey)}</p>
+                <p className="text-sm text-muted-foreground">
+                  {apiKey.creator?.name && `${apiKey.creator.name} · `}
+                  Último uso: {apiKey.lastUsedAt ? new Date(apiKey.lastUsedAt).toLocaleString('pt-BR') : 'nunca'}
+                  {apiKey.expiresAt && ` · Expira em ${new Date(apiKey.expiresAt).toLocaleDateString('pt-BR')}`}
+                </p>
+              </div>
+              <Button variant="ghost" size="sm" onClick={() => revokeKey(apiKey.id)}>
+                Revogar
+              </Button>
+            </div>
+          ))}
+          {apiKeys.length === 0 && (
+            <p className="text-sm text-muted-foreground">Nenhuma chave de API criada</p>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Nova Chave de API</DialogTitle>
+            <DialogDescription>
+              Sem escopos marcados, a chave terá as mesmas permissões que você. Escopos nunca ampliam suas permissões.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="api-key-name">Nome</Label>
+                <Input
+                  id="api-key-name"
+                  placeholder="Ex.: n8n - cobranças"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="api-key-expiry">Expira em (opcional)</Label>
+                <Input
+                  id="api-key-expiry"
+                  type="date"
+                  value={expiresAt}
+                  onChange={(e) => setExpiresAt(e.target.value)}
+                />
+              </div>
+            </div>
+
+            <div className="border rounded-lg">
+              <div className="grid grid-cols-5 gap-2 p-3 border-b text-sm font-medium">
+                <span>Escopo</span>
+                {ACTIONS.map((action) => (
+                  <span key={action} className="text-center">{ACTION_LABELS[action]}</span>
+                ))}
+              </div>
+              {MODULES.map((module) => (
+                <div key={module} className="grid grid-cols-5 gap-2 px-3 py-2 text-sm items-center">
+                  <span>{MODULE_LABELS[module]}</span>
+                  {ACTIONS.map((action) => {
+                    const key = `${module}:${action}`;
+                    return (
+                      <div key={key} className="flex justify-center">
+                        <Checkbox
+                          checked={scopes.has(key)}
+                          onCheckedChange={(checked) => toggleScope(key, checked === true)}
+                        />
+                      </div>
+                    );
+                  })}
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
+              Cancelar
+            </Button>
+            <Button onClick={createKey} disabled={isLoading || name.trim().length < 2}>
+              {isLoading ? 'Criando...' : 'Criar chave'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
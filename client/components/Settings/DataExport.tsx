@@ -0,0 +1,147 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Download, PackageOpen } from 'lucide-react';
+import { apiService } from '@/services/apiService';
+import { TenantExport } from '@/types/settings';
+
+const STATUS_LABELS: Record<TenantExport['status'], string> = {
+  pending: 'Na fila',
+  running: 'Gerando',
+  completed: 'Pronto',
+  failed: 'Falhou',
+  expired: 'Expirado',
+};
+
+const formatSize = (bytes: number | null) =>
+  bytes === null ? '' : bytes < 1024 * 1024 ? `${Math.ceil(bytes / 1024)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+/**
+ * Exportação completa dos dados do escritório (portabilidade LGPD).
+ * O arquivo é gerado em segundo plano e fica disponível para download por tempo limitado.
+ */
+export function DataExport() {
+  const [exports, setExports] = useState<TenantExport[]>([]);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const inProgress = exports.some((item) => item.status === 'pending' || item.status === 'running');
+
+  const loadExports = async () => {
+    try {
+      const response = await apiService.getDataExports();
+      setExports(response.exports);
+    } catch (error) {
+      setMessage({ type: 'error', text: 'Erro ao carregar exportações' });
+    }
+  };
+
+  useEffect(() => {
+    loadExports();
+  }, []);
+
+  // Acompanha o progresso enquanto houver exportação em andamento
+  useEffect(() => {
+    if (!inProgress) return;
+    const timer = setInterval(loadExports, 2000);
+    return () => clearInterval(timer);
+  }, [inProgress]);
+
+  const requestExport = async () => {
+    setIsLoading(true);
+    setMessage(null);
+
+    try {
+      await apiService.requestDataExport();
+      await loadExports();
+      setMessage({ type: 'success', text: 'Exportação iniciada. Você pode continuar usando o sistema.' });
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Erro ao iniciar exportação' });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // O link expira em minutos, então é pedido na hora do clique
+  const download = async (item: TenantExport) => {
+    try {
+      const response = await apiService.getDataExport(item.id);
+      if (!response.export.downloadUrl) {
+        throw new Error('Arquivo não está mais disponível');
+      }
+      window.location.href = apiService.resolveApiUrl(response.export.downloadUrl);
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Erro ao baixar exportação' });
+      loadExports();
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <PackageOpen className="h-5 w-5 mr-2" />
+          Exportar Dados do Escritório
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {message && (
+          <Alert className={message.type === 'success' ? 'border-green-200 bg-green-50' : 'border-red-200 bg-red-50'}>
+            <AlertDescription className={message.type === 'success' ? 'text-green-800' : 'text-red-800'}>
+              {message.text}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <div className="flex items-center justify-between gap-4">
+          <p className="text-sm text-muted-foreground">
+            Gera um arquivo .zip com todos os dados do escritório (clientes, projetos, tarefas, financeiro,
+            usuários e configurações) em JSON e CSV. Senhas e segredos não são incluídos.
+          </p>
+          <Button onClick={requestExport} disabled={isLoading || inProgress}>
+            Exportar tudo
+          </Button>
+        </div>
+
+        {exports.length > 0 && (
+          <div className="space-y-3">
+            {exports.map((item) => (
+              <div key={item.id} className="border rounded-lg p-3 space-y-2">
+                <div className="flex items-center justify-between">
+                  <div className="text-sm">
+                    <span className="font-medium">{new Date(item.createdAt).toLocaleString('pt-BR')}</span>
+                    {item.fileSize !== null && (
+                      <span className="text-muted-foreground ml-2">{formatSize(item.fileSize)}</span>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Badge variant={item.status === 'failed' ? 'destructive' : 'secondary'}>
+                      {STATUS_LABELS[item.status]}
+                    </Badge>
+                    {item.downloadUrl && (
+                      <Button size="sm" variant="outline" onClick={() => download(item)}>
+                        <Download className="h-4 w-4 mr-1" />
+                        Baixar
+                      </Button>
+                    )}
+                  </div>
+                </div>
+
+                {(item.status === 'pending' || item.status === 'running') && <Progress value={item.progress} />}
+                {item.status === 'completed' && item.expiresAt && (
+                  <p className="text-xs text-muted-foreground">
+                    Disponível até {new Date(item.expiresAt).toLocaleString('pt-BR')}
+                  </p>
+                )}
+                {item.status === 'failed' && item.error && <p className="text-xs text-red-600">{item.error}</p>}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
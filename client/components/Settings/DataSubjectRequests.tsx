@@ -0,0 +1,209 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { FileSearch, UserX } from 'lucide-react';
+import { apiService } from '@/services/apiService';
+import { DataSubjectRequest } from '@/types/settings';
+
+const TYPE_LABELS: Record<DataSubjectRequest['type'], string> = {
+  access: 'Relatório de dados',
+  anonymization: 'Anonimização',
+};
+
+const STATUS_LABELS: Record<DataSubjectRequest['status'], string> = {
+  open: 'Em aberto',
+  completed: 'Concluída',
+  rejected: 'Recusada',
+};
+
+function downloadJson(fileName: string, data: unknown) {
+  const url = URL.createObjectURL(new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Solicitações de titulares (LGPD): relatório dos dados pessoais de um cliente e
+ * anonimização irreversível, com prazo legal e registro de conclusão.
+ */
+export function DataSubjectRequests() {
+  const [requests, setRequests] = useState<DataSubjectRequest[]>([]);
+  const [clients, setClients] = useState<{ id: string; name: string }[]>([]);
+  const [clientId, setClientId] = useState('');
+  const [type, setType] = useState<DataSubjectRequest['type']>('access');
+  const [notes, setNotes] = useState('');
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const clientName = (id: string) => clients.find((client) => client.id === id)?.name || 'Cliente removido';
+
+  const load = async () => {
+    try {
+      const [requestsResponse, clientsResponse] = await Promise.all([
+        apiService.getDataRequests(),
+        apiService.getClients({ limit: 500 }),
+      ]);
+      setRequests(requestsResponse.requests);
+      setClients(clientsResponse.clients);
+    } catch (error) {
+      setMessage({ type: 'error', text: 'Erro ao carregar solicitações' });
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  const run = async (action: () => Promise<unknown>, success: string) => {
+    setIsLoading(true);
+    setMessage(null);
+    try {
+      await action();
+      await load();
+      setMessage({ type: 'success', text: success });
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Erro ao processar solicitação' });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const createRequest = () =>
+    run(async () => {
+      await apiService.createDataRequest({ clientId, type, notes: notes || undefined });
+      setClientId('');
+      setNotes('');
+    }, 'Solicitação registrada');
+
+  const generateReport = (request: DataSubjectRequest) =>
+    run(async () => {
+      const { report } = await apiService.generateDataReport(request.id);
+      downloadJson(`dados-pessoais-${request.client_id}.json`, report);
+    }, 'Relatório gerado');
+
+  const anonymize = (request: DataSubjectRequest) => {
+    if (!confirm(`Anonimizar ${clientName(request.client_id)}? Os dados pessoais serão apagados definitivamente.`)) return;
+    run(() => apiService.anonymizeDataSubject(request.id), 'Cliente anonimizado');
+  };
+
+  const reject = (request: DataSubjectRequest) => {
+    const reason = prompt('Motivo da recusa:');
+    if (!reason) return;
+    run(() => apiService.rejectDataRequest(request.id, reason), 'Solicitação recusada');
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <FileSearch className="h-5 w-5 mr-2" />
+          Solicitações de Titulares (LGPD)
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {message && (
+          <Alert className={message.type === 'success' ? 'border-green-200 bg-green-50' : 'border-red-200 bg-red-50'}>
+            <AlertDescription className={message.type === 'success' ? 'text-green-800' : 'text-red-800'}>
+              {message.text}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>Cliente</Label>
+            <Select value={clientId} onValueChange={setClientId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Selecione o cliente" />
+              </SelectTrigger>
+              <SelectContent>
+                {clients.map((client) => (
+                  <SelectItem key={client.id} value={client.id}>
+                    {client.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Tipo</Label>
+            <Select value={type} onValueChange={(value) => setType(value as DataSubjectRequest['type'])}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="access">{TYPE_LABELS.access}</SelectItem>
+                <SelectItem value="anonymization">{TYPE_LABELS.anonymization}</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <div className="space-y-2">
+          <Label>Observações</Label>
+          <Textarea
+            value={notes}
+            onChange={(event) => setNotes(event.target.value)}
+            placeholder="Como a solicitação foi recebida, protocolo..."
+          />
+        </div>
+        <Button onClick={createRequest} disabled={!clientId || isLoading}>
+          Registrar solicitação
+        </Button>
+
+        {requests.length > 0 && (
+          <div className="space-y-3">
+            {requests.map((request) => (
+              <div key={request.id} className="border rounded-lg p-3 space-y-2">
+                <div className="flex items-center justify-between">
+                  <div className="text-sm">
+                    <span className="font-medium">{clientName(request.client_id)}</span>
+                    <span className="text-muted-foreground ml-2">{TYPE_LABELS[request.type]}</span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {request.overdue && <Badge variant="destructive">Prazo vencido</Badge>}
+                    <Badge variant="secondary">{STATUS_LABELS[request.status]}</Badge>
+                  </div>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Aberta em {new Date(request.created_at).toLocaleDateString('pt-BR')} · prazo{' '}
+                  {new Date(request.due_at).toLocaleDateString('pt-BR')}
+                  {request.completed_at && ` · encerrada em ${new Date(request.completed_at).toLocaleDateString('pt-BR')}`}
+                </p>
+                {request.status === 'rejected' && request.result?.reason && (
+                  <p className="text-xs text-muted-foreground">Motivo: {request.result.reason}</p>
+                )}
+                <div className="flex gap-2">
+                  {request.type === 'access' && request.status !== 'rejected' && (
+                    <Button size="sm" variant="outline" onClick={() => generateReport(request)} disabled={isLoading}>
+                      <FileSearch className="h-4 w-4 mr-1" />
+                      Gerar relatório
+                    </Button>
+                  )}
+                  {request.type === 'anonymization' && request.status === 'open' && (
+                    <Button size="sm" variant="destructive" onClick={() => anonymize(request)} disabled={isLoading}>
+                      <UserX className="h-4 w-4 mr-1" />
+                      Anonimizar
+                    </Button>
+                  )}
+                  {request.status === 'open' && (
+                    <Button size="sm" variant="ghost" onClick={() => reject(request)} disabled={isLoading}>
+                      Recusar
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
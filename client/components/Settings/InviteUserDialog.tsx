@@ -0,0 +1,133 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { TeamInvite, UserRole } from '@/types/settings';
+
+export const ACCOUNT_TYPE_LABELS: Record<TeamInvite['accountType'], string> = {
+  SIMPLES: 'Conta Simples',
+  COMPOSTA: 'Conta Composta',
+  GERENCIAL: 'Conta Gerencial',
+};
+
+// Valor usado no Select para "sem função personalizada"
+const DEFAULT_ROLE = 'default';
+
+interface InviteUserDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  roles: UserRole[];
+  onInvite: (data: { email: string; accountType: TeamInvite['accountType']; roleId: string | null }) => Promise<void>;
+}
+
+/**
+ * Convite de um novo colaborador por email.
+ * O convite ocupa uma vaga do plano até ser aceito, revogado ou expirar.
+ */
+export function InviteUserDialog({ open, onOpenChange, roles, onInvite }: InviteUserDialogProps) {
+  const [email, setEmail] = useState('');
+  const [accountType, setAccountType] = useState<TeamInvite['accountType']>('SIMPLES');
+  const [roleId, setRoleId] = useState(DEFAULT_ROLE);
+  const [isSaving, setIsSaving] = useState(false);
+  const [errorMessage, setErrorMessage] = useState('');
+
+  useEffect(() => {
+    if (open) {
+      setEmail('');
+      setAccountType('SIMPLES');
+      setRoleId(DEFAULT_ROLE);
+      setErrorMessage('');
+    }
+  }, [open]);
+
+  const handleInvite = async () => {
+    setIsSaving(true);
+    setErrorMessage('');
+    try {
+      await onInvite({ email, accountType, roleId: roleId === DEFAULT_ROLE ? null : roleId });
+      onOpenChange(false);
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : 'Erro ao enviar convite');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Convidar Usuário</DialogTitle>
+          <DialogDescription>
+            O colaborador recebe um link por email para criar a própria senha.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="invite-email">Email</Label>
+            <Input id="invite-email" type="email" value={email} onChange={(e) => setEmail(e.target.value)} />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Tipo de conta</Label>
+            <Select
+              value={accountType}
+              onValueChange={(value) => setAccountType(value as TeamInvite['accountType'])}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(ACCOUNT_TYPE_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Função</Label>
+            <Select value={roleId} onValueChange={setRoleId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={DEFAULT_ROLE}>Padrão do tipo de conta</SelectItem>
+                {roles.filter(r => !r.isSystem).map((role) => (
+                  <SelectItem key={role.id} value={role.id}>{role.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {errorMessage && <p className="text-sm text-red-600">{errorMessage}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancelar
+          </Button>
+          <Button onClick={handleInvite} disabled={isSaving || !email}>
+            {isSaving ? 'Enviando...' : 'Enviar convite'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
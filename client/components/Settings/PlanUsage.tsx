@@ -0,0 +1,87 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { CheckCircle, Gauge, XCircle } from 'lucide-react';
+import { apiService } from '@/services/apiService';
+import { PlanFeature, PlanUsage as PlanUsageData } from '@/types/settings';
+
+const LIMIT_LABELS: Record<keyof PlanUsageData['usage'], string> = {
+  users: 'Usuários',
+  storage: 'Armazenamento de anexos',
+  monthlyInvoices: 'Faturas neste mês',
+  monitoredPublications: 'OABs monitoradas em publicações',
+};
+
+export const FEATURE_LABELS: Record<PlanFeature, string> = {
+  receivables_automation: 'Automação de cobranças',
+  publications: 'Monitoramento de publicações',
+  client_portal: 'Portal do cliente',
+};
+
+const formatValue = (key: keyof PlanUsageData['usage'], value: number) =>
+  key === 'storage' ? `${(value / 1024 / 1024 / 1024).toFixed(2)} GB` : String(value);
+
+/**
+ * Plano contratado pelo escritório: uso de cada limite e recursos incluídos.
+ * Para mudar de plano, fale com o suporte.
+ */
+export function PlanUsage() {
+  const [plan, setPlan] = useState<PlanUsageData | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    apiService
+      .getPlan()
+      .then((response) => setPlan(response.plan))
+      .catch(() => setError('Erro ao carregar o plano'));
+  }, []);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center">
+            <Gauge className="h-5 w-5 mr-2" />
+            Plano e Uso
+          </span>
+          {plan && <Badge variant="secondary">{plan.plan.name}</Badge>}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        {plan && (
+          <>
+            {(Object.keys(LIMIT_LABELS) as (keyof PlanUsageData['usage'])[]).map((key) => {
+              const { used, limit } = plan.usage[key];
+              const reached = limit !== null && used >= limit;
+              return (
+                <div key={key} className="space-y-1">
+                  <div className="flex justify-between text-sm">
+                    <span>{LIMIT_LABELS[key]}</span>
+                    <span className={reached ? 'text-red-600 font-medium' : 'text-muted-foreground'}>
+                      {formatValue(key, used)} / {limit === null ? 'ilimitado' : formatValue(key, limit)}
+                    </span>
+                  </div>
+                  {limit !== null && <Progress value={limit > 0 ? Math.min((used / limit) * 100, 100) : 100} />}
+                </div>
+              );
+            })}
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-2 pt-2">
+              {(Object.keys(FEATURE_LABELS) as PlanFeature[]).map((feature) => (
+                <div key={feature} className="flex items-center text-sm">
+                  {plan.features.includes(feature) ? (
+                    <CheckCircle className="h-4 w-4 mr-2 text-green-600" />
+                  ) : (
+                    <XCircle className="h-4 w-4 mr-2 text-muted-foreground" />
+                  )}
+                  {FEATURE_LABELS[feature]}
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
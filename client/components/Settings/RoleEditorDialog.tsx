@@ -0,0 +1,160 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Permission, UserRole } from '@/types/settings';
+
+export const MODULE_LABELS: Record<string, string> = {
+  dashboard: 'Dashboard',
+  clients: 'CRM',
+  projects: 'Projetos',
+  tasks: 'Tarefas',
+  invoices: 'Cobrança',
+  transactions: 'Fluxo de Caixa',
+  settings: 'Configurações',
+  users: 'Usuários e Funções',
+};
+
+export const ACTION_LABELS: Record<Permission['action'], string> = {
+  read: 'Ler',
+  write: 'Editar',
+  delete: 'Excluir',
+  admin: 'Total',
+};
+
+interface RoleEditorDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  role?: UserRole;
+  modules: string[];
+  actions: Permission['action'][];
+  onSave: (data: { name: string; description: string; permissions: Permission[] }) => Promise<void>;
+}
+
+/**
+ * Criação/edição de funções personalizadas do escritório.
+ * As funções de sistema (Simples, Composta, Gerencial) são somente leitura.
+ */
+export function RoleEditorDialog({ open, onOpenChange, role, modules, actions, onSave }: RoleEditorDialogProps) {
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [granted, setGranted] = useState<Set<string>>(new Set());
+  const [isSaving, setIsSaving] = useState(false);
+  const [errorMessage, setErrorMessage] = useState('');
+
+  useEffect(() => {
+    if (open) {
+      setName(role?.name || '');
+      setDescription(role?.description || '');
+      setGranted(new Set(
+        (role?.permissions || [])
+          .filter((permission) => permission.granted)
+          .map((permission) => `${permission.module}:${permission.action}`)
+      ));
+      setErrorMessage('');
+    }
+  }, [open, role]);
+
+  const toggle = (key: string, checked: boolean) => {
+    setGranted((current) => {
+      const next = new Set(current);
+      if (checked) {
+        next.add(key);
+      } else {
+        next.delete(key);
+      }
+      return next;
+    });
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setErrorMessage('');
+    try {
+      await onSave({
+        name,
+        description,
+        permissions: Array.from(granted).map((key) => {
+          const [module, action] = key.split(':');
+          return { module, action: action as Permission['action'], granted: true };
+        }),
+      });
+      onOpenChange(false);
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : 'Erro ao salvar função');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{role ? 'Editar Função' : 'Nova Função'}</DialogTitle>
+          <DialogDescription>
+            "Total" inclui todas as ações do módulo; "Editar" e "Excluir" incluem leitura.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="role-name">Nome</Label>
+              <Input id="role-name" value={name} onChange={(e) => setName(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="role-description">Descrição</Label>
+              <Input id="role-description" value={description} onChange={(e) => setDescription(e.target.value)} />
+            </div>
+          </div>
+
+          <div className="border rounded-lg">
+            <div className="grid grid-cols-5 gap-2 p-3 border-b text-sm font-medium">
+              <span>Módulo</span>
+              {actions.map((action) => (
+                <span key={action} className="text-center">{ACTION_LABELS[action]}</span>
+              ))}
+            </div>
+            {modules.map((module) => (
+              <div key={module} className="grid grid-cols-5 gap-2 px-3 py-2 text-sm items-center">
+                <span>{MODULE_LABELS[module] || module}</span>
+                {actions.map((action) => {
+                  const key = `${module}:${action}`;
+                  return (
+                    <div key={key} className="flex justify-center">
+                      <Checkbox
+                        checked={granted.has(key)}
+                        onCheckedChange={(checked) => toggle(key, checked === true)}
+                      />
+                    </div>
+                  );
+                })}
+              </div>
+            ))}
+          </div>
+
+          {errorMessage && <p className="text-sm text-red-600">{errorMessage}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancelar
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving || name.trim().length < 2}>
+            {isSaving ? 'Salvando...' : 'Salvar'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
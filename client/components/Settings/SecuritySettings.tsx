@@ -0,0 +1,432 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
+import { Shield, ShieldCheck, KeyRound, Lock, Monitor } from 'lucide-react';
+import { apiService } from '@/services/apiService';
+import { SecuritySettings as SecuritySettingsType } from '@/types/settings';
+import { TwoFactorSetupData } from '@/components/Auth/TwoFactorChallenge';
+import { ChangePasswordForm } from '@/components/Auth/ChangePasswordForm';
+import { hasPermission } from '@/lib/permissions';
+import { SsoSettings } from './SsoSettings';
+import { DataExport } from './DataExport';
+import { DataSubjectRequests } from './DataSubjectRequests';
+
+type PasswordPolicy = SecuritySettingsType['passwordPolicy'];
+type SessionPolicy = SecuritySettingsType['sessionSettings'];
+
+const CHARACTER_RULES: { key: keyof PasswordPolicy; label: string }[] = [
+  { key: 'requireUppercase', label: 'Exigir letra maiúscula' },
+  { key: 'requireLowercase', label: 'Exigir letra minúscula' },
+  { key: 'requireNumbers', label: 'Exigir número' },
+  { key: 'requireSpecialChars', label: 'Exigir caractere especial' },
+];
+
+function OtpField({ value, onChange }: { value: string; onChange: (value: string) => void }) {
+  return (
+    <InputOTP maxLength={6} value={value} onChange={onChange}>
+      <InputOTPGroup>
+        {[0, 1, 2, 3, 4, 5].map((index) => (
+          <InputOTPSlot key={index} index={index} />
+        ))}
+      </InputOTPGroup>
+    </InputOTP>
+  );
+}
+
+export function SecuritySettings() {
+  const [profile, setProfile] = useState<any>(null);
+  const [security, setSecurity] = useState<SecuritySettingsType | null>(null);
+  const [setup, setSetup] = useState<TwoFactorSetupData | null>(null);
+  const [code, setCode] = useState('');
+  const [password, setPassword] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [passwordPolicy, setPasswordPolicy] = useState<PasswordPolicy | null>(null);
+  const [sessions, setSessions] = useState<any[]>([]);
+  const [sessionPolicy, setSessionPolicy] = useState<SessionPolicy | null>(null);
+
+  const isManager = hasPermission(profile?.permissions, 'settings', 'admin');
+  const twoFactorEnabled = !!profile?.twoFactorEnabled;
+
+  const loadData = async () => {
+    try {
+      const [profileResponse, securityResponse, sessionsResponse] = await Promise.all([
+        apiService.getProfile(),
+        apiService.getSecuritySettings(),
+        apiService.getSessions(),
+      ]);
+      setProfile(profileResponse.user);
+      setSessions(sessionsResponse.sessions);
+      setSecurity(securityResponse.security);
+      setPasswordPolicy(securityResponse.security.passwordPolicy);
+      setSessionPolicy(securityResponse.security.sessionSettings);
+    } catch (error) {
+      setMessage({ type: 'error', text: 'Erro ao carregar configurações de segurança' });
+    }
+  };
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  const run = async (operation: () => Promise<void>) => {
+    setIsLoading(true);
+    setMessage(null);
+    try {
+      await operation();
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Operação falhou' });
+    } finally {
+      setIsLoading(false);
+      setCode('');
+    }
+  };
+
+  const startSetup = () => run(async () => {
+    setSetup(await apiService.setupTwoFactor());
+  });
+
+  const confirmSetup = () => run(async () => {
+    const response = await apiService.enableTwoFactor(code);
+    setRecoveryCodes(response.recoveryCodes);
+    setSetup(null);
+    setMessage({ type: 'success', text: 'Verificação em duas etapas ativada' });
+    await loadData();
+  });
+
+  const disable = () => run(async () => {
+    await apiService.disableTwoFactor(password, code);
+    setPassword('');
+    setRecoveryCodes(null);
+    setMessage({ type: 'success', text: 'Verificação em duas etapas desativada' });
+    await loadData();
+  });
+
+  const regenerateCodes = () => run(async () => {
+    const response = await apiService.regenerateRecoveryCodes(code);
+    setRecoveryCodes(response.recoveryCodes);
+  });
+
+  const updatePolicy = (update: Partial<SecuritySettingsType>) => run(async () => {
+    const response = await apiService.updateSecuritySettings(update);
+    setSecurity(response.security);
+    setPasswordPolicy(response.security.passwordPolicy);
+    setSessionPolicy(response.security.sessionSettings);
+    setMessage({ type: 'success', text: 'Política de segurança atualizada' });
+  });
+
+  const revokeSession = (id: string) => run(async () => {
+    await apiService.revokeSession(id);
+    setSessions((current) => current.filter((session) => session.id !== id));
+    setMessage({ type: 'success', text: 'Sessão encerrada' });
+  });
+
+  const signOutEverywhere = () => run(async () => {
+    await apiService.revokeAllSessions();
+    window.location.href = '/login';
+  });
+
+  const updatePasswordPolicyField = (update: Partial<PasswordPolicy>) => {
+    setPasswordPolicy((current) => current && { ...current, ...update });
+  };
+
+  return (
+    <div className="space-y-6">
+      {message && (
+        <Alert className={message.type === 'success' ? 'border-green-200 bg-green-50' : 'border-red-200 bg-red-50'}>
+          <AlertDescription className={message.type === 'success' ? 'text-green-800' : 'text-red-800'}>
+            {message.text}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {/* Verificação em duas etapas do próprio usuário */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between">
+            <span className="flex items-center">
+              <ShieldCheck className="h-5 w-5 mr-2" />
+              Verificação em Duas Etapas
+            </span>
+            <Badge variant={twoFactorEnabled ? 'default' : 'secondary'}>
+              {twoFactorEnabled ? 'Ativa' : 'Inativa'}
+            </Badge>
+          </CardTitle>
+          <p className="text-sm text-muted-foreground">
+            Proteja sua conta com um código gerado por aplicativo autenticador (Google Authenticator, Authy, 1Password)
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {!twoFactorEnabled && !setup && (
+            <Button onClick={startSetup} disabled={isLoading}>
+              Configurar autenticador
+            </Button>
+          )}
+
+          {setup && (
+            <div className="space-y-4">
+              <div className="flex flex-col items-center space-y-2">
+                <img src={setup.qrCode} alt="QR code do autenticador" className="h-44 w-44" />
+                <code className="text-xs bg-muted px-2 py-1 rounded break-all">{setup.secret}</code>
+              </div>
+              <div className="flex flex-col items-center space-y-3">
+                <Label>Código gerado pelo aplicativo</Label>
+                <OtpField value={code} onChange={setCode} />
+                <Button onClick={confirmSetup} disabled={isLoading || code.length !== 6}>
+                  Confirmar e ativar
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {twoFactorEnabled && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label>Código atual do autenticador</Label>
+                <OtpField value={code} onChange={setCode} />
+              </div>
+              <div className="flex flex-wrap gap-2">
+                <Button variant="outline" onClick={regenerateCodes} disabled={isLoading || code.length !== 6}>
+                  <KeyRound className="h-4 w-4 mr-2" />
+                  Gerar novos códigos de recuperação
+                </Button>
+              </div>
+              {!security?.twoFactorAuth.required && (
+                <div className="flex flex-wrap items-end gap-2 pt-2 border-t">
+                  <div className="space-y-2">
+                    <Label htmlFor="disable-2fa-password">Senha</Label>
+                    <Input
+                      id="disable-2fa-password"
+                      type="password"
+                      value={password}
+                      onChange={(e) => setPassword(e.target.value)}
+                    />
+                  </div>
+                  <Button variant="destructive" onClick={disable} disabled={isLoading || !password || code.length !== 6}>
+                    Desativar 2FA
+                  </Button>
+                </div>
+              )}
+            </div>
+          )}
+
+          {recoveryCodes && (
+            <div className="space-y-2">
+              <p className="text-sm text-muted-foreground">
+                Guarde estes códigos de recuperação. Eles não serão exibidos novamente.
+              </p>
+              <div className="grid grid-cols-2 gap-2 p-3 bg-muted rounded-lg font-mono text-sm">
+                {recoveryCodes.map((recovery) => (
+                  <span key={recovery}>{recovery}</span>
+                ))}
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Senha do próprio usuário */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <Lock className="h-5 w-5 mr-2" />
+            Alterar Senha
+          </CardTitle>
+          {security && (
+            <p className="text-sm text-muted-foreground">
+              Mínimo de {security.passwordPolicy.minLength} caracteres
+              {security.passwordPolicy.historyCount > 0 &&
+                `, diferente das últimas ${security.passwordPolicy.historyCount} senhas`}
+            </p>
+          )}
+        </CardHeader>
+        <CardContent className="max-w-md">
+          <ChangePasswordForm
+            onSuccess={() => setMessage({ type: 'success', text: 'Senha alterada com sucesso' })}
+          />
+        </CardContent>
+      </Card>
+
+      {/* Sessões ativas do próprio usuário */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between">
+            <span className="flex items-center">
+              <Monitor className="h-5 w-5 mr-2" />
+              Sessões Ativas
+            </span>
+            <Button variant="outline" size="sm" onClick={signOutEverywhere} disabled={isLoading}>
+              Sair de todos os dispositivos
+            </Button>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {sessions.map((session) => (
+            <div key={session.id} className="flex items-center justify-between p-3 border rounded-lg">
+              <div>
+                <div className="font-medium flex items-center gap-2">
+                  {session.device}
+                  {session.current && <Badge variant="secondary">Este dispositivo</Badge>}
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  {session.ipAddress || 'IP desconhecido'} · Último acesso{' '}
+                  {new Date(session.lastSeenAt).toLocaleString('pt-BR')}
+                </p>
+              </div>
+              {!session.current && (
+                <Button variant="ghost" size="sm" onClick={() => revokeSession(session.id)} disabled={isLoading}>
+                  Encerrar
+                </Button>
+              )}
+            </div>
+          ))}
+          {sessions.length === 0 && (
+            <p className="text-sm text-muted-foreground">Nenhuma sessão ativa</p>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Política do escritório (permissão settings:admin) */}
+      {isManager && security && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <Shield className="h-5 w-5 mr-2" />
+              Política de Segurança do Escritório
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex items-center justify-between">
+              <div>
+                <Label>Exigir verificação em duas etapas</Label>
+                <p className="text-sm text-muted-foreground">
+                  Todos os usuários precisarão cadastrar um autenticador no próximo login
+                </p>
+              </div>
+              <Switch
+                checked={security.twoFactorAuth.required}
+                disabled={isLoading}
+                onCheckedChange={(checked) => updatePolicy({
+                  twoFactorAuth: { ...security.twoFactorAuth, required: checked },
+                })}
+              />
+            </div>
+
+            <div className="flex items-center justify-between">
+              <div>
+                <Label>Permitir acesso do suporte</Label>
+                <p className="text-sm text-muted-foreground">
+                  O suporte pode entrar temporariamente como um usuário para investigar problemas; todo acesso fica na auditoria
+                </p>
+              </div>
+              <Switch
+                checked={security.supportAccess.allowImpersonation}
+                disabled={isLoading}
+                onCheckedChange={(checked) => updatePolicy({
+                  supportAccess: { allowImpersonation: checked },
+                })}
+              />
+            </div>
+
+            {passwordPolicy && (
+              <div className="space-y-4 pt-4 border-t">
+                <Label>Política de senhas</Label>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="policy-min-length">Tamanho mínimo</Label>
+                    <Input
+                      id="policy-min-length"
+                      type="number"
+                      min={8}
+                      value={passwordPolicy.minLength}
+                      onChange={(e) => updatePasswordPolicyField({ minLength: Number(e.target.value) })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="policy-expiry">Expiração (dias, 0 = nunca)</Label>
+                    <Input
+                      id="policy-expiry"
+                      type="number"
+                      min={0}
+                      value={passwordPolicy.expiryDays ?? 0}
+                      onChange={(e) => updatePasswordPolicyField({ expiryDays: Number(e.target.value) })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="policy-history">Senhas anteriores bloqueadas</Label>
+                    <Input
+                      id="policy-history"
+                      type="number"
+                      min={0}
+                      max={24}
+                      value={passwordPolicy.historyCount}
+                      onChange={(e) => updatePasswordPolicyField({ historyCount: Number(e.target.value) })}
+                    />
+                  </div>
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                  {CHARACTER_RULES.map((rule) => (
+                    <div key={rule.key} className="flex items-center justify-between">
+                      <Label>{rule.label}</Label>
+                      <Switch
+                        checked={!!passwordPolicy[rule.key]}
+                        onCheckedChange={(checked) => updatePasswordPolicyField({ [rule.key]: checked })}
+                      />
+                    </div>
+                  ))}
+                </div>
+                <Button onClick={() => updatePolicy({ passwordPolicy })} disabled={isLoading}>
+                  Salvar política de senhas
+                </Button>
+              </div>
+            )}
+
+            {sessionPolicy && (
+              <div className="space-y-4 pt-4 border-t">
+                <Label>Sessões</Label>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="policy-max-sessions">Sessões simultâneas por usuário</Label>
+                    <Input
+                      id="policy-max-sessions"
+                      type="number"
+                      min={1}
+                      value={sessionPolicy.maxSessions}
+                      onChange={(e) => setSessionPolicy({ ...sessionPolicy, maxSessions: Number(e.target.value) })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="policy-timeout">Encerrar após inatividade (minutos)</Label>
+                    <Input
+                      id="policy-timeout"
+                      type="number"
+                      min={5}
+                      value={sessionPolicy.timeoutMinutes}
+                      onChange={(e) => setSessionPolicy({ ...sessionPolicy, timeoutMinutes: Number(e.target.value) })}
+                    />
+                  </div>
+                </div>
+                <Button onClick={() => updatePolicy({ sessionSettings: sessionPolicy })} disabled={isLoading}>
+                  Salvar política de sessões
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {isManager && <SsoSettings />}
+
+      {profile?.accountType === 'GERENCIAL' && <DataExport />}
+
+      {profile?.accountType === 'GERENCIAL' && <DataSubjectRequests />}
+    </div>
+  );
+}
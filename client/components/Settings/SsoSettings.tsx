@@ -0,0 +1,235 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { LogIn } from 'lucide-react';
+import { apiService } from '@/services/apiService';
+import { SsoConfig } from '@/types/settings';
+import { ACCOUNT_TYPE_LABELS } from './InviteUserDialog';
+
+const EMPTY_CONFIG: Omit<SsoConfig, 'redirectUri' | 'verificationRecord'> = {
+  enabled: false,
+  issuer: '',
+  clientId: '',
+  hasClientSecret: false,
+  allowedDomains: [],
+  verifiedDomains: [],
+  defaultAccountType: 'SIMPLES',
+  disablePasswordLogin: false,
+};
+
+/**
+ * Login único (OpenID Connect) do escritório.
+ * Usuários dos domínios autorizados entram pelo provedor de identidade e são criados no primeiro acesso.
+ * Cada domínio só passa a valer depois de verificado por um registro TXT no DNS.
+ */
+export function SsoSettings() {
+  const [config, setConfig] = useState(EMPTY_CONFIG);
+  const [redirectUri, setRedirectUri] = useState('');
+  const [verificationRecord, setVerificationRecord] = useState('');
+  const [domains, setDomains] = useState('');
+  const [clientSecret, setClientSecret] = useState('');
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const applyConfig = (sso: SsoConfig | null) => {
+    if (sso) {
+      const { redirectUri: uri, verificationRecord: record, ...rest } = sso;
+      setConfig(rest);
+      setRedirectUri(uri);
+      setVerificationRecord(record);
+      setDomains(rest.allowedDomains.join(', '));
+    }
+    setClientSecret('');
+  };
+
+  useEffect(() => {
+    apiService
+      .getSsoSettings()
+      .then((response) => applyConfig(response.sso))
+      .catch(() => setMessage({ type: 'error', text: 'Erro ao carregar configuração de SSO' }));
+  }, []);
+
+  const save = async () => {
+    setIsLoading(true);
+    setMessage(null);
+
+    try {
+      const response = await apiService.updateSsoSettings({
+        enabled: config.enabled,
+        issuer: config.issuer.trim(),
+        clientId: config.clientId.trim(),
+        // Em branco mantém o segredo atual
+        ...(clientSecret && { clientSecret }),
+        allowedDomains: domains.split(/[\s,;]+/).filter(Boolean),
+        defaultAccountType: config.defaultAccountType,
+        disablePasswordLogin: config.disablePasswordLogin,
+      });
+      applyConfig(response.sso);
+      setMessage({ type: 'success', text: 'Configuração de SSO salva' });
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Erro ao salvar SSO' });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const verifyDomain = async (domain: string) => {
+    setIsLoading(true);
+    setMessage(null);
+
+    try {
+      const response = await apiService.verifySsoDomain(domain);
+      applyConfig(response.sso);
+      setMessage({ type: 'success', text: `Domínio ${domain} verificado` });
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Erro ao verificar o domínio' });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <LogIn className="h-5 w-5 mr-2" />
+          Login Único (SSO)
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {message && (
+          <Alert className={message.type === 'success' ? 'border-green-200 bg-green-50' : 'border-red-200 bg-red-50'}>
+            <AlertDescription className={message.type === 'success' ? 'text-green-800' : 'text-red-800'}>
+              {message.text}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <div className="flex items-center justify-between">
+          <div>
+            <Label>Ativar login com OpenID Connect</Label>
+            <p className="text-sm text-muted-foreground">
+              Usuários dos domínios abaixo poderão entrar pelo provedor de identidade do escritório
+            </p>
+          </div>
+          <Switch
+            checked={config.enabled}
+            onCheckedChange={(checked) => setConfig({ ...config, enabled: checked })}
+          />
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="sso-issuer">Issuer</Label>
+            <Input
+              id="sso-issuer"
+              placeholder="https://login.exemplo.com"
+              value={config.issuer}
+              onChange={(e) => setConfig({ ...config, issuer: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="sso-client-id">Client ID</Label>
+            <Input
+              id="sso-client-id"
+              value={config.clientId}
+              onChange={(e) => setConfig({ ...config, clientId: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="sso-client-secret">Client secret</Label>
+            <Input
+              id="sso-client-secret"
+              type="password"
+              placeholder={config.hasClientSecret ? '•••••••• (mantido se em branco)' : 'Opcional com PKCE'}
+              value={clientSecret}
+              onChange={(e) => setClientSecret(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="sso-domains">Domínios autorizados</Label>
+            <Input
+              id="sso-domains"
+              placeholder="escritorio.com.br, filial.com.br"
+              value={domains}
+              onChange={(e) => setDomains(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Tipo de conta para novos usuários</Label>
+            <Select
+              value={config.defaultAccountType}
+              onValueChange={(value) => setConfig({ ...config, defaultAccountType: value as SsoConfig['defaultAccountType'] })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(ACCOUNT_TYPE_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {redirectUri && (
+            <div className="space-y-2">
+              <Label>URL de retorno (cadastre no provedor)</Label>
+              <Input value={redirectUri} readOnly />
+            </div>
+          )}
+        </div>
+
+        {verificationRecord && config.allowedDomains.length > 0 && (
+          <div className="space-y-2">
+            <Label>Verificação dos domínios</Label>
+            <p className="text-sm text-muted-foreground">
+              Publique este registro TXT no DNS de cada domínio e clique em verificar:
+            </p>
+            <Input value={verificationRecord} readOnly />
+            {config.allowedDomains.map((domain) => (
+              <div key={domain} className="flex items-center justify-between text-sm">
+                <span>{domain}</span>
+                {config.verifiedDomains.includes(domain) ? (
+                  <span className="text-green-700">Verificado</span>
+                ) : (
+                  <Button variant="outline" size="sm" onClick={() => verifyDomain(domain)} disabled={isLoading}>
+                    Verificar
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex items-center justify-between">
+          <div>
+            <Label>Desativar login com senha</Label>
+            <p className="text-sm text-muted-foreground">
+              Todos os usuários do escritório passam a entrar somente pelo SSO
+            </p>
+          </div>
+          <Switch
+            checked={config.disablePasswordLogin}
+            disabled={!config.enabled || config.verifiedDomains.length === 0}
+            onCheckedChange={(checked) => setConfig({ ...config, disablePasswordLogin: checked })}
+          />
+        </div>
+
+        <Button onClick={save} disabled={isLoading}>
+          {isLoading ? 'Salvando...' : 'Salvar SSO'}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
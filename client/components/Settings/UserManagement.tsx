@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -13,158 +13,66 @@ import {
   TableRow,
 } from '@/components/ui/table';
 // REMOVIDO: Imports de DropdownMenu não utilizados após remoção das ações
-// REMOVIDO: Imports de Dialog não utilizados após remoção das funcionalidades de edição
-// REMOVIDO: Imports de Select não utilizados após remoção dos dialogs
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { Switch } from '@/components/ui/switch';
 import {
   Users,
   Shield,
   Mail,
   Phone,
-  Calendar
-  // REMOVIDO: Ícones de ação não utilizados (MoreHorizontal, Edit, Trash2, UserCheck, UserX)
+  Calendar,
+  LogOut,
+  Lock,
+  Plus,
+  Edit,
+  Trash2,
+  UserPlus,
+  UserCheck,
+  UserX,
+  X
 } from 'lucide-react';
-import { User, UserRole } from '@/types/settings';
+import { Permission, SeatUsage, TeamInvite, User, UserRole } from '@/types/settings';
+import { apiService } from '@/services/apiService';
+import { RoleEditorDialog, MODULE_LABELS, ACTION_LABELS } from './RoleEditorDialog';
+import { InviteUserDialog, ACCOUNT_TYPE_LABELS } from './InviteUserDialog';
 
-// SISTEMA DE 3 TIPOS DE CONTA IMPLEMENTADO
-// Conforme solicitado: Conta Simples, Conta Composta, Conta Gerencial
-const mockRoles: UserRole[] = [
-  {
-    id: '1',
-    name: 'Conta Simples',
-    description: 'Acesso apenas ao CRM e áreas básicas do sistema',
-    permissions: [
-      // CRM - Acesso total
-      { module: 'crm', action: 'admin', granted: true },
-      // Dashboard - SEM informações financeiras (receitas, despesas, saldo)
-      { module: 'dashboard', action: 'read_basic', granted: true },
-      { module: 'dashboard', action: 'read_financial', granted: false },
-      // Projetos - Acesso total
-      { module: 'projetos', action: 'admin', granted: true },
-      // Tarefas - Acesso total
-      { module: 'tarefas', action: 'admin', granted: true },
-      // Cobrança - Acesso total
-      { module: 'cobranca', action: 'admin', granted: true },
-      // Fluxo de Caixa - SEM acesso
-      { module: 'fluxo-caixa', action: 'read', granted: false },
-      // Configurações - Apenas Notificações e Perfil
-      { module: 'configuracoes', action: 'read_basic', granted: true },
-      { module: 'configuracoes', action: 'admin', granted: false },
-    ],
-    isSystem: true,
-    createdAt: '2024-01-01T00:00:00Z',
-    updatedAt: '2024-01-01T00:00:00Z',
-  },
-  {
-    id: '2',
-    name: 'Conta Composta',
-    description: 'Acesso ao CRM + Fluxo de Caixa (Dashboard completo)',
-    permissions: [
-      // Dashboard - Acesso completo (incluindo informações financeiras)
-      { module: 'dashboard', action: 'admin', granted: true },
-      // CRM - Acesso total
-      { module: 'crm', action: 'admin', granted: true },
-      // Projetos - Acesso total
-      { module: 'projetos', action: 'admin', granted: true },
-      // Tarefas - Acesso total
-      { module: 'tarefas', action: 'admin', granted: true },
-      // Cobrança - Acesso total
-      { module: 'cobranca', action: 'admin', granted: true },
-      // Fluxo de Caixa - Acesso total
-      { module: 'fluxo-caixa', action: 'admin', granted: true },
-      // Configurações - Apenas Notificações e Perfil
-      { module: 'configuracoes', action: 'read_basic', granted: true },
-      { module: 'configuracoes', action: 'admin', granted: false },
-    ],
-    isSystem: true,
-    createdAt: '2024-01-01T00:00:00Z',
-    updatedAt: '2024-01-01T00:00:00Z',
-  },
-  {
-    id: '3',
-    name: 'Conta Gerencial',
-    description: 'Acesso completo + Controle de colaboradores + Sistema de auditoria',
-    permissions: [
-      // Todos os módulos - Acesso administrativo completo
-      { module: 'dashboard', action: 'admin', granted: true },
-      { module: 'crm', action: 'admin', granted: true },
-      { module: 'projetos', action: 'admin', granted: true },
-      { module: 'tarefas', action: 'admin', granted: true },
-      { module: 'cobranca', action: 'admin', granted: true },
-      { module: 'fluxo-caixa', action: 'admin', granted: true },
-      { module: 'configuracoes', action: 'admin', granted: true },
-      // Funcionalidades especiais de gerência
-      { module: 'user-management', action: 'admin', granted: true },
-      { module: 'audit-system', action: 'admin', granted: true },
-      { module: 'plan-management', action: 'admin', granted: true },
-      // IMPLEMENTAÇÃO FUTURA: Controle de planos
-      // - Consegue ver todas as contas do sistema
-      // - Sistema de auditoria de cada conta
-      // - Pode alterar usuários de Simples para Composta (baseado no plano)
-      // - Controle de senhas e usuários
-    ],
-    isSystem: true,
-    createdAt: '2024-01-01T00:00:00Z',
-    updatedAt: '2024-01-01T00:00:00Z',
-  },
-];
+// SISTEMA DE FUNÇÕES
+// As funções de sistema (Conta Simples, Composta e Gerencial) vêm do tipo de conta;
+// o escritório pode criar funções personalizadas e atribuí-las a cada usuário.
+// Valor usado no Select para "sem função personalizada"
+const DEFAULT_ROLE = 'default';
 
-const mockUsers: User[] = [
-  {
-    id: '1',
-    name: 'Dr. Silva (Gerente)',
-    email: 'silva@escritorio.com.br',
-    phone: '(11) 99999-1234',
-    roleId: '3', // Conta Gerencial
-    role: mockRoles[2],
-    status: 'active',
-    lastLogin: '2024-01-28T14:30:00Z',
-    createdAt: '2024-01-01T00:00:00Z',
-    updatedAt: '2024-01-28T14:30:00Z',
-    permissions: mockRoles[2].permissions,
-    clientPortalAccess: false,
-  },
-  {
-    id: '2',
-    name: 'Dra. Costa (Financeiro)',
-    email: 'costa@escritorio.com.br',
-    phone: '(11) 88888-5678',
-    roleId: '2', // Conta Composta
-    role: mockRoles[1],
-    status: 'active',
-    lastLogin: '2024-01-28T10:15:00Z',
-    createdAt: '2024-01-10T00:00:00Z',
-    updatedAt: '2024-01-28T10:15:00Z',
-    permissions: mockRoles[1].permissions,
-    clientPortalAccess: false,
-  },
-  {
-    id: '3',
-    name: 'Ana (Atendimento)',
-    email: 'ana@escritorio.com.br',
-    phone: '(11) 77777-9999',
-    roleId: '1', // Conta Simples
-    role: mockRoles[0],
-    status: 'active',
-    lastLogin: '2024-01-27T16:45:00Z',
-    createdAt: '2024-01-15T00:00:00Z',
-    updatedAt: '2024-01-27T16:45:00Z',
-    permissions: mockRoles[0].permissions,
-    clientPortalAccess: true,
-  },
-  {
-    id: '4',
-    name: 'Carlos (Estagiário)',
-    email: 'carlos@escritorio.com.br',
-    roleId: '1', // Conta Simples
-    role: mockRoles[0],
-    status: 'pending',
-    createdAt: '2024-01-25T00:00:00Z',
-    updatedAt: '2024-01-25T00:00:00Z',
-    permissions: mockRoles[0].permissions,
+// Converte o usuário retornado por GET /api/users para o modelo da tela
+function toUser(apiUser: any, roles: UserRole[]): User | null {
+  const role = roles.find(r => r.id === apiUser.roleId)
+    || roles.find(r => r.id === `system:${apiUser.accountType}`);
+
+  if (!role) {
+    return null;
+  }
+
+  return {
+    id: apiUser.id,
+    name: apiUser.name,
+    email: apiUser.email,
+    roleId: role.id,
+    role,
+    status: apiUser.isActive ? 'active' : 'inactive',
+    lastLogin: apiUser.lastLogin || undefined,
+    createdAt: apiUser.createdAt,
+    updatedAt: apiUser.updatedAt,
+    permissions: role.permissions,
     clientPortalAccess: false,
-  },
-];
+    activeSessions: apiUser.activeSessions,
+    lockedUntil: apiUser.lockedUntil || undefined,
+  };
+}
 
 /*
  * SISTEMA DE PLANOS E PAINEL ADMINISTRATIVO FUTURO
@@ -196,14 +104,140 @@ const mockUsers: User[] = [
  */
 
 export function UserManagement() {
-  const [users, setUsers] = useState<User[]>(mockUsers);
-  const [roles, setRoles] = useState<UserRole[]>(mockRoles);
-  // REMOVIDO: Estados de edição conforme solicitado
+  const [users, setUsers] = useState<User[]>([]);
+  const [roles, setRoles] = useState<UserRole[]>([]);
+  const [modules, setModules] = useState<string[]>([]);
+  const [actions, setActions] = useState<Permission['action'][]>([]);
+  const [showRoleDialog, setShowRoleDialog] = useState(false);
+  const [editingRole, setEditingRole] = useState<UserRole | undefined>();
+  // REMOVIDO: Estados de edição de usuário conforme solicitado
   // const [showUserDialog, setShowUserDialog] = useState(false);
-  // const [showRoleDialog, setShowRoleDialog] = useState(false);
   // const [editingUser, setEditingUser] = useState<User | undefined>();
-  // const [editingRole, setEditingRole] = useState<UserRole | undefined>();
   const [searchTerm, setSearchTerm] = useState('');
+  const [revokingUserId, setRevokingUserId] = useState<string | null>(null);
+  const [showInviteDialog, setShowInviteDialog] = useState(false);
+  const [invites, setInvites] = useState<TeamInvite[]>([]);
+  const [seats, setSeats] = useState<SeatUsage | null>(null);
+  const [errorMessage, setErrorMessage] = useState('');
+
+  const [apiUsers, setApiUsers] = useState<any[]>([]);
+
+  const loadData = async () => {
+    try {
+      const [usersResponse, rolesResponse, invitesResponse] = await Promise.all([
+        apiService.getUsers(),
+        apiService.getRoles(),
+        apiService.getTeamInvites(),
+      ]);
+      setApiUsers(usersResponse.users);
+      setInvites(invitesResponse.invites);
+      setSeats(invitesResponse.seats);
+      setRoles(rolesResponse.roles);
+      setModules(rolesResponse.modules);
+      setActions(rolesResponse.actions);
+    } catch (error) {
+      console.error('Erro ao carregar usuários:', error);
+    }
+  };
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  useEffect(() => {
+    setUsers(apiUsers.map(u => toUser(u, roles)).filter((u): u is User => u !== null));
+  }, [apiUsers, roles]);
+
+  // Função de sistema do tipo de conta, usada quando não há função personalizada
+  const systemRoleFor = (userId: string) => {
+    const apiUser = apiUsers.find(u => u.id === userId);
+    return roles.find(r => r.id === `system:${apiUser?.accountType}`);
+  };
+
+  const assignRole = async (userId: string, value: string) => {
+    const roleId = value === DEFAULT_ROLE ? null : value;
+    try {
+      await apiService.assignUserRole(userId, roleId);
+      setApiUsers((current) => current.map(u => u.id === userId ? { ...u, roleId } : u));
+    } catch (error) {
+      console.error('Erro ao atribuir função:', error);
+    }
+  };
+
+  const saveRole = async (data: { name: string; description: string; permissions: Permission[] }) => {
+    if (editingRole) {
+      await apiService.updateRole(editingRole.id, data);
+    } else {
+      await apiService.createRole(data);
+    }
+    await loadData();
+  };
+
+  const deleteRole = async (role: UserRole) => {
+    if (!window.confirm(`Excluir a função "${role.name}"? Os usuários voltarão à função do tipo de conta.`)) {
+      return;
+    }
+    try {
+      await apiService.deleteRole(role.id);
+      await loadData();
+    } catch (error) {
+      console.error('Erro ao excluir função:', error);
+    }
+  };
+
+  // Encerra todas as sessões do colaborador (ex.: dispositivo perdido ou desligamento)
+  const revokeSessions = async (userId: string) => {
+    setRevokingUserId(userId);
+    try {
+      await apiService.revokeUserSessions(userId);
+      setUsers((current) => current.map(u => u.id === userId ? { ...u, activeSessions: 0 } : u));
+    } catch (error) {
+      console.error('Erro ao encerrar sessões:', error);
+    } finally {
+      setRevokingUserId(null);
+    }
+  };
+
+  // Libera um colaborador bloqueado por excesso de tentativas de login
+  const unlockUser = async (userId: string) => {
+    try {
+      await apiService.unlockUser(userId);
+      setUsers((current) => current.map(u => u.id === userId ? { ...u, lockedUntil: undefined } : u));
+    } catch (error) {
+      console.error('Erro ao desbloquear usuário:', error);
+    }
+  };
+
+  const inviteUser = async (data: { email: string; accountType: TeamInvite['accountType']; roleId: string | null }) => {
+    await apiService.createTeamInvite(data);
+    await loadData();
+  };
+
+  const revokeInvite = async (inviteId: string) => {
+    try {
+      await apiService.revokeTeamInvite(inviteId);
+      await loadData();
+    } catch (error) {
+      console.error('Erro ao revogar convite:', error);
+    }
+  };
+
+  // Desativar libera a vaga do plano e encerra todas as sessões do colaborador
+  const toggleUserStatus = async (user: User) => {
+    const isActive = user.status !== 'active';
+    if (!isActive && !window.confirm(`Desativar ${user.name}? Todas as sessões serão encerradas.`)) {
+      return;
+    }
+    setErrorMessage('');
+    try {
+      await apiService.setUserStatus(user.id, isActive);
+      await loadData();
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : 'Erro ao alterar status do usuário');
+    }
+  };
+
+  const seatsFull = seats !== null && seats.used >= seats.limit;
 
   const filteredUsers = users.filter(user =>
     user.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
@@ -233,11 +267,6 @@ export function UserManagement() {
     }
   };
 
-  // REMOVIDO: Funções de ação do usuário conforme solicitado
-  // Apenas administrador pode ativar/desativar/excluir usuários
-  // const toggleUserStatus = (userId: string) => { ... };
-  // const deleteUser = (userId: string) => { ... };
-
   return (
     <div className="space-y-6">
       {/* Users Section */}
@@ -253,19 +282,28 @@ export function UserManagement() {
                 Gerencie usuários, permissões e acesso ao sistema
               </p>
             </div>
-            {/* COMENTÁRIO IMPLEMENTAÇÃO:
-                Botão "Novo Usuário" removido para contas gerenciais.
-                As contas gerenciais NÃO podem criar novos usuários.
-                Os usuários são definidos e setados pelo administrador do SaaS.
-                Apenas o painel administrativo principal pode criar usuários.
-            */}
-            {/* <Button onClick={() => setShowUserDialog(true)}>
-              <Plus className="h-4 w-4 mr-2" />
-              Novo Usuário
-            </Button> */}
+            {/* Novos colaboradores entram por convite; o limite de usuários do plano vale para todos */}
+            <div className="flex items-center space-x-3">
+              {seats && (
+                <Badge variant={seatsFull ? 'destructive' : 'secondary'}>
+                  {seats.used}/{seats.limit} vagas
+                </Badge>
+              )}
+              <Button onClick={() => setShowInviteDialog(true)} disabled={seatsFull}>
+                <UserPlus className="h-4 w-4 mr-2" />
+                Convidar Usuário
+              </Button>
+            </div>
           </div>
         </CardHeader>
         <CardContent className="space-y-4">
+          {seatsFull && (
+            <p className="text-sm text-muted-foreground">
+              Todas as vagas do plano estão ocupadas. Desative um usuário, revogue um convite ou faça upgrade do plano.
+            </p>
+          )}
+          {errorMessage && <p className="text-sm text-red-600">{errorMessage}</p>}
+
           {/* Search */}
           <div className="flex items-center space-x-4">
             <div className="flex-1 max-w-md">
@@ -286,9 +324,9 @@ export function UserManagement() {
                   <TableHead>Função</TableHead>
                   <TableHead>Status</TableHead>
                   <TableHead>Último Login</TableHead>
+                  <TableHead>Sessões</TableHead>
                   <TableHead>Portal Cliente</TableHead>
-                  {/* REMOVIDO: Coluna "Ações" conforme solicitado */}
-                  {/* Apenas administrador do sistema pode gerenciar usuários */}
+                  <TableHead>Ações</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
@@ -318,15 +356,41 @@ export function UserManagement() {
                       </div>
                     </TableCell>
                     <TableCell>
-                      <Badge variant="outline" className="flex items-center w-fit">
-                        <Shield className="h-3 w-3 mr-1" />
-                        {user.role.name}
-                      </Badge>
+                      <Select
+                        value={user.role.isSystem ? DEFAULT_ROLE : user.role.id}
+                        onValueChange={(value) => assignRole(user.id, value)}
+                      >
+                        <SelectTrigger className="w-48">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={DEFAULT_ROLE}>
+                            {systemRoleFor(user.id)?.name || 'Padrão'}
+                          </SelectItem>
+                          {roles.filter(r => !r.isSystem).map((role) => (
+                            <SelectItem key={role.id} value={role.id}>{role.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
                     </TableCell>
                     <TableCell>
                       <Badge className={getStatusColor(user.status)}>
                         {getStatusLabel(user.status)}
                       </Badge>
+                      {user.lockedUntil && (
+                        <div className="mt-1 flex items-center space-x-2">
+                          <Badge
+                            className="bg-red-100 text-red-800"
+                            title={`Bloqueado até ${new Date(user.lockedUntil).toLocaleString('pt-BR')}`}
+                          >
+                            <Lock className="h-3 w-3 mr-1" />
+                            Bloqueado
+                          </Badge>
+                          <Button variant="ghost" size="sm" onClick={() => unlockUser(user.id)}>
+                            Desbloquear
+                          </Button>
+                        </div>
+                      )}
                     </TableCell>
                     <TableCell>
                       {user.lastLogin ? (
@@ -338,6 +402,20 @@ export function UserManagement() {
                         <span className="text-sm text-muted-foreground">Nunca</span>
                       )}
                     </TableCell>
+                    <TableCell>
+                      <div className="flex items-center space-x-2">
+                        <span className="text-sm">{user.activeSessions ?? 0}</span>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          disabled={!user.activeSessions || revokingUserId === user.id}
+                          onClick={() => revokeSessions(user.id)}
+                        >
+                          <LogOut className="h-3 w-3 mr-1" />
+                          Encerrar
+                        </Button>
+                      </div>
+                    </TableCell>
                     <TableCell>
                       {/* IMPLEMENTAÇÃO PORTAL CLIENTE:
                           Esta funcionalidade controla se o usuário pode fazer login no sistema.
@@ -366,14 +444,52 @@ export function UserManagement() {
                         </span>
                       </div>
                     </TableCell>
-                    {/* REMOVIDO: Dropdown de ações (Editar, Excluir, Desativar) */}
-                    {/* Conforme solicitado, apenas administrador pode gerenciar usuários */}
-                    {/* O controle de portal permanece para o gerente */}
+                    <TableCell>
+                      <Button variant="ghost" size="sm" onClick={() => toggleUserStatus(user)}>
+                        {user.status === 'active' ? (
+                          <>
+                            <UserX className="h-3 w-3 mr-1" />
+                            Desativar
+                          </>
+                        ) : (
+                          <>
+                            <UserCheck className="h-3 w-3 mr-1" />
+                            Reativar
+                          </>
+                        )}
+                      </Button>
+                    </TableCell>
                   </TableRow>
                 ))}
               </TableBody>
             </Table>
           </div>
+
+          {/* Convites pendentes */}
+          {invites.length > 0 && (
+            <div className="space-y-2">
+              <h4 className="text-sm font-medium">Convites pendentes</h4>
+              {invites.map((invite) => (
+                <div key={invite.id} className="flex items-center justify-between p-3 border rounded-lg">
+                  <div>
+                    <div className="text-sm font-medium flex items-center">
+                      <Mail className="h-3 w-3 mr-1" />
+                      {invite.email}
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {ACCOUNT_TYPE_LABELS[invite.accountType]}
+                      {invite.roleId && ` · ${roles.find(r => r.id === invite.roleId)?.name || 'Função personalizada'}`}
+                      {' · '}expira em {new Date(invite.expiresAt).toLocaleString('pt-BR')}
+                    </div>
+                  </div>
+                  <Button variant="ghost" size="sm" onClick={() => revokeInvite(invite.id)}>
+                    <X className="h-3 w-3 mr-1" />
+                    Revogar
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
         </CardContent>
       </Card>
 
@@ -387,26 +503,20 @@ export function UserManagement() {
                 Funções e Permissões
               </CardTitle>
               <p className="text-sm text-muted-foreground">
-                Configure níveis de acesso baseados no sistema de 3 tipos de conta
+                Configure níveis de acesso com funções personalizadas
               </p>
               <div className="mt-2 p-3 bg-blue-50 dark:bg-blue-950 border border-blue-200 dark:border-blue-800 rounded-md">
                 <p className="text-xs text-blue-700 dark:text-blue-300">
-                  <strong>Sistema Implementado:</strong> Conta Simples (CRM básico),
+                  <strong>Funções de sistema:</strong> Conta Simples (CRM básico),
                   Conta Composta (CRM + Financeiro), Conta Gerencial (Acesso total + Auditoria).
-                  A quantidade de cada tipo é limitada pelo plano contratado.
+                  Usuários sem função personalizada usam a função do seu tipo de conta.
                 </p>
               </div>
             </div>
-            {/* COMENTÁRIO IMPLEMENTAÇÃO:
-                Botão "Nova Função" removido para contas gerenciais.
-                As funções são predefinidas: Conta Simples, Conta Composta, Conta Gerencial.
-                Estas funções são fixas e não podem ser alteradas pelos usuários.
-                Apenas o administrador do SaaS pode definir as permissões.
-            */}
-            {/* <Button onClick={() => setShowRoleDialog(true)}>
+            <Button onClick={() => { setEditingRole(undefined); setShowRoleDialog(true); }}>
               <Plus className="h-4 w-4 mr-2" />
               Nova Função
-            </Button> */}
+            </Button>
           </div>
         </CardHeader>
         <CardContent>
@@ -416,7 +526,20 @@ export function UserManagement() {
                 <CardHeader className="pb-3">
                   <div className="flex items-center justify-between">
                     <CardTitle className="text-lg">{role.name}</CardTitle>
-                    {/* REMOVIDO: Menu de ações das funções conforme solicitado */}
+                    {!role.isSystem && (
+                      <div className="flex items-center">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => { setEditingRole(role); setShowRoleDialog(true); }}
+                        >
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => deleteRole(role)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    )}
                   </div>
                   <p className="text-sm text-muted-foreground">{role.description}</p>
                   {role.isSystem && (
@@ -428,12 +551,12 @@ export function UserManagement() {
                     <h4 className="text-sm font-medium">Permissões:</h4>
                     {role.permissions.map((permission, index) => (
                       <div key={index} className="flex items-center justify-between text-sm">
-                        <span className="capitalize">{permission.module}</span>
+                        <span>{MODULE_LABELS[permission.module] || permission.module}</span>
                         <Badge 
                           variant={permission.granted ? "default" : "secondary"}
                           className="text-xs"
                         >
-                          {permission.action}
+                          {ACTION_LABELS[permission.action] || permission.action}
                         </Badge>
                       </div>
                     ))}
@@ -450,9 +573,21 @@ export function UserManagement() {
         </CardContent>
       </Card>
 
-      {/* REMOVIDO: Dialogs de criação/edição de usuários e funções */}
-      {/* Conforme solicitado, apenas administrador pode gerenciar usuários */}
-      {/* Funcionalidades de edição foram removidas para contas gerenciais */}
+      <RoleEditorDialog
+        open={showRoleDialog}
+        onOpenChange={setShowRoleDialog}
+        role={editingRole}
+        modules={modules}
+        actions={actions}
+        onSave={saveRole}
+      />
+
+      <InviteUserDialog
+        open={showInviteDialog}
+        onOpenChange={setShowInviteDialog}
+        roles={roles}
+        onInvite={inviteUser}
+      />
     </div>
   );
 }
@@ -6,6 +6,7 @@ import {
   DialogHeader,
   DialogTitle,
 } from '@/components/ui/dialog';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Separator } from '@/components/ui/separator';
@@ -26,6 +27,8 @@ import {
   PauseCircle,
 } from 'lucide-react';
 import { Task } from '@/types/tasks';
+import { EntityAttachments } from '@/components/Attachments/EntityAttachments';
+import { RecordHistory } from '@/components/History/RecordHistory';
 
 interface TaskViewDialogProps {
   open: boolean;
@@ -154,150 +157,149 @@ export function TaskViewDialog({
           </div>
         </DialogHeader>
 
-        <div className="space-y-6">
-          {/* Progresso */}
-          <div className="space-y-2">
-            <div className="flex items-center justify-between">
-              <span className="text-sm font-medium">Progresso da Tarefa</span>
-              <span className="text-sm text-muted-foreground">{calculateProgress()}%</span>
-            </div>
-            <Progress value={calculateProgress()} className="h-2" />
-          </div>
+        <Tabs defaultValue="details">
+          <TabsList>
+            <TabsTrigger value="details">Detalhes</TabsTrigger>
+            <TabsTrigger value="history">Histórico</TabsTrigger>
+          </TabsList>
 
-          {/* Informações Principais */}
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-            <div className="space-y-4">
-              <h3 className="text-lg font-semibold flex items-center">
-                <Calendar className="h-5 w-5 mr-2" />
-                Cronograma
-              </h3>
-              <div className="space-y-3">
-                {task.startDate && (
-                  <div className="flex justify-between text-sm">
-                    <span className="text-muted-foreground">Data de Início:</span>
-                    <span>{formatDate(task.startDate)}</span>
-                  </div>
-                )}
-                {task.endDate && (
-                  <div className="flex justify-between text-sm">
-                    <span className="text-muted-foreground">Prazo:</span>
-                    <span>{formatDate(task.endDate)}</span>
-                  </div>
-                )}
-                <div className="flex justify-between text-sm">
-                  <span className="text-muted-foreground">Criado em:</span>
-                  <span>{formatDateTime(task.createdAt)}</span>
-                </div>
-                <div className="flex justify-between text-sm">
-                  <span className="text-muted-foreground">Atualizado em:</span>
-                  <span>{formatDateTime(task.updatedAt)}</span>
+          <TabsContent value="details">
+            <div className="space-y-6">
+              {/* Progresso */}
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-medium">Progresso da Tarefa</span>
+                  <span className="text-sm text-muted-foreground">{calculateProgress()}%</span>
                 </div>
+                <Progress value={calculateProgress()} className="h-2" />
               </div>
-            </div>
 
-            <div className="space-y-4">
-              <h3 className="text-lg font-semibold flex items-center">
-                <Clock className="h-5 w-5 mr-2" />
-                Tempo e Esforço
-              </h3>
-              <div className="space-y-3">
-                <div className="flex justify-between text-sm">
-                  <span className="text-muted-foreground">Horas Estimadas:</span>
-                  <span className="font-medium">{task.estimatedHours}h</span>
-                </div>
-                <div className="flex justify-between text-sm">
-                  <span className="text-muted-foreground">Horas Trabalhadas:</span>
-                  <span className="font-medium">{task.actualHours}h</span>
-                </div>
-                {task.assignedTo && (
-                  <div className="flex justify-between text-sm">
-                    <span className="text-muted-foreground">Responsável:</span>
-                    <span className="font-medium">{task.assignedTo}</span>
+              {/* Informações Principais */}
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div className="space-y-4">
+                  <h3 className="text-lg font-semibold flex items-center">
+                    <Calendar className="h-5 w-5 mr-2" />
+                    Cronograma
+                  </h3>
+                  <div className="space-y-3">
+                    {task.startDate && (
+                      <div className="flex justify-between text-sm">
+                        <span className="text-muted-foreground">Data de Início:</span>
+                        <span>{formatDate(task.startDate)}</span>
+                      </div>
+                    )}
+                    {task.endDate && (
+                      <div className="flex justify-between text-sm">
+                        <span className="text-muted-foreground">Prazo:</span>
+                        <span>{formatDate(task.endDate)}</span>
+                      </div>
+                    )}
+                    <div className="flex justify-between text-sm">
+                      <span className="text-muted-foreground">Criado em:</span>
+                      <span>{formatDateTime(task.createdAt)}</span>
+                    </div>
+                    <div className="flex justify-between text-sm">
+                      <span className="text-muted-foreground">Atualizado em:</span>
+                      <span>{formatDateTime(task.updatedAt)}</span>
+                    </div>
                   </div>
-                )}
-                {task.clientName && (
-                  <div className="flex justify-between text-sm">
-                    <span className="text-muted-foreground">Cliente:</span>
-                    <span className="font-medium">{task.clientName}</span>
+                </div>
+
+                <div className="space-y-4">
+                  <h3 className="text-lg font-semibold flex items-center">
+                    <Clock className="h-5 w-5 mr-2" />
+                    Tempo e Esforço
+                  </h3>
+                  <div className="space-y-3">
+                    <div className="flex justify-between text-sm">
+                      <span className="text-muted-foreground">Horas Estimadas:</span>
+                      <span className="font-medium">{task.estimatedHours}h</span>
+                    </div>
+                    <div className="flex justify-between text-sm">
+                      <span className="text-muted-foreground">Horas Trabalhadas:</span>
+                      <span className="font-medium">{task.actualHours}h</span>
+                    </div>
+                    {task.assignedTo && (
+                      <div className="flex justify-between text-sm">
+                        <span className="text-muted-foreground">Responsável:</span>
+                        <span className="font-medium">{task.assignedTo}</span>
+                      </div>
+                    )}
+                    {task.clientName && (
+                      <div className="flex justify-between text-sm">
+                        <span className="text-muted-foreground">Cliente:</span>
+                        <span className="font-medium">{task.clientName}</span>
+                      </div>
+                    )}
                   </div>
-                )}
+                </div>
               </div>
-            </div>
-          </div>
-
-          <Separator />
 
-          {/* Descrição */}
-          {task.description && (
-            <div>
-              <h3 className="text-lg font-semibold flex items-center mb-3">
-                <FileText className="h-5 w-5 mr-2" />
-                Descrição
-              </h3>
-              <div className="bg-muted/50 rounded-lg p-3">
-                <p className="text-sm">{task.description}</p>
-              </div>
-            </div>
-          )}
+              <Separator />
 
-          {/* Subtarefas */}
-          {task.subtasks && task.subtasks.length > 0 && (
-            <div>
-              <h3 className="text-lg font-semibold flex items-center mb-3">
-                <CheckSquare className="h-5 w-5 mr-2" />
-                Subtarefas ({task.subtasks.filter(s => s.completed).length}/{task.subtasks.length})
-              </h3>
-              <div className="space-y-2">
-                {task.subtasks.map((subtask) => (
-                  <div key={subtask.id} className="flex items-center space-x-3 p-2 border rounded">
-                    {subtask.completed ? (
-                      <CheckCircle className="h-4 w-4 text-green-600" />
-                    ) : (
-                      <Circle className="h-4 w-4 text-gray-400" />
-                    )}
-                    <span className={`text-sm ${subtask.completed ? 'line-through text-muted-foreground' : ''}`}>
-                      {subtask.title}
-                    </span>
+              {/* Descrição */}
+              {task.description && (
+                <div>
+                  <h3 className="text-lg font-semibold flex items-center mb-3">
+                    <FileText className="h-5 w-5 mr-2" />
+                    Descrição
+                  </h3>
+                  <div className="bg-muted/50 rounded-lg p-3">
+                    <p className="text-sm">{task.description}</p>
                   </div>
-                ))}
-              </div>
-            </div>
-          )}
+                </div>
+              )}
 
-          {/* Tags */}
-          {task.tags && task.tags.length > 0 && (
-            <div>
-              <h3 className="text-lg font-semibold flex items-center mb-3">
-                <Tag className="h-5 w-5 mr-2" />
-                Tags
-              </h3>
-              <div className="flex flex-wrap gap-2">
-                {task.tags.map((tag) => (
-                  <Badge key={tag} variant="secondary">
-                    {tag}
-                  </Badge>
-                ))}
-              </div>
-            </div>
-          )}
+              {/* Subtarefas */}
+              {task.subtasks && task.subtasks.length > 0 && (
+                <div>
+                  <h3 className="text-lg font-semibold flex items-center mb-3">
+                    <CheckSquare className="h-5 w-5 mr-2" />
+                    Subtarefas ({task.subtasks.filter(s => s.completed).length}/{task.subtasks.length})
+                  </h3>
+                  <div className="space-y-2">
+                    {task.subtasks.map((subtask) => (
+                      <div key={subtask.id} className="flex items-center space-x-3 p-2 border rounded">
+                        {subtask.completed ? (
+                          <CheckCircle className="h-4 w-4 text-green-600" />
+                        ) : (
+                          <Circle className="h-4 w-4 text-gray-400" />
+                        )}
+                        <span className={`text-sm ${subtask.completed ? 'line-through text-muted-foreground' : ''}`}>
+                          {subtask.title}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
 
-          {/* Anexos */}
-          {task.attachments && task.attachments.length > 0 && (
-            <div>
-              <h3 className="text-lg font-semibold mb-3">Anexos</h3>
-              <div className="space-y-2">
-                {task.attachments.map((attachment, index) => (
-                  <div key={index} className="flex items-center justify-between p-2 border rounded">
-                    <span className="text-sm">{attachment}</span>
-                    <Button variant="ghost" size="sm">
-                      Download
-                    </Button>
+              {/* Tags */}
+              {task.tags && task.tags.length > 0 && (
+                <div>
+                  <h3 className="text-lg font-semibold flex items-center mb-3">
+                    <Tag className="h-5 w-5 mr-2" />
+                    Tags
+                  </h3>
+                  <div className="flex flex-wrap gap-2">
+                    {task.tags.map((tag) => (
+                      <Badge key={tag} variant="secondary">
+                        {tag}
+                      </Badge>
+                    ))}
                   </div>
-                ))}
-              </div>
+                </div>
+              )}
+
+              {/* Anexos */}
+              <EntityAttachments entityType="task" entityId={task.id} />
             </div>
-          )}
-        </div>
+          </TabsContent>
+
+          <TabsContent value="history">
+            <RecordHistory resource="tasks" recordId={task.id} />
+          </TabsContent>
+        </Tabs>
       </DialogContent>
     </Dialog>
   );
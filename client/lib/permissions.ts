@@ -0,0 +1,22 @@
+import { Permission } from "@/types/settings";
+
+// Mirrors the server rule: admin implies every action, write/delete imply read
+const IMPLIED_BY: Record<Permission["action"], Permission["action"][]> = {
+  read: ["read", "write", "delete", "admin"],
+  write: ["write", "admin"],
+  delete: ["delete", "admin"],
+  admin: ["admin"],
+};
+
+export function hasPermission(
+  permissions: Permission[] | undefined,
+  module: string,
+  action: Permission["action"],
+) {
+  return (permissions || []).some(
+    (permission) =>
+      permission.granted &&
+      permission.module === module &&
+      IMPLIED_BY[action].includes(permission.action),
+  );
+}
@@ -0,0 +1,159 @@
+import React, { useEffect, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Scale, Lock, User } from 'lucide-react';
+import { apiService } from '@/services/apiService';
+
+/**
+ * Página aberta pelo convite de equipe enviado por email.
+ * O colaborador define nome e senha; o link expira e é de uso único.
+ */
+export function AcceptInvite() {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token') || '';
+  const [invite, setInvite] = useState<{ email: string; tenantName: string } | null>(null);
+  const [name, setName] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [requiresTwoFactorSetup, setRequiresTwoFactorSetup] = useState(false);
+  const [errorMessage, setErrorMessage] = useState('');
+
+  useEffect(() => {
+    if (!token) {
+      return;
+    }
+    apiService.getTeamInvite(token)
+      .then((response) => setInvite(response.invite))
+      .catch(() => setErrorMessage('Convite inválido ou expirado. Peça um novo convite ao gestor do escritório.'));
+  }, [token]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setErrorMessage('');
+
+    if (password !== confirmPassword) {
+      setErrorMessage('Senhas não coincidem');
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const response = await apiService.acceptTeamInvite(token, name, password);
+      if (response.requiresTwoFactorSetup) {
+        // A ativação do 2FA é feita no primeiro login
+        setRequiresTwoFactorSetup(true);
+      } else {
+        window.location.href = '/';
+      }
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : 'Convite inválido ou expirado');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center p-4">
+      <div className="w-full max-w-md">
+        <div className="flex items-center justify-center mb-8">
+          <Scale className="h-12 w-12 text-blue-600 mr-3" />
+          <h1 className="text-3xl font-bold text-gray-900">LegalSaaS</h1>
+        </div>
+
+        <Card className="shadow-xl">
+          <CardHeader className="space-y-1">
+            <CardTitle className="text-2xl text-center">Aceitar Convite</CardTitle>
+            <CardDescription className="text-center">
+              {invite ? `Crie sua conta na equipe de ${invite.tenantName}` : 'Crie sua conta na equipe'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {!token ? (
+              <Alert className="border-red-200 bg-red-50">
+                <AlertDescription className="text-red-800">
+                  Link de convite inválido. Peça um novo convite ao gestor do escritório.
+                </AlertDescription>
+              </Alert>
+            ) : requiresTwoFactorSetup ? (
+              <div className="space-y-4">
+                <Alert className="border-green-200 bg-green-50">
+                  <AlertDescription className="text-green-800">
+                    Conta criada! Seu escritório exige autenticação em dois fatores; entre para ativá-la.
+                  </AlertDescription>
+                </Alert>
+                <Button asChild className="w-full">
+                  <Link to="/login">Ir para o login</Link>
+                </Button>
+              </div>
+            ) : (
+              <form onSubmit={handleSubmit} className="space-y-4">
+                {errorMessage && (
+                  <Alert className="border-red-200 bg-red-50">
+                    <AlertDescription className="text-red-800">{errorMessage}</AlertDescription>
+                  </Alert>
+                )}
+
+                {invite && (
+                  <div className="space-y-2">
+                    <Label htmlFor="invite-accept-email">Email</Label>
+                    <Input id="invite-accept-email" type="email" value={invite.email} disabled />
+                  </div>
+                )}
+
+                <div className="space-y-2">
+                  <Label htmlFor="invite-accept-name">Nome completo</Label>
+                  <div className="relative">
+                    <User className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+                    <Input
+                      id="invite-accept-name"
+                      className="pl-10"
+                      value={name}
+                      onChange={(e) => setName(e.target.value)}
+                    />
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="invite-accept-password">Senha</Label>
+                  <div className="relative">
+                    <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+                    <Input
+                      id="invite-accept-password"
+                      type="password"
+                      className="pl-10"
+                      value={password}
+                      onChange={(e) => setPassword(e.target.value)}
+                    />
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="invite-accept-confirm">Confirmar senha</Label>
+                  <div className="relative">
+                    <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+                    <Input
+                      id="invite-accept-confirm"
+                      type="password"
+                      className="pl-10"
+                      value={confirmPassword}
+                      onChange={(e) => setConfirmPassword(e.target.value)}
+                    />
+                  </div>
+                </div>
+
+                <Button type="submit" className="w-full" disabled={isLoading || !invite || name.trim().length < 2 || !password}>
+                  {isLoading ? 'Criando conta...' : 'Criar conta'}
+                </Button>
+              </form>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,243 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Scale, Receipt, FolderOpen, Newspaper, LogOut } from 'lucide-react';
+import { portalApiService } from '@/services/portalApiService';
+
+const INVOICE_STATUS_LABELS: Record<string, { label: string; className: string }> = {
+  sent: { label: 'Em aberto', className: 'bg-blue-100 text-blue-800' },
+  viewed: { label: 'Em aberto', className: 'bg-blue-100 text-blue-800' },
+  pending: { label: 'Pendente', className: 'bg-yellow-100 text-yellow-800' },
+  approved: { label: 'Aprovada', className: 'bg-blue-100 text-blue-800' },
+  overdue: { label: 'Vencida', className: 'bg-red-100 text-red-800' },
+  paid: { label: 'Paga', className: 'bg-green-100 text-green-800' },
+  rejected: { label: 'Recusada', className: 'bg-gray-100 text-gray-800' },
+  cancelled: { label: 'Cancelada', className: 'bg-gray-100 text-gray-800' },
+};
+
+const OPEN_STATUSES = ['sent', 'viewed', 'pending', 'approved', 'overdue'];
+
+const formatCurrency = (value: number | string, currency = 'BRL') =>
+  new Intl.NumberFormat('pt-BR', { style: 'currency', currency }).format(Number(value));
+
+const formatDate = (value?: string) => (value ? new Date(value).toLocaleDateString('pt-BR') : '—');
+
+function PortalLogin({ onLogin }: { onLogin: () => void }) {
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [errorMessage, setErrorMessage] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setErrorMessage('');
+    try {
+      await portalApiService.login(email, password);
+      onLogin();
+    } catch (error) {
+      setErrorMessage('Email ou senha incorretos');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Card className="shadow-xl w-full max-w-md">
+      <CardHeader className="space-y-1">
+        <CardTitle className="text-2xl text-center">Portal do Cliente</CardTitle>
+        <CardDescription className="text-center">
+          Acompanhe suas faturas, processos e publicações
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {errorMessage && (
+            <Alert className="border-red-200 bg-red-50">
+              <AlertDescription className="text-red-800">{errorMessage}</AlertDescription>
+            </Alert>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="portal-email">Email</Label>
+            <Input id="portal-email" type="email" value={email} onChange={(e) => setEmail(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="portal-password">Senha</Label>
+            <Input id="portal-password" type="password" value={password} onChange={(e) => setPassword(e.target.value)} />
+          </div>
+          <Button type="submit" className="w-full" disabled={isLoading || !email || !password}>
+            {isLoading ? 'Entrando...' : 'Entrar'}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * Portal do cliente final do escritório.
+ * Login separado do sistema interno; o servidor restringe todos os dados ao cliente vinculado.
+ */
+export function ClientPortal() {
+  const [isAuthenticated, setIsAuthenticated] = useState(portalApiService.isAuthenticated());
+  const [account, setAccount] = useState<any>(null);
+  const [invoices, setInvoices] = useState<any[]>([]);
+  const [projects, setProjects] = useState<any[]>([]);
+  const [publications, setPublications] = useState<any[]>([]);
+
+  const loadData = async () => {
+    try {
+      const [profileResponse, invoicesResponse, projectsResponse, publicationsResponse] = await Promise.all([
+        portalApiService.getProfile(),
+        portalApiService.getInvoices(),
+        portalApiService.getProjects(),
+        portalApiService.getPublications(),
+      ]);
+      setAccount(profileResponse.account);
+      setInvoices(invoicesResponse.invoices);
+      setProjects(projectsResponse.projects);
+      setPublications(publicationsResponse.publications);
+    } catch (error) {
+      setIsAuthenticated(portalApiService.isAuthenticated());
+    }
+  };
+
+  useEffect(() => {
+    if (isAuthenticated) {
+      loadData();
+    }
+  }, [isAuthenticated]);
+
+  const logout = () => {
+    portalApiService.clearToken();
+    setIsAuthenticated(false);
+  };
+
+  const openInvoices = invoices.filter((invoice) => OPEN_STATUSES.includes(invoice.status));
+  const openTotal = openInvoices.reduce((total, invoice) => total + Number(invoice.amount), 0);
+
+  if (!isAuthenticated) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex flex-col items-center justify-center p-4">
+        <div className="flex items-center justify-center mb-8">
+          <Scale className="h-12 w-12 text-blue-600 mr-3" />
+          <h1 className="text-3xl font-bold text-gray-900">LegalSaaS</h1>
+        </div>
+        <PortalLogin onLogin={() => setIsAuthenticated(true)} />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-white border-b">
+        <div className="max-w-5xl mx-auto flex items-center justify-between p-4">
+          <div className="flex items-center">
+            <Scale className="h-8 w-8 text-blue-600 mr-2" />
+            <span className="text-xl font-bold">Portal do Cliente</span>
+          </div>
+          <div className="flex items-center gap-3">
+            <span className="text-sm text-muted-foreground">{account?.name}</span>
+            <Button variant="ghost" size="sm" onClick={logout}>
+              <LogOut className="h-4 w-4 mr-1" />
+              Sair
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-5xl mx-auto p-4 space-y-6">
+        <Card>
+          <CardContent className="pt-6 flex items-center justify-between">
+            <div>
+              <p className="text-sm text-muted-foreground">Valores em aberto</p>
+              <p className="text-2xl font-bold">{formatCurrency(openTotal)}</p>
+            </div>
+            <Badge variant="secondary">{openInvoices.length} fatura(s) em aberto</Badge>
+          </CardContent>
+        </Card>
+
+        <Tabs defaultValue="invoices">
+          <TabsList>
+            <TabsTrigger value="invoices" className="flex items-center">
+              <Receipt className="h-4 w-4 mr-1" />
+              Faturas
+            </TabsTrigger>
+            <TabsTrigger value="projects" className="flex items-center">
+              <FolderOpen className="h-4 w-4 mr-1" />
+              Processos
+            </TabsTrigger>
+            <TabsTrigger value="publications" className="flex items-center">
+              <Newspaper className="h-4 w-4 mr-1" />
+              Publicações
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="invoices" className="space-y-3">
+            {invoices.map((invoice) => {
+              const status = INVOICE_STATUS_LABELS[invoice.status] || { label: invoice.status, className: '' };
+              return (
+                <Card key={invoice.id}>
+                  <CardContent className="pt-6 flex items-center justify-between">
+                    <div>
+                      <p className="font-medium">{invoice.number} · {invoice.title}</p>
+                      <p className="text-sm text-muted-foreground">
+                        Vencimento {formatDate(invoice.due_date)}
+                        {invoice.paid_at && ` · Paga em ${formatDate(invoice.paid_at)}`}
+                      </p>
+                    </div>
+                    <div className="text-right space-y-1">
+                      <p className="font-semibold">{formatCurrency(invoice.amount, invoice.currency)}</p>
+                      <Badge className={status.className}>{status.label}</Badge>
+                    </div>
+                  </CardContent>
+                </Card>
+              );
+            })}
+            {invoices.length === 0 && <p className="text-sm text-muted-foreground">Nenhuma fatura</p>}
+          </TabsContent>
+
+          <TabsContent value="projects" className="space-y-3">
+            {projects.map((project) => (
+              <Card key={project.id}>
+                <CardContent className="pt-6 space-y-2">
+                  <div className="flex items-center justify-between">
+                    <p className="font-medium">{project.title}</p>
+                    <Badge variant="secondary">{project.progress ?? 0}%</Badge>
+                  </div>
+                  {project.description && <p className="text-sm text-muted-foreground">{project.description}</p>}
+                  <p className="text-sm text-muted-foreground">
+                    Início {formatDate(project.start_date)} · Previsão {formatDate(project.due_date)}
+                  </p>
+                </CardContent>
+              </Card>
+            ))}
+            {projects.length === 0 && <p className="text-sm text-muted-foreground">Nenhum processo vinculado</p>}
+          </TabsContent>
+
+          <TabsContent value="publications" className="space-y-3">
+            {publications.map((publication) => (
+              <Card key={publication.id}>
+                <CardContent className="pt-6 space-y-2">
+                  <div className="flex items-center justify-between">
+                    <p className="font-medium">{publication.process_number || 'Publicação'}</p>
+                    <span className="text-sm text-muted-foreground">{formatDate(publication.publication_date)}</span>
+                  </div>
+                  <p className="text-sm whitespace-pre-line">{publication.content}</p>
+                </CardContent>
+              </Card>
+            ))}
+            {publications.length === 0 && (
+              <p className="text-sm text-muted-foreground">Nenhuma publicação compartilhada pelo escritório</p>
+            )}
+          </TabsContent>
+        </Tabs>
+      </main>
+    </div>
+  );
+}
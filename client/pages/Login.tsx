@@ -8,8 +8,11 @@ import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { Scale, Eye, EyeOff, Mail, Lock, User, Building } from 'lucide-react';
+import { Scale, Eye, EyeOff, Mail, Lock, User, Building, KeyRound } from 'lucide-react';
 import { Link } from 'react-router-dom';
+import { apiService } from '@/services/apiService';
+import { TwoFactorChallenge, TwoFactorSetupData } from '@/components/Auth/TwoFactorChallenge';
+import { ChangePasswordForm } from '@/components/Auth/ChangePasswordForm';
 
 const loginSchema = z.object({
   email: z.string().email('Email inválido'),
@@ -43,6 +46,12 @@ export function Login() {
   const [isLoading, setIsLoading] = useState(false);
   const [successMessage, setSuccessMessage] = useState('');
   const [errorMessage, setErrorMessage] = useState('');
+  const [twoFactorChallenge, setTwoFactorChallenge] = useState<{
+    token: string;
+    mode: 'verify' | 'setup';
+    setup?: TwoFactorSetupData;
+  } | null>(null);
+  const [passwordChangeRequired, setPasswordChangeRequired] = useState(false);
 
   const loginForm = useForm<LoginFormData>({
     resolver: zodResolver(loginSchema),
@@ -71,32 +80,66 @@ export function Login() {
     },
   });
 
+  const redirectAfterLogin = () => {
+    setPasswordChangeRequired(false);
+    setSuccessMessage('Login realizado com sucesso! Redirecionando...');
+    setTimeout(() => {
+      window.location.href = '/';
+    }, 1000);
+  };
+
+  // Senha expirada ou troca exigida: a sessão só permite alterar a senha
+  const continueLogin = (user: any) => {
+    setTwoFactorChallenge(null);
+    if (user?.mustChangePassword) {
+      setPasswordChangeRequired(true);
+      return;
+    }
+    redirectAfterLogin();
+  };
+
   const handleLogin = async (data: LoginFormData) => {
     setIsLoading(true);
     setErrorMessage('');
     
     try {
-      // Simulate API call
-      await new Promise(resolve => setTimeout(resolve, 1500));
-      
-      // Mock authentication
-      if (data.email === 'admin@escritorio.com' && data.password === '123456') {
-        setSuccessMessage('Login realizado com sucesso! Redirecionando...');
-        
-        // Simulate redirect to dashboard
-        setTimeout(() => {
-          window.location.href = '/';
-        }, 1000);
-      } else {
-        setErrorMessage('Email ou senha incorretos');
+      const response = await apiService.login(data.email, data.password);
+
+      if (response.requiresTwoFactor) {
+        setTwoFactorChallenge({ token: response.challengeToken, mode: 'verify' });
+        return;
+      }
+
+      if (response.requiresTwoFactorSetup) {
+        const setup = await apiService.setupTwoFactorLogin(response.challengeToken);
+        setTwoFactorChallenge({ token: response.challengeToken, mode: 'setup', setup });
+        return;
       }
+
+      continueLogin(response.user);
     } catch (error) {
-      setErrorMessage('Erro ao fazer login. Tente novamente.');
+      setErrorMessage(error instanceof Error ? error.message : 'Email ou senha incorretos');
     } finally {
       setIsLoading(false);
     }
   };
 
+  // SSO: o domínio do email indica o provedor de identidade do escritório
+  const handleSsoLogin = async () => {
+    if (!(await loginForm.trigger('email'))) return;
+
+    setIsLoading(true);
+    setErrorMessage('');
+
+    try {
+      const { authorizationUrl } = await apiService.startSsoLogin(loginForm.getValues('email'));
+      window.location.href = authorizationUrl;
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : 'SSO não configurado para este email');
+      setIsLoading(false);
+    }
+  };
+
   const handleRegister = async (data: RegisterFormData) => {
     setIsLoading(true);
     setErrorMessage('');
@@ -122,10 +165,10 @@ export function Login() {
     setErrorMessage('');
     
     try {
-      // Simulate API call
-      await new Promise(resolve => setTimeout(resolve, 1500));
-      
-      setSuccessMessage('Email de recuperação enviado! Verifique sua caixa de entrada.');
+      await apiService.forgotPassword(data.email);
+
+      // Resposta genérica: não revela se o email está cadastrado
+      setSuccessMessage('Se o email estiver cadastrado, você receberá um link de recuperação em instantes.');
       
       // Clear form
       forgotPasswordForm.reset();
@@ -158,6 +201,47 @@ export function Login() {
             </CardDescription>
           </CardHeader>
           <CardContent>
+            {passwordChangeRequired ? (
+              <div className="mt-6">
+                {successMessage && (
+                  <Alert className="mb-4 border-green-200 bg-green-50">
+                    <AlertDescription className="text-green-800">
+                      {successMessage}
+                    </AlertDescription>
+                  </Alert>
+                )}
+                <ChangePasswordForm
+                  title="Troca de senha obrigatória"
+                  description="Sua senha expirou ou precisa ser alterada antes de continuar"
+                  onSuccess={redirectAfterLogin}
+                  onCancel={() => {
+                    apiService.clearToken();
+                    setPasswordChangeRequired(false);
+                    loginForm.reset();
+                  }}
+                />
+              </div>
+            ) : twoFactorChallenge ? (
+              <>
+                {successMessage && (
+                  <Alert className="mt-4 border-green-200 bg-green-50">
+                    <AlertDescription className="text-green-800">
+                      {successMessage}
+                    </AlertDescription>
+                  </Alert>
+                )}
+                <TwoFactorChallenge
+                  challengeToken={twoFactorChallenge.token}
+                  mode={twoFactorChallenge.mode}
+                  setup={twoFactorChallenge.setup}
+                  onSuccess={continueLogin}
+                  onCancel={() => {
+                    setTwoFactorChallenge(null);
+                    loginForm.reset();
+                  }}
+                />
+              </>
+            ) : (
             <Tabs value={activeTab} onValueChange={setActiveTab}>
               <TabsList className="grid w-full grid-cols-2">
                 <TabsTrigger value="login">Entrar</TabsTrigger>
@@ -245,12 +329,17 @@ export function Login() {
                     {isLoading ? 'Entrando...' : 'Entrar'}
                   </Button>
 
-                  {/* Demo credentials */}
-                  <div className="mt-4 p-3 bg-blue-50 rounded-lg">
-                    <p className="text-sm text-blue-800 font-medium mb-1">Credenciais de demonstração:</p>
-                    <p className="text-xs text-blue-700">Email: admin@escritorio.com</p>
-                    <p className="text-xs text-blue-700">Senha: 123456</p>
-                  </div>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    className="w-full"
+                    disabled={isLoading}
+                    onClick={handleSsoLogin}
+                  >
+                    <KeyRound className="h-4 w-4 mr-2" />
+                    Entrar com SSO
+                  </Button>
+
                 </form>
               </TabsContent>
 
@@ -429,6 +518,7 @@ export function Login() {
                 </div>
               )}
             </Tabs>
+            )}
           </CardContent>
         </Card>
 
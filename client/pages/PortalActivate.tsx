@@ -0,0 +1,121 @@
+import React, { useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Scale, Lock } from 'lucide-react';
+import { portalApiService } from '@/services/portalApiService';
+
+/**
+ * Página aberta pelo convite do portal do cliente.
+ * O cliente define a própria senha; o link expira e é de uso único.
+ */
+export function PortalActivate() {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token') || '';
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [isDone, setIsDone] = useState(false);
+  const [errorMessage, setErrorMessage] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setErrorMessage('');
+
+    if (password !== confirmPassword) {
+      setErrorMessage('Senhas não coincidem');
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      await portalApiService.activate(token, password);
+      setIsDone(true);
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : 'Convite inválido ou expirado');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center p-4">
+      <div className="w-full max-w-md">
+        <div className="flex items-center justify-center mb-8">
+          <Scale className="h-12 w-12 text-blue-600 mr-3" />
+          <h1 className="text-3xl font-bold text-gray-900">LegalSaaS</h1>
+        </div>
+
+        <Card className="shadow-xl">
+          <CardHeader className="space-y-1">
+            <CardTitle className="text-2xl text-center">Ativar Portal do Cliente</CardTitle>
+            <CardDescription className="text-center">Defina a senha de acesso ao portal</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {!token ? (
+              <Alert className="border-red-200 bg-red-50">
+                <AlertDescription className="text-red-800">
+                  Link de convite inválido. Peça um novo convite ao escritório.
+                </AlertDescription>
+              </Alert>
+            ) : isDone ? (
+              <div className="space-y-4">
+                <Alert className="border-green-200 bg-green-50">
+                  <AlertDescription className="text-green-800">
+                    Acesso ativado! Entre com seu email e a senha definida.
+                  </AlertDescription>
+                </Alert>
+                <Button asChild className="w-full">
+                  <Link to="/portal">Ir para o portal</Link>
+                </Button>
+              </div>
+            ) : (
+              <form onSubmit={handleSubmit} className="space-y-4">
+                {errorMessage && (
+                  <Alert className="border-red-200 bg-red-50">
+                    <AlertDescription className="text-red-800">{errorMessage}</AlertDescription>
+                  </Alert>
+                )}
+
+                <div className="space-y-2">
+                  <Label htmlFor="portal-activate-password">Senha</Label>
+                  <div className="relative">
+                    <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+                    <Input
+                      id="portal-activate-password"
+                      type="password"
+                      className="pl-10"
+                      value={password}
+                      onChange={(e) => setPassword(e.target.value)}
+                    />
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="portal-activate-confirm">Confirmar senha</Label>
+                  <div className="relative">
+                    <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+                    <Input
+                      id="portal-activate-confirm"
+                      type="password"
+                      className="pl-10"
+                      value={confirmPassword}
+                      onChange={(e) => setConfirmPassword(e.target.value)}
+                    />
+                  </div>
+                </div>
+
+                <Button type="submit" className="w-full" disabled={isLoading || !password}>
+                  {isLoading ? 'Salvando...' : 'Ativar acesso'}
+                </Button>
+              </form>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
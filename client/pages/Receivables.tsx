@@ -6,7 +6,7 @@
  * Integra com Stripe, n8n e WhatsApp para gestão inteligente de recebíveis.
  */
 
-import React, { useState } from "react";
+import React, { useEffect, useState } from "react";
 import { DashboardLayout } from "@/components/Layout/DashboardLayout";
 import { ImportBillingModal } from "@/components/Receivables/ImportBillingModal";
 import { InvoiceViewDialog } from "@/components/Receivables/InvoiceViewDialog";
@@ -66,6 +66,7 @@ import {
   DashboardRecebiveis,
   NotificacaoAutomatica,
 } from "@/types/receivables";
+import { apiService } from "@/services/apiService";
 
 /**
  * DADOS MOCK PARA DEMONSTRAÇÃO
@@ -340,6 +341,19 @@ export function Receivables() {
   const [viewingClient, setViewingClient] = useState<any>(null);
   const [invoices, setInvoices] = useState<Invoice[]>(mockInvoices);
   const [notifications, setNotifications] = useState<any[]>([]);
+  const [automationPlan, setAutomationPlan] = useState<string | null>(null);
+
+  // Automação de cobranças depende do plano; guarda o nome do plano quando não incluída
+  useEffect(() => {
+    apiService
+      .getPlan()
+      .then((response) => {
+        if (!response.plan.features.includes("receivables_automation")) {
+          setAutomationPlan(response.plan.plan.name);
+        }
+      })
+      .catch(() => undefined);
+  }, []);
 
   /**
    * FUNÇÃO PARA DETECÇÃO DE VENCIMENTOS (3 DIAS)
@@ -1099,6 +1113,15 @@ export function Receivables() {
 
           {/* ABA NOTIFICAÇÕES */}
           <TabsContent value="notificacoes" className="space-y-4">
+            {automationPlan && (
+              <Card className="border-amber-300 bg-amber-50 dark:bg-amber-950">
+                <CardContent className="pt-6 text-sm">
+                  A automação de cobranças não está incluída no plano{" "}
+                  {automationPlan}. Faça upgrade para o plano Enterprise para
+                  enviar notificações automáticas aos clientes.
+                </CardContent>
+              </Card>
+            )}
             <Card>
               <CardHeader>
                 <CardTitle>Notificações Automáticas</CardTitle>
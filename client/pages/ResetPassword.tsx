@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Scale, Lock } from 'lucide-react';
+import { apiService } from '@/services/apiService';
+
+/**
+ * Página aberta pelo link enviado por email em "Esqueceu sua senha?".
+ * O token é de uso único; após a troca todas as sessões são encerradas.
+ */
+export function ResetPassword() {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token') || '';
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [isDone, setIsDone] = useState(false);
+  const [errorMessage, setErrorMessage] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setErrorMessage('');
+
+    if (password !== confirmPassword) {
+      setErrorMessage('Senhas não coincidem');
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      await apiService.resetPassword(token, password);
+      setIsDone(true);
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : 'Link inválido ou expirado');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center p-4">
+      <div className="w-full max-w-md">
+        <div className="text-center mb-8">
+          <div className="flex items-center justify-center mb-4">
+            <Scale className="h-12 w-12 text-blue-600 mr-3" />
+            <h1 className="text-3xl font-bold text-gray-900">LegalSaaS</h1>
+          </div>
+        </div>
+
+        <Card className="shadow-xl">
+          <CardHeader className="space-y-1">
+            <CardTitle className="text-2xl text-center">Redefinir Senha</CardTitle>
+            <CardDescription className="text-center">
+              Escolha uma nova senha para sua conta
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {!token ? (
+              <Alert className="border-red-200 bg-red-50">
+                <AlertDescription className="text-red-800">
+                  Link de redefinição inválido. Solicite um novo na tela de login.
+                </AlertDescription>
+              </Alert>
+            ) : isDone ? (
+              <div className="space-y-4">
+                <Alert className="border-green-200 bg-green-50">
+                  <AlertDescription className="text-green-800">
+                    Senha redefinida com sucesso! Entre novamente com a nova senha.
+                  </AlertDescription>
+                </Alert>
+                <Button asChild className="w-full">
+                  <Link to="/login">Ir para o login</Link>
+                </Button>
+              </div>
+            ) : (
+              <form onSubmit={handleSubmit} className="space-y-4">
+                {errorMessage && (
+                  <Alert className="border-red-200 bg-red-50">
+                    <AlertDescription className="text-red-800">{errorMessage}</AlertDescription>
+                  </Alert>
+                )}
+
+                <div className="space-y-2">
+                  <Label htmlFor="reset-password">Nova senha</Label>
+                  <div className="relative">
+                    <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+                    <Input
+                      id="reset-password"
+                      type="password"
+                      className="pl-10"
+                      value={password}
+                      onChange={(e) => setPassword(e.target.value)}
+                    />
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="reset-confirm-password">Confirmar nova senha</Label>
+                  <div className="relative">
+                    <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+                    <Input
+                      id="reset-confirm-password"
+                      type="password"
+                      className="pl-10"
+                      value={confirmPassword}
+                      onChange={(e) => setConfirmPassword(e.target.value)}
+                    />
+                  </div>
+                </div>
+
+                <Button type="submit" className="w-full" disabled={isLoading || !password}>
+                  {isLoading ? 'Salvando...' : 'Redefinir senha'}
+                </Button>
+
+                <div className="text-center">
+                  <Link to="/login" className="text-sm text-blue-600 hover:text-blue-500">
+                    Voltar ao login
+                  </Link>
+                </div>
+              </form>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
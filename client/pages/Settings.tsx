@@ -29,6 +29,10 @@
  *    - Templates de contratos
  *    - Prazos processuais
  *
+ * 5. SEGURANÇA
+ *    - Verificação em duas etapas (TOTP)
+ *    - Política de segurança do escritório
+ *
  * FUNCIONALIDADES ESPECIAIS:
  * - Upload de arquivos com validação
  * - Editor de templates avançado
@@ -86,6 +90,7 @@ import {
   Edit,
   Plus,
   X,
+  Key,
 } from "lucide-react";
 import {
   Dialog,
@@ -96,6 +101,9 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import { UserManagement } from "@/components/Settings/UserManagement";
+import { SecuritySettings } from "@/components/Settings/SecuritySettings";
+import { ApiKeys } from "@/components/Settings/ApiKeys";
+import { PlanUsage } from "@/components/Settings/PlanUsage";
 
 export function Settings() {
   const [activeTab, setActiveTab] = useState("company");
@@ -520,7 +528,7 @@ export function Settings() {
         </div>
 
         <Tabs value={activeTab} onValueChange={setActiveTab}>
-          <TabsList className="grid w-full grid-cols-2 md:grid-cols-4">
+          <TabsList className="grid w-full grid-cols-2 md:grid-cols-6">
             <TabsTrigger value="company" className="flex items-center">
               <Building className="h-4 w-4 mr-1" />
               <span className="hidden sm:inline">Empresa</span>
@@ -537,11 +545,21 @@ export function Settings() {
               <Scale className="h-4 w-4 mr-1" />
               <span className="hidden sm:inline">Jurídico</span>
             </TabsTrigger>
+            <TabsTrigger value="security" className="flex items-center">
+              <Shield className="h-4 w-4 mr-1" />
+              <span className="hidden sm:inline">Segurança</span>
+            </TabsTrigger>
+            <TabsTrigger value="integrations" className="flex items-center">
+              <Key className="h-4 w-4 mr-1" />
+              <span className="hidden sm:inline">Integrações</span>
+            </TabsTrigger>
           </TabsList>
 
           {/* Company Settings */}
           <TabsContent value="company">
             <div className="space-y-6">
+              <PlanUsage />
+
               <Card>
                 <CardHeader>
                   <CardTitle className="flex items-center">
@@ -807,6 +825,16 @@ export function Settings() {
             <UserManagement />
           </TabsContent>
 
+          {/* Security */}
+          <TabsContent value="security">
+            <SecuritySettings />
+          </TabsContent>
+
+          {/* API keys */}
+          <TabsContent value="integrations">
+            <ApiKeys />
+          </TabsContent>
+
           {/* Notifications */}
           <TabsContent value="notifications">
             <Card>
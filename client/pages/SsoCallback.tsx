@@ -0,0 +1,72 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Scale } from 'lucide-react';
+import { apiService } from '@/services/apiService';
+
+/**
+ * Retorno do provedor de identidade (redirect URI do SSO).
+ * Troca o código de autorização por uma sessão e segue para o sistema.
+ */
+export function SsoCallback() {
+  const [errorMessage, setErrorMessage] = useState('');
+  // O código só pode ser usado uma vez; evita a segunda execução do efeito em modo estrito
+  const started = useRef(false);
+
+  useEffect(() => {
+    if (started.current) return;
+    started.current = true;
+
+    const params = new URLSearchParams(window.location.search);
+    const code = params.get('code');
+    const state = params.get('state');
+
+    if (params.get('error') || !code || !state) {
+      setErrorMessage(params.get('error_description') || 'O provedor de identidade não concluiu o login.');
+      return;
+    }
+
+    window.history.replaceState(null, '', window.location.pathname);
+    apiService
+      .completeSsoLogin(code, state)
+      .then(() => {
+        window.location.href = '/';
+      })
+      .catch((error) => {
+        setErrorMessage(error instanceof Error ? error.message : 'Falha no login com SSO');
+      });
+  }, []);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center p-4">
+      <div className="w-full max-w-md">
+        <div className="flex items-center justify-center mb-8">
+          <Scale className="h-12 w-12 text-blue-600 mr-3" />
+          <h1 className="text-3xl font-bold text-gray-900">LegalSaaS</h1>
+        </div>
+
+        <Card className="shadow-xl">
+          <CardHeader className="space-y-1">
+            <CardTitle className="text-2xl text-center">Login com SSO</CardTitle>
+            <CardDescription className="text-center">
+              {errorMessage ? 'Não foi possível entrar' : 'Validando seu acesso...'}
+            </CardDescription>
+          </CardHeader>
+          {errorMessage && (
+            <CardContent className="space-y-4">
+              <Alert className="border-red-200 bg-red-50">
+                <AlertDescription className="text-red-800">{errorMessage}</AlertDescription>
+              </Alert>
+              <div className="text-center">
+                <Link to="/login" className="text-sm text-blue-600 hover:text-blue-500">
+                  Voltar ao login
+                </Link>
+              </div>
+            </CardContent>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+}
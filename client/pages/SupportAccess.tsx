@@ -0,0 +1,56 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Scale } from 'lucide-react';
+import { apiService } from '@/services/apiService';
+
+/**
+ * Entrada do acesso de suporte aberto pelo painel administrativo.
+ * O token chega no fragmento da URL (não é enviado ao servidor nem fica em logs)
+ * e é guardado apenas nesta aba.
+ */
+export function SupportAccess() {
+  const [hasEnded, setHasEnded] = useState(false);
+
+  useEffect(() => {
+    const token = new URLSearchParams(window.location.hash.slice(1)).get('token');
+
+    if (!token) {
+      setHasEnded(true);
+      return;
+    }
+
+    apiService.startImpersonation(token);
+    window.history.replaceState(null, '', window.location.pathname);
+    window.location.href = '/';
+  }, []);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center p-4">
+      <div className="w-full max-w-md">
+        <div className="flex items-center justify-center mb-8">
+          <Scale className="h-12 w-12 text-blue-600 mr-3" />
+          <h1 className="text-3xl font-bold text-gray-900">LegalSaaS</h1>
+        </div>
+
+        <Card className="shadow-xl">
+          <CardHeader className="space-y-1">
+            <CardTitle className="text-2xl text-center">Acesso de Suporte</CardTitle>
+            <CardDescription className="text-center">
+              {hasEnded ? 'Sessão de suporte encerrada' : 'Abrindo sessão de suporte...'}
+            </CardDescription>
+          </CardHeader>
+          {hasEnded && (
+            <CardContent>
+              <Alert className="border-yellow-200 bg-yellow-50">
+                <AlertDescription className="text-yellow-800">
+                  O acesso de suporte terminou ou expirou. Inicie um novo acesso pelo painel administrativo.
+                </AlertDescription>
+              </Alert>
+            </CardContent>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+}
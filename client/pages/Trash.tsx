@@ -0,0 +1,181 @@
+import React, { useEffect, useState } from 'react';
+import { DashboardLayout } from '@/components/Layout/DashboardLayout';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from '@/components/ui/breadcrumb';
+import { RotateCcw, Trash2 } from 'lucide-react';
+import { apiService } from '@/services/apiService';
+import { TrashItem, TrashType } from '@/types/trash';
+
+const TYPE_LABELS: Record<TrashType, string> = {
+  client: 'Cliente',
+  project: 'Projeto',
+  task: 'Tarefa',
+  transaction: 'Transação',
+  invoice: 'Fatura',
+};
+
+/**
+ * Lixeira: registros excluídos de todos os módulos que o usuário pode ver.
+ * Restaurar exige permissão de exclusão no módulo; excluir definitivamente, permissão de administrador.
+ * Itens são apagados automaticamente após o prazo de retenção.
+ */
+export function Trash() {
+  const [items, setItems] = useState<TrashItem[]>([]);
+  const [retentionDays, setRetentionDays] = useState<number | null>(null);
+  const [typeFilter, setTypeFilter] = useState<'all' | TrashType>('all');
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const load = async () => {
+    try {
+      const response = await apiService.getTrash();
+      setItems(response.items);
+      setRetentionDays(response.retentionDays);
+    } catch (loadError) {
+      setMessage({ type: 'error', text: 'Erro ao carregar a lixeira' });
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  const run = async (item: TrashItem, action: () => Promise<string>) => {
+    setBusyId(item.id);
+    setMessage(null);
+    try {
+      const text = await action();
+      await load();
+      setMessage({ type: 'success', text });
+    } catch (actionError) {
+      setMessage({
+        type: 'error',
+        text: actionError instanceof Error ? actionError.message : 'Erro ao processar o item',
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const restore = (item: TrashItem) =>
+    run(item, async () => {
+      // Projetos oferecem restaurar também as tarefas excluídas junto com eles
+      const withTasks = Boolean(item.tasks) &&
+        confirm(`Restaurar também ${item.tasks} tarefa(s) excluída(s) junto com o projeto "${item.name}"?`);
+      const response = await apiService.restoreTrashItem(item.type, item.id, withTasks);
+      return response.restoredTasks > 0
+        ? `"${item.name}" restaurado com ${response.restoredTasks} tarefa(s)`
+        : `"${item.name}" restaurado`;
+    });
+
+  const purge = (item: TrashItem) => {
+    if (!confirm(`Excluir "${item.name}" definitivamente? Esta ação não pode ser desfeita.`)) return;
+
+    run(item, async () => {
+      await apiService.purgeTrashItem(item.type, item.id);
+      return `"${item.name}" excluído definitivamente`;
+    });
+  };
+
+  const visibleItems = typeFilter === 'all' ? items : items.filter((item) => item.type === typeFilter);
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6 p-6">
+        <Breadcrumb>
+          <BreadcrumbList>
+            <BreadcrumbItem>
+              <BreadcrumbLink href="/">Home</BreadcrumbLink>
+            </BreadcrumbItem>
+            <BreadcrumbSeparator />
+            <BreadcrumbItem>
+              <BreadcrumbPage>Lixeira</BreadcrumbPage>
+            </BreadcrumbItem>
+          </BreadcrumbList>
+        </Breadcrumb>
+
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Lixeira</h1>
+          <p className="text-muted-foreground">
+            Registros excluídos
+            {retentionDays !== null && ` — apagados definitivamente após ${retentionDays} dias`}
+          </p>
+        </div>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between">
+            <CardTitle className="flex items-center">
+              <Trash2 className="h-5 w-5 mr-2" />
+              Itens excluídos ({visibleItems.length})
+            </CardTitle>
+            <Select value={typeFilter} onValueChange={(value) => setTypeFilter(value as 'all' | TrashType)}>
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Todos os tipos</SelectItem>
+                {Object.entries(TYPE_LABELS).map(([type, label]) => (
+                  <SelectItem key={type} value={type}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </CardHeader>
+          <CardContent>
+            {message && (
+              <p className={`text-sm mb-3 ${message.type === 'error' ? 'text-red-600' : 'text-green-600'}`}>{message.text}</p>
+            )}
+            {visibleItems.length === 0 ? (
+              <p className="text-sm text-muted-foreground">A lixeira está vazia.</p>
+            ) : (
+              <div className="space-y-2">
+                {visibleItems.map((item) => (
+                  <div key={`${item.type}-${item.id}`} className="flex items-center justify-between border rounded-lg p-3">
+                    <div className="space-y-1">
+                      <div className="flex items-center space-x-2">
+                        <Badge variant="secondary">{TYPE_LABELS[item.type]}</Badge>
+                        <span className="font-medium">{item.name}</span>
+                        {Boolean(item.tasks) && (
+                          <span className="text-xs text-muted-foreground">+ {item.tasks} tarefa(s)</span>
+                        )}
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        Excluído em {new Date(item.deletedAt).toLocaleString('pt-BR')} · apagado em{' '}
+                        {new Date(item.purgeAt).toLocaleDateString('pt-BR')}
+                      </p>
+                    </div>
+                    <div className="flex space-x-2">
+                      <Button variant="outline" size="sm" onClick={() => restore(item)} disabled={busyId === item.id}>
+                        <RotateCcw className="h-4 w-4 mr-1" />
+                        Restaurar
+                      </Button>
+                      <Button variant="destructive" size="sm" onClick={() => purge(item)} disabled={busyId === item.id}>
+                        <Trash2 className="h-4 w-4 mr-1" />
+                        Excluir definitivamente
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </DashboardLayout>
+  );
+}
@@ -6,12 +6,17 @@
  * Substitui os dados mock por integrações reais com o backend.
  */
 
+import { AttachmentEntityType } from '@/types/attachments';
+import { HistoryResource } from '@/types/history';
+import { TrashType } from '@/types/trash';
+
 class ApiService {
   private baseUrl = process.env.NODE_ENV === 'production' ? '/api' : 'http://localhost:4000/api';
   private token: string | null = null;
 
   constructor() {
-    this.token = localStorage.getItem('access_token');
+    // Support access lives in this tab only, so it never replaces the browser's own login
+    this.token = sessionStorage.getItem('impersonation_token') || localStorage.getItem('access_token');
   }
 
   private async request(endpoint: string, options: RequestInit = {}) {
@@ -29,7 +34,15 @@ class ApiService {
     try {
       const response = await fetch(url, config);
       
-      if (response.status === 401) {
+      // Login endpoints answer 401 for bad credentials, not for an expired session
+      if (response.status === 401 && !endpoint.startsWith('/auth/login')) {
+        // Support access has no refresh token; once it ends the tab is done
+        if (this.isImpersonating()) {
+          this.clearImpersonation();
+          window.location.href = '/suporte';
+          throw new Error('Support access ended');
+        }
+
         // Token expired, try to refresh
         const refreshed = await this.refreshToken();
         if (refreshed) {
@@ -52,7 +65,11 @@ class ApiService {
 
       if (!response.ok) {
         const error = await response.json();
-        throw new Error(error.message || `API Error: ${response.status}`);
+        // Plan errors (PLAN_001 limit reached, PLAN_002 upgrade required) explain themselves in details
+        if (error.code?.startsWith('PLAN_')) {
+          throw new Error(error.details);
+        }
+        throw new Error(error.violations?.join('; ') || error.error || error.message || `API Error: ${response.status}`);
       }
 
       return response.json();
@@ -92,6 +109,29 @@ class ApiService {
     localStorage.setItem('access_token', token);
   }
 
+  // Support access (admin acting as a user)
+  startImpersonation(token: string) {
+    this.token = token;
+    sessionStorage.setItem('impersonation_token', token);
+  }
+
+  isImpersonating() {
+    return !!sessionStorage.getItem('impersonation_token');
+  }
+
+  clearImpersonation() {
+    sessionStorage.removeItem('impersonation_token');
+    this.token = localStorage.getItem('access_token');
+  }
+
+  async endImpersonation() {
+    try {
+      await this.request('/auth/logout', { method: 'POST' });
+    } finally {
+      this.clearImpersonation();
+    }
+  }
+
   clearToken() {
     this.token = null;
     localStorage.removeItem('access_token');
@@ -105,9 +145,50 @@ class ApiService {
       body: JSON.stringify({ email, password }),
     });
     
+    // With 2FA the server answers with a challenge instead of tokens
+    if (response.tokens) {
+      this.setToken(response.tokens.accessToken);
+      localStorage.setItem('refresh_token', response.tokens.refreshToken);
+    }
+    
+    return response;
+  }
+
+  async verifyTwoFactorLogin(challengeToken: string, code: { code?: string; recoveryCode?: string }) {
+    const response = await this.request('/auth/login/2fa', {
+      method: 'POST',
+      body: JSON.stringify({ challengeToken, ...code }),
+    });
+
     this.setToken(response.tokens.accessToken);
     localStorage.setItem('refresh_token', response.tokens.refreshToken);
-    
+
+    return response;
+  }
+
+  async setupTwoFactorLogin(challengeToken: string) {
+    return this.request('/auth/login/2fa/setup', {
+      method: 'POST',
+      body: JSON.stringify({ challengeToken }),
+    });
+  }
+
+  async startSsoLogin(email: string) {
+    return this.request('/auth/login/sso', {
+      method: 'POST',
+      body: JSON.stringify({ email }),
+    });
+  }
+
+  async completeSsoLogin(code: string, state: string) {
+    const response = await this.request('/auth/login/sso/callback', {
+      method: 'POST',
+      body: JSON.stringify({ code, state }),
+    });
+
+    this.setToken(response.tokens.accessToken);
+    localStorage.setItem('refresh_token', response.tokens.refreshToken);
+
     return response;
   }
 
@@ -123,7 +204,44 @@ class ApiService {
     return response;
   }
 
+  async getTeamInvite(token: string) {
+    return this.request(`/auth/invites/${encodeURIComponent(token)}`);
+  }
+
+  async acceptTeamInvite(token: string, name: string, password: string) {
+    const response = await this.request('/auth/invites/accept', {
+      method: 'POST',
+      body: JSON.stringify({ token, name, password }),
+    });
+
+    // Organizations that require 2FA get an enrolment challenge instead of tokens
+    if (response.tokens) {
+      this.setToken(response.tokens.accessToken);
+      localStorage.setItem('refresh_token', response.tokens.refreshToken);
+    }
+
+    return response;
+  }
+
+  async forgotPassword(email: string) {
+    return this.request('/auth/forgot', {
+      method: 'POST',
+      body: JSON.stringify({ email }),
+    });
+  }
+
+  async resetPassword(token: string, password: string) {
+    return this.request('/auth/reset', {
+      method: 'POST',
+      body: JSON.stringify({ token, password }),
+    });
+  }
+
   async logout() {
+    if (this.isImpersonating()) {
+      return this.endImpersonation();
+    }
+
     await this.request('/auth/logout', { method: 'POST' });
     this.clearToken();
   }
@@ -132,6 +250,305 @@ class ApiService {
     return this.request('/auth/me');
   }
 
+  async changePassword(currentPassword: string, newPassword: string) {
+    return this.request('/auth/password', {
+      method: 'POST',
+      body: JSON.stringify({ currentPassword, newPassword }),
+    });
+  }
+
+  // Sessions
+  async getSessions() {
+    return this.request('/auth/sessions');
+  }
+
+  async revokeSession(id: string) {
+    return this.request(`/auth/sessions/${id}`, { method: 'DELETE' });
+  }
+
+  async revokeAllSessions() {
+    const response = await this.request('/auth/sessions', { method: 'DELETE' });
+    this.clearToken();
+    return response;
+  }
+
+  // Two-factor authentication
+  async setupTwoFactor() {
+    return this.request('/auth/2fa/setup', { method: 'POST' });
+  }
+
+  async enableTwoFactor(code: string) {
+    return this.request('/auth/2fa/enable', {
+      method: 'POST',
+      body: JSON.stringify({ code }),
+    });
+  }
+
+  async disableTwoFactor(password: string, code: string) {
+    return this.request('/auth/2fa/disable', {
+      method: 'POST',
+      body: JSON.stringify({ password, code }),
+    });
+  }
+
+  async regenerateRecoveryCodes(code: string) {
+    return this.request('/auth/2fa/recovery-codes', {
+      method: 'POST',
+      body: JSON.stringify({ code }),
+    });
+  }
+
+  // Settings
+  async getSecuritySettings() {
+    return this.request('/settings/security');
+  }
+
+  // Plan, features and usage against its limits
+  async getPlan() {
+    return this.request('/settings/plan');
+  }
+
+  async updateSecuritySettings(data: any) {
+    return this.request('/settings/security', {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async getSsoSettings() {
+    return this.request('/settings/sso');
+  }
+
+  async updateSsoSettings(data: any) {
+    return this.request('/settings/sso', {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  }
+
+  // Checks the TXT record on the domain; only verified domains route SSO logins
+  async verifySsoDomain(domain: string) {
+    return this.request(`/settings/sso/domains/${encodeURIComponent(domain)}/verify`, { method: 'POST' });
+  }
+
+  // Data export (Conta Gerencial)
+  async getDataExports() {
+    return this.request('/exports');
+  }
+
+  async getDataExport(id: string) {
+    return this.request(`/exports/${id}`);
+  }
+
+  async requestDataExport() {
+    return this.request('/exports', { method: 'POST' });
+  }
+
+  // LGPD data-subject requests (Conta Gerencial)
+  async getDataRequests() {
+    return this.request('/data-requests');
+  }
+
+  async createDataRequest(data: { clientId: string; type: 'access' | 'anonymization'; notes?: string }) {
+    return this.request('/data-requests', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async generateDataReport(id: string) {
+    return this.request(`/data-requests/${id}/report`, { method: 'POST' });
+  }
+
+  async anonymizeDataSubject(id: string) {
+    return this.request(`/data-requests/${id}/anonymize`, {
+      method: 'POST',
+      body: JSON.stringify({ confirm: true }),
+    });
+  }
+
+  async rejectDataRequest(id: string, reason: string) {
+    return this.request(`/data-requests/${id}/reject`, {
+      method: 'POST',
+      body: JSON.stringify({ reason }),
+    });
+  }
+
+  // Change history (from the audit trail) and restoring an earlier version
+  async getRecordHistory(resource: HistoryResource, id: string) {
+    return this.request(`/${resource}/${id}/history`);
+  }
+
+  async restoreRecordVersion(resource: HistoryResource, id: string, entryId: string) {
+    return this.request(`/${resource}/${id}/history/${entryId}/restore`, { method: 'POST' });
+  }
+
+  // Attachments (files linked to clients, projects, tasks, transactions and invoices)
+  async getAttachments(entityType: AttachmentEntityType, entityId: string) {
+    return this.request(`/attachments?${new URLSearchParams({ entityType, entityId })}`);
+  }
+
+  // The file is the raw body; the server checks its content against the Content-Type
+  async uploadAttachment(entityType: AttachmentEntityType, entityId: string, file: File) {
+    return this.request(`/attachments?${new URLSearchParams({ entityType, entityId, name: file.name })}`, {
+      method: 'POST',
+      headers: { 'Content-Type': file.type || 'application/octet-stream' },
+      body: file,
+    });
+  }
+
+  async downloadAttachment(id: string): Promise<Blob> {
+    const response = await fetch(`${this.baseUrl}/attachments/${id}/download`, {
+      headers: { ...(this.token && { 'Authorization': `Bearer ${this.token}` }) },
+    });
+    if (!response.ok) {
+      throw new Error(`API Error: ${response.status}`);
+    }
+    return response.blob();
+  }
+
+  async deleteAttachment(id: string) {
+    return this.request(`/attachments/${id}`, { method: 'DELETE' });
+  }
+
+  async getStorageUsage() {
+    return this.request('/attachments/usage');
+  }
+
+  // Trash (soft-deleted clients, projects, tasks, transactions and invoices)
+  async getTrash() {
+    return this.request('/trash');
+  }
+
+  // withTasks: a project also brings back the tasks deleted together with it
+  async restoreTrashItem(type: TrashType, id: string, withTasks = false) {
+    return this.request(`/trash/${type}/${id}/restore`, {
+      method: 'POST',
+      body: JSON.stringify({ withTasks }),
+    });
+  }
+
+  async purgeTrashItem(type: TrashType, id: string) {
+    return this.request(`/trash/${type}/${id}`, { method: 'DELETE' });
+  }
+
+  // Download links come back as /api/... paths
+  resolveApiUrl(path: string) {
+    return `${this.baseUrl}${path.replace(/^\/api/, '')}`;
+  }
+
+  // Users (Conta Gerencial)
+  async getUsers() {
+    return this.request('/users');
+  }
+
+  async getUserSessions(id: string) {
+    return this.request(`/users/${id}/sessions`);
+  }
+
+  async revokeUserSessions(id: string) {
+    return this.request(`/users/${id}/sessions`, { method: 'DELETE' });
+  }
+
+  async unlockUser(id: string) {
+    return this.request(`/users/${id}/unlock`, { method: 'POST' });
+  }
+
+  async setUserStatus(id: string, isActive: boolean) {
+    return this.request(`/users/${id}/status`, {
+      method: 'PUT',
+      body: JSON.stringify({ isActive }),
+    });
+  }
+
+  async getTeamInvites() {
+    return this.request('/users/invites');
+  }
+
+  async createTeamInvite(data: { email: string; accountType: string; roleId?: string | null }) {
+    return this.request('/users/invites', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async revokeTeamInvite(id: string) {
+    return this.request(`/users/invites/${id}`, { method: 'DELETE' });
+  }
+
+  async assignUserRole(id: string, roleId: string | null) {
+    return this.request(`/users/${id}/role`, {
+      method: 'PUT',
+      body: JSON.stringify({ roleId }),
+    });
+  }
+
+  // Roles
+  async getRoles() {
+    return this.request('/roles');
+  }
+
+  async createRole(data: any) {
+    return this.request('/roles', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async updateRole(id: string, data: any) {
+    return this.request(`/roles/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async deleteRole(id: string) {
+    return this.request(`/roles/${id}`, { method: 'DELETE' });
+  }
+
+  // Client portal (firm side)
+  async getClientPortal(clientId: string) {
+    return this.request(`/clients/${clientId}/portal`);
+  }
+
+  async inviteClientToPortal(clientId: string, email: string) {
+    return this.request(`/clients/${clientId}/portal`, {
+      method: 'PUT',
+      body: JSON.stringify({ email }),
+    });
+  }
+
+  async disableClientPortal(clientId: string) {
+    return this.request(`/clients/${clientId}/portal`, { method: 'DELETE' });
+  }
+
+  async shareWithClientPortal(clientId: string, publicationId: string) {
+    return this.request(`/clients/${clientId}/portal/shares`, {
+      method: 'POST',
+      body: JSON.stringify({ resourceType: 'publication', resourceId: publicationId }),
+    });
+  }
+
+  async unshareFromClientPortal(clientId: string, shareId: string) {
+    return this.request(`/clients/${clientId}/portal/shares/${shareId}`, { method: 'DELETE' });
+  }
+
+  // API keys
+  async getApiKeys() {
+    return this.request('/api-keys');
+  }
+
+  async createApiKey(data: { name: string; scopes: any[]; expiresAt: string | null }) {
+    return this.request('/api-keys', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async revokeApiKey(id: string) {
+    return this.request(`/api-keys/${id}`, { method: 'DELETE' });
+  }
+
   // Dashboard
   async getDashboardMetrics() {
     return this.request('/dashboard/metrics');
@@ -0,0 +1,86 @@
+/**
+ * PORTAL API SERVICE
+ * ==================
+ *
+ * Chamadas do portal do cliente (/api/portal). Usa um token próprio,
+ * separado do login do escritório, e não possui renovação: ao expirar,
+ * o cliente entra novamente.
+ */
+
+class PortalApiService {
+  private baseUrl = process.env.NODE_ENV === 'production' ? '/api/portal' : 'http://localhost:4000/api/portal';
+  private token: string | null = null;
+
+  constructor() {
+    this.token = localStorage.getItem('portal_token');
+  }
+
+  private async request(endpoint: string, options: RequestInit = {}) {
+    const response = await fetch(`${this.baseUrl}${endpoint}`, {
+      ...options,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.token && { 'Authorization': `Bearer ${this.token}` }),
+        ...options.headers,
+      },
+    });
+
+    if (response.status === 401 || response.status === 403) {
+      if (this.token) {
+        this.clearToken();
+      }
+    }
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.violations?.join('; ') || error.error || `API Error: ${response.status}`);
+    }
+
+    return response.json();
+  }
+
+  isAuthenticated() {
+    return !!this.token;
+  }
+
+  clearToken() {
+    this.token = null;
+    localStorage.removeItem('portal_token');
+  }
+
+  async login(email: string, password: string) {
+    const response = await this.request('/login', {
+      method: 'POST',
+      body: JSON.stringify({ email, password }),
+    });
+
+    this.token = response.token;
+    localStorage.setItem('portal_token', response.token);
+    return response;
+  }
+
+  async activate(token: string, password: string) {
+    return this.request('/activate', {
+      method: 'POST',
+      body: JSON.stringify({ token, password }),
+    });
+  }
+
+  async getProfile() {
+    return this.request('/me');
+  }
+
+  async getInvoices() {
+    return this.request('/invoices');
+  }
+
+  async getProjects() {
+    return this.request('/projects');
+  }
+
+  async getPublications() {
+    return this.request('/publications');
+  }
+}
+
+export const portalApiService = new PortalApiService();
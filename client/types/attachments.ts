@@ -0,0 +1,18 @@
+export type AttachmentEntityType = 'client' | 'project' | 'task' | 'transaction' | 'invoice';
+
+// Same shape as TaskAttachment, ProjectAttachment... with the row it belongs to
+export interface Attachment {
+  id: string;
+  entityType: AttachmentEntityType;
+  entityId: string;
+  name: string;
+  type: string; // MIME type
+  size: number; // bytes
+  uploadedAt: string;
+  uploadedBy: string | null;
+}
+
+export interface StorageUsage {
+  used: number; // bytes
+  limit: number; // Tenant.maxStorage
+}
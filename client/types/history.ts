@@ -0,0 +1,18 @@
+// Resources with a change history (GET /api/<resource>/:id/history)
+export type HistoryResource = 'clients' | 'projects' | 'tasks' | 'transactions';
+
+export interface FieldChange {
+  field: string; // column name
+  from: unknown;
+  to: unknown;
+}
+
+export interface HistoryEntry {
+  id: string;
+  operation: 'CREATE' | 'UPDATE' | 'DELETE' | 'RESTORE' | string;
+  createdAt: string;
+  actor: { id: string; name: string } | null;
+  impersonatedBy: string | null;
+  changes: FieldChange[];
+  restorable: boolean;
+}
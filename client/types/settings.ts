@@ -28,6 +28,81 @@ export interface User {
   updatedAt: string;
   permissions: Permission[];
   clientPortalAccess: boolean;
+  activeSessions?: number;
+  lockedUntil?: string; // set while login is locked after repeated failures
+}
+
+export interface TeamInvite {
+  id: string;
+  email: string;
+  accountType: 'SIMPLES' | 'COMPOSTA' | 'GERENCIAL';
+  roleId: string | null;
+  expiresAt: string;
+  createdAt: string;
+  inviter?: { id: string; name: string };
+}
+
+export interface SeatUsage {
+  limit: number; // maxUsers of the plan
+  activeUsers: number;
+  pendingInvites: number; // pending invites hold a seat until they expire
+  used: number;
+}
+
+export interface ApiKey {
+  id: string;
+  name: string;
+  prefix: string; // first characters of the key; the full key is shown only once
+  scopes: Permission[]; // empty = same permissions as the creator
+  expiresAt?: string | null;
+  lastUsedAt?: string | null;
+  createdAt: string;
+  createdBy: string;
+  creator?: { id: string; name: string; email: string };
+}
+
+export interface SsoConfig {
+  enabled: boolean;
+  issuer: string;
+  clientId: string;
+  hasClientSecret: boolean; // the secret itself is never returned
+  allowedDomains: string[]; // email domains claimed for this provider
+  verifiedDomains: string[]; // allowed domains with the TXT record in place; only these route logins
+  verificationRecord: string; // TXT record to publish on each domain
+  defaultAccountType: 'SIMPLES' | 'COMPOSTA' | 'GERENCIAL'; // for users created on first SSO login
+  disablePasswordLogin: boolean;
+  redirectUri: string; // to be registered at the identity provider
+}
+
+export interface TenantExport {
+  id: string;
+  status: 'pending' | 'running' | 'completed' | 'failed' | 'expired';
+  progress: number; // 0-100
+  currentStep: string | null;
+  formatVersion: number;
+  fileSize: number | null;
+  error: string | null;
+  completedAt: string | null;
+  expiresAt: string | null; // archive is deleted after this
+  createdAt: string;
+  downloadUrl?: string; // short-lived signed link, only while downloadable
+  downloadUrlExpiresAt?: string;
+}
+
+// LGPD data-subject request about one client (titular)
+export interface DataSubjectRequest {
+  id: string;
+  client_id: string;
+  type: 'access' | 'anonymization';
+  status: 'open' | 'completed' | 'rejected';
+  notes: string | null;
+  due_at: string; // legal deadline
+  overdue: boolean;
+  requested_by: string | null;
+  completed_by: string | null;
+  completed_at: string | null;
+  result: Record<string, any> | null; // completion record (counts, reason)
+  created_at: string;
 }
 
 export interface CompanySettings {
@@ -168,6 +243,7 @@ export interface SecuritySettings {
     requireNumbers: boolean;
     requireSpecialChars: boolean;
     expiryDays?: number;
+    historyCount: number;
   };
   sessionSettings: {
     timeoutMinutes: number;
@@ -176,12 +252,16 @@ export interface SecuritySettings {
   };
   twoFactorAuth: {
     enabled: boolean;
+    required: boolean; // every user of the tenant must enrol before logging in
     methods: ('sms' | 'email' | 'app')[];
   };
   auditLog: {
     retention: number; // days
     enabledActions: string[];
   };
+  supportAccess: {
+    allowImpersonation: boolean; // SaaS support may access the system as a user
+  };
 }
 
 export interface IntegrationSettings {
@@ -221,3 +301,12 @@ export interface SettingsSection {
   component: string;
   permissions?: string[];
 }
+
+export type PlanFeature = 'receivables_automation' | 'publications' | 'client_portal';
+
+// GET /api/settings/plan; a null limit means unlimited
+export interface PlanUsage {
+  plan: { type: 'basic' | 'premium' | 'enterprise'; name: string };
+  features: PlanFeature[];
+  usage: Record<'users' | 'storage' | 'monthlyInvoices' | 'monitoredPublications', { used: number; limit: number | null }>;
+}
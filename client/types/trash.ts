@@ -0,0 +1,13 @@
+import { AttachmentEntityType } from './attachments';
+
+// The trash holds the same record types that take attachments
+export type TrashType = AttachmentEntityType;
+
+export interface TrashItem {
+  id: string;
+  type: TrashType;
+  name: string;
+  deletedAt: string;
+  purgeAt: string; // permanently deleted automatically after this date
+  tasks?: number; // projects: tasks deleted together with the project
+}
@@ -0,0 +1,108 @@
+#!/usr/bin/env node
+
+/**
+ * Provedor OpenID Connect local para testar o login SSO sem um IdP real
+ * Uso: node scripts/mock-oidc-provider.js [email]
+ *
+ * Issuer: http://localhost:9400 (OIDC_MOCK_PORT), client id: legalsaas (OIDC_MOCK_CLIENT_ID).
+ * O /authorize aprova na hora e autentica o email do login_hint (ou o informado na linha de comando).
+ */
+
+import http from 'http';
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+
+const PORT = Number(process.env.OIDC_MOCK_PORT) || 9400;
+const ISSUER = `http://localhost:${PORT}`;
+const CLIENT_ID = process.env.OIDC_MOCK_CLIENT_ID || 'legalsaas';
+const DEFAULT_EMAIL = process.argv[2] || 'usuario@exemplo.com.br';
+
+const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+const jwk = { ...publicKey.export({ format: 'jwk' }), kid: 'mock-key', use: 'sig', alg: 'RS256' };
+
+// code -> dados do pedido de autorização (uso único)
+const codes = new Map();
+
+function sendJson(res, status, body) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function readBody(req) {
+  return new Promise((resolve) => {
+    let data = '';
+    req.on('data', (chunk) => (data += chunk));
+    req.on('end', () => resolve(new URLSearchParams(data)));
+  });
+}
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url, ISSUER);
+
+  if (url.pathname === '/.well-known/openid-configuration') {
+    return sendJson(res, 200, {
+      issuer: ISSUER,
+      authorization_endpoint: `${ISSUER}/authorize`,
+      token_endpoint: `${ISSUER}/token`,
+      jwks_uri: `${ISSUER}/jwks`,
+      response_types_supported: ['code'],
+      code_challenge_methods_supported: ['S256'],
+      id_token_signing_alg_values_supported: ['RS256'],
+    });
+  }
+
+  if (url.pathname === '/jwks') {
+    return sendJson(res, 200, { keys: [jwk] });
+  }
+
+  if (url.pathname === '/authorize') {
+    const params = url.searchParams;
+    if (params.get('client_id') !== CLIENT_ID || params.get('code_challenge_method') !== 'S256') {
+      return sendJson(res, 400, { error: 'invalid_request' });
+    }
+
+    const code = crypto.randomBytes(16).toString('hex');
+    codes.set(code, {
+      redirectUri: params.get('redirect_uri'),
+      codeChallenge: params.get('code_challenge'),
+      nonce: params.get('nonce'),
+      email: params.get('login_hint') || DEFAULT_EMAIL,
+    });
+
+    const redirect = new URL(params.get('redirect_uri'));
+    redirect.searchParams.set('code', code);
+    redirect.searchParams.set('state', params.get('state'));
+    res.writeHead(302, { Location: redirect.toString() });
+    return res.end();
+  }
+
+  if (url.pathname === '/token' && req.method === 'POST') {
+    const body = await readBody(req);
+    const grant = codes.get(body.get('code'));
+    codes.delete(body.get('code'));
+
+    const challenge = crypto.createHash('sha256').update(body.get('code_verifier') || '').digest('base64url');
+    if (!grant || grant.redirectUri !== body.get('redirect_uri') || grant.codeChallenge !== challenge) {
+      return sendJson(res, 400, { error: 'invalid_grant' });
+    }
+
+    const idToken = jwt.sign(
+      {
+        email: grant.email,
+        email_verified: true,
+        name: grant.email.split('@')[0],
+        nonce: grant.nonce,
+      },
+      privateKey,
+      { algorithm: 'RS256', keyid: jwk.kid, issuer: ISSUER, audience: CLIENT_ID, subject: grant.email, expiresIn: '5m' }
+    );
+
+    return sendJson(res, 200, { access_token: 'mock-access-token', token_type: 'Bearer', id_token: idToken });
+  }
+
+  sendJson(res, 404, { error: 'not_found' });
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock OIDC provider running at ${ISSUER} (client id: ${CLIENT_ID})`);
+});
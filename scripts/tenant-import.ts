@@ -0,0 +1,72 @@
+#!/usr/bin/env tsx
+
+/**
+ * Restaura um arquivo de exportação de tenant (.zip gerado em /api/exports)
+ * Uso:
+ *   tsx scripts/tenant-import.ts <arquivo.zip> --tenant <id> [--dry-run] [--conflict skip|overwrite|fail] [--ids preserve|remap]
+ *   tsx scripts/tenant-import.ts <arquivo.zip> --name <nome> [--dry-run] [--conflict ...] [--ids ...]
+ */
+
+import fs from 'fs';
+import { prisma } from '../src/config/database';
+import { closePgPool } from '../src/config/pgPool';
+import {
+  tenantImportService,
+  ImportConflictPolicy,
+  ImportIdPolicy,
+  ImportTableReport,
+} from '../src/services/tenantImportService';
+
+const [file, ...args] = process.argv.slice(2);
+
+function option(name: string) {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+function formatTable(table: ImportTableReport) {
+  const dropped = table.droppedColumns.length > 0 ? ` (colunas ignoradas: ${table.droppedColumns.join(', ')})` : '';
+  return `   ${table.name}: ${table.rows} linhas, +${table.inserted} ~${table.updated} =${table.skipped}${dropped}`;
+}
+
+async function main() {
+  try {
+    const tenantId = option('--tenant');
+    const name = option('--name');
+    if (!file || (!tenantId && !name)) {
+      throw new Error('Informe o arquivo e --tenant <id> ou --name <nome>');
+    }
+
+    const options = {
+      dryRun: args.includes('--dry-run'),
+      conflict: (option('--conflict') || 'skip') as ImportConflictPolicy,
+      ids: (option('--ids') || 'preserve') as ImportIdPolicy,
+    };
+    if (!['skip', 'overwrite', 'fail'].includes(options.conflict) || !['preserve', 'remap'].includes(options.ids)) {
+      throw new Error('Use --conflict skip|overwrite|fail e --ids preserve|remap');
+    }
+
+    const archive = fs.readFileSync(file);
+    const report = tenantId
+      ? await tenantImportService.importArchive(tenantId, archive, options)
+      : await tenantImportService.importAsNewTenant(name!, archive, options);
+
+    console.log(`📦 ${report.sourceTenant.name} (formato ${report.formatVersion}, schema ${report.archiveSchemaVersion}) → ${report.tenantId}`);
+    console.log('Global:');
+    report.global.forEach((table) => console.log(formatTable(table)));
+    console.log('Tenant:');
+    report.tables.forEach((table) => console.log(formatTable(table)));
+    report.warnings.forEach((warning) => console.log(`⚠️  ${warning}`));
+
+    console.log(`\n${report.dryRun ? '🔎 Simulação (nada foi gravado)' : '✅ Restaurado'}: ${report.conflicts} conflitos`);
+    process.exitCode = report.dryRun && options.conflict === 'fail' && report.conflicts > 0 ? 1 : 0;
+  } catch (error) {
+    console.error('❌ Erro:', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  } finally {
+    await prisma.$disconnect();
+    await closePgPool();
+  }
+}
+
+main();
@@ -0,0 +1,87 @@
+#!/usr/bin/env tsx
+
+/**
+ * Migrations versionadas dos schemas de tenant (supabase/tenant-migrations)
+ * Uso:
+ *   tsx scripts/tenant-migrate.ts status [--behind]
+ *   tsx scripts/tenant-migrate.ts migrate [--dry-run] [--tenant <id>]
+ */
+
+import { prisma } from '../src/config/database';
+import { tenantMigrationService } from '../src/services/tenantMigrationService';
+
+const [command = 'status', ...args] = process.argv.slice(2);
+
+function option(name: string) {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+function formatVersions(migrations: { version: number; name: string }[]) {
+  return migrations.map((migration) => `${String(migration.version).padStart(4, '0')}_${migration.name}`).join(', ');
+}
+
+async function status() {
+  const latest = tenantMigrationService.latestVersion();
+  const statuses = await tenantMigrationService.getAllStatuses();
+  const behind = statuses.filter((status) => status.pending.length > 0 || status.error);
+
+  console.log(`📋 Versão mais recente: ${latest} | tenants: ${statuses.length} | atrasados: ${behind.length}\n`);
+
+  for (const status of args.includes('--behind') ? behind : statuses) {
+    const label = `${status.tenantName} (${status.schemaName})`;
+    if (status.error) {
+      console.log(`❌ ${label}: ${status.error}`);
+    } else if (status.pending.length > 0) {
+      console.log(`⏳ ${label}: versão ${status.currentVersion}, pendentes: ${formatVersions(status.pending)}`);
+    } else {
+      console.log(`✅ ${label}: versão ${status.currentVersion}`);
+    }
+    if (status.modified.length > 0) {
+      console.log(`   ⚠️  alteradas após aplicar: ${formatVersions(status.modified)}`);
+    }
+  }
+
+  return behind.length === 0;
+}
+
+async function migrate() {
+  const dryRun = args.includes('--dry-run');
+  const results = await tenantMigrationService.migrateAll({ dryRun, tenantId: option('--tenant') });
+
+  for (const result of results) {
+    if (dryRun) {
+      console.log(`🔎 ${result.schemaName}: ${result.pending.length ? formatVersions(result.pending) : 'nada a aplicar'}`);
+      continue;
+    }
+    if (result.applied.length > 0) {
+      console.log(`✅ ${result.schemaName}: aplicadas ${formatVersions(result.applied)}`);
+    }
+    if (result.failed) {
+      console.log(`❌ ${result.schemaName}: falhou em ${result.failed.version}_${result.failed.name}: ${result.failed.error}`);
+    }
+  }
+
+  const failed = results.filter((result) => result.failed).length;
+  console.log(`\n${dryRun ? 'Simulação' : 'Concluído'}: ${results.length} tenants, ${failed} com falha`);
+
+  return failed === 0;
+}
+
+async function main() {
+  try {
+    const commands: Record<string, () => Promise<boolean>> = { status, migrate };
+    if (!commands[command]) {
+      throw new Error(`Comando desconhecido: ${command} (use status ou migrate)`);
+    }
+
+    process.exitCode = (await commands[command]()) ? 0 : 1;
+  } catch (error) {
+    console.error('❌ Erro:', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+main();
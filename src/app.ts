@@ -12,7 +12,17 @@ import projectsRoutes from './routes/projects';
 import tasksRoutes from './routes/tasks';
 import transactionsRoutes from './routes/transactions';
 import invoicesRoutes from './routes/invoices';
+import publicationsRoutes from './routes/publications';
 import adminRoutes from './routes/admin';
+import settingsRoutes from './routes/settings';
+import usersRoutes from './routes/users';
+import rolesRoutes from './routes/roles';
+import apiKeysRoutes from './routes/apiKeys';
+import portalRoutes from './routes/portal';
+import exportsRoutes from './routes/exports';
+import dataRequestsRoutes from './routes/dataRequests';
+import attachmentsRoutes from './routes/attachments';
+import trashRoutes from './routes/trash';
 
 export function createApp() {
   const app = express();
@@ -34,7 +44,7 @@ export function createApp() {
     origin: process.env.FRONTEND_URL || 'http://localhost:8080',
     credentials: true,
     methods: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH'],
-    allowedHeaders: ['Content-Type', 'Authorization'],
+    allowedHeaders: ['Content-Type', 'Authorization', 'X-API-Key'],
   }));
 
   // Rate limiting
@@ -97,6 +107,16 @@ export function createApp() {
   app.use('/api/tasks', tasksRoutes);
   app.use('/api/transactions', transactionsRoutes);
   app.use('/api/invoices', invoicesRoutes);
+  app.use('/api/publications', publicationsRoutes);
+  app.use('/api/settings', settingsRoutes);
+  app.use('/api/users', usersRoutes);
+  app.use('/api/roles', rolesRoutes);
+  app.use('/api/api-keys', apiKeysRoutes);
+  app.use('/api/portal', portalRoutes);
+  app.use('/api/exports', exportsRoutes);
+  app.use('/api/data-requests', dataRequestsRoutes);
+  app.use('/api/attachments', attachmentsRoutes);
+  app.use('/api/trash', trashRoutes);
   app.use('/api/admin', adminRoutes);
 
   // Global error handler
@@ -1,106 +1,121 @@
 import { PrismaClient } from '@prisma/client';
+import { PoolClient } from 'pg';
+import { withTenantClient, withTenantTransaction, closePgPool, TenantTransactionOptions } from './pgPool';
+import { AppError } from '../types';
+import { TenantQueryBuilder, TenantTable, TenantTables, TenantFilter, TenantQueryOptions, TenantRowInput } from './tenantQuery';
 
 // Global Prisma client for admin operations
 export const prisma = new PrismaClient({
   log: ['query', 'info', 'warn', 'error'],
 });
 
+// How tenant queries reach Postgres: 'postgres' (default) uses the pooled direct
+// connection, 'supabase' the execute_sql RPC (one HTTP call per query, no transactions)
+export const tenantDbDriver = process.env.TENANT_DB_DRIVER === 'supabase' ? 'supabase' : 'postgres';
+
 // Tenant-specific database connection
 export class TenantDatabase {
   private tenantId: string;
   private schemaName: string;
+  private builder: TenantQueryBuilder;
+  // Set while running inside transaction()
+  private client?: PoolClient;
 
-  constructor(tenantId: string) {
+  constructor(tenantId: string, client?: PoolClient) {
     this.tenantId = tenantId;
     this.schemaName = `tenant_${tenantId.replace(/-/g, '')}`;
+    this.builder = new TenantQueryBuilder(this.schemaName);
+    this.client = client;
   }
 
   // Execute raw SQL with tenant schema
   async query(sql: string, params: any[] = []) {
     const tenantSql = sql.replace(/\$\{schema\}/g, this.schemaName);
-    return await prisma.$queryRawUnsafe(tenantSql, ...params);
+
+    if (this.client) {
+      return (await this.client.query(tenantSql, params)).rows;
+    }
+
+    if (tenantDbDriver === 'supabase') {
+      const { executeSql } = await import('./supabase');
+      return await executeSql(tenantSql, params);
+    }
+
+    return await withTenantClient(this.schemaName, async (client) => (await client.query(tenantSql, params)).rows);
+  }
+
+  // Runs fn with a TenantDatabase bound to one connection inside BEGIN/COMMIT.
+  // Nested calls join the outer transaction.
+  async transaction<T>(fn: (tx: TenantDatabase) => Promise<T>, options: TenantTransactionOptions = {}): Promise<T> {
+    if (this.client) {
+      return await fn(this);
+    }
+
+    if (tenantDbDriver === 'supabase') {
+      throw new AppError('Tenant transactions require TENANT_DB_DRIVER=postgres', 500, 'TENANT_TX_UNSUPPORTED');
+    }
+
+    return await withTenantTransaction(
+      this.schemaName,
+      (client) => fn(new TenantDatabase(this.tenantId, client)),
+      options
+    );
   }
 
-  // Generic CRUD operations for tenant tables
-  async findMany(table: string, where: any = {}, options: any = {}) {
-    const whereClause = Object.keys(where).length > 0 
-      ? `WHERE ${Object.keys(where).map((key, i) => `${key} = $${i + 1}`).join(' AND ')}`
-      : '';
-    
-    const orderBy = options.orderBy 
-      ? `ORDER BY ${options.orderBy.field} ${options.orderBy.direction || 'ASC'}`
-      : '';
-    
-    const limit = options.limit ? `LIMIT ${options.limit}` : '';
-    const offset = options.offset ? `OFFSET ${options.offset}` : '';
-
-    const sql = `
-      SELECT * FROM ${this.schemaName}.${table} 
-      ${whereClause} 
-      ${orderBy} 
-      ${limit} 
-      ${offset}
-    `;
-
-    return await this.query(sql, Object.values(where));
+  // Generic CRUD operations for tenant tables (SQL built by TenantQueryBuilder)
+  async findMany<T extends TenantTable>(
+    table: T,
+    where: TenantFilter<TenantTables[T]> = {},
+    options: TenantQueryOptions<TenantTables[T]> = {}
+  ): Promise<TenantTables[T][]> {
+    const { sql, params } = this.builder.select(table, where, options);
+    return await this.query(sql, params);
   }
 
-  async findById(table: string, id: string) {
-    const sql = `SELECT * FROM ${this.schemaName}.${table} WHERE id = $1`;
-    const result = await this.query(sql, [id]);
+  async findById<T extends TenantTable>(table: T, id: string): Promise<TenantTables[T] | null> {
+    const { sql, params } = this.builder.select(table, { id } as TenantFilter<TenantTables[T]>);
+    const result = await this.query(sql, params);
     return result[0] || null;
   }
 
-  async create(table: string, data: any) {
-    const columns = Object.keys(data).join(', ');
-    const values = Object.keys(data).map((_, i) => `$${i + 1}`).join(', ');
-    
-    const sql = `
-      INSERT INTO ${this.schemaName}.${table} (${columns}) 
-      VALUES (${values}) 
-      RETURNING *
-    `;
-
-    const result = await this.query(sql, Object.values(data));
+  async create<T extends TenantTable>(table: T, data: TenantRowInput<TenantTables[T]>): Promise<TenantTables[T]> {
+    const { sql, params } = this.builder.insert(table, data);
+    const result = await this.query(sql, params);
     return result[0];
   }
 
-  async update(table: string, id: string, data: any) {
-    const setClause = Object.keys(data)
-      .map((key, i) => `${key} = $${i + 2}`)
-      .join(', ');
-    
-    const sql = `
-      UPDATE ${this.schemaName}.${table} 
-      SET ${setClause}, updated_at = NOW() 
-      WHERE id = $1 
-      RETURNING *
-    `;
-
-    const result = await this.query(sql, [id, ...Object.values(data)]);
+  async update<T extends TenantTable>(table: T, id: string, data: TenantRowInput<TenantTables[T]>): Promise<TenantTables[T]> {
+    const { sql, params } = this.builder.update(table, id, data);
+    const result = await this.query(sql, params);
     return result[0];
   }
 
-  async delete(table: string, id: string) {
-    const sql = `DELETE FROM ${this.schemaName}.${table} WHERE id = $1 RETURNING *`;
-    const result = await this.query(sql, [id]);
-    return result[0];
+  async restore<T extends TenantTable>(table: T, id: string, snapshot: object): Promise<TenantTables[T] | null> {
+    const { sql, params } = this.builder.restore(table, id, snapshot);
+    const result = await this.query(sql, params);
+    return result[0] || null;
   }
 
-  async count(table: string, where: any = {}) {
-    const whereClause = Object.keys(where).length > 0 
-      ? `WHERE ${Object.keys(where).map((key, i) => `${key} = $${i + 1}`).join(' AND ')}`
-      : '';
+  async delete<T extends TenantTable>(table: T, id: string): Promise<TenantTables[T]> {
+    const { sql, params } = this.builder.delete(table, id);
+    const result = await this.query(sql, params);
+    return result[0];
+  }
 
-    const sql = `SELECT COUNT(*) as count FROM ${this.schemaName}.${table} ${whereClause}`;
-    const result = await this.query(sql, Object.values(where));
+  async count<T extends TenantTable>(
+    table: T,
+    where: TenantFilter<TenantTables[T]> = {},
+    options: Pick<TenantQueryOptions<TenantTables[T]>, 'search'> = {}
+  ): Promise<number> {
+    const { sql, params } = this.builder.count(table, where, options);
+    const result = await this.query(sql, params);
     return parseInt(result[0].count);
   }
 
   // Dashboard metrics methods
-  async getDashboardMetrics(accountType: string) {
-    if (accountType === 'SIMPLES') {
-      // Return zero financial data for simple accounts
+  async getDashboardMetrics(includeFinancials: boolean) {
+    if (!includeFinancials) {
+      // Return zero financial data for roles without transactions access
       return {
         revenue: 0,
         expenses: 0,
@@ -111,7 +126,7 @@ export class TenantDatabase {
       };
     }
 
-    // Full metrics for COMPOSTA and GERENCIAL accounts
+    // Full metrics for roles with transactions access
     const financialData = await this.query(`
       SELECT 
         SUM(CASE WHEN type = 'income' THEN amount ELSE 0 END) as revenue,
@@ -140,4 +155,5 @@ export class TenantDatabase {
 // Connection cleanup
 process.on('beforeExit', async () => {
   await prisma.$disconnect();
+  await closePgPool();
 });
\ No newline at end of file
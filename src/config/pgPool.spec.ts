@@ -0,0 +1,67 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const { client } = vi.hoisted(() => ({
+  client: {
+    query: vi.fn(async (..._args: any[]) => ({ rows: [] as any[] })),
+    release: vi.fn(),
+  },
+}));
+
+vi.mock("pg", () => ({
+  Pool: vi.fn(() => ({ connect: async () => client, on: vi.fn(), end: vi.fn() })),
+}));
+
+import { withTenantClient, withTenantTransaction } from "./pgPool";
+
+const schema = "tenant_0123456789abcdef0123456789abcdef";
+const statements = () => client.query.mock.calls.map(([sql]) => sql);
+
+describe("pgPool", () => {
+  beforeEach(() => {
+    process.env.DATABASE_URL = "postgresql://localhost/test";
+    client.query.mockClear();
+    client.release.mockClear();
+  });
+
+  it("should scope each checkout to the tenant schema", async () => {
+    await withTenantClient(schema, (c) => c.query("SELECT 1"));
+
+    expect(client.query.mock.calls[0]).toEqual([
+      "SELECT set_config($1, $2, $3)",
+      ["search_path", `"${schema}", public`, false],
+    ]);
+    expect(statements()[1]).toBe("SELECT 1");
+    expect(client.release).toHaveBeenCalledWith();
+  });
+
+  it("should commit a transaction with a transaction-local search_path", async () => {
+    const result = await withTenantTransaction(schema, async (c) => {
+      await c.query("INSERT 1");
+      await c.query("INSERT 2");
+      return "done";
+    });
+
+    expect(result).toBe("done");
+    expect(statements()).toEqual(["BEGIN", "SELECT set_config($1, $2, $3)", "INSERT 1", "INSERT 2", "COMMIT"]);
+    expect(client.query.mock.calls[1][1]).toEqual(["search_path", `"${schema}", public`, true]);
+  });
+
+  it("should roll back and rethrow when any statement fails", async () => {
+    await expect(
+      withTenantTransaction(schema, async (c) => {
+        await c.query("INSERT 1");
+        throw new Error("constraint violated");
+      })
+    ).rejects.toThrow("constraint violated");
+
+    expect(statements()).toEqual(["BEGIN", "SELECT set_config($1, $2, $3)", "INSERT 1", "ROLLBACK"]);
+    expect(client.release).toHaveBeenCalledWith(false);
+  });
+
+  it("should reject schema names that are not tenant schemas", async () => {
+    await expect(withTenantClient('public"; DROP SCHEMA x; --', async () => null)).rejects.toThrow(
+      "Invalid tenant schema"
+    );
+    expect(client.query).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,93 @@
+import { Pool, PoolClient } from 'pg';
+
+const SCHEMA_PATTERN = /^tenant_[0-9a-f]{32}$/;
+
+let pool: Pool | null = null;
+
+// Created on first use so importing this module never opens connections
+function getPool(): Pool {
+  if (!pool) {
+    const connectionString = process.env.TENANT_DATABASE_URL || process.env.DATABASE_URL;
+    if (!connectionString) {
+      throw new Error('DATABASE_URL is not configured');
+    }
+
+    pool = new Pool({
+      connectionString,
+      max: parseInt(process.env.PG_POOL_MAX || '10'),
+      idleTimeoutMillis: 30000,
+      connectionTimeoutMillis: 5000,
+    });
+
+    // An idle connection dropped by the server must not crash the process
+    pool.on('error', (error) => {
+      console.error('Postgres pool error:', error);
+    });
+  }
+
+  return pool;
+}
+
+function assertSchemaName(schemaName: string) {
+  if (!SCHEMA_PATTERN.test(schemaName)) {
+    throw new Error(`Invalid tenant schema: ${schemaName}`);
+  }
+}
+
+async function setSearchPath(client: PoolClient, schemaName: string, local: boolean) {
+  await client.query('SELECT set_config($1, $2, $3)', ['search_path', `"${schemaName}", public`, local]);
+}
+
+// Runs fn on a pooled connection scoped to the tenant schema. Every checkout sets
+// search_path first, so a value left behind by the previous borrower never leaks.
+export async function withTenantClient<T>(schemaName: string, fn: (client: PoolClient) => Promise<T>): Promise<T> {
+  assertSchemaName(schemaName);
+  const client = await getPool().connect();
+
+  try {
+    await setSearchPath(client, schemaName, false);
+    return await fn(client);
+  } finally {
+    client.release();
+  }
+}
+
+export interface TenantTransactionOptions {
+  // One consistent snapshot for every statement, writes refused (exports)
+  readOnly?: boolean;
+}
+
+// Runs fn inside BEGIN/COMMIT on a single connection; any error rolls everything back
+export async function withTenantTransaction<T>(
+  schemaName: string,
+  fn: (client: PoolClient) => Promise<T>,
+  options: TenantTransactionOptions = {}
+): Promise<T> {
+  assertSchemaName(schemaName);
+  const client = await getPool().connect();
+  let broken = false;
+
+  try {
+    await client.query(options.readOnly ? 'BEGIN ISOLATION LEVEL REPEATABLE READ READ ONLY' : 'BEGIN');
+    await setSearchPath(client, schemaName, true);
+    const result = await fn(client);
+    await client.query('COMMIT');
+    return result;
+  } catch (error) {
+    await client.query('ROLLBACK').catch(() => {
+      // Connection is unusable: drop it instead of returning it to the pool
+      broken = true;
+    });
+    throw error;
+  } finally {
+    client.release(broken);
+  }
+}
+
+export async function closePgPool() {
+  if (pool) {
+    const current = pool;
+    pool = null;
+    await current.end();
+  }
+}
@@ -0,0 +1,52 @@
+// Plan catalogue. tenants.plan_type names one of these; max_users and max_storage are copied
+// from it when a tenant is created or changes plan, so admins can still raise them per tenant.
+// The other limits are read from the catalogue on every check.
+
+export const PLAN_TYPES = ['basic', 'premium', 'enterprise'] as const;
+export type PlanType = (typeof PLAN_TYPES)[number];
+
+export const PLAN_FEATURES = ['receivables_automation', 'publications', 'client_portal'] as const;
+export type PlanFeature = (typeof PLAN_FEATURES)[number];
+
+export type PlanLimit = 'users' | 'storage' | 'monthlyInvoices' | 'monitoredPublications';
+
+export interface PlanDefinition {
+  type: PlanType;
+  name: string;
+  // null = unlimited
+  limits: Record<PlanLimit, number | null>;
+  features: PlanFeature[];
+}
+
+const GB = 1024 * 1024 * 1024;
+
+export const PLANS: Record<PlanType, PlanDefinition> = {
+  basic: {
+    type: 'basic',
+    name: 'Basic',
+    limits: { users: 5, storage: 1 * GB, monthlyInvoices: 50, monitoredPublications: 0 },
+    features: [],
+  },
+  premium: {
+    type: 'premium',
+    name: 'Premium',
+    limits: { users: 15, storage: 10 * GB, monthlyInvoices: 500, monitoredPublications: 5 },
+    features: ['publications', 'client_portal'],
+  },
+  enterprise: {
+    type: 'enterprise',
+    name: 'Enterprise',
+    limits: { users: 100, storage: 100 * GB, monthlyInvoices: null, monitoredPublications: null },
+    features: ['receivables_automation', 'publications', 'client_portal'],
+  },
+};
+
+// Tenants created before the catalogue may carry any string; they get the basic plan
+export function getPlan(planType: string | null | undefined): PlanDefinition {
+  return PLANS[planType as PlanType] || PLANS.basic;
+}
+
+// The cheapest plan that includes a feature, for "upgrade to ..." messages
+export function planWithFeature(feature: PlanFeature): PlanDefinition | undefined {
+  return PLAN_TYPES.map((type) => PLANS[type]).find((plan) => plan.features.includes(feature));
+}
@@ -0,0 +1,104 @@
+import { describe, it, expect } from "vitest";
+import { TenantQueryBuilder, MAX_LIMIT } from "./tenantQuery";
+import { InvalidQueryError } from "../types";
+
+const schema = "tenant_0123456789abcdef0123456789abcdef";
+const builder = new TenantQueryBuilder(schema);
+
+// Untrusted input as it would arrive from a query string or JSON body
+const untrusted = (value: unknown) => value as any;
+
+describe("TenantQueryBuilder", () => {
+  it("should quote whitelisted identifiers and bind every value", () => {
+    const query = builder.select(
+      "clients",
+      { is_active: true, status: "active" },
+      {
+        select: ["id", "name"],
+        search: { columns: ["name", "email"], term: "ana" },
+        orderBy: { field: "created_at", direction: "desc" },
+        limit: 20,
+        offset: 40,
+      }
+    );
+
+    expect(query.sql).toBe(
+      `SELECT "id", "name" FROM "${schema}"."clients" WHERE "is_active" = $1 AND "status" = $2` +
+        ` AND ("name" ILIKE $3 OR "email" ILIKE $3) ORDER BY "created_at" DESC LIMIT $4 OFFSET $5`
+    );
+    expect(query.params).toEqual([true, "active", "%ana%", 20, 40]);
+  });
+
+  it("should reject sort fields and directions outside the whitelist", () => {
+    expect(() =>
+      builder.select("clients", {}, { orderBy: { field: untrusted("created_at; DROP TABLE clients") } })
+    ).toThrow(InvalidQueryError);
+    expect(() =>
+      builder.select("clients", {}, { orderBy: { field: untrusted('name" DESC, (SELECT 1) --') } })
+    ).toThrow("Unknown column");
+    expect(() =>
+      builder.select("clients", {}, { orderBy: { field: "name", direction: untrusted("ASC; DELETE FROM clients") } })
+    ).toThrow("Invalid sort direction");
+  });
+
+  it("should reject filter keys and operators that are not columns or known operators", () => {
+    expect(() => builder.select("tasks", untrusted({ "1=1 OR id": "x" }))).toThrow("Unknown column");
+    expect(() => builder.select("tasks", untrusted({ constructor: "x" }))).toThrow("Unknown column");
+    expect(() => builder.select("tasks", untrusted({ status: { "= 'x' OR 1=1 --": "y" } }))).toThrow(
+      "Invalid filter operator"
+    );
+  });
+
+  it("should keep hostile filter and search values in the parameters", () => {
+    const hostile = "'; DROP SCHEMA public CASCADE; --";
+    const query = builder.select(
+      "projects",
+      { status: untrusted(hostile), due_date: { gte: "2025-01-01", lte: hostile } },
+      { search: { columns: ["title"], term: "100%_done" } }
+    );
+
+    expect(query.sql).not.toContain("DROP");
+    expect(query.params).toEqual([hostile, "2025-01-01", hostile, "%100\\%\\_done%"]);
+  });
+
+  it("should only accept non-negative integer pagination and cap the limit", () => {
+    expect(() => builder.select("invoices", {}, { limit: untrusted("10; DROP TABLE invoices") })).toThrow(
+      "Invalid limit"
+    );
+    expect(() => builder.select("invoices", {}, { offset: -1 })).toThrow("Invalid offset");
+    expect(() => builder.select("invoices", {}, { limit: 1.5 })).toThrow("Invalid limit");
+
+    expect(builder.select("invoices", {}, { limit: 100000 }).params).toEqual([MAX_LIMIT]);
+  });
+
+  it("should refuse tables and schemas outside the tenant whitelist", () => {
+    expect(() => builder.select(untrusted("users"))).toThrow("Unknown tenant table");
+    expect(() => builder.count(untrusted('clients" UNION SELECT * FROM public.users --'))).toThrow(
+      "Unknown tenant table"
+    );
+    expect(() => new TenantQueryBuilder("public")).toThrow("Invalid tenant schema");
+  });
+
+  it("should reject unknown columns on insert and update", () => {
+    expect(() => builder.insert("transactions", untrusted({ amount: 10, "amount) VALUES (1); --": 1 }))).toThrow(
+      "Unknown column"
+    );
+    expect(builder.update("transactions", "tx-1", { amount: 10, updated_at: "ignored" })).toEqual({
+      sql: `UPDATE "${schema}"."transactions" SET "amount" = $2, "updated_at" = NOW() WHERE "id" = $1 RETURNING *`,
+      params: ["tx-1", 10],
+    });
+  });
+
+  it("should restore snapshots through jsonb_populate_record, skipping unknown and system columns", () => {
+    const snapshot = { id: "other", name: "Ana", tags: ["vip"], created_at: "2025-01-01", legacy_column: 1 };
+
+    expect(builder.restore("clients", "client-1", snapshot)).toEqual({
+      sql:
+        `UPDATE "${schema}"."clients" SET ("name", "tags", "updated_at") = ` +
+        `(SELECT s."name", s."tags", NOW() FROM jsonb_populate_record(NULL::"${schema}"."clients", $2::jsonb) AS s) ` +
+        `WHERE "id" = $1 RETURNING *`,
+      params: ["client-1", JSON.stringify(snapshot)],
+    });
+    expect(() => builder.restore("clients", "client-1", { id: "client-1" })).toThrow("Nothing to restore");
+  });
+});
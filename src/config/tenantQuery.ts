@@ -0,0 +1,321 @@
+import {
+  ClientRow,
+  ProjectRow,
+  TaskRow,
+  TransactionRow,
+  InvoiceRow,
+  PublicationRow,
+  DataSubjectRequestRow,
+  AttachmentRow,
+  InvalidQueryError,
+} from '../types';
+
+export interface TenantTables {
+  clients: ClientRow;
+  projects: ProjectRow;
+  tasks: TaskRow;
+  transactions: TransactionRow;
+  invoices: InvoiceRow;
+  publications: PublicationRow;
+  data_subject_requests: DataSubjectRequestRow;
+  attachments: AttachmentRow;
+}
+
+export type TenantTable = keyof TenantTables;
+
+// Date columns also take ISO strings (query-string input)
+type FilterValue<V> = V extends Date ? Date | string : V;
+
+// Operators accepted in a filter; anything else is rejected
+export type ColumnFilter<V> =
+  | FilterValue<V>
+  | null
+  | { in: FilterValue<V>[] }
+  | { gte?: FilterValue<V>; lte?: FilterValue<V> }
+  | { ilike: string };
+
+export type TenantFilter<Row> = { [K in keyof Row]?: ColumnFilter<Row[K]> };
+
+export interface TenantOrderBy<Row> {
+  field: keyof Row;
+  direction?: 'asc' | 'desc' | 'ASC' | 'DESC';
+}
+
+export interface TenantQueryOptions<Row> {
+  select?: (keyof Row)[];
+  // Case-insensitive substring match on any of the columns (OR)
+  search?: { columns: (keyof Row)[]; term: string };
+  orderBy?: TenantOrderBy<Row> | TenantOrderBy<Row>[];
+  limit?: number;
+  offset?: number;
+}
+
+export type TenantRowInput<Row> = { [K in keyof Row]?: unknown };
+
+export interface SqlQuery {
+  sql: string;
+  params: unknown[];
+}
+
+export const MAX_LIMIT = 500;
+const SCHEMA_PATTERN = /^tenant_[0-9a-f]{32}$/;
+const OPERATORS = new Set(['in', 'gte', 'lte', 'ilike']);
+
+// The compiler checks each list against its row type, so a column cannot be added to one and not the other
+const TENANT_COLUMNS: { [T in TenantTable]: Record<keyof TenantTables[T], true> } = {
+  clients: {
+    id: true, name: true, email: true, phone: true, organization: true, address: true, budget: true,
+    currency: true, status: true, tags: true, notes: true, cpf: true, rg: true, pis: true, cei: true,
+    birth_date: true, marital_status: true, professional_title: true, anonymized_at: true,
+    created_by: true, created_at: true, updated_at: true, is_active: true, deleted_at: true,
+  },
+  projects: {
+    id: true, title: true, description: true, client_id: true, client_name: true, organization: true,
+    address: true, budget: true, currency: true, status: true, priority: true, progress: true,
+    start_date: true, due_date: true, completed_at: true, tags: true, assigned_to: true, notes: true,
+    created_by: true, created_at: true, updated_at: true, is_active: true, deleted_at: true,
+  },
+  tasks: {
+    id: true, title: true, description: true, project_id: true, project_title: true, client_id: true,
+    client_name: true, assigned_to: true, status: true, priority: true, progress: true, start_date: true,
+    end_date: true, completed_at: true, estimated_hours: true, actual_hours: true, tags: true, notes: true,
+    subtasks: true, created_by: true, created_at: true, updated_at: true, is_active: true, deleted_at: true,
+  },
+  transactions: {
+    id: true, type: true, amount: true, category_id: true, category: true, description: true, date: true,
+    payment_method: true, status: true, project_id: true, project_title: true, client_id: true,
+    client_name: true, tags: true, notes: true, is_recurring: true, recurring_frequency: true,
+    created_by: true, created_at: true, updated_at: true, is_active: true, deleted_at: true,
+  },
+  invoices: {
+    id: true, number: true, title: true, description: true, client_id: true, client_name: true,
+    client_email: true, client_phone: true, amount: true, currency: true, status: true, due_date: true,
+    paid_at: true, payment_method: true, items: true, tags: true, notes: true, created_by: true,
+    created_at: true, updated_at: true, is_active: true, deleted_at: true,
+  },
+  publications: {
+    id: true, user_id: true, oab_number: true, process_number: true, publication_date: true, content: true,
+    source: true, external_id: true, status: true, urgency: true, responsible: true, notes: true,
+    created_at: true, updated_at: true,
+  },
+  data_subject_requests: {
+    id: true, client_id: true, type: true, status: true, notes: true, due_at: true, requested_by: true,
+    completed_by: true, completed_at: true, result: true, created_at: true, updated_at: true,
+  },
+  attachments: {
+    id: true, entity_type: true, entity_id: true, name: true, mime_type: true, size: true, checksum: true,
+    uploaded_by: true, created_at: true, updated_at: true,
+  },
+};
+
+function isOperatorObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+}
+
+/**
+ * Builds SQL for one tenant schema. Identifiers only ever come from the whitelist
+ * above and are quoted; every value, including LIMIT/OFFSET, is a bind parameter.
+ */
+export class TenantQueryBuilder {
+  private schemaName: string;
+
+  constructor(schemaName: string) {
+    if (!SCHEMA_PATTERN.test(schemaName)) {
+      throw new InvalidQueryError(`Invalid tenant schema: ${schemaName}`);
+    }
+    this.schemaName = schemaName;
+  }
+
+  select<T extends TenantTable>(
+    table: T,
+    where: TenantFilter<TenantTables[T]> = {},
+    options: TenantQueryOptions<TenantTables[T]> = {}
+  ): SqlQuery {
+    const params: unknown[] = [];
+    const columns = options.select?.length
+      ? options.select.map((column) => this.column(table, column)).join(', ')
+      : '*';
+
+    let sql = `SELECT ${columns} FROM ${this.table(table)}${this.where(table, where, options.search, params)}`;
+
+    const orderBy = options.orderBy ? [options.orderBy].flat() : [];
+    if (orderBy.length > 0) {
+      sql += ` ORDER BY ${orderBy.map((order) => `${this.column(table, order.field)} ${this.direction(order.direction)}`).join(', ')}`;
+    }
+
+    if (options.limit !== undefined) {
+      params.push(Math.min(this.nonNegativeInteger('limit', options.limit), MAX_LIMIT));
+      sql += ` LIMIT $${params.length}`;
+    }
+
+    if (options.offset !== undefined) {
+      params.push(this.nonNegativeInteger('offset', options.offset));
+      sql += ` OFFSET $${params.length}`;
+    }
+
+    return { sql, params };
+  }
+
+  count<T extends TenantTable>(
+    table: T,
+    where: TenantFilter<TenantTables[T]> = {},
+    options: Pick<TenantQueryOptions<TenantTables[T]>, 'search'> = {}
+  ): SqlQuery {
+    const params: unknown[] = [];
+    const sql = `SELECT COUNT(*) AS count FROM ${this.table(table)}${this.where(table, where, options.search, params)}`;
+
+    return { sql, params };
+  }
+
+  insert<T extends TenantTable>(table: T, data: TenantRowInput<TenantTables[T]>): SqlQuery {
+    const entries = this.entries(table, data);
+    if (entries.length === 0) {
+      throw new InvalidQueryError('Nothing to insert');
+    }
+
+    const columns = entries.map(([column]) => this.column(table, column)).join(', ');
+    const values = entries.map((_, i) => `$${i + 1}`).join(', ');
+
+    return {
+      sql: `INSERT INTO ${this.table(table)} (${columns}) VALUES (${values}) RETURNING *`,
+      params: entries.map(([, value]) => value),
+    };
+  }
+
+  update<T extends TenantTable>(table: T, id: string, data: TenantRowInput<TenantTables[T]>): SqlQuery {
+    const entries = this.entries(table, data).filter(([column]) => column !== 'id' && column !== 'updated_at');
+    const assignments = entries.map(([column], i) => `${this.column(table, column)} = $${i + 2}`);
+
+    return {
+      sql: `UPDATE ${this.table(table)} SET ${[...assignments, '"updated_at" = NOW()'].join(', ')} WHERE "id" = $1 RETURNING *`,
+      params: [id, ...entries.map(([, value]) => value)],
+    };
+  }
+
+  // Puts a row back to an earlier snapshot (an audit log's JSON copy of it). Values are cast
+  // by jsonb_populate_record; columns the table no longer has are skipped, and id, creation
+  // fields and updated_at are never taken from the snapshot.
+  restore<T extends TenantTable>(table: T, id: string, snapshot: object): SqlQuery {
+    const columns = Object.keys(snapshot).filter((column) =>
+      Object.prototype.hasOwnProperty.call(TENANT_COLUMNS[table], column) &&
+      !['id', 'created_by', 'created_at', 'updated_at'].includes(column)
+    );
+    if (columns.length === 0) {
+      throw new InvalidQueryError('Nothing to restore');
+    }
+
+    const target = this.table(table);
+    const columnList = columns.map((column) => this.column(table, column));
+
+    return {
+      sql: `UPDATE ${target} SET (${[...columnList, '"updated_at"'].join(', ')}) = ` +
+        `(SELECT ${[...columnList.map((column) => `s.${column}`), 'NOW()'].join(', ')} FROM jsonb_populate_record(NULL::${target}, $2::jsonb) AS s) ` +
+        'WHERE "id" = $1 RETURNING *',
+      params: [id, JSON.stringify(snapshot)],
+    };
+  }
+
+  delete<T extends TenantTable>(table: T, id: string): SqlQuery {
+    return { sql: `DELETE FROM ${this.table(table)} WHERE "id" = $1 RETURNING *`, params: [id] };
+  }
+
+  private table(table: TenantTable): string {
+    if (!Object.prototype.hasOwnProperty.call(TENANT_COLUMNS, table)) {
+      throw new InvalidQueryError(`Unknown tenant table: ${String(table)}`);
+    }
+    return `"${this.schemaName}"."${table}"`;
+  }
+
+  private column(table: TenantTable, column: PropertyKey): string {
+    this.table(table);
+    if (typeof column !== 'string' || !Object.prototype.hasOwnProperty.call(TENANT_COLUMNS[table], column)) {
+      throw new InvalidQueryError(`Unknown column ${String(column)} on ${table}`);
+    }
+    return `"${column}"`;
+  }
+
+  private direction(direction: string = 'asc'): string {
+    const normalized = String(direction).toUpperCase();
+    if (normalized !== 'ASC' && normalized !== 'DESC') {
+      throw new InvalidQueryError(`Invalid sort direction: ${direction}`);
+    }
+    return normalized;
+  }
+
+  private nonNegativeInteger(name: string, value: unknown): number {
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
+      throw new InvalidQueryError(`Invalid ${name}: ${String(value)}`);
+    }
+    return value;
+  }
+
+  private entries(table: TenantTable, data: object): [string, unknown][] {
+    return Object.entries(data)
+      .filter(([, value]) => value !== undefined)
+      .map(([column, value]) => {
+        this.column(table, column);
+        return [column, value];
+      });
+  }
+
+  private where(
+    table: TenantTable,
+    where: object,
+    search: { columns: PropertyKey[]; term: string } | undefined,
+    params: unknown[]
+  ): string {
+    const conditions: string[] = [];
+
+    for (const [key, filter] of Object.entries(where)) {
+      if (filter === undefined) continue;
+      const column = this.column(table, key);
+
+      if (filter === null) {
+        conditions.push(`${column} IS NULL`);
+      } else if (isOperatorObject(filter)) {
+        conditions.push(...this.operators(column, filter, params));
+      } else {
+        params.push(filter);
+        conditions.push(`${column} = $${params.length}`);
+      }
+    }
+
+    if (search?.term) {
+      if (search.columns.length === 0) {
+        throw new InvalidQueryError('Search needs at least one column');
+      }
+      // Wildcards typed by the user match literally
+      params.push(`%${search.term.replace(/[\\%_]/g, '\\$&')}%`);
+      const placeholder = `$${params.length}`;
+      conditions.push(`(${search.columns.map((key) => `${this.column(table, key)} ILIKE ${placeholder}`).join(' OR ')})`);
+    }
+
+    return conditions.length > 0 ? ` WHERE ${conditions.join(' AND ')}` : '';
+  }
+
+  private operators(column: string, filter: Record<string, unknown>, params: unknown[]): string[] {
+    const conditions: string[] = [];
+
+    for (const [operator, value] of Object.entries(filter)) {
+      if (!OPERATORS.has(operator)) {
+        throw new InvalidQueryError(`Invalid filter operator: ${operator}`);
+      }
+      if (value === undefined) continue;
+
+      if (operator === 'in') {
+        if (!Array.isArray(value)) {
+          throw new InvalidQueryError(`Filter "in" on ${column} needs an array`);
+        }
+        params.push(value);
+        conditions.push(`${column} = ANY($${params.length})`);
+        continue;
+      }
+
+      params.push(value);
+      const sqlOperator = { gte: '>=', lte: '<=', ilike: 'ILIKE' }[operator];
+      conditions.push(`${column} ${sqlOperator} $${params.length}`);
+    }
+
+    return conditions;
+  }
+}
@@ -0,0 +1,162 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { prisma } from '../config/database';
+import { adminAuthService, AdminAuthenticatedRequest } from '../middleware/adminAuth';
+import { loginProtectionService, LoginLock } from '../services/loginProtectionService';
+
+// Validation schemas
+const adminLoginSchema = z.object({
+  email: z.string().email('Invalid email format'),
+  password: z.string().min(1, 'Password is required'),
+});
+
+const adminRefreshSchema = z.object({
+  refreshToken: z.string().min(1, 'Refresh token is required'),
+});
+
+// Admin accounts are throttled apart from tenant users that share the address
+function throttleKey(email: string) {
+  return `admin:${email}`;
+}
+
+function sendLocked(res: Response, lock: LoginLock) {
+  res.set('Retry-After', String(lock.retryAfterSeconds));
+  return res.status(429).json({
+    error: 'Too many failed login attempts',
+    lockedUntil: lock.lockedUntil,
+    retryAfter: lock.retryAfterSeconds,
+    code: 'AUTH_007',
+  });
+}
+
+export class AdminAuthController {
+  async login(req: Request, res: Response) {
+    try {
+      const validatedData = adminLoginSchema.parse(req.body);
+      const context = { ipAddress: req.ip, userAgent: req.get('User-Agent') };
+      const throttledEmail = throttleKey(validatedData.email);
+
+      // Same lockout as tenant logins, checked before the password
+      const lock = await loginProtectionService.getLock(throttledEmail, context.ipAddress);
+      if (lock) {
+        return sendLocked(res, lock);
+      }
+
+      const admin = await prisma.adminUser.findUnique({
+        where: { email: validatedData.email },
+      });
+
+      const isValidPassword = !!admin && admin.isActive && await adminAuthService.verifyPassword(
+        validatedData.password,
+        admin.passwordHash
+      );
+
+      if (!admin || !isValidPassword) {
+        // Lockouts are logged to the system log: admins have no tenant audit trail
+        const newLock = await loginProtectionService.recordFailure(throttledEmail, context);
+        if (newLock) {
+          return sendLocked(res, newLock);
+        }
+
+        return res.status(401).json({
+          error: 'Invalid admin credentials',
+        });
+      }
+
+      await loginProtectionService.recordSuccess(throttledEmail);
+
+      const tokens = await adminAuthService.generateTokens(admin);
+
+      await prisma.adminUser.update({
+        where: { id: admin.id },
+        data: { lastLogin: new Date() },
+      });
+
+      await adminAuthService.logAdminAction(admin.id, 'login', {
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent'),
+      });
+
+      res.json({
+        message: 'Admin login successful',
+        user: {
+          id: admin.id,
+          email: admin.email,
+          name: admin.name,
+          role: admin.role,
+        },
+        tokens,
+      });
+    } catch (error) {
+      console.error('Admin login error:', error);
+      res.status(400).json({
+        error: 'Admin login failed',
+        details: error.message,
+      });
+    }
+  }
+
+  async refresh(req: Request, res: Response) {
+    try {
+      const validatedData = adminRefreshSchema.parse(req.body);
+
+      const decoded = await adminAuthService.verifyRefreshToken(validatedData.refreshToken);
+
+      const admin = await prisma.adminUser.findUnique({
+        where: { id: decoded.adminId },
+      });
+
+      if (!admin || !admin.isActive) {
+        return res.status(401).json({
+          error: 'Admin user inactive',
+        });
+      }
+
+      const tokens = await adminAuthService.generateTokens(admin);
+
+      res.json({
+        message: 'Tokens refreshed',
+        user: {
+          id: admin.id,
+          email: admin.email,
+          name: admin.name,
+          role: admin.role,
+        },
+        tokens,
+      });
+    } catch (error) {
+      console.error('Admin refresh error:', error);
+      res.status(401).json({
+        error: 'Token refresh failed',
+        details: error.message,
+      });
+    }
+  }
+
+  async logout(req: AdminAuthenticatedRequest, res: Response) {
+    try {
+      const authHeader = req.headers.authorization;
+      const token = authHeader?.split(' ')[1];
+
+      if (token) {
+        const decoded = await adminAuthService.verifyAccessToken(token);
+        await adminAuthService.revokeAllTokens(decoded.adminId);
+      }
+
+      res.json({ message: 'Logout successful' });
+    } catch (error) {
+      // Even if token verification fails, return success for logout
+      res.json({ message: 'Logout successful' });
+    }
+  }
+
+  async getProfile(req: AdminAuthenticatedRequest, res: Response) {
+    if (!req.admin) {
+      return res.status(401).json({ error: 'Admin authentication required' });
+    }
+
+    res.json({ user: req.admin });
+  }
+}
+
+export const adminAuthController = new AdminAuthController();
@@ -4,6 +4,16 @@ import { prisma } from '../config/database';
 import { registrationKeyService } from '../services/registrationKeyService';
 import { tenantService } from '../services/tenantService';
 import { AccountType } from '@prisma/client';
+import { adminAuthService, AdminAuthenticatedRequest } from '../middleware/adminAuth';
+import { authService } from '../middleware/auth';
+import { impersonationService } from '../services/impersonationService';
+import { tenantSettingsService } from '../services/tenantSettingsService';
+import { tenantMigrationService } from '../services/tenantMigrationService';
+import { tenantExportService } from '../services/tenantExportService';
+import { tenantImportService, TenantImportReport } from '../services/tenantImportService';
+import { planService } from '../services/planService';
+import { PLAN_TYPES, PLANS } from '../config/plans';
+import { AppError } from '../types';
 
 // Validation schemas
 const createKeySchema = z.object({
@@ -15,22 +25,57 @@ const createKeySchema = z.object({
   metadata: z.any().optional(),
 });
 
-const createTenantSchema = z.object({
+// maxUsers and maxStorage default to the plan's (src/config/plans.ts)
+const planSchema = z.object({
+  planType: z.enum(PLAN_TYPES).default('basic'),
+  maxUsers: z.number().int().min(1).optional(),
+  maxStorage: z.number().int().min(1).optional(),
+});
+
+const createTenantSchema = planSchema.extend({
   name: z.string().min(1, 'Tenant name is required'),
-  planType: z.string().default('basic'),
-  maxUsers: z.number().min(1).default(5),
-  maxStorage: z.number().min(1).default(1073741824), // 1GB
 });
 
+const impersonateSchema = z.object({
+  userId: z.string().uuid('Invalid user id'),
+  reason: z.string().min(5, 'Describe why support access is needed'),
+});
+
+const runMigrationsSchema = z.object({
+  dryRun: z.boolean().default(false),
+  tenantId: z.string().uuid().optional(),
+});
+
+// Archive restore options travel in the query string; the body is the zip itself
+const importTenantSchema = z.object({
+  dryRun: z.enum(['true', 'false']).default('false').transform((value) => value === 'true'),
+  conflict: z.enum(['skip', 'overwrite', 'fail']).default('skip'),
+  ids: z.enum(['preserve', 'remap']).default('preserve'),
+});
+
+const importNewTenantSchema = importTenantSchema.extend({
+  name: z.string().min(1, 'Tenant name is required'),
+});
+
+function importSummary(report: TenantImportReport) {
+  return {
+    dryRun: report.dryRun,
+    conflict: report.conflict,
+    ids: report.ids,
+    sourceTenant: report.sourceTenant,
+    archiveSchemaVersion: report.archiveSchemaVersion,
+    inserted: [...report.global, ...report.tables].reduce((sum, table) => sum + table.inserted, 0),
+    updated: [...report.global, ...report.tables].reduce((sum, table) => sum + table.updated, 0),
+    conflicts: report.conflicts,
+  };
+}
+
 export class AdminController {
   // Registration Keys Management
-  async createRegistrationKey(req: Request, res: Response) {
+  async createRegistrationKey(req: AdminAuthenticatedRequest, res: Response) {
     try {
       const validatedData = createKeySchema.parse(req.body);
-      
-      // For demo purposes, we'll allow this without authentication
-      // In production, this should require admin authentication
-      const createdBy = 'admin'; // req.user?.id || 'system'
+      const createdBy = req.admin!.id;
 
       const key = await registrationKeyService.generateKey(
         {
@@ -44,6 +89,11 @@ export class AdminController {
         createdBy
       );
 
+      await adminAuthService.logAdminAction(createdBy, 'key.create', {
+        accountType: validatedData.accountType,
+        usesAllowed: validatedData.usesAllowed,
+      }, validatedData.tenantId);
+
       res.status(201).json({
         message: 'Registration key created successfully',
         key, // Return the plain key only once
@@ -95,11 +145,12 @@ export class AdminController {
     }
   }
 
-  async revokeRegistrationKey(req: Request, res: Response) {
+  async revokeRegistrationKey(req: AdminAuthenticatedRequest, res: Response) {
     try {
       const { id } = req.params;
       
       await registrationKeyService.revokeKey(id);
+      await adminAuthService.logAdminAction(req.admin!.id, 'key.revoke', { keyId: id });
 
       res.json({
         message: 'Registration key revoked successfully',
@@ -142,6 +193,8 @@ export class AdminController {
               schemaName: tenant.schemaName,
               planType: tenant.planType,
               isActive: tenant.isActive,
+              deletedAt: tenant.deletedAt,
+              purgeAfter: tenant.purgeAfter,
               maxUsers: tenant.maxUsers,
               userCount: tenant._count.users,
               createdAt: tenant.createdAt,
@@ -158,6 +211,8 @@ export class AdminController {
               schemaName: tenant.schemaName,
               planType: tenant.planType,
               isActive: tenant.isActive,
+              deletedAt: tenant.deletedAt,
+              purgeAfter: tenant.purgeAfter,
               maxUsers: tenant.maxUsers,
               userCount: tenant._count.users,
               createdAt: tenant.createdAt,
@@ -182,25 +237,18 @@ export class AdminController {
     }
   }
 
-  async createTenant(req: Request, res: Response) {
+  async createTenant(req: AdminAuthenticatedRequest, res: Response) {
     try {
       const validatedData = createTenantSchema.parse(req.body);
       
       const tenantId = await tenantService.createTenant(validatedData.name);
 
-      // Update tenant with additional settings
-      await prisma.tenant.update({
-        where: { id: tenantId },
-        data: {
-          planType: validatedData.planType,
-          maxUsers: validatedData.maxUsers,
-          maxStorage: BigInt(validatedData.maxStorage),
-        },
-      });
+      const tenant = await planService.changePlan(tenantId, validatedData.planType, validatedData);
 
-      const tenant = await prisma.tenant.findUnique({
-        where: { id: tenantId },
-      });
+      await adminAuthService.logAdminAction(req.admin!.id, 'tenant.create', {
+        name: validatedData.name,
+        planType: validatedData.planType,
+      }, tenantId);
 
       res.status(201).json({
         message: 'Tenant created successfully',
@@ -215,34 +263,319 @@ export class AdminController {
     }
   }
 
-  async deleteTenant(req: Request, res: Response) {
+  // Deactivates the tenant and schedules the purge; see TenantService.scheduleDeletion
+  async deleteTenant(req: AdminAuthenticatedRequest, res: Response) {
     try {
-      const { id } = req.params;
+      const tenant = await tenantService.scheduleDeletion(req.params.id, req.admin!.id);
+
+      await adminAuthService.logAdminAction(req.admin!.id, 'tenant.delete', {
+        purgeAfter: tenant.purgeAfter,
+        snapshotExportId: tenant.deletionExportId,
+      }, tenant.id);
+
+      res.status(202).json({
+        message: 'Tenant deactivated and scheduled for deletion',
+        tenant: {
+          id: tenant.id,
+          name: tenant.name,
+          deletedAt: tenant.deletedAt,
+          purgeAfter: tenant.purgeAfter,
+          deletionExportId: tenant.deletionExportId,
+        },
+      });
+    } catch (error) {
+      console.error('Delete tenant error:', error);
+      res.status(error instanceof AppError ? error.statusCode : 500).json({
+        error: 'Failed to delete tenant',
+        details: error.message,
+        ...(error instanceof AppError && { code: error.code }),
+      });
+    }
+  }
+
+  async cancelTenantDeletion(req: AdminAuthenticatedRequest, res: Response) {
+    try {
+      const tenant = await tenantService.cancelDeletion(req.params.id);
+
+      await adminAuthService.logAdminAction(req.admin!.id, 'tenant.delete_cancel', {}, tenant.id);
+
+      res.json({
+        message: 'Tenant deletion cancelled',
+        tenant: { id: tenant.id, name: tenant.name, isActive: tenant.isActive },
+      });
+    } catch (error) {
+      console.error('Cancel tenant deletion error:', error);
+      res.status(error instanceof AppError ? error.statusCode : 500).json({
+        error: 'Failed to cancel tenant deletion',
+        details: error.message,
+        ...(error instanceof AppError && { code: error.code }),
+      });
+    }
+  }
+
+  async getTenantDeletions(req: Request, res: Response) {
+    try {
+      res.json({ tenants: await tenantService.getPendingDeletions() });
+    } catch (error) {
+      console.error('Get tenant deletions error:', error);
+      res.status(500).json({
+        error: 'Failed to fetch pending tenant deletions',
+        details: error.message,
+      });
+    }
+  }
+
+  // Plans
+  async getPlans(req: Request, res: Response) {
+    res.json({ plans: PLAN_TYPES.map((type) => PLANS[type]) });
+  }
+
+  async getTenantPlan(req: Request, res: Response) {
+    try {
+      res.json({ plan: await planService.getUsage(req.params.id) });
+    } catch (error) {
+      console.error('Get tenant plan error:', error);
+      res.status(error instanceof AppError ? error.statusCode : 500).json({
+        error: 'Failed to fetch tenant plan',
+        details: error.message,
+        ...(error instanceof AppError && { code: error.code }),
+      });
+    }
+  }
+
+  async changeTenantPlan(req: AdminAuthenticatedRequest, res: Response) {
+    try {
+      const validatedData = planSchema.parse(req.body);
+      const previous = await planService.getTenantPlan(req.params.id);
+
+      await planService.changePlan(req.params.id, validatedData.planType, validatedData);
+
+      await adminAuthService.logAdminAction(req.admin!.id, 'tenant.plan_change', {
+        from: previous.type,
+        to: validatedData.planType,
+        maxUsers: validatedData.maxUsers,
+        maxStorage: validatedData.maxStorage,
+      }, req.params.id);
+
+      res.json({
+        message: 'Tenant plan updated',
+        plan: await planService.getUsage(req.params.id),
+      });
+    } catch (error) {
+      console.error('Change tenant plan error:', error);
+      res.status(error instanceof AppError ? error.statusCode : 400).json({
+        error: 'Failed to change tenant plan',
+        details: error.message,
+        ...(error instanceof AppError && { code: error.code }),
+      });
+    }
+  }
+
+  async getTenantUsers(req: AdminAuthenticatedRequest, res: Response) {
+    try {
+      const users = await prisma.user.findMany({
+        where: { tenantId: req.params.id },
+        orderBy: { name: 'asc' },
+        select: {
+          id: true,
+          email: true,
+          name: true,
+          accountType: true,
+          isActive: true,
+          lastLogin: true,
+        },
+      });
+
+      const security = await tenantSettingsService.getSecuritySettings(req.params.id);
 
-      // Get tenant info
-      const tenant = await prisma.tenant.findUnique({
-        where: { id },
+      res.json({
+        users,
+        allowImpersonation: security.supportAccess.allowImpersonation,
+      });
+    } catch (error) {
+      console.error('Get tenant users error:', error);
+      res.status(500).json({
+        error: 'Failed to fetch tenant users',
+        details: error.message,
+      });
+    }
+  }
+
+  // Support access: a time-boxed access token acting as a tenant user
+  async impersonate(req: AdminAuthenticatedRequest, res: Response) {
+    try {
+      const validatedData = impersonateSchema.parse(req.body);
+      const admin = req.admin!;
+
+      const { impersonation, user } = await impersonationService.start(
+        admin,
+        req.params.id,
+        validatedData.userId,
+        validatedData.reason,
+        { ipAddress: req.ip, userAgent: req.get('User-Agent') }
+      );
+
+      await adminAuthService.logAdminAction(admin.id, 'tenant.impersonate', {
+        impersonationId: impersonation.id,
+        userId: user.id,
+        email: user.email,
+        reason: validatedData.reason,
+      }, req.params.id);
+
+      res.status(201).json({
+        message: 'Support access granted',
+        accessToken: authService.generateImpersonationToken(user, impersonation, admin),
+        expiresAt: impersonation.expiresAt,
+        user: {
+          id: user.id,
+          email: user.email,
+          name: user.name,
+          tenantName: user.tenant.name,
+        },
+      });
+    } catch (error) {
+      console.error('Impersonation error:', error);
+      res.status(400).json({
+        error: 'Failed to start support access',
+        details: error.message,
       });
+    }
+  }
 
-      if (!tenant) {
-        return res.status(404).json({ error: 'Tenant not found' });
+  // Data portability exports (same archive GERENCIAL users get)
+  async getTenantExports(req: Request, res: Response) {
+    try {
+      res.json({ exports: await tenantExportService.listExports(req.params.id) });
+    } catch (error) {
+      console.error('Get tenant exports error:', error);
+      res.status(500).json({
+        error: 'Failed to fetch tenant exports',
+        details: error.message,
+      });
+    }
+  }
+
+  async exportTenant(req: AdminAuthenticatedRequest, res: Response) {
+    try {
+      const exportJob = await tenantExportService.requestExport(req.params.id, { adminId: req.admin!.id });
+
+      await adminAuthService.logAdminAction(req.admin!.id, 'tenant.export', {
+        exportId: exportJob.id,
+      }, req.params.id);
+
+      res.status(202).json({
+        message: 'Export started',
+        export: exportJob,
+      });
+    } catch (error) {
+      console.error('Export tenant error:', error);
+      res.status(error instanceof AppError ? error.statusCode : 400).json({
+        error: 'Failed to start tenant export',
+        details: error.message,
+        ...(error instanceof AppError && { code: error.code }),
+      });
+    }
+  }
+
+  // Restores an export archive over an existing tenant
+  async importTenant(req: AdminAuthenticatedRequest, res: Response) {
+    try {
+      const validatedData = importTenantSchema.parse(req.query);
+      if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+        return res.status(400).json({ error: 'Upload the export archive as application/zip' });
       }
 
-      // Drop tenant schema
-      await prisma.$executeRawUnsafe(`DROP SCHEMA IF EXISTS "${tenant.schemaName}" CASCADE`);
+      const report = await tenantImportService.importArchive(req.params.id, req.body, validatedData);
+
+      if (!report.dryRun) {
+        await adminAuthService.logAdminAction(req.admin!.id, 'tenant.import', importSummary(report), req.params.id);
+      }
 
-      // Delete tenant record (cascade will delete users and keys)
-      await prisma.tenant.delete({
-        where: { id },
+      res.json({ report });
+    } catch (error) {
+      console.error('Import tenant error:', error);
+      res.status(error instanceof AppError ? error.statusCode : 400).json({
+        error: 'Failed to import tenant archive',
+        details: error.message,
+        ...(error instanceof AppError && { code: error.code }),
       });
+    }
+  }
+
+  // Restores an export archive into a tenant created for it (e.g. moving a firm between environments)
+  async importNewTenant(req: AdminAuthenticatedRequest, res: Response) {
+    try {
+      const { name, ...options } = importNewTenantSchema.parse(req.query);
+      if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+        return res.status(400).json({ error: 'Upload the export archive as application/zip' });
+      }
+
+      const report = await tenantImportService.importAsNewTenant(name, req.body, options);
+
+      if (!report.dryRun) {
+        await adminAuthService.logAdminAction(req.admin!.id, 'tenant.import', {
+          name,
+          ...importSummary(report),
+        }, report.tenantId);
+      }
+
+      res.status(report.dryRun ? 200 : 201).json({ report });
+    } catch (error) {
+      console.error('Import new tenant error:', error);
+      res.status(error instanceof AppError ? error.statusCode : 400).json({
+        error: 'Failed to import tenant archive',
+        details: error.message,
+        ...(error instanceof AppError && { code: error.code }),
+      });
+    }
+  }
+
+  // Tenant schema migrations
+  async getTenantMigrations(req: Request, res: Response) {
+    try {
+      const statuses = await tenantMigrationService.getAllStatuses();
+      const behind = statuses.filter((status) => status.pending.length > 0 || status.error);
 
       res.json({
-        message: 'Tenant deleted successfully',
+        latestVersion: tenantMigrationService.latestVersion(),
+        migrations: tenantMigrationService.loadMigrations().map(({ version, name }) => ({ version, name })),
+        total: statuses.length,
+        behind: behind.length,
+        tenants: req.query.behind === 'true' ? behind : statuses,
       });
     } catch (error) {
-      console.error('Delete tenant error:', error);
+      console.error('Get tenant migrations error:', error);
       res.status(500).json({
-        error: 'Failed to delete tenant',
+        error: 'Failed to fetch tenant migration status',
+        details: error.message,
+      });
+    }
+  }
+
+  async runTenantMigrations(req: AdminAuthenticatedRequest, res: Response) {
+    try {
+      const validatedData = runMigrationsSchema.parse(req.body);
+      const results = await tenantMigrationService.migrateAll(validatedData);
+      const failed = results.filter((result) => result.failed);
+
+      if (!validatedData.dryRun) {
+        await adminAuthService.logAdminAction(req.admin!.id, 'tenant.migrate', {
+          tenants: results.length,
+          applied: results.reduce((sum, result) => sum + result.applied.length, 0),
+          failed: failed.map((result) => ({ tenantId: result.tenantId, ...result.failed })),
+        }, validatedData.tenantId);
+      }
+
+      res.status(failed.length > 0 ? 207 : 200).json({
+        latestVersion: tenantMigrationService.latestVersion(),
+        dryRun: validatedData.dryRun,
+        failed: failed.length,
+        results,
+      });
+    } catch (error) {
+      console.error('Run tenant migrations error:', error);
+      res.status(400).json({
+        error: 'Failed to run tenant migrations',
         details: error.message,
       });
     }
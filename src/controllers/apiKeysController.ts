@@ -0,0 +1,135 @@
+import { Response } from 'express';
+import { z } from 'zod';
+import { AuthenticatedRequest, getRequestPermissions } from '../middleware/auth';
+import { prisma } from '../config/database';
+import { apiKeyService } from '../services/apiKeyService';
+import { permissionService, PERMISSION_MODULES, PERMISSION_ACTIONS } from '../services/permissionService';
+import { PermissionAction, PermissionModule } from '../types';
+
+// Validation schemas
+const scopeSchema = z.object({
+  module: z.enum(PERMISSION_MODULES as [PermissionModule, ...PermissionModule[]]),
+  action: z.enum(PERMISSION_ACTIONS as [PermissionAction, ...PermissionAction[]]),
+  granted: z.boolean().default(true),
+});
+
+const createApiKeySchema = z.object({
+  name: z.string().min(2, 'Name must be at least 2 characters'),
+  scopes: z.array(scopeSchema).default([]),
+  expiresAt: z.string().datetime().nullable().optional(),
+});
+
+async function logAuditTrail(req: AuthenticatedRequest, recordId: string, operation: string, oldData: any, newData: any) {
+  try {
+    await prisma.auditLog.create({
+      data: {
+        userId: req.user!.id,
+        impersonatorId: req.impersonator?.adminId,
+        tenantId: req.tenantId!,
+        tableName: 'api_keys',
+        recordId,
+        operation,
+        oldData: oldData || undefined,
+        newData: newData || undefined,
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent'),
+        createdAt: new Date(),
+      },
+    });
+  } catch (error) {
+    console.error('Audit log error:', error);
+  }
+}
+
+// settings:admin sees and revokes every key of the tenant; everyone else only their own
+async function managesAllKeys(req: AuthenticatedRequest) {
+  return permissionService.hasPermission(await getRequestPermissions(req), 'settings', 'admin');
+}
+
+export class ApiKeysController {
+  async list(req: AuthenticatedRequest, res: Response) {
+    try {
+      if (!req.user || !req.tenantId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const all = await managesAllKeys(req);
+      const apiKeys = await apiKeyService.listKeys(req.tenantId, all ? undefined : req.user.id);
+
+      res.json({ apiKeys });
+    } catch (error) {
+      console.error('List API keys error:', error);
+      res.status(500).json({
+        error: 'Failed to fetch API keys',
+        details: error.message,
+      });
+    }
+  }
+
+  async create(req: AuthenticatedRequest, res: Response) {
+    try {
+      if (!req.user || !req.tenantId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const validatedData = createApiKeySchema.parse(req.body);
+      const expiresAt = validatedData.expiresAt ? new Date(validatedData.expiresAt) : null;
+
+      if (expiresAt && expiresAt <= new Date()) {
+        return res.status(400).json({ error: 'Expiry date must be in the future' });
+      }
+
+      const { key, apiKey } = await apiKeyService.createKey(req.tenantId, req.user.id, {
+        name: validatedData.name,
+        scopes: validatedData.scopes,
+        expiresAt,
+      });
+
+      await logAuditTrail(req, apiKey.id, 'CREATE', null, {
+        name: apiKey.name,
+        prefix: apiKey.prefix,
+        scopes: apiKey.scopes,
+        expiresAt: apiKey.expiresAt,
+      });
+
+      res.status(201).json({
+        message: 'API key created successfully. Store it now: it will not be shown again.',
+        key,
+        apiKey,
+      });
+    } catch (error) {
+      console.error('Create API key error:', error);
+      res.status(400).json({
+        error: 'Failed to create API key',
+        details: error.message,
+      });
+    }
+  }
+
+  async revoke(req: AuthenticatedRequest, res: Response) {
+    try {
+      if (!req.user || !req.tenantId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const all = await managesAllKeys(req);
+      const revoked = await apiKeyService.revokeKey(req.tenantId, req.params.id, all ? undefined : req.user.id);
+
+      if (!revoked) {
+        return res.status(404).json({ error: 'API key not found' });
+      }
+
+      await logAuditTrail(req, req.params.id, 'REVOKE', null, null);
+
+      res.json({ message: 'API key revoked successfully' });
+    } catch (error) {
+      console.error('Revoke API key error:', error);
+      res.status(500).json({
+        error: 'Failed to revoke API key',
+        details: error.message,
+      });
+    }
+  }
+}
+
+export const apiKeysController = new ApiKeysController();
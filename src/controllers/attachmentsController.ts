@@ -0,0 +1,194 @@
+import { Response } from 'express';
+import { z } from 'zod';
+import { AuthenticatedRequest, getRequestPermissions } from '../middleware/auth';
+import { prisma } from '../config/database';
+import { attachmentService, ATTACHMENT_ENTITIES } from '../services/attachmentService';
+import { permissionService } from '../services/permissionService';
+import { AppError, AttachmentEntityType, PermissionAction, PlanLimitError } from '../types';
+
+// Validation schemas
+const entitySchema = z.object({
+  entityType: z.enum(['client', 'project', 'task', 'transaction', 'invoice']),
+  entityId: z.string().uuid('Invalid entity id'),
+});
+
+const uploadSchema = entitySchema.extend({
+  name: z.string().min(1, 'File name is required').max(255),
+});
+
+// An attachment is as visible as the row it belongs to: permissions come from that row's module
+async function canAccess(req: AuthenticatedRequest, entityType: AttachmentEntityType, action: PermissionAction) {
+  return permissionService.hasPermission(await getRequestPermissions(req), ATTACHMENT_ENTITIES[entityType], action);
+}
+
+function denied(res: Response, entityType: AttachmentEntityType, action: PermissionAction) {
+  return res.status(403).json({
+    error: 'Insufficient permissions',
+    required: `${ATTACHMENT_ENTITIES[entityType]}:${action}`,
+    code: 'AUTH_004',
+  });
+}
+
+async function logAuditTrail(req: AuthenticatedRequest, recordId: string, operation: string, newData?: any) {
+  try {
+    await prisma.auditLog.create({
+      data: {
+        userId: req.user!.id,
+        impersonatorId: req.impersonator?.adminId,
+        tenantId: req.tenantId!,
+        tableName: 'attachments',
+        recordId,
+        operation,
+        newData: newData || undefined,
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent'),
+        createdAt: new Date(),
+      },
+    });
+  } catch (error) {
+    console.error('Audit log error:', error);
+  }
+}
+
+export class AttachmentsController {
+  async listAttachments(req: AuthenticatedRequest, res: Response) {
+    try {
+      if (!req.user || !req.tenantId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const { entityType, entityId } = entitySchema.parse(req.query);
+      if (!(await canAccess(req, entityType, 'read'))) {
+        return denied(res, entityType, 'read');
+      }
+
+      res.json({ attachments: await attachmentService.listAttachments(req.tenantId, entityType, entityId) });
+    } catch (error) {
+      console.error('List attachments error:', error);
+      res.status(400).json({
+        error: 'Failed to fetch attachments',
+        details: error.message,
+      });
+    }
+  }
+
+  // The file is the raw request body; its type is the Content-Type header
+  async uploadAttachment(req: AuthenticatedRequest, res: Response) {
+    try {
+      if (!req.user || !req.tenantId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const { entityType, entityId, name } = uploadSchema.parse(req.query);
+      if (!(await canAccess(req, entityType, 'write'))) {
+        return denied(res, entityType, 'write');
+      }
+      if (!Buffer.isBuffer(req.body)) {
+        throw new AppError('Send the file as the request body', 400, 'ATTACH_001');
+      }
+
+      const attachment = await attachmentService.upload(req.tenantId, {
+        entityType,
+        entityId,
+        name,
+        mimeType: (req.get('Content-Type') || '').split(';')[0].trim().toLowerCase(),
+        data: req.body,
+      }, req.user.id);
+      await logAuditTrail(req, attachment.id, 'CREATE', attachment);
+
+      res.status(201).json({
+        message: 'Attachment uploaded',
+        attachment,
+      });
+    } catch (error) {
+      console.error('Upload attachment error:', error);
+      res.status(error instanceof AppError ? error.statusCode : 400).json({
+        error: 'Failed to upload attachment',
+        details: error.message,
+        ...(error instanceof AppError && { code: error.code }),
+        ...(error instanceof PlanLimitError && { limit: error.limit, used: error.used }),
+      });
+    }
+  }
+
+  async downloadAttachment(req: AuthenticatedRequest, res: Response) {
+    try {
+      if (!req.user || !req.tenantId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const attachment = await attachmentService.getAttachment(req.tenantId, req.params.id);
+      if (!attachment) {
+        return res.status(404).json({ error: 'Attachment not found' });
+      }
+      if (!(await canAccess(req, attachment.entityType, 'read'))) {
+        return denied(res, attachment.entityType, 'read');
+      }
+
+      const { data } = await attachmentService.download(req.tenantId, attachment.id);
+
+      res.set({
+        'Content-Type': attachment.type,
+        'Content-Length': String(data.length),
+        'Content-Disposition': `attachment; filename*=UTF-8''${encodeURIComponent(attachment.name)}`,
+        'X-Content-Type-Options': 'nosniff',
+      });
+      res.send(data);
+    } catch (error) {
+      console.error('Download attachment error:', error);
+      res.status(error instanceof AppError ? error.statusCode : 500).json({
+        error: 'Failed to download attachment',
+        details: error.message,
+        ...(error instanceof AppError && { code: error.code }),
+      });
+    }
+  }
+
+  async deleteAttachment(req: AuthenticatedRequest, res: Response) {
+    try {
+      if (!req.user || !req.tenantId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const attachment = await attachmentService.getAttachment(req.tenantId, req.params.id);
+      if (!attachment) {
+        return res.status(404).json({ error: 'Attachment not found' });
+      }
+      if (!(await canAccess(req, attachment.entityType, 'delete'))) {
+        return denied(res, attachment.entityType, 'delete');
+      }
+
+      await attachmentService.remove(req.tenantId, attachment.id);
+      await logAuditTrail(req, attachment.id, 'DELETE', attachment);
+
+      res.json({
+        message: 'Attachment deleted',
+      });
+    } catch (error) {
+      console.error('Delete attachment error:', error);
+      res.status(error instanceof AppError ? error.statusCode : 500).json({
+        error: 'Failed to delete attachment',
+        details: error.message,
+        ...(error instanceof AppError && { code: error.code }),
+      });
+    }
+  }
+
+  async getUsage(req: AuthenticatedRequest, res: Response) {
+    try {
+      if (!req.user || !req.tenantId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      res.json({ usage: await attachmentService.getUsage(req.tenantId) });
+    } catch (error) {
+      console.error('Get storage usage error:', error);
+      res.status(500).json({
+        error: 'Failed to fetch storage usage',
+        details: error.message,
+      });
+    }
+  }
+}
+
+export const attachmentsController = new AttachmentsController();
@@ -1,8 +1,19 @@
 import { Request, Response } from 'express';
 import { z } from 'zod';
-import { authService } from '../middleware/auth';
+import { authService, AuthenticatedRequest } from '../middleware/auth';
 import { registrationKeyService } from '../services/registrationKeyService';
 import { prisma } from '../config/database';
+import { twoFactorService } from '../services/twoFactorService';
+import { tenantSettingsService } from '../services/tenantSettingsService';
+import { passwordPolicyService } from '../services/passwordPolicyService';
+import { sessionService } from '../services/sessionService';
+import { passwordResetService } from '../services/passwordResetService';
+import { permissionService } from '../services/permissionService';
+import { loginProtectionService, LoginLock } from '../services/loginProtectionService';
+import { teamInviteService } from '../services/teamInviteService';
+import { impersonationService } from '../services/impersonationService';
+import { ssoService } from '../services/ssoService';
+import { AppError, PasswordPolicyError, PlanLimitError } from '../types';
 
 // Validation schemas
 const registerSchema = z.object({
@@ -17,10 +28,124 @@ const loginSchema = z.object({
   password: z.string().min(1, 'Password is required'),
 });
 
+const twoFactorLoginSchema = z.object({
+  challengeToken: z.string().min(1, 'Challenge token is required'),
+  code: z.string().optional(),
+  recoveryCode: z.string().optional(),
+}).refine((data) => data.code || data.recoveryCode, {
+  message: 'Code or recovery code is required',
+});
+
+const twoFactorSetupSchema = z.object({
+  challengeToken: z.string().min(1, 'Challenge token is required'),
+});
+
+const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1, 'Current password is required'),
+  newPassword: z.string().min(1, 'New password is required'),
+});
+
+const forgotPasswordSchema = z.object({
+  email: z.string().email('Invalid email format'),
+});
+
+const resetPasswordSchema = z.object({
+  token: z.string().min(1, 'Reset token is required'),
+  password: z.string().min(1, 'Password is required'),
+});
+
+const acceptInviteSchema = z.object({
+  token: z.string().min(1, 'Invite token is required'),
+  name: z.string().min(2, 'Name must be at least 2 characters'),
+  password: z.string().min(1, 'Password is required'),
+});
+
+const ssoStartSchema = z.object({
+  email: z.string().email('Invalid email'),
+});
+
+const ssoCallbackSchema = z.object({
+  code: z.string().min(1, 'Authorization code is required'),
+  state: z.string().min(1, 'State is required'),
+});
+
 const refreshSchema = z.object({
   refreshToken: z.string().min(1, 'Refresh token is required'),
 });
 
+function sessionContext(req: Request) {
+  return { ipAddress: req.ip, userAgent: req.get('User-Agent') };
+}
+
+function sendLocked(res: Response, lock: LoginLock) {
+  res.set('Retry-After', String(lock.retryAfterSeconds));
+  return res.status(429).json({
+    error: 'Too many failed login attempts',
+    lockedUntil: lock.lockedUntil,
+    retryAfter: lock.retryAfterSeconds,
+    code: 'AUTH_007',
+  });
+}
+
+function sendChallengeRevoked(res: Response) {
+  return res.status(401).json({
+    error: 'Too many invalid codes, sign in again',
+    code: 'AUTH_2FA_004',
+  });
+}
+
+// A wrong code counts like a wrong password (account and IP) and against the challenge itself
+async function rejectTwoFactorCode(
+  req: Request,
+  res: Response,
+  user: any,
+  challenge: { jti: string; exp: number },
+  body: { error: string; code: string }
+) {
+  const lock = await loginProtectionService.recordFailure(user.email, sessionContext(req), user);
+  const revoked = await loginProtectionService.recordChallengeFailure(challenge.jti, new Date(challenge.exp * 1000));
+
+  if (lock) {
+    return sendLocked(res, lock);
+  }
+  if (revoked) {
+    return sendChallengeRevoked(res);
+  }
+  return res.status(401).json(body);
+}
+
+// Opens a session and issues tokens once every login factor has been satisfied
+async function completeLogin(user: any, req: Request) {
+  // Compared against earlier sessions, so it has to run before this one exists
+  try {
+    await loginProtectionService.checkNewDevice(user, sessionContext(req));
+  } catch (error) {
+    console.error('Login alert error:', error);
+  }
+
+  const session = await sessionService.createSession(user, sessionContext(req));
+  const tokens = await authService.generateTokens(user, session.id);
+
+  await prisma.user.update({
+    where: { id: user.id },
+    data: { lastLogin: new Date() },
+  });
+
+  return {
+    message: 'Login successful',
+    user: {
+      id: user.id,
+      email: user.email,
+      name: user.name,
+      accountType: user.accountType,
+      tenantId: user.tenantId,
+      tenantName: user.tenant.name,
+      mustChangePassword: user.mustChangePassword,
+    },
+    tokens,
+  };
+}
+
 export class AuthController {
   async register(req: Request, res: Response) {
     try {
@@ -43,8 +168,20 @@ export class AuthController {
         throw new Error('User creation failed');
       }
 
+      // Same rule as login: a tenant that requires 2FA gets no session before enrolment
+      const security = await tenantSettingsService.getSecuritySettings(user.tenantId);
+      if (security.twoFactorAuth.required) {
+        return res.status(201).json({
+          message: 'Two-factor enrolment required by your organization',
+          requiresTwoFactorSetup: true,
+          challengeToken: authService.generateChallengeToken(user, 'setup'),
+          isNewTenant: keyResult.isNewTenant,
+        });
+      }
+
       // Generate tokens
-      const tokens = await authService.generateTokens(user);
+      const session = await sessionService.createSession(user, sessionContext(req));
+      const tokens = await authService.generateTokens(user, session.id);
 
       // Update last login
       await prisma.user.update({
@@ -67,9 +204,53 @@ export class AuthController {
       });
     } catch (error) {
       console.error('Registration error:', error);
-      res.status(400).json({
+      res.status(error instanceof AppError ? error.statusCode : 400).json({
         error: 'Registration failed',
         details: error.message,
+        ...(error instanceof AppError && { code: error.code }),
+        ...(error instanceof PasswordPolicyError && { violations: error.violations }),
+        ...(error instanceof PlanLimitError && { limit: error.limit, used: error.used }),
+      });
+    }
+  }
+
+  async getInvite(req: Request, res: Response) {
+    try {
+      res.json({ invite: await teamInviteService.getInvite(req.params.token) });
+    } catch (error) {
+      res.status(404).json({
+        error: 'Invitation not found',
+        details: error.message,
+      });
+    }
+  }
+
+  async acceptInvite(req: Request, res: Response) {
+    try {
+      const validatedData = acceptInviteSchema.parse(req.body);
+
+      const user = await teamInviteService.acceptInvite(validatedData.token, {
+        name: validatedData.name,
+        password: validatedData.password,
+      });
+
+      const security = await tenantSettingsService.getSecuritySettings(user.tenantId);
+      if (security.twoFactorAuth.required) {
+        return res.status(201).json({
+          message: 'Two-factor enrolment required by your organization',
+          requiresTwoFactorSetup: true,
+          challengeToken: authService.generateChallengeToken(user, 'setup'),
+        });
+      }
+
+      res.status(201).json(await completeLogin(user, req));
+    } catch (error) {
+      console.error('Accept invite error:', error);
+      res.status(error instanceof PlanLimitError ? error.statusCode : 400).json({
+        error: 'Failed to accept invitation',
+        details: error.message,
+        ...(error instanceof PasswordPolicyError && { violations: error.violations }),
+        ...(error instanceof PlanLimitError && { code: error.code, limit: error.limit, used: error.used }),
       });
     }
   }
@@ -77,6 +258,13 @@ export class AuthController {
   async login(req: Request, res: Response) {
     try {
       const validatedData = loginSchema.parse(req.body);
+      const context = sessionContext(req);
+
+      // Locked accounts/IPs are refused before the password is even checked
+      const lock = await loginProtectionService.getLock(validatedData.email, context.ipAddress);
+      if (lock) {
+        return sendLocked(res, lock);
+      }
 
       // Find user
       const user = await prisma.user.findUnique({
@@ -85,6 +273,11 @@ export class AuthController {
       });
 
       if (!user || !user.isActive || !user.tenant.isActive) {
+        const newLock = await loginProtectionService.recordFailure(validatedData.email, context, user);
+        if (newLock) {
+          return sendLocked(res, newLock);
+        }
+
         return res.status(401).json({
           error: 'Invalid credentials or inactive account',
         });
@@ -97,36 +290,202 @@ export class AuthController {
       );
 
       if (!isValidPassword) {
+        const newLock = await loginProtectionService.recordFailure(validatedData.email, context, user);
+        if (newLock) {
+          return sendLocked(res, newLock);
+        }
+
         return res.status(401).json({
           error: 'Invalid credentials',
         });
       }
 
-      // Generate tokens
-      const tokens = await authService.generateTokens(user);
+      await loginProtectionService.recordSuccess(validatedData.email);
+
+      // Checked after the password so the response does not reveal which tenants use SSO
+      if (await ssoService.isPasswordLoginDisabled(user.tenantId)) {
+        return res.status(403).json({
+          error: 'Password login is disabled for your organization',
+          details: 'Sign in with single sign-on instead',
+          code: 'AUTH_011',
+        });
+      }
+
+      // Expired passwords still log in, but only the change-password endpoint is reachable
+      user.mustChangePassword = await passwordPolicyService.flagIfExpired(user);
+
+      // Second factor: hand back a challenge instead of tokens
+      if (user.twoFactorEnabled) {
+        return res.json({
+          message: 'Two-factor authentication required',
+          requiresTwoFactor: true,
+          challengeToken: authService.generateChallengeToken(user, 'verify'),
+        });
+      }
+
+      const security = await tenantSettingsService.getSecuritySettings(user.tenantId);
+      if (security.twoFactorAuth.required) {
+        return res.json({
+          message: 'Two-factor enrolment required by your organization',
+          requiresTwoFactorSetup: true,
+          challengeToken: authService.generateChallengeToken(user, 'setup'),
+        });
+      }
+
+      res.json(await completeLogin(user, req));
+    } catch (error) {
+      console.error('Login error:', error);
+      res.status(400).json({
+        error: 'Login failed',
+        details: error.message,
+      });
+    }
+  }
+
+  async ssoStart(req: Request, res: Response) {
+    try {
+      const validatedData = ssoStartSchema.parse(req.body);
+
+      res.json({ authorizationUrl: await ssoService.start(validatedData.email.toLowerCase()) });
+    } catch (error) {
+      res.status(400).json({
+        error: 'Failed to start single sign-on',
+        details: error.message,
+      });
+    }
+  }
+
+  // Second factors are the identity provider's job, so local 2FA is not asked for here
+  async ssoCallback(req: Request, res: Response) {
+    try {
+      const validatedData = ssoCallbackSchema.parse(req.body);
+
+      const user = await ssoService.complete(validatedData.code, validatedData.state);
+
+      res.json(await completeLogin(user, req));
+    } catch (error) {
+      console.error('SSO callback error:', error);
+      res.status(error instanceof PlanLimitError ? error.statusCode : 401).json({
+        error: 'Single sign-on failed',
+        details: error.message,
+        ...(error instanceof PlanLimitError && { code: error.code, limit: error.limit, used: error.used }),
+      });
+    }
+  }
+
+  async verifyTwoFactor(req: Request, res: Response) {
+    try {
+      const validatedData = twoFactorLoginSchema.parse(req.body);
+      const challenge = authService.verifyChallengeToken(validatedData.challengeToken);
+
+      const user = await prisma.user.findUnique({
+        where: { id: challenge.userId },
+        include: { tenant: true },
+      });
+
+      if (!user || !user.isActive || !user.tenant.isActive || !user.twoFactorSecret) {
+        return res.status(401).json({
+          error: 'Invalid credentials or inactive account',
+        });
+      }
+
+      const lock = await loginProtectionService.getLock(user.email, sessionContext(req).ipAddress);
+      if (lock) {
+        return sendLocked(res, lock);
+      }
+      if (await loginProtectionService.isChallengeRevoked(challenge.jti)) {
+        return sendChallengeRevoked(res);
+      }
+
+      let recoveryCodes: string[] | undefined;
+
+      if (validatedData.recoveryCode && challenge.purpose === 'verify') {
+        const storedHashes = (user.twoFactorRecoveryCodes as string[]) || [];
+
+        if (!(await twoFactorService.consumeRecoveryCode(user.id, storedHashes, validatedData.recoveryCode))) {
+          return rejectTwoFactorCode(req, res, user, challenge, {
+            error: 'Invalid recovery code',
+            code: 'AUTH_2FA_002',
+          });
+        }
+      } else {
+        const step = twoFactorService.verifyCode(user.twoFactorSecret, validatedData.code || '');
+
+        // Completing a 'setup' challenge confirms enrolment
+        const enrolment = challenge.purpose === 'setup' ? twoFactorService.generateRecoveryCodes() : undefined;
+
+        if (
+          step === null ||
+          !(await twoFactorService.claimStep(user.id, step, enrolment && { recoveryCodeHashes: enrolment.hashes }))
+        ) {
+          return rejectTwoFactorCode(req, res, user, challenge, {
+            error: 'Invalid verification code',
+            code: 'AUTH_2FA_001',
+          });
+        }
+
+        recoveryCodes = enrolment?.codes;
+      }
+
+      await loginProtectionService.recordSuccess(user.email);
+
+      res.json({
+        ...(await completeLogin(user, req)),
+        ...(recoveryCodes && { recoveryCodes }),
+      });
+    } catch (error) {
+      console.error('Two-factor login error:', error);
+      res.status(400).json({
+        error: 'Two-factor verification failed',
+        details: error.message,
+      });
+    }
+  }
+
+  async setupTwoFactorLogin(req: Request, res: Response) {
+    try {
+      const validatedData = twoFactorSetupSchema.parse(req.body);
+      const challenge = authService.verifyChallengeToken(validatedData.challengeToken);
+
+      if (challenge.purpose !== 'setup') {
+        return res.status(400).json({
+          error: 'Two-factor authentication is already enabled',
+        });
+      }
+
+      const user = await prisma.user.findUnique({
+        where: { id: challenge.userId },
+      });
+
+      if (!user || !user.isActive) {
+        return res.status(401).json({
+          error: 'Invalid credentials or inactive account',
+        });
+      }
+
+      if (user.twoFactorEnabled) {
+        return res.status(400).json({
+          error: 'Two-factor authentication is already enabled',
+        });
+      }
+
+      const secret = twoFactorService.generateSecret();
+      const otpauthUri = twoFactorService.buildOtpauthUri(secret, user.email);
 
-      // Update last login
       await prisma.user.update({
         where: { id: user.id },
-        data: { lastLogin: new Date() },
+        data: { twoFactorSecret: secret, twoFactorEnabled: false },
       });
 
       res.json({
-        message: 'Login successful',
-        user: {
-          id: user.id,
-          email: user.email,
-          name: user.name,
-          accountType: user.accountType,
-          tenantId: user.tenantId,
-          tenantName: user.tenant.name,
-        },
-        tokens,
+        secret,
+        otpauthUri,
+        qrCode: await twoFactorService.generateQrCode(otpauthUri),
       });
     } catch (error) {
-      console.error('Login error:', error);
+      console.error('Two-factor setup error:', error);
       res.status(400).json({
-        error: 'Login failed',
+        error: 'Two-factor setup failed',
         details: error.message,
       });
     }
@@ -151,8 +510,8 @@ export class AuthController {
         });
       }
 
-      // Generate new tokens
-      const tokens = await authService.generateTokens(user);
+      // Generate new tokens within the same session
+      const tokens = await authService.generateTokens(user, decoded.sessionId, decoded.familyId);
 
       res.json({
         message: 'Tokens refreshed',
@@ -175,6 +534,45 @@ export class AuthController {
     }
   }
 
+  async forgotPassword(req: Request, res: Response) {
+    try {
+      const validatedData = forgotPasswordSchema.parse(req.body);
+
+      try {
+        await passwordResetService.requestReset(validatedData.email, { ipAddress: req.ip });
+      } catch (error) {
+        // Delivery problems must not reveal whether the account exists
+        console.error('Password reset request error:', error);
+      }
+
+      res.json({
+        message: 'If an account exists for this email, a reset link has been sent',
+      });
+    } catch (error) {
+      res.status(400).json({
+        error: 'Password reset request failed',
+        details: error.message,
+      });
+    }
+  }
+
+  async resetPassword(req: Request, res: Response) {
+    try {
+      const validatedData = resetPasswordSchema.parse(req.body);
+
+      await passwordResetService.resetPassword(validatedData.token, validatedData.password);
+
+      res.json({ message: 'Password reset successfully' });
+    } catch (error) {
+      console.error('Password reset error:', error);
+      res.status(400).json({
+        error: 'Password reset failed',
+        details: error.message,
+        ...(error instanceof PasswordPolicyError && { violations: error.violations }),
+      });
+    }
+  }
+
   async logout(req: Request, res: Response) {
     try {
       const authHeader = req.headers.authorization;
@@ -182,7 +580,15 @@ export class AuthController {
 
       if (token) {
         const decoded = await authService.verifyAccessToken(token);
-        await authService.revokeAllTokens(decoded.userId);
+
+        // Ending support access must not sign the real user out
+        if (decoded.impersonation) {
+          await impersonationService.end(decoded.impersonation.id);
+        } else if (decoded.sessionId) {
+          await sessionService.revokeSession(decoded.userId, decoded.sessionId);
+        } else {
+          await authService.revokeAllTokens(decoded.userId);
+        }
       }
 
       res.json({ message: 'Logout successful' });
@@ -192,17 +598,14 @@ export class AuthController {
     }
   }
 
-  async getProfile(req: Request, res: Response) {
+  async getProfile(req: AuthenticatedRequest, res: Response) {
     try {
-      const userId = (req as any).user?.id;
-      
-      if (!userId) {
+      if (!req.user) {
         return res.status(401).json({ error: 'Authentication required' });
       }
 
       const user = await prisma.user.findUnique({
-        where: { id: userId },
-        include: { tenant: true },
+        where: { id: req.user.id },
         select: {
           id: true,
           email: true,
@@ -211,6 +614,9 @@ export class AuthController {
           tenantId: true,
           lastLogin: true,
           createdAt: true,
+          twoFactorEnabled: true,
+          mustChangePassword: true,
+          passwordChangedAt: true,
           tenant: {
             select: {
               name: true,
@@ -224,7 +630,16 @@ export class AuthController {
         return res.status(404).json({ error: 'User not found' });
       }
 
-      res.json({ user });
+      const role = await permissionService.getRole(req.user);
+
+      res.json({
+        user: {
+          ...user,
+          role: { id: role.id, name: role.name, isSystem: role.isSystem },
+          permissions: role.permissions,
+        },
+        impersonation: req.impersonator || null,
+      });
     } catch (error) {
       console.error('Get profile error:', error);
       res.status(500).json({
@@ -234,9 +649,9 @@ export class AuthController {
     }
   }
 
-  async updateProfile(req: Request, res: Response) {
+  async updateProfile(req: AuthenticatedRequest, res: Response) {
     try {
-      const userId = (req as any).user?.id;
+      const userId = req.user?.id;
       const updateData = req.body;
 
       if (!userId) {
@@ -247,46 +662,23 @@ export class AuthController {
       const updateSchema = z.object({
         name: z.string().min(2).optional(),
         email: z.string().email().optional(),
-        currentPassword: z.string().optional(),
-        newPassword: z.string().min(8).optional(),
       });
 
-      const validatedData = updateSchema.parse(updateData);
-
-      // If changing password, verify current password
-      if (validatedData.newPassword) {
-        if (!validatedData.currentPassword) {
-          return res.status(400).json({
-            error: 'Current password required to change password',
-          });
-        }
-
-        const user = await prisma.user.findUnique({
-          where: { id: userId },
+      // Passwords only change through POST /password, which applies the policy and signs out other devices
+      if (updateData.currentPassword !== undefined || updateData.newPassword !== undefined) {
+        return res.status(400).json({
+          error: 'Use POST /api/auth/password to change the password',
         });
-
-        const isValidPassword = await authService.verifyPassword(
-          validatedData.currentPassword,
-          user!.password
-        );
-
-        if (!isValidPassword) {
-          return res.status(400).json({
-            error: 'Current password is incorrect',
-          });
-        }
-
-        // Hash new password
-        validatedData.newPassword = await authService.hashPassword(validatedData.newPassword);
       }
 
+      const validatedData = updateSchema.parse(updateData);
+
       // Update user
       const updatedUser = await prisma.user.update({
         where: { id: userId },
         data: {
           ...(validatedData.name && { name: validatedData.name }),
           ...(validatedData.email && { email: validatedData.email }),
-          ...(validatedData.newPassword && { password: validatedData.newPassword }),
           updatedAt: new Date(),
         },
         include: { tenant: true },
@@ -311,6 +703,55 @@ export class AuthController {
       });
     }
   }
+
+  async changePassword(req: AuthenticatedRequest, res: Response) {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const validatedData = changePasswordSchema.parse(req.body);
+
+      const user = await prisma.user.findUnique({
+        where: { id: userId },
+      });
+
+      if (!user) {
+        return res.status(404).json({ error: 'User not found' });
+      }
+
+      const isValidPassword = await authService.verifyPassword(
+        validatedData.currentPassword,
+        user.password
+      );
+
+      if (!isValidPassword) {
+        return res.status(400).json({
+          error: 'Current password is incorrect',
+        });
+      }
+
+      await passwordPolicyService.assertAllowed(validatedData.newPassword, user.tenantId, user.id);
+      await passwordPolicyService.changePassword(
+        user.id,
+        await authService.hashPassword(validatedData.newPassword)
+      );
+
+      // A new password signs out every other device
+      await sessionService.revokeAllSessions(user.id, req.sessionId);
+
+      res.json({ message: 'Password changed successfully' });
+    } catch (error) {
+      console.error('Change password error:', error);
+      res.status(400).json({
+        error: 'Failed to change password',
+        details: error.message,
+        ...(error instanceof PasswordPolicyError && { violations: error.violations }),
+      });
+    }
+  }
 }
 
 export const authController = new AuthController();
\ No newline at end of file
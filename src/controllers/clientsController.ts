@@ -1,7 +1,10 @@
 import { Response } from 'express';
 import { z } from 'zod';
 import { AuthenticatedRequest } from '../middleware/auth';
+import { prisma } from '../config/database';
 import { tenantService } from '../services/tenantService';
+import { TenantFilter, TenantQueryOptions, MAX_LIMIT } from '../config/tenantQuery';
+import { ClientRow } from '../types';
 
 // Validation schemas
 const createClientSchema = z.object({
@@ -21,10 +24,28 @@ const createClientSchema = z.object({
   status: z.string().default('active'),
   tags: z.array(z.string()).default([]),
   notes: z.string().optional(),
+  // Personal data (covered by LGPD data-subject requests)
+  cpf: z.string().optional(),
+  rg: z.string().optional(),
+  pis: z.string().optional(),
+  cei: z.string().optional(),
+  birthDate: z.string().optional(),
+  maritalStatus: z.string().optional(),
+  professionalTitle: z.string().optional(),
 });
 
 const updateClientSchema = createClientSchema.partial();
 
+// camelCase request fields -> snake_case columns
+function toClientColumns({ birthDate, maritalStatus, professionalTitle, ...data }: z.infer<typeof updateClientSchema>) {
+  return {
+    ...data,
+    ...(birthDate !== undefined && { birth_date: birthDate || null }),
+    ...(maritalStatus !== undefined && { marital_status: maritalStatus }),
+    ...(professionalTitle !== undefined && { professional_title: professionalTitle }),
+  };
+}
+
 export class ClientsController {
   async getClients(req: AuthenticatedRequest, res: Response) {
     try {
@@ -35,49 +56,38 @@ export class ClientsController {
       const tenantDb = await tenantService.getTenantDatabase(req.tenantId);
       
       // Parse query parameters
-      const page = parseInt(req.query.page as string) || 1;
-      const limit = parseInt(req.query.limit as string) || 50;
+      const page = Math.max(parseInt(req.query.page as string) || 1, 1);
+      const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 50, 1), MAX_LIMIT);
       const search = req.query.search as string;
       const status = req.query.status as string;
       const offset = (page - 1) * limit;
 
-      // Build where conditions
-      let whereConditions = ['is_active = true'];
-      const params: any[] = [];
-
-      if (search) {
-        whereConditions.push(`(name ILIKE $${params.length + 1} OR email ILIKE $${params.length + 1})`);
-        params.push(`%${search}%`);
-      }
+      // Filters are bound as parameters and columns checked by the tenant query builder
+      const where: TenantFilter<ClientRow> = { is_active: true };
 
       if (status && status !== 'all') {
-        whereConditions.push(`status = $${params.length + 1}`);
-        params.push(status);
+        where.status = status;
       }
 
-      const whereClause = whereConditions.length > 0 
-        ? `WHERE ${whereConditions.join(' AND ')}`
-        : '';
+      const searchBy = {
+        search: { columns: ['name', 'email'], term: search },
+      } satisfies TenantQueryOptions<ClientRow>;
 
       // Get clients with pagination
-      const clients = await tenantDb.query(`
-        SELECT 
-          id, name, email, phone, organization, address, budget, currency,
-          status, tags, notes, created_by, created_at, updated_at
-        FROM \${schema}.clients 
-        ${whereClause}
-        ORDER BY created_at DESC
-        LIMIT ${limit} OFFSET ${offset}
-      `, params);
-
-      // Get total count
-      const totalResult = await tenantDb.query(`
-        SELECT COUNT(*) as total
-        FROM \${schema}.clients 
-        ${whereClause}
-      `, params);
+      const [clients, total] = await Promise.all([
+        tenantDb.findMany('clients', where, {
+          ...searchBy,
+          select: [
+            'id', 'name', 'email', 'phone', 'organization', 'address', 'budget', 'currency',
+            'status', 'tags', 'notes', 'created_by', 'created_at', 'updated_at',
+          ],
+          orderBy: { field: 'created_at', direction: 'desc' },
+          limit,
+          offset,
+        }),
+        tenantDb.count('clients', where, searchBy),
+      ]);
 
-      const total = parseInt(totalResult[0]?.total || 0);
       const totalPages = Math.ceil(total / limit);
 
       res.json({
@@ -156,7 +166,7 @@ export class ClientsController {
       const tenantDb = await tenantService.getTenantDatabase(req.tenantId);
 
       const client = await tenantDb.create('clients', {
-        ...validatedData,
+        ...toClientColumns(validatedData),
         address: validatedData.address ? JSON.stringify(validatedData.address) : null,
         tags: `{${validatedData.tags.join(',')}}`,
         created_by: req.user.id,
@@ -166,7 +176,7 @@ export class ClientsController {
       });
 
       // Log audit trail
-      await this.logAuditTrail(req.user.id, req.tenantId, 'clients', client.id, 'CREATE', null, client);
+      await this.logAuditTrail(req.user.id, req.tenantId, 'clients', client.id, 'CREATE', null, client, req.impersonator?.adminId);
 
       res.status(201).json({
         message: 'Client created successfully',
@@ -198,7 +208,7 @@ export class ClientsController {
       }
 
       // Prepare update data
-      const updateData: any = { ...validatedData };
+      const updateData: any = toClientColumns(validatedData);
       if (updateData.address) {
         updateData.address = JSON.stringify(updateData.address);
       }
@@ -209,7 +219,7 @@ export class ClientsController {
       const updatedClient = await tenantDb.update('clients', id, updateData);
 
       // Log audit trail
-      await this.logAuditTrail(req.user.id, req.tenantId, 'clients', id, 'UPDATE', oldClient, updatedClient);
+      await this.logAuditTrail(req.user.id, req.tenantId, 'clients', id, 'UPDATE', oldClient, updatedClient, req.impersonator?.adminId);
 
       res.json({
         message: 'Client updated successfully',
@@ -240,10 +250,10 @@ export class ClientsController {
       }
 
       // Soft delete (set is_active to false)
-      await tenantDb.update('clients', id, { is_active: false });
+      await tenantDb.update('clients', id, { is_active: false, deleted_at: new Date() });
 
       // Log audit trail
-      await this.logAuditTrail(req.user.id, req.tenantId, 'clients', id, 'DELETE', client, null);
+      await this.logAuditTrail(req.user.id, req.tenantId, 'clients', id, 'DELETE', client, null, req.impersonator?.adminId);
 
       res.json({
         message: 'Client deleted successfully',
@@ -264,12 +274,14 @@ export class ClientsController {
     recordId: string,
     operation: string,
     oldData: any,
-    newData: any
+    newData: any,
+    impersonatorId?: string
   ) {
     try {
       await prisma.auditLog.create({
         data: {
           userId,
+          impersonatorId,
           tenantId,
           tableName,
           recordId,
@@ -1,6 +1,12 @@
 import { Response } from 'express';
-import { AuthenticatedRequest } from '../middleware/auth';
+import { AuthenticatedRequest, getRequestPermissions } from '../middleware/auth';
 import { tenantService } from '../services/tenantService';
+import { permissionService } from '../services/permissionService';
+
+// Financial figures follow the transactions permission rather than the account type
+async function canViewFinancials(req: AuthenticatedRequest) {
+  return permissionService.hasPermission(await getRequestPermissions(req), 'transactions', 'read');
+}
 
 export class DashboardController {
   async getMetrics(req: AuthenticatedRequest, res: Response) {
@@ -10,10 +16,11 @@ export class DashboardController {
       }
 
       const tenantDb = await tenantService.getTenantDatabase(req.tenantId);
-      const metrics = await tenantDb.getDashboardMetrics(req.user.accountType);
+      const includeFinancials = await canViewFinancials(req);
+      const metrics = await tenantDb.getDashboardMetrics(includeFinancials);
 
       // Calculate growth percentages
-      const growthMetrics = await this.calculateGrowthMetrics(tenantDb, req.user.accountType);
+      const growthMetrics = await this.calculateGrowthMetrics(tenantDb, includeFinancials);
 
       res.json({
         metrics: {
@@ -38,15 +45,14 @@ export class DashboardController {
         return res.status(401).json({ error: 'Authentication required' });
       }
 
-      // Only COMPOSTA and GERENCIAL can access financial data
-      if (req.user.accountType === 'SIMPLES') {
+      if (!(await canViewFinancials(req))) {
         return res.json({
           revenue: 0,
           expenses: 0,
           balance: 0,
           transactions: [],
           charts: [],
-          message: 'Financial data not available for this account type',
+          message: 'Financial data not available for this role',
         });
       }
 
@@ -245,8 +251,8 @@ export class DashboardController {
     }
   }
 
-  private async calculateGrowthMetrics(tenantDb: any, accountType: string) {
-    if (accountType === 'SIMPLES') {
+  private async calculateGrowthMetrics(tenantDb: any, includeFinancials: boolean) {
+    if (!includeFinancials) {
       return {
         revenueGrowth: 0,
         expenseGrowth: 0,
@@ -0,0 +1,180 @@
+import { Response } from 'express';
+import { z } from 'zod';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { prisma } from '../config/database';
+import { dataSubjectService } from '../services/dataSubjectService';
+import { AppError, DataSubjectRequestRow } from '../types';
+
+// Validation schemas
+const createRequestSchema = z.object({
+  clientId: z.string().uuid('Invalid client id'),
+  type: z.enum(['access', 'anonymization']),
+  notes: z.string().max(2000).optional(),
+});
+
+// Anonymisation cannot be undone, so the caller has to say so explicitly
+const anonymizeSchema = z.object({
+  confirm: z.literal(true, { errorMap: () => ({ message: 'Confirm the anonymisation with { confirm: true }' }) }),
+});
+
+const rejectSchema = z.object({
+  reason: z.string().min(5, 'Explain why the request is rejected'),
+});
+
+// Only ids and outcomes are logged: the audit trail must not keep the personal data being removed
+async function logAuditTrail(req: AuthenticatedRequest, recordId: string, operation: string, newData?: any) {
+  try {
+    await prisma.auditLog.create({
+      data: {
+        userId: req.user!.id,
+        impersonatorId: req.impersonator?.adminId,
+        tenantId: req.tenantId!,
+        tableName: 'data_subject_requests',
+        recordId,
+        operation,
+        newData: newData || undefined,
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent'),
+        createdAt: new Date(),
+      },
+    });
+  } catch (error) {
+    console.error('Audit log error:', error);
+  }
+}
+
+export class DataRequestsController {
+  async listRequests(req: AuthenticatedRequest, res: Response) {
+    try {
+      if (!req.user || !req.tenantId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const status = ['open', 'completed', 'rejected'].includes(req.query.status as string)
+        ? (req.query.status as DataSubjectRequestRow['status'])
+        : undefined;
+      res.json({ requests: await dataSubjectService.listRequests(req.tenantId, status) });
+    } catch (error) {
+      console.error('List data requests error:', error);
+      res.status(500).json({
+        error: 'Failed to fetch data requests',
+        details: error.message,
+      });
+    }
+  }
+
+  async getRequest(req: AuthenticatedRequest, res: Response) {
+    try {
+      if (!req.user || !req.tenantId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const request = await dataSubjectService.getRequest(req.tenantId, req.params.id);
+      if (!request) {
+        return res.status(404).json({ error: 'Request not found' });
+      }
+
+      res.json({ request });
+    } catch (error) {
+      console.error('Get data request error:', error);
+      res.status(500).json({
+        error: 'Failed to fetch data request',
+        details: error.message,
+      });
+    }
+  }
+
+  async createRequest(req: AuthenticatedRequest, res: Response) {
+    try {
+      if (!req.user || !req.tenantId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const validatedData = createRequestSchema.parse(req.body);
+      const request = await dataSubjectService.createRequest(req.tenantId, validatedData, req.user.id);
+      await logAuditTrail(req, request.id, 'CREATE', { type: request.type, clientId: request.client_id, dueAt: request.due_at });
+
+      res.status(201).json({
+        message: 'Data request registered',
+        request,
+      });
+    } catch (error) {
+      console.error('Create data request error:', error);
+      res.status(error instanceof AppError ? error.statusCode : 400).json({
+        error: 'Failed to register data request',
+        details: error.message,
+        ...(error instanceof AppError && { code: error.code }),
+      });
+    }
+  }
+
+  async generateReport(req: AuthenticatedRequest, res: Response) {
+    try {
+      if (!req.user || !req.tenantId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const { request, report } = await dataSubjectService.generateReport(req.tenantId, req.params.id, req.user.id);
+      await logAuditTrail(req, request.id, 'ACCESS_REPORT', request.result);
+
+      res.json({ request, report });
+    } catch (error) {
+      console.error('Generate data report error:', error);
+      res.status(error instanceof AppError ? error.statusCode : 400).json({
+        error: 'Failed to generate personal data report',
+        details: error.message,
+        ...(error instanceof AppError && { code: error.code }),
+      });
+    }
+  }
+
+  async anonymize(req: AuthenticatedRequest, res: Response) {
+    try {
+      if (!req.user || !req.tenantId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      anonymizeSchema.parse(req.body);
+      const request = await dataSubjectService.anonymize(req.tenantId, req.params.id, req.user.id);
+      await logAuditTrail(req, request.id, 'ANONYMIZE', request.result);
+
+      res.json({
+        message: 'Client anonymised',
+        request,
+      });
+    } catch (error) {
+      console.error('Anonymise client error:', error);
+      res.status(error instanceof AppError ? error.statusCode : 400).json({
+        error: 'Failed to anonymise client',
+        details: error.message,
+        ...(error instanceof AppError && { code: error.code }),
+      });
+    }
+  }
+
+  async rejectRequest(req: AuthenticatedRequest, res: Response) {
+    try {
+      if (!req.user || !req.tenantId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const { reason } = rejectSchema.parse(req.body);
+      const request = await dataSubjectService.rejectRequest(req.tenantId, req.params.id, req.user.id, reason);
+      await logAuditTrail(req, request.id, 'REJECT', { reason });
+
+      res.json({
+        message: 'Data request rejected',
+        request,
+      });
+    } catch (error) {
+      console.error('Reject data request error:', error);
+      res.status(error instanceof AppError ? error.statusCode : 400).json({
+        error: 'Failed to reject data request',
+        details: error.message,
+        ...(error instanceof AppError && { code: error.code }),
+      });
+    }
+  }
+}
+
+export const dataRequestsController = new DataRequestsController();
@@ -0,0 +1,115 @@
+import { Request, Response } from 'express';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { prisma } from '../config/database';
+import { tenantExportService } from '../services/tenantExportService';
+import { AppError } from '../types';
+
+async function logAuditTrail(
+  req: Request,
+  tenantId: string,
+  recordId: string,
+  operation: string,
+  userId?: string,
+  newData?: any
+) {
+  try {
+    await prisma.auditLog.create({
+      data: {
+        userId,
+        tenantId,
+        tableName: 'tenant_exports',
+        recordId,
+        operation,
+        newData: newData || undefined,
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent'),
+        createdAt: new Date(),
+      },
+    });
+  } catch (error) {
+    console.error('Audit log error:', error);
+  }
+}
+
+export class ExportsController {
+  async requestExport(req: AuthenticatedRequest, res: Response) {
+    try {
+      if (!req.user || !req.tenantId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const exportJob = await tenantExportService.requestExport(req.tenantId, { userId: req.user.id });
+      await logAuditTrail(req, req.tenantId, exportJob.id, 'EXPORT', req.user.id, {
+        formatVersion: exportJob.formatVersion,
+      });
+
+      res.status(202).json({
+        message: 'Export started',
+        export: exportJob,
+      });
+    } catch (error) {
+      console.error('Request export error:', error);
+      res.status(error instanceof AppError ? error.statusCode : 500).json({
+        error: 'Failed to start export',
+        details: error.message,
+        ...(error instanceof AppError && { code: error.code }),
+      });
+    }
+  }
+
+  async listExports(req: AuthenticatedRequest, res: Response) {
+    try {
+      if (!req.user || !req.tenantId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      res.json({ exports: await tenantExportService.listExports(req.tenantId) });
+    } catch (error) {
+      console.error('List exports error:', error);
+      res.status(500).json({
+        error: 'Failed to fetch exports',
+        details: error.message,
+      });
+    }
+  }
+
+  // Polled by the UI for progress; carries a fresh download link once completed
+  async getExport(req: AuthenticatedRequest, res: Response) {
+    try {
+      if (!req.user || !req.tenantId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const exportJob = await tenantExportService.getExport(req.tenantId, req.params.id);
+      if (!exportJob) {
+        return res.status(404).json({ error: 'Export not found' });
+      }
+
+      res.json({ export: exportJob });
+    } catch (error) {
+      console.error('Get export error:', error);
+      res.status(500).json({
+        error: 'Failed to fetch export',
+        details: error.message,
+      });
+    }
+  }
+
+  // Public: the signed, short-lived token in the URL is the credential
+  async download(req: Request, res: Response) {
+    try {
+      const download = await tenantExportService.resolveDownload(req.params.token);
+      await logAuditTrail(req, download.tenantId, download.exportId, 'DOWNLOAD');
+
+      res.download(download.filePath, download.fileName);
+    } catch (error) {
+      res.status(error instanceof AppError ? error.statusCode : 500).json({
+        error: 'Failed to download export',
+        details: error.message,
+        ...(error instanceof AppError && { code: error.code }),
+      });
+    }
+  }
+}
+
+export const exportsController = new ExportsController();
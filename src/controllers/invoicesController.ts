@@ -1,7 +1,12 @@
 import { Response } from 'express';
 import { z } from 'zod';
 import { AuthenticatedRequest } from '../middleware/auth';
+import { prisma } from '../config/database';
 import { tenantService } from '../services/tenantService';
+import { TenantFilter, TenantQueryOptions, TenantRowInput, MAX_LIMIT } from '../config/tenantQuery';
+import { planService } from '../services/planService';
+import { mailService } from '../services/mailService';
+import { AppError, InvoiceRow, PlanLimitError } from '../types';
 
 // Validation schemas
 const createInvoiceSchema = z.object({
@@ -37,73 +42,48 @@ export class InvoicesController {
         return res.status(401).json({ error: 'Authentication required' });
       }
 
-      // Only COMPOSTA and GERENCIAL can access billing data
-      if (req.user.accountType === 'SIMPLES') {
-        return res.status(403).json({
-          error: 'Access denied',
-          message: 'Billing data not available for this account type',
-        });
-      }
-
       const tenantDb = await tenantService.getTenantDatabase(req.tenantId);
       
       // Parse query parameters
-      const page = parseInt(req.query.page as string) || 1;
-      const limit = parseInt(req.query.limit as string) || 50;
+      const page = Math.max(parseInt(req.query.page as string) || 1, 1);
+      const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 50, 1), MAX_LIMIT);
       const search = req.query.search as string;
       const status = req.query.status as string;
       const startDate = req.query.startDate as string;
       const endDate = req.query.endDate as string;
       const offset = (page - 1) * limit;
 
-      // Build where conditions
-      let whereConditions = ['is_active = true'];
-      const params: any[] = [];
-
-      if (search) {
-        whereConditions.push(`(number ILIKE $${params.length + 1} OR title ILIKE $${params.length + 1} OR client_name ILIKE $${params.length + 1})`);
-        params.push(`%${search}%`);
-      }
+      // Filters are bound as parameters and columns checked by the tenant query builder
+      const where: TenantFilter<InvoiceRow> = { is_active: true };
 
       if (status && status !== 'all') {
-        whereConditions.push(`status = $${params.length + 1}`);
-        params.push(status);
+        where.status = status as InvoiceRow['status'];
       }
 
-      if (startDate) {
-        whereConditions.push(`due_date >= $${params.length + 1}`);
-        params.push(startDate);
+      if (startDate || endDate) {
+        where.due_date = { gte: startDate || undefined, lte: endDate || undefined };
       }
 
-      if (endDate) {
-        whereConditions.push(`due_date <= $${params.length + 1}`);
-        params.push(endDate);
-      }
-
-      const whereClause = whereConditions.length > 0 
-        ? `WHERE ${whereConditions.join(' AND ')}`
-        : '';
+      const searchBy = {
+        search: { columns: ['number', 'title', 'client_name'], term: search },
+      } satisfies TenantQueryOptions<InvoiceRow>;
 
       // Get invoices with pagination
-      const invoices = await tenantDb.query(`
-        SELECT 
-          id, number, title, description, client_id, client_name, client_email, client_phone,
-          amount, currency, status, due_date, paid_at, payment_method,
-          items, tags, notes, created_by, created_at, updated_at
-        FROM \${schema}.invoices 
-        ${whereClause}
-        ORDER BY created_at DESC
-        LIMIT ${limit} OFFSET ${offset}
-      `, params);
-
-      // Get total count
-      const totalResult = await tenantDb.query(`
-        SELECT COUNT(*) as total
-        FROM \${schema}.invoices 
-        ${whereClause}
-      `, params);
+      const [invoices, total] = await Promise.all([
+        tenantDb.findMany('invoices', where, {
+          ...searchBy,
+          select: [
+            'id', 'number', 'title', 'description', 'client_id', 'client_name', 'client_email', 'client_phone',
+            'amount', 'currency', 'status', 'due_date', 'paid_at', 'payment_method',
+            'items', 'tags', 'notes', 'created_by', 'created_at', 'updated_at',
+          ],
+          orderBy: { field: 'created_at', direction: 'desc' },
+          limit,
+          offset,
+        }),
+        tenantDb.count('invoices', where, searchBy),
+      ]);
 
-      const total = parseInt(totalResult[0]?.total || 0);
       const totalPages = Math.ceil(total / limit);
 
       // Process invoices data
@@ -139,13 +119,6 @@ export class InvoicesController {
         return res.status(401).json({ error: 'Authentication required' });
       }
 
-      if (req.user.accountType === 'SIMPLES') {
-        return res.status(403).json({
-          error: 'Access denied',
-          message: 'Billing data not available for this account type',
-        });
-      }
-
       const { id } = req.params;
       const tenantDb = await tenantService.getTenantDatabase(req.tenantId);
 
@@ -178,39 +151,39 @@ export class InvoicesController {
         return res.status(401).json({ error: 'Authentication required' });
       }
 
-      if (req.user.accountType === 'SIMPLES') {
-        return res.status(403).json({
-          error: 'Access denied',
-          message: 'Billing operations not available for this account type',
-        });
-      }
-
       const validatedData = createInvoiceSchema.parse(req.body);
-      const tenantDb = await tenantService.getTenantDatabase(req.tenantId);
-
-      const invoice = await tenantDb.create('invoices', {
-        number: validatedData.number,
-        title: validatedData.title,
-        description: validatedData.description,
-        client_id: validatedData.clientId,
-        client_name: validatedData.clientName,
-        client_email: validatedData.clientEmail,
-        client_phone: validatedData.clientPhone,
-        amount: validatedData.amount,
-        currency: validatedData.currency,
-        status: validatedData.status,
-        due_date: new Date(validatedData.dueDate),
-        items: JSON.stringify(validatedData.items),
-        tags: `{${validatedData.tags.join(',')}}`,
-        notes: validatedData.notes,
-        created_by: req.user.id,
-        created_at: new Date(),
-        updated_at: new Date(),
-        is_active: true,
+      const tenantId = req.tenantId;
+      const userId = req.user.id;
+      const tenantDb = await tenantService.getTenantDatabase(tenantId);
+
+      // The monthly allowance is checked in the same transaction as the insert
+      const invoice = await tenantDb.transaction(async (tx) => {
+        await planService.assertWithinLimit(tenantId, 'monthlyInvoices', tx);
+
+        return tx.create('invoices', {
+          number: validatedData.number,
+          title: validatedData.title,
+          description: validatedData.description,
+          client_id: validatedData.clientId,
+          client_name: validatedData.clientName,
+          client_email: validatedData.clientEmail,
+          client_phone: validatedData.clientPhone,
+          amount: validatedData.amount,
+          currency: validatedData.currency,
+          status: validatedData.status,
+          due_date: new Date(validatedData.dueDate),
+          items: JSON.stringify(validatedData.items),
+          tags: `{${validatedData.tags.join(',')}}`,
+          notes: validatedData.notes,
+          created_by: userId,
+          created_at: new Date(),
+          updated_at: new Date(),
+          is_active: true,
+        });
       });
 
       // Log audit trail
-      await this.logAuditTrail(req.user.id, req.tenantId, 'invoices', invoice.id, 'CREATE', null, invoice);
+      await this.logAuditTrail(req.user.id, req.tenantId, 'invoices', invoice.id, 'CREATE', null, invoice, req.impersonator?.adminId);
 
       res.status(201).json({
         message: 'Invoice created successfully',
@@ -222,9 +195,11 @@ export class InvoicesController {
       });
     } catch (error) {
       console.error('Create invoice error:', error);
-      res.status(400).json({
+      res.status(error instanceof AppError ? error.statusCode : 400).json({
         error: 'Failed to create invoice',
         details: error.message,
+        ...(error instanceof AppError && { code: error.code }),
+        ...(error instanceof PlanLimitError && { limit: error.limit, used: error.used }),
       });
     }
   }
@@ -235,13 +210,6 @@ export class InvoicesController {
         return res.status(401).json({ error: 'Authentication required' });
       }
 
-      if (req.user.accountType === 'SIMPLES') {
-        return res.status(403).json({
-          error: 'Access denied',
-          message: 'Billing operations not available for this account type',
-        });
-      }
-
       const { id } = req.params;
       const validatedData = updateInvoiceSchema.parse(req.body);
       const tenantDb = await tenantService.getTenantDatabase(req.tenantId);
@@ -253,31 +221,62 @@ export class InvoicesController {
       }
 
       // Prepare update data
-      const updateData: any = { ...validatedData };
-      if (updateData.dueDate) {
-        updateData.due_date = new Date(updateData.dueDate);
-        delete updateData.dueDate;
-      }
-      if (updateData.items) {
-        updateData.items = JSON.stringify(updateData.items);
-      }
-      if (updateData.tags) {
-        updateData.tags = `{${updateData.tags.join(',')}}`;
-      }
+      const updateData: TenantRowInput<InvoiceRow> = {
+        number: validatedData.number,
+        title: validatedData.title,
+        description: validatedData.description,
+        client_id: validatedData.clientId,
+        client_name: validatedData.clientName,
+        client_email: validatedData.clientEmail,
+        client_phone: validatedData.clientPhone,
+        amount: validatedData.amount,
+        currency: validatedData.currency,
+        status: validatedData.status,
+        due_date: validatedData.dueDate ? new Date(validatedData.dueDate) : undefined,
+        items: validatedData.items ? JSON.stringify(validatedData.items) : undefined,
+        tags: validatedData.tags ? `{${validatedData.tags.join(',')}}` : undefined,
+        notes: validatedData.notes,
+      };
 
       // Set payment timestamp if status changed to paid
-      if (updateData.status === 'paid' && oldInvoice.status !== 'paid') {
+      const markedPaid = validatedData.status === 'paid' && oldInvoice.status !== 'paid';
+      if (markedPaid) {
         updateData.paid_at = new Date();
       }
 
-      const updatedInvoice = await tenantDb.update('invoices', id, updateData);
+      // The income entry for a paid invoice is written in the same transaction,
+      // so an invoice is never paid without it (or the other way round)
+      const { updatedInvoice, transaction } = await tenantDb.transaction(async (tx) => {
+        const updatedInvoice = await tx.update('invoices', id, updateData);
+        const transaction = markedPaid
+          ? await tx.create('transactions', {
+              type: 'income',
+              amount: updatedInvoice.amount,
+              category: 'Faturas',
+              description: `Fatura ${updatedInvoice.number} - ${updatedInvoice.title}`,
+              date: updatedInvoice.paid_at,
+              payment_method: updatedInvoice.payment_method,
+              status: 'confirmed',
+              client_id: updatedInvoice.client_id,
+              client_name: updatedInvoice.client_name,
+              created_by: req.user!.id,
+              is_active: true,
+            })
+          : null;
+
+        return { updatedInvoice, transaction };
+      });
 
       // Log audit trail
-      await this.logAuditTrail(req.user.id, req.tenantId, 'invoices', id, 'UPDATE', oldInvoice, updatedInvoice);
+      await this.logAuditTrail(req.user.id, req.tenantId, 'invoices', id, 'UPDATE', oldInvoice, updatedInvoice, req.impersonator?.adminId);
+      if (transaction) {
+        await this.logAuditTrail(req.user.id, req.tenantId, 'transactions', transaction.id, 'CREATE', null, transaction, req.impersonator?.adminId);
+      }
 
       res.json({
         message: 'Invoice updated successfully',
         invoice: updatedInvoice,
+        transaction,
       });
     } catch (error) {
       console.error('Update invoice error:', error);
@@ -294,13 +293,6 @@ export class InvoicesController {
         return res.status(401).json({ error: 'Authentication required' });
       }
 
-      if (req.user.accountType === 'SIMPLES') {
-        return res.status(403).json({
-          error: 'Access denied',
-          message: 'Billing operations not available for this account type',
-        });
-      }
-
       const { id } = req.params;
       const tenantDb = await tenantService.getTenantDatabase(req.tenantId);
 
@@ -311,10 +303,10 @@ export class InvoicesController {
       }
 
       // Soft delete (set is_active to false)
-      await tenantDb.update('invoices', id, { is_active: false });
+      await tenantDb.update('invoices', id, { is_active: false, deleted_at: new Date() });
 
       // Log audit trail
-      await this.logAuditTrail(req.user.id, req.tenantId, 'invoices', id, 'DELETE', invoice, null);
+      await this.logAuditTrail(req.user.id, req.tenantId, 'invoices', id, 'DELETE', invoice, null, req.impersonator?.adminId);
 
       res.json({
         message: 'Invoice deleted successfully',
@@ -328,20 +320,54 @@ export class InvoicesController {
     }
   }
 
-  async getInvoiceStats(req: AuthenticatedRequest, res: Response) {
+  // Receivables automation: e-mails the client a payment reminder for the invoice
+  async sendReminder(req: AuthenticatedRequest, res: Response) {
     try {
       if (!req.user || !req.tenantId) {
         return res.status(401).json({ error: 'Authentication required' });
       }
 
-      if (req.user.accountType === 'SIMPLES') {
-        return res.json({
-          totalInvoices: 0,
-          totalAmount: 0,
-          paidAmount: 0,
-          pendingAmount: 0,
-          overdueAmount: 0,
-        });
+      const { id } = req.params;
+      const tenantDb = await tenantService.getTenantDatabase(req.tenantId);
+      const invoice = await tenantDb.findById('invoices', id);
+
+      if (!invoice) {
+        return res.status(404).json({ error: 'Invoice not found' });
+      }
+      if (!invoice.client_email) {
+        return res.status(422).json({ error: 'Invoice has no client e-mail to send the reminder to' });
+      }
+      if (['paid', 'cancelled', 'draft'].includes(invoice.status)) {
+        return res.status(409).json({ error: `Reminders are not sent for ${invoice.status} invoices` });
+      }
+
+      const amount = new Intl.NumberFormat('pt-BR', { style: 'currency', currency: invoice.currency }).format(Number(invoice.amount));
+      await mailService.send({
+        to: invoice.client_email,
+        subject: `Lembrete de pagamento: fatura ${invoice.number}`,
+        text: [
+          `Olá, ${invoice.client_name || 'cliente'}.`,
+          '',
+          `A fatura ${invoice.number} (${invoice.title}), no valor de ${amount}, está em aberto` +
+            (invoice.due_date ? ` com vencimento em ${new Date(invoice.due_date).toLocaleDateString('pt-BR')}.` : '.'),
+          'Se o pagamento já foi feito, desconsidere esta mensagem.',
+        ].join('\n'),
+      });
+
+      res.json({ message: 'Reminder sent successfully' });
+    } catch (error) {
+      console.error('Send invoice reminder error:', error);
+      res.status(500).json({
+        error: 'Failed to send reminder',
+        details: error.message,
+      });
+    }
+  }
+
+  async getInvoiceStats(req: AuthenticatedRequest, res: Response) {
+    try {
+      if (!req.user || !req.tenantId) {
+        return res.status(401).json({ error: 'Authentication required' });
       }
 
       const tenantDb = await tenantService.getTenantDatabase(req.tenantId);
@@ -388,12 +414,14 @@ export class InvoicesController {
     recordId: string,
     operation: string,
     oldData: any,
-    newData: any
+    newData: any,
+    impersonatorId?: string
   ) {
     try {
       await prisma.auditLog.create({
         data: {
           userId,
+          impersonatorId,
           tenantId,
           tableName,
           recordId,
@@ -0,0 +1,159 @@
+import { Response } from 'express';
+import { z } from 'zod';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { prisma } from '../config/database';
+import { portalService } from '../services/portalService';
+
+// Validation schemas
+const inviteSchema = z.object({
+  email: z.string().email('Invalid email format'),
+});
+
+const shareSchema = z.object({
+  resourceType: z.enum(['publication']).default('publication'),
+  resourceId: z.string().uuid('Invalid resource id'),
+});
+
+async function logAuditTrail(req: AuthenticatedRequest, recordId: string, operation: string, newData: any) {
+  try {
+    await prisma.auditLog.create({
+      data: {
+        userId: req.user!.id,
+        impersonatorId: req.impersonator?.adminId,
+        tenantId: req.tenantId!,
+        tableName: 'portal_accounts',
+        recordId,
+        operation,
+        newData: newData || undefined,
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent'),
+        createdAt: new Date(),
+      },
+    });
+  } catch (error) {
+    console.error('Audit log error:', error);
+  }
+}
+
+// Firm-side management of a client's portal login and shared records
+export class PortalAccessController {
+  async getAccess(req: AuthenticatedRequest, res: Response) {
+    try {
+      if (!req.user || !req.tenantId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      res.json(await portalService.getAccess(req.tenantId, req.params.id));
+    } catch (error) {
+      console.error('Get portal access error:', error);
+      res.status(500).json({
+        error: 'Failed to fetch portal access',
+        details: error.message,
+      });
+    }
+  }
+
+  async invite(req: AuthenticatedRequest, res: Response) {
+    try {
+      if (!req.user || !req.tenantId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const validatedData = inviteSchema.parse(req.body);
+      const account = await portalService.invite(req.tenantId, req.params.id, validatedData.email, req.user.id);
+
+      await logAuditTrail(req, account!.id, 'INVITE', { clientId: req.params.id, email: validatedData.email });
+
+      res.json({
+        message: 'Portal invitation sent',
+        account,
+      });
+    } catch (error) {
+      console.error('Portal invite error:', error);
+      res.status(400).json({
+        error: 'Failed to invite client to the portal',
+        details: error.message,
+      });
+    }
+  }
+
+  async disable(req: AuthenticatedRequest, res: Response) {
+    try {
+      if (!req.user || !req.tenantId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const disabled = await portalService.disable(req.tenantId, req.params.id);
+
+      if (!disabled) {
+        return res.status(404).json({ error: 'Portal access not found' });
+      }
+
+      await logAuditTrail(req, req.params.id, 'DISABLE', { clientId: req.params.id });
+
+      res.json({ message: 'Portal access disabled' });
+    } catch (error) {
+      console.error('Disable portal access error:', error);
+      res.status(500).json({
+        error: 'Failed to disable portal access',
+        details: error.message,
+      });
+    }
+  }
+
+  async share(req: AuthenticatedRequest, res: Response) {
+    try {
+      if (!req.user || !req.tenantId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const validatedData = shareSchema.parse(req.body);
+      const share = await portalService.share(
+        req.tenantId,
+        req.params.id,
+        validatedData.resourceType,
+        validatedData.resourceId,
+        req.user.id
+      );
+
+      await logAuditTrail(req, share.id, 'SHARE', { clientId: req.params.id, ...validatedData });
+
+      res.status(201).json({
+        message: 'Shared with client',
+        share,
+      });
+    } catch (error) {
+      console.error('Portal share error:', error);
+      res.status(400).json({
+        error: 'Failed to share with client',
+        details: error.message,
+      });
+    }
+  }
+
+  async unshare(req: AuthenticatedRequest, res: Response) {
+    try {
+      if (!req.user || !req.tenantId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const removed = await portalService.unshare(req.tenantId, req.params.id, req.params.shareId);
+
+      if (!removed) {
+        return res.status(404).json({ error: 'Share not found' });
+      }
+
+      await logAuditTrail(req, req.params.shareId, 'UNSHARE', { clientId: req.params.id });
+
+      res.json({ message: 'Share removed' });
+    } catch (error) {
+      console.error('Portal unshare error:', error);
+      res.status(500).json({
+        error: 'Failed to remove share',
+        details: error.message,
+      });
+    }
+  }
+}
+
+export const portalAccessController = new PortalAccessController();
@@ -0,0 +1,213 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { PortalAuthenticatedRequest, portalAuthService } from '../middleware/portalAuth';
+import { portalService } from '../services/portalService';
+import { planService } from '../services/planService';
+import { loginProtectionService, LoginLock } from '../services/loginProtectionService';
+import { upgradeRequiredBody } from '../middleware/plan';
+import { PasswordPolicyError, UpgradeRequiredError } from '../types';
+
+// Validation schemas
+const portalLoginSchema = z.object({
+  email: z.string().email('Invalid email format'),
+  password: z.string().min(1, 'Password is required'),
+});
+
+const activateSchema = z.object({
+  token: z.string().min(1, 'Invitation token is required'),
+  password: z.string().min(1, 'Password is required'),
+});
+
+function accessContext(req: Request) {
+  return { ipAddress: req.ip, userAgent: req.get('User-Agent') };
+}
+
+// Portal accounts are throttled apart from staff users that share the address
+function throttleKey(email: string) {
+  return `portal:${email}`;
+}
+
+function sendLocked(res: Response, lock: LoginLock) {
+  res.set('Retry-After', String(lock.retryAfterSeconds));
+  return res.status(429).json({
+    error: 'Too many failed login attempts',
+    lockedUntil: lock.lockedUntil,
+    retryAfter: lock.retryAfterSeconds,
+    code: 'AUTH_007',
+  });
+}
+
+// Client-facing endpoints; every read is audited against the portal account
+export class PortalController {
+  async login(req: Request, res: Response) {
+    try {
+      const validatedData = portalLoginSchema.parse(req.body);
+      const throttledEmail = throttleKey(validatedData.email);
+
+      // Same lockout as staff logins, checked before the password
+      const lock = await loginProtectionService.getLock(throttledEmail, req.ip);
+      if (lock) {
+        return sendLocked(res, lock);
+      }
+
+      const account = await portalService.authenticate(validatedData.email, validatedData.password);
+
+      if (!account) {
+        const newLock = await loginProtectionService.recordFailure(throttledEmail, accessContext(req));
+        if (newLock) {
+          return sendLocked(res, newLock);
+        }
+
+        return res.status(401).json({
+          error: 'Invalid credentials or inactive account',
+        });
+      }
+
+      await loginProtectionService.recordSuccess(throttledEmail);
+
+      // Checked after the password so the response reveals nothing about unknown accounts
+      await planService.assertFeature(account.tenantId, 'client_portal');
+
+      await portalService.logAccess(
+        { accountId: account.id, tenantId: account.tenantId, clientId: account.clientId },
+        'portal_accounts',
+        'PORTAL_LOGIN',
+        account.id,
+        accessContext(req)
+      );
+
+      res.json({
+        message: 'Login successful',
+        account: {
+          id: account.id,
+          email: account.email,
+          name: account.name,
+          tenantName: account.tenant.name,
+        },
+        token: portalAuthService.generateToken(account),
+      });
+    } catch (error) {
+      if (error instanceof UpgradeRequiredError) {
+        return res.status(error.statusCode).json(upgradeRequiredBody(error));
+      }
+      console.error('Portal login error:', error);
+      res.status(400).json({
+        error: 'Login failed',
+        details: error.message,
+      });
+    }
+  }
+
+  async activate(req: Request, res: Response) {
+    try {
+      const validatedData = activateSchema.parse(req.body);
+      await portalService.activate(validatedData.token, validatedData.password);
+
+      res.json({ message: 'Portal access activated. You can now sign in.' });
+    } catch (error) {
+      console.error('Portal activation error:', error);
+      res.status(400).json({
+        error: 'Portal activation failed',
+        details: error.message,
+        ...(error instanceof PasswordPolicyError && { violations: error.violations }),
+      });
+    }
+  }
+
+  async getProfile(req: PortalAuthenticatedRequest, res: Response) {
+    if (!req.portal) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    res.json({
+      account: {
+        id: req.portal.accountId,
+        email: req.portal.email,
+        name: req.portal.name,
+      },
+    });
+  }
+
+  async getInvoices(req: PortalAuthenticatedRequest, res: Response) {
+    try {
+      if (!req.portal) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const invoices = await portalService.listInvoices(req.portal);
+      await portalService.logAccess(req.portal, 'invoices', 'PORTAL_VIEW', null, accessContext(req));
+
+      res.json({ invoices });
+    } catch (error) {
+      console.error('Portal invoices error:', error);
+      res.status(500).json({
+        error: 'Failed to fetch invoices',
+        details: error.message,
+      });
+    }
+  }
+
+  async getInvoice(req: PortalAuthenticatedRequest, res: Response) {
+    try {
+      if (!req.portal) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const invoice = await portalService.getInvoice(req.portal, req.params.id);
+
+      if (!invoice) {
+        return res.status(404).json({ error: 'Invoice not found' });
+      }
+
+      await portalService.logAccess(req.portal, 'invoices', 'PORTAL_VIEW', invoice.id, accessContext(req));
+
+      res.json({ invoice });
+    } catch (error) {
+      console.error('Portal invoice error:', error);
+      res.status(500).json({
+        error: 'Failed to fetch invoice',
+        details: error.message,
+      });
+    }
+  }
+
+  async getProjects(req: PortalAuthenticatedRequest, res: Response) {
+    try {
+      if (!req.portal) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const projects = await portalService.listProjects(req.portal);
+      await portalService.logAccess(req.portal, 'projects', 'PORTAL_VIEW', null, accessContext(req));
+
+      res.json({ projects });
+    } catch (error) {
+      console.error('Portal projects error:', error);
+      res.status(500).json({
+        error: 'Failed to fetch projects',
+        details: error.message,
+      });
+    }
+  }
+
+  async getPublications(req: PortalAuthenticatedRequest, res: Response) {
+    try {
+      if (!req.portal) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const publications = await portalService.listPublications(req.portal);
+      await portalService.logAccess(req.portal, 'publications', 'PORTAL_VIEW', null, accessContext(req));
+
+      res.json({ publications });
+    } catch (error) {
+      console.error('Portal publications error:', error);
+      res.status(500).json({
+        error: 'Failed to fetch publications',
+        details: error.message,
+      });
+    }
+  }
+}
+
+export const portalController = new PortalController();
@@ -1,7 +1,10 @@
 import { Response } from 'express';
 import { z } from 'zod';
 import { AuthenticatedRequest } from '../middleware/auth';
+import { prisma } from '../config/database';
 import { tenantService } from '../services/tenantService';
+import { TenantFilter, TenantQueryOptions, MAX_LIMIT } from '../config/tenantQuery';
+import { ProjectRow } from '../types';
 
 // Validation schemas
 const createProjectSchema = z.object({
@@ -40,57 +43,45 @@ export class ProjectsController {
       const tenantDb = await tenantService.getTenantDatabase(req.tenantId);
       
       // Parse query parameters
-      const page = parseInt(req.query.page as string) || 1;
-      const limit = parseInt(req.query.limit as string) || 50;
+      const page = Math.max(parseInt(req.query.page as string) || 1, 1);
+      const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 50, 1), MAX_LIMIT);
       const search = req.query.search as string;
       const status = req.query.status as string;
       const priority = req.query.priority as string;
       const offset = (page - 1) * limit;
 
-      // Build where conditions
-      let whereConditions = ['is_active = true'];
-      const params: any[] = [];
-
-      if (search) {
-        whereConditions.push(`(title ILIKE $${params.length + 1} OR client_name ILIKE $${params.length + 1} OR description ILIKE $${params.length + 1})`);
-        params.push(`%${search}%`);
-      }
+      // Filters are bound as parameters and columns checked by the tenant query builder
+      const where: TenantFilter<ProjectRow> = { is_active: true };
 
       if (status && status !== 'all') {
-        whereConditions.push(`status = $${params.length + 1}`);
-        params.push(status);
+        where.status = status as ProjectRow['status'];
       }
 
       if (priority && priority !== 'all') {
-        whereConditions.push(`priority = $${params.length + 1}`);
-        params.push(priority);
+        where.priority = priority as ProjectRow['priority'];
       }
 
-      const whereClause = whereConditions.length > 0 
-        ? `WHERE ${whereConditions.join(' AND ')}`
-        : '';
+      const searchBy = {
+        search: { columns: ['title', 'client_name', 'description'], term: search },
+      } satisfies TenantQueryOptions<ProjectRow>;
 
       // Get projects with pagination
-      const projects = await tenantDb.query(`
-        SELECT 
-          id, title, description, client_name, client_id, organization,
-          address, budget, currency, status, priority, progress,
-          start_date, due_date, completed_at, tags, assigned_to,
-          notes, created_by, created_at, updated_at
-        FROM \${schema}.projects 
-        ${whereClause}
-        ORDER BY created_at DESC
-        LIMIT ${limit} OFFSET ${offset}
-      `, params);
-
-      // Get total count
-      const totalResult = await tenantDb.query(`
-        SELECT COUNT(*) as total
-        FROM \${schema}.projects 
-        ${whereClause}
-      `, params);
+      const [projects, total] = await Promise.all([
+        tenantDb.findMany('projects', where, {
+          ...searchBy,
+          select: [
+            'id', 'title', 'description', 'client_name', 'client_id', 'organization',
+            'address', 'budget', 'currency', 'status', 'priority', 'progress',
+            'start_date', 'due_date', 'completed_at', 'tags', 'assigned_to',
+            'notes', 'created_by', 'created_at', 'updated_at',
+          ],
+          orderBy: { field: 'created_at', direction: 'desc' },
+          limit,
+          offset,
+        }),
+        tenantDb.count('projects', where, searchBy),
+      ]);
 
-      const total = parseInt(totalResult[0]?.total || 0);
       const totalPages = Math.ceil(total / limit);
 
       // Process projects data
@@ -186,7 +177,7 @@ export class ProjectsController {
       });
 
       // Log audit trail
-      await this.logAuditTrail(req.user.id, req.tenantId, 'projects', project.id, 'CREATE', null, project);
+      await this.logAuditTrail(req.user.id, req.tenantId, 'projects', project.id, 'CREATE', null, project, req.impersonator?.adminId);
 
       res.status(201).json({
         message: 'Project created successfully',
@@ -243,7 +234,7 @@ export class ProjectsController {
       const updatedProject = await tenantDb.update('projects', id, updateData);
 
       // Log audit trail
-      await this.logAuditTrail(req.user.id, req.tenantId, 'projects', id, 'UPDATE', oldProject, updatedProject);
+      await this.logAuditTrail(req.user.id, req.tenantId, 'projects', id, 'UPDATE', oldProject, updatedProject, req.impersonator?.adminId);
 
       res.json({
         message: 'Project updated successfully',
@@ -274,17 +265,19 @@ export class ProjectsController {
       }
 
       // Soft delete (set is_active to false)
-      await tenantDb.update('projects', id, { is_active: false });
+      const deletedAt = new Date();
+      await tenantDb.update('projects', id, { is_active: false, deleted_at: deletedAt });
 
-      // Also soft delete related tasks
+      // Also soft delete related tasks, with the project's deletion time so restoring the
+      // project can bring back exactly these (tasks already in the trash keep their own)
       await tenantDb.query(`
         UPDATE \${schema}.tasks 
-        SET is_active = false, updated_at = NOW()
-        WHERE project_id = $1
-      `, [id]);
+        SET is_active = false, deleted_at = $2, updated_at = NOW()
+        WHERE project_id = $1 AND is_active = true
+      `, [id, deletedAt]);
 
       // Log audit trail
-      await this.logAuditTrail(req.user.id, req.tenantId, 'projects', id, 'DELETE', project, null);
+      await this.logAuditTrail(req.user.id, req.tenantId, 'projects', id, 'DELETE', project, null, req.impersonator?.adminId);
 
       res.json({
         message: 'Project deleted successfully',
@@ -305,12 +298,14 @@ export class ProjectsController {
     recordId: string,
     operation: string,
     oldData: any,
-    newData: any
+    newData: any,
+    impersonatorId?: string
   ) {
     try {
       await prisma.auditLog.create({
         data: {
           userId,
+          impersonatorId,
           tenantId,
           tableName,
           recordId,
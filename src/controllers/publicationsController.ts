@@ -0,0 +1,100 @@
+import { Response } from 'express';
+import { z } from 'zod';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { tenantService } from '../services/tenantService';
+import { planService } from '../services/planService';
+import { AppError, PlanLimitError } from '../types';
+
+// Publications arrive from the monitoring automations (n8n, with an API key), one per
+// diário oficial entry found for an OAB number the firm follows
+const createPublicationSchema = z.object({
+  oabNumber: z.string().min(1, 'OAB number is required'),
+  processNumber: z.string().optional(),
+  publicationDate: z.string().optional(),
+  content: z.string().min(1, 'Content is required'),
+  source: z.string().optional(),
+  externalId: z.string().optional(),
+  urgency: z.string().optional(),
+  responsible: z.string().optional(),
+  notes: z.string().optional(),
+});
+
+export class PublicationsController {
+  async getPublications(req: AuthenticatedRequest, res: Response) {
+    try {
+      if (!req.user || !req.tenantId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const tenantDb = await tenantService.getTenantDatabase(req.tenantId);
+      const publications = await tenantDb.findMany('publications', { user_id: req.user.id }, {
+        orderBy: { field: 'publication_date', direction: 'desc' },
+        limit: 200,
+      });
+
+      res.json({ publications });
+    } catch (error) {
+      console.error('Get publications error:', error);
+      res.status(500).json({
+        error: 'Failed to fetch publications',
+        details: error.message,
+      });
+    }
+  }
+
+  async createPublication(req: AuthenticatedRequest, res: Response) {
+    try {
+      if (!req.user || !req.tenantId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const validatedData = createPublicationSchema.parse(req.body);
+      const tenantId = req.tenantId;
+      const userId = req.user.id;
+      const tenantDb = await tenantService.getTenantDatabase(tenantId);
+
+      const publication = await tenantDb.transaction(async (tx) => {
+        const created = await tx.create('publications', {
+          user_id: userId,
+          oab_number: validatedData.oabNumber,
+          process_number: validatedData.processNumber,
+          publication_date: validatedData.publicationDate ? new Date(validatedData.publicationDate) : undefined,
+          content: validatedData.content,
+          source: validatedData.source,
+          external_id: validatedData.externalId,
+          urgency: validatedData.urgency,
+          responsible: validatedData.responsible,
+          notes: validatedData.notes,
+          created_at: new Date(),
+          updated_at: new Date(),
+        });
+
+        // Counted with the new row in place, so an OAB number already followed takes no new slot
+        await planService.assertWithinLimit(tenantId, 'monitoredPublications', tx, 0);
+        return created;
+      });
+
+      res.status(201).json({
+        message: 'Publication created successfully',
+        publication,
+      });
+    } catch (error) {
+      console.error('Create publication error:', error);
+      // Same automation entry sent twice (user_id, external_id is unique)
+      if ((error as { code?: string }).code === '23505') {
+        return res.status(409).json({
+          error: 'Failed to create publication',
+          details: 'Publication already registered',
+        });
+      }
+      res.status(error instanceof AppError ? error.statusCode : 400).json({
+        error: 'Failed to create publication',
+        details: error.message,
+        ...(error instanceof AppError && { code: error.code }),
+        ...(error instanceof PlanLimitError && { limit: error.limit, used: error.used }),
+      });
+    }
+  }
+}
+
+export const publicationsController = new PublicationsController();
@@ -0,0 +1,81 @@
+import { Response } from 'express';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { prisma } from '../config/database';
+import { recordHistoryService, HistoryTable } from '../services/recordHistoryService';
+import { AppError } from '../types';
+
+async function logAuditTrail(req: AuthenticatedRequest, table: HistoryTable, recordId: string, oldData: any, newData: any) {
+  try {
+    await prisma.auditLog.create({
+      data: {
+        userId: req.user!.id,
+        impersonatorId: req.impersonator?.adminId,
+        tenantId: req.tenantId!,
+        tableName: table,
+        recordId,
+        operation: 'RESTORE',
+        oldData: oldData || undefined,
+        newData: newData || undefined,
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent'),
+        createdAt: new Date(),
+      },
+    });
+  } catch (error) {
+    console.error('Audit log error:', error);
+  }
+}
+
+// Shared by the clients, projects, tasks and transactions routers; each passes its table
+export class RecordHistoryController {
+  getHistory(table: HistoryTable) {
+    return async (req: AuthenticatedRequest, res: Response) => {
+      try {
+        if (!req.user || !req.tenantId) {
+          return res.status(401).json({ error: 'Authentication required' });
+        }
+
+        res.json({ history: await recordHistoryService.getHistory(req.tenantId, table, req.params.id) });
+      } catch (error) {
+        console.error('Get record history error:', error);
+        res.status(500).json({
+          error: 'Failed to fetch history',
+          details: error.message,
+        });
+      }
+    };
+  }
+
+  // Re-applies the version an earlier entry left, recorded as a RESTORE entry of its own
+  restoreVersion(table: HistoryTable) {
+    return async (req: AuthenticatedRequest, res: Response) => {
+      try {
+        if (!req.user || !req.tenantId) {
+          return res.status(401).json({ error: 'Authentication required' });
+        }
+
+        const { before, after } = await recordHistoryService.restoreVersion(
+          req.tenantId,
+          table,
+          req.params.id,
+          req.params.entryId
+        );
+        await logAuditTrail(req, table, req.params.id, before, after);
+
+        res.json({
+          message: 'Version restored',
+          record: after,
+        });
+      } catch (error) {
+        console.error('Restore record version error:', error);
+        res.status(error instanceof AppError ? error.statusCode : 500).json({
+          error: 'Failed to restore version',
+          details: error.message,
+          ...(error instanceof AppError && { code: error.code }),
+        });
+      }
+    };
+  }
+}
+
+export const recordHistoryController = new RecordHistoryController();
@@ -0,0 +1,123 @@
+import { Response } from 'express';
+import { z } from 'zod';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { permissionService, PERMISSION_MODULES, PERMISSION_ACTIONS } from '../services/permissionService';
+
+// Validation schemas
+const permissionSchema = z.object({
+  module: z.enum(PERMISSION_MODULES as [string, ...string[]]),
+  action: z.enum(PERMISSION_ACTIONS as [string, ...string[]]),
+  granted: z.boolean().default(true),
+});
+
+const createRoleSchema = z.object({
+  name: z.string().min(2, 'Name must be at least 2 characters'),
+  description: z.string().optional(),
+  permissions: z.array(permissionSchema).default([]),
+});
+
+const updateRoleSchema = createRoleSchema.partial();
+
+export class RolesController {
+  async getRoles(req: AuthenticatedRequest, res: Response) {
+    try {
+      if (!req.user || !req.tenantId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const roles = await permissionService.listRoles(req.tenantId);
+
+      res.json({
+        roles,
+        modules: PERMISSION_MODULES,
+        actions: PERMISSION_ACTIONS,
+      });
+    } catch (error) {
+      console.error('Get roles error:', error);
+      res.status(500).json({
+        error: 'Failed to fetch roles',
+        details: error.message,
+      });
+    }
+  }
+
+  async createRole(req: AuthenticatedRequest, res: Response) {
+    try {
+      if (!req.user || !req.tenantId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const validatedData = createRoleSchema.parse(req.body);
+      const role = await permissionService.createRole(req.tenantId, validatedData as any);
+
+      res.status(201).json({
+        message: 'Role created successfully',
+        role,
+      });
+    } catch (error) {
+      console.error('Create role error:', error);
+      res.status(400).json({
+        error: 'Failed to create role',
+        details: error.message,
+      });
+    }
+  }
+
+  async updateRole(req: AuthenticatedRequest, res: Response) {
+    try {
+      if (!req.user || !req.tenantId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      if (req.params.id.startsWith('system:')) {
+        return res.status(400).json({ error: 'System roles cannot be modified' });
+      }
+
+      const validatedData = updateRoleSchema.parse(req.body);
+      const role = await permissionService.updateRole(req.tenantId, req.params.id, validatedData as any);
+
+      if (!role) {
+        return res.status(404).json({ error: 'Role not found' });
+      }
+
+      res.json({
+        message: 'Role updated successfully',
+        role,
+      });
+    } catch (error) {
+      console.error('Update role error:', error);
+      res.status(400).json({
+        error: 'Failed to update role',
+        details: error.message,
+      });
+    }
+  }
+
+  async deleteRole(req: AuthenticatedRequest, res: Response) {
+    try {
+      if (!req.user || !req.tenantId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      if (req.params.id.startsWith('system:')) {
+        return res.status(400).json({ error: 'System roles cannot be deleted' });
+      }
+
+      const deleted = await permissionService.deleteRole(req.tenantId, req.params.id);
+
+      if (!deleted) {
+        return res.status(404).json({ error: 'Role not found' });
+      }
+
+      res.json({ message: 'Role deleted successfully' });
+    } catch (error) {
+      console.error('Delete role error:', error);
+      res.status(500).json({
+        error: 'Failed to delete role',
+        details: error.message,
+      });
+    }
+  }
+}
+
+export const rolesController = new RolesController();
@@ -0,0 +1,74 @@
+import { Response } from 'express';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { sessionService, SessionSummary } from '../services/sessionService';
+
+export class SessionsController {
+  async list(req: AuthenticatedRequest, res: Response) {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const sessions = await sessionService.listSessions(req.user.id);
+
+      res.json({
+        sessions: sessions.map((session: SessionSummary) => ({
+          ...session,
+          current: session.id === req.sessionId,
+        })),
+      });
+    } catch (error) {
+      console.error('List sessions error:', error);
+      res.status(500).json({
+        error: 'Failed to fetch sessions',
+        details: error.message,
+      });
+    }
+  }
+
+  async revoke(req: AuthenticatedRequest, res: Response) {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const revoked = await sessionService.revokeSession(req.user.id, req.params.id);
+
+      if (!revoked) {
+        return res.status(404).json({ error: 'Session not found' });
+      }
+
+      res.json({ message: 'Session revoked successfully' });
+    } catch (error) {
+      console.error('Revoke session error:', error);
+      res.status(500).json({
+        error: 'Failed to revoke session',
+        details: error.message,
+      });
+    }
+  }
+
+  // "Sign out everywhere", including the calling device
+  async revokeAll(req: AuthenticatedRequest, res: Response) {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const count = await sessionService.revokeAllSessions(req.user.id);
+
+      res.json({
+        message: 'All sessions revoked successfully',
+        count,
+      });
+    } catch (error) {
+      console.error('Revoke all sessions error:', error);
+      res.status(500).json({
+        error: 'Failed to revoke sessions',
+        details: error.message,
+      });
+    }
+  }
+}
+
+export const sessionsController = new SessionsController();
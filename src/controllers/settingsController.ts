@@ -0,0 +1,168 @@
+import { Response } from 'express';
+import { z } from 'zod';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { tenantSettingsService } from '../services/tenantSettingsService';
+import { ssoService } from '../services/ssoService';
+import { planService } from '../services/planService';
+
+// Validation schemas
+const securitySettingsSchema = z.object({
+  passwordPolicy: z.object({
+    minLength: z.number().int().min(8).max(128),
+    requireUppercase: z.boolean(),
+    requireLowercase: z.boolean(),
+    requireNumbers: z.boolean(),
+    requireSpecialChars: z.boolean(),
+    expiryDays: z.number().int().min(0).optional(),
+    historyCount: z.number().int().min(0).max(24),
+  }).partial().optional(),
+  sessionSettings: z.object({
+    timeoutMinutes: z.number().int().min(5),
+    maxSessions: z.number().int().min(1),
+    requireReauth: z.boolean(),
+  }).partial().optional(),
+  twoFactorAuth: z.object({
+    enabled: z.boolean(),
+    required: z.boolean(),
+    methods: z.array(z.enum(['sms', 'email', 'app'])),
+  }).partial().optional(),
+  auditLog: z.object({
+    retention: z.number().int().min(1),
+    enabledActions: z.array(z.string()),
+  }).partial().optional(),
+  supportAccess: z.object({
+    allowImpersonation: z.boolean(),
+  }).partial().optional(),
+});
+
+const ssoSettingsSchema = z.object({
+  enabled: z.boolean(),
+  issuer: z.string().url('Issuer must be a URL'),
+  clientId: z.string().min(1, 'Client ID is required'),
+  clientSecret: z.string().optional(),
+  allowedDomains: z.array(
+    z.string().regex(/^[a-z0-9.-]+\.[a-z]{2,}$/i, 'Invalid domain')
+  ).min(1, 'At least one domain is required'),
+  defaultAccountType: z.enum(['SIMPLES', 'COMPOSTA', 'GERENCIAL']),
+  disablePasswordLogin: z.boolean(),
+});
+
+export class SettingsController {
+  async getSecuritySettings(req: AuthenticatedRequest, res: Response) {
+    try {
+      if (!req.user || !req.tenantId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const security = await tenantSettingsService.getSecuritySettings(req.tenantId);
+
+      res.json({ security });
+    } catch (error) {
+      console.error('Get security settings error:', error);
+      res.status(500).json({
+        error: 'Failed to fetch security settings',
+        details: error.message,
+      });
+    }
+  }
+
+  async updateSecuritySettings(req: AuthenticatedRequest, res: Response) {
+    try {
+      if (!req.user || !req.tenantId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const validatedData = securitySettingsSchema.parse(req.body);
+      const security = await tenantSettingsService.updateSecuritySettings(req.tenantId, validatedData);
+
+      res.json({
+        message: 'Security settings updated successfully',
+        security,
+      });
+    } catch (error) {
+      console.error('Update security settings error:', error);
+      res.status(400).json({
+        error: 'Failed to update security settings',
+        details: error.message,
+      });
+    }
+  }
+
+  async getSsoSettings(req: AuthenticatedRequest, res: Response) {
+    try {
+      if (!req.user || !req.tenantId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      res.json({ sso: await ssoService.getConfig(req.tenantId) });
+    } catch (error) {
+      console.error('Get SSO settings error:', error);
+      res.status(500).json({
+        error: 'Failed to fetch SSO settings',
+        details: error.message,
+      });
+    }
+  }
+
+  async updateSsoSettings(req: AuthenticatedRequest, res: Response) {
+    try {
+      if (!req.user || !req.tenantId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const validatedData = ssoSettingsSchema.parse(req.body);
+      const sso = await ssoService.updateConfig(req.tenantId, validatedData);
+
+      res.json({
+        message: 'SSO settings updated successfully',
+        sso,
+      });
+    } catch (error) {
+      console.error('Update SSO settings error:', error);
+      res.status(400).json({
+        error: 'Failed to update SSO settings',
+        details: error.message,
+      });
+    }
+  }
+
+  // Checks the TXT record published on the domain; only verified domains route SSO logins
+  async verifySsoDomain(req: AuthenticatedRequest, res: Response) {
+    try {
+      if (!req.user || !req.tenantId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const sso = await ssoService.verifyDomain(req.tenantId, req.params.domain);
+
+      res.json({
+        message: 'Domain verified successfully',
+        sso,
+      });
+    } catch (error) {
+      console.error('Verify SSO domain error:', error);
+      res.status(400).json({
+        error: 'Failed to verify domain',
+        details: error.message,
+      });
+    }
+  }
+
+  async getPlan(req: AuthenticatedRequest, res: Response) {
+    try {
+      if (!req.user || !req.tenantId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      res.json({ plan: await planService.getUsage(req.tenantId) });
+    } catch (error) {
+      console.error('Get plan error:', error);
+      res.status(500).json({
+        error: 'Failed to fetch plan',
+        details: error.message,
+      });
+    }
+  }
+}
+
+export const settingsController = new SettingsController();
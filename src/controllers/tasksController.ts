@@ -1,7 +1,11 @@
 import { Response } from 'express';
 import { z } from 'zod';
 import { AuthenticatedRequest } from '../middleware/auth';
+import { prisma } from '../config/database';
 import { tenantService } from '../services/tenantService';
+import { attachmentService } from '../services/attachmentService';
+import { TenantFilter, TenantQueryOptions, MAX_LIMIT } from '../config/tenantQuery';
+import { TaskRow } from '../types';
 
 // Validation schemas
 const createTaskSchema = z.object({
@@ -42,71 +46,59 @@ export class TasksController {
       const tenantDb = await tenantService.getTenantDatabase(req.tenantId);
       
       // Parse query parameters
-      const page = parseInt(req.query.page as string) || 1;
-      const limit = parseInt(req.query.limit as string) || 50;
+      const page = Math.max(parseInt(req.query.page as string) || 1, 1);
+      const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 50, 1), MAX_LIMIT);
       const search = req.query.search as string;
       const status = req.query.status as string;
       const priority = req.query.priority as string;
       const assignedTo = req.query.assignedTo as string;
       const offset = (page - 1) * limit;
 
-      // Build where conditions
-      let whereConditions = ['is_active = true'];
-      const params: any[] = [];
-
-      if (search) {
-        whereConditions.push(`(title ILIKE $${params.length + 1} OR description ILIKE $${params.length + 1})`);
-        params.push(`%${search}%`);
-      }
+      // Filters are bound as parameters and columns checked by the tenant query builder
+      const where: TenantFilter<TaskRow> = { is_active: true };
 
       if (status && status !== 'all') {
-        whereConditions.push(`status = $${params.length + 1}`);
-        params.push(status);
+        where.status = status as TaskRow['status'];
       }
 
       if (priority && priority !== 'all') {
-        whereConditions.push(`priority = $${params.length + 1}`);
-        params.push(priority);
+        where.priority = priority as TaskRow['priority'];
       }
 
       if (assignedTo && assignedTo !== 'all') {
-        whereConditions.push(`assigned_to = $${params.length + 1}`);
-        params.push(assignedTo);
+        where.assigned_to = assignedTo;
       }
 
-      const whereClause = whereConditions.length > 0 
-        ? `WHERE ${whereConditions.join(' AND ')}`
-        : '';
+      const searchBy = {
+        search: { columns: ['title', 'description'], term: search },
+      } satisfies TenantQueryOptions<TaskRow>;
 
       // Get tasks with pagination
-      const tasks = await tenantDb.query(`
-        SELECT 
-          id, title, description, project_id, project_title, client_id, client_name,
-          assigned_to, status, priority, progress, start_date, end_date, completed_at,
-          estimated_hours, actual_hours, tags, notes, subtasks,
-          created_by, created_at, updated_at
-        FROM \${schema}.tasks 
-        ${whereClause}
-        ORDER BY created_at DESC
-        LIMIT ${limit} OFFSET ${offset}
-      `, params);
-
-      // Get total count
-      const totalResult = await tenantDb.query(`
-        SELECT COUNT(*) as total
-        FROM \${schema}.tasks 
-        ${whereClause}
-      `, params);
+      const [tasks, total] = await Promise.all([
+        tenantDb.findMany('tasks', where, {
+          ...searchBy,
+          select: [
+            'id', 'title', 'description', 'project_id', 'project_title', 'client_id', 'client_name',
+            'assigned_to', 'status', 'priority', 'progress', 'start_date', 'end_date', 'completed_at',
+            'estimated_hours', 'actual_hours', 'tags', 'notes', 'subtasks',
+            'created_by', 'created_at', 'updated_at',
+          ],
+          orderBy: { field: 'created_at', direction: 'desc' },
+          limit,
+          offset,
+        }),
+        tenantDb.count('tasks', where, searchBy),
+      ]);
 
-      const total = parseInt(totalResult[0]?.total || 0);
       const totalPages = Math.ceil(total / limit);
 
       // Process tasks data
+      const attachments = await attachmentService.listByEntities(req.tenantId, 'task', tasks.map((task) => task.id));
       const processedTasks = tasks.map(task => ({
         ...task,
         tags: Array.isArray(task.tags) ? task.tags : [],
         subtasks: Array.isArray(task.subtasks) ? task.subtasks : [],
-        attachments: [], // Will be populated from file attachments in full implementation
+        attachments: attachments.get(task.id) || [],
       }));
 
       res.json({
@@ -149,7 +141,7 @@ export class TasksController {
         ...task,
         tags: Array.isArray(task.tags) ? task.tags : [],
         subtasks: Array.isArray(task.subtasks) ? task.subtasks : [],
-        attachments: [], // Will be populated from file attachments
+        attachments: await attachmentService.listAttachments(req.tenantId, 'task', task.id),
       };
 
       res.json({ task: processedTask });
@@ -196,7 +188,7 @@ export class TasksController {
       });
 
       // Log audit trail
-      await this.logAuditTrail(req.user.id, req.tenantId, 'tasks', task.id, 'CREATE', null, task);
+      await this.logAuditTrail(req.user.id, req.tenantId, 'tasks', task.id, 'CREATE', null, task, req.impersonator?.adminId);
 
       res.status(201).json({
         message: 'Task created successfully',
@@ -261,7 +253,7 @@ export class TasksController {
       const updatedTask = await tenantDb.update('tasks', id, updateData);
 
       // Log audit trail
-      await this.logAuditTrail(req.user.id, req.tenantId, 'tasks', id, 'UPDATE', oldTask, updatedTask);
+      await this.logAuditTrail(req.user.id, req.tenantId, 'tasks', id, 'UPDATE', oldTask, updatedTask, req.impersonator?.adminId);
 
       res.json({
         message: 'Task updated successfully',
@@ -292,10 +284,10 @@ export class TasksController {
       }
 
       // Soft delete (set is_active to false)
-      await tenantDb.update('tasks', id, { is_active: false });
+      await tenantDb.update('tasks', id, { is_active: false, deleted_at: new Date() });
 
       // Log audit trail
-      await this.logAuditTrail(req.user.id, req.tenantId, 'tasks', id, 'DELETE', task, null);
+      await this.logAuditTrail(req.user.id, req.tenantId, 'tasks', id, 'DELETE', task, null, req.impersonator?.adminId);
 
       res.json({
         message: 'Task deleted successfully',
@@ -377,12 +369,14 @@ export class TasksController {
     recordId: string,
     operation: string,
     oldData: any,
-    newData: any
+    newData: any,
+    impersonatorId?: string
   ) {
     try {
       await prisma.auditLog.create({
         data: {
           userId,
+          impersonatorId,
           tenantId,
           tableName,
           recordId,
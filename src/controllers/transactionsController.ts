@@ -1,7 +1,10 @@
 import { Response } from 'express';
 import { z } from 'zod';
 import { AuthenticatedRequest } from '../middleware/auth';
+import { prisma } from '../config/database';
 import { tenantService } from '../services/tenantService';
+import { TenantFilter, TenantQueryOptions, MAX_LIMIT } from '../config/tenantQuery';
+import { TransactionRow } from '../types';
 
 // Validation schemas
 const createTransactionSchema = z.object({
@@ -32,19 +35,11 @@ export class TransactionsController {
         return res.status(401).json({ error: 'Authentication required' });
       }
 
-      // Only COMPOSTA and GERENCIAL can access financial data
-      if (req.user.accountType === 'SIMPLES') {
-        return res.status(403).json({
-          error: 'Access denied',
-          message: 'Financial data not available for this account type',
-        });
-      }
-
       const tenantDb = await tenantService.getTenantDatabase(req.tenantId);
       
       // Parse query parameters
-      const page = parseInt(req.query.page as string) || 1;
-      const limit = parseInt(req.query.limit as string) || 50;
+      const page = Math.max(parseInt(req.query.page as string) || 1, 1);
+      const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 50, 1), MAX_LIMIT);
       const search = req.query.search as string;
       const type = req.query.type as string;
       const status = req.query.status as string;
@@ -52,60 +47,45 @@ export class TransactionsController {
       const endDate = req.query.endDate as string;
       const offset = (page - 1) * limit;
 
-      // Build where conditions
-      let whereConditions = ['is_active = true'];
-      const params: any[] = [];
-
-      if (search) {
-        whereConditions.push(`(description ILIKE $${params.length + 1} OR category ILIKE $${params.length + 1})`);
-        params.push(`%${search}%`);
-      }
+      // Filters are bound as parameters and columns checked by the tenant query builder
+      const where: TenantFilter<TransactionRow> = { is_active: true };
 
       if (type && type !== 'all') {
-        whereConditions.push(`type = $${params.length + 1}`);
-        params.push(type);
+        where.type = type as TransactionRow['type'];
       }
 
       if (status && status !== 'all') {
-        whereConditions.push(`status = $${params.length + 1}`);
-        params.push(status);
+        where.status = status as TransactionRow['status'];
       }
 
-      if (startDate) {
-        whereConditions.push(`date >= $${params.length + 1}`);
-        params.push(startDate);
+      if (startDate || endDate) {
+        where.date = { gte: startDate || undefined, lte: endDate || undefined };
       }
 
-      if (endDate) {
-        whereConditions.push(`date <= $${params.length + 1}`);
-        params.push(endDate);
-      }
-
-      const whereClause = whereConditions.length > 0 
-        ? `WHERE ${whereConditions.join(' AND ')}`
-        : '';
+      const searchBy = {
+        search: { columns: ['description', 'category'], term: search },
+      } satisfies TenantQueryOptions<TransactionRow>;
 
       // Get transactions with pagination
-      const transactions = await tenantDb.query(`
-        SELECT 
-          id, type, amount, category_id, category, description, date,
-          payment_method, status, project_id, project_title, client_id, client_name,
-          tags, notes, is_recurring, recurring_frequency,
-          created_by, created_at, updated_at
-        FROM \${schema}.transactions 
-        ${whereClause}
-        ORDER BY date DESC, created_at DESC
-        LIMIT ${limit} OFFSET ${offset}
-      `, params);
-
-      // Get total count
-      const totalResult = await tenantDb.query(`
-        SELECT COUNT(*) as total
-        FROM \${schema}.transactions 
-        ${whereClause}
-      `, params);
-
-      const total = parseInt(totalResult[0]?.total || 0);
+      const [transactions, total] = await Promise.all([
+        tenantDb.findMany('transactions', where, {
+          ...searchBy,
+          select: [
+            'id', 'type', 'amount', 'category_id', 'category', 'description', 'date',
+            'payment_method', 'status', 'project_id', 'project_title', 'client_id', 'client_name',
+            'tags', 'notes', 'is_recurring', 'recurring_frequency',
+            'created_by', 'created_at', 'updated_at',
+          ],
+          orderBy: [
+            { field: 'date', direction: 'desc' },
+            { field: 'created_at', direction: 'desc' },
+          ],
+          limit,
+          offset,
+        }),
+        tenantDb.count('transactions', where, searchBy),
+      ]);
+
       const totalPages = Math.ceil(total / limit);
 
       // Process transactions data
@@ -140,13 +120,6 @@ export class TransactionsController {
         return res.status(401).json({ error: 'Authentication required' });
       }
 
-      if (req.user.accountType === 'SIMPLES') {
-        return res.status(403).json({
-          error: 'Access denied',
-          message: 'Financial data not available for this account type',
-        });
-      }
-
       const { id } = req.params;
       const tenantDb = await tenantService.getTenantDatabase(req.tenantId);
 
@@ -178,13 +151,6 @@ export class TransactionsController {
         return res.status(401).json({ error: 'Authentication required' });
       }
 
-      if (req.user.accountType === 'SIMPLES') {
-        return res.status(403).json({
-          error: 'Access denied',
-          message: 'Financial operations not available for this account type',
-        });
-      }
-
       const validatedData = createTransactionSchema.parse(req.body);
       const tenantDb = await tenantService.getTenantDatabase(req.tenantId);
 
@@ -212,7 +178,7 @@ export class TransactionsController {
       });
 
       // Log audit trail
-      await this.logAuditTrail(req.user.id, req.tenantId, 'transactions', transaction.id, 'CREATE', null, transaction);
+      await this.logAuditTrail(req.user.id, req.tenantId, 'transactions', transaction.id, 'CREATE', null, transaction, req.impersonator?.adminId);
 
       res.status(201).json({
         message: 'Transaction created successfully',
@@ -236,13 +202,6 @@ export class TransactionsController {
         return res.status(401).json({ error: 'Authentication required' });
       }
 
-      if (req.user.accountType === 'SIMPLES') {
-        return res.status(403).json({
-          error: 'Access denied',
-          message: 'Financial operations not available for this account type',
-        });
-      }
-
       const { id } = req.params;
       const validatedData = updateTransactionSchema.parse(req.body);
       const tenantDb = await tenantService.getTenantDatabase(req.tenantId);
@@ -265,7 +224,7 @@ export class TransactionsController {
       const updatedTransaction = await tenantDb.update('transactions', id, updateData);
 
       // Log audit trail
-      await this.logAuditTrail(req.user.id, req.tenantId, 'transactions', id, 'UPDATE', oldTransaction, updatedTransaction);
+      await this.logAuditTrail(req.user.id, req.tenantId, 'transactions', id, 'UPDATE', oldTransaction, updatedTransaction, req.impersonator?.adminId);
 
       res.json({
         message: 'Transaction updated successfully',
@@ -286,13 +245,6 @@ export class TransactionsController {
         return res.status(401).json({ error: 'Authentication required' });
       }
 
-      if (req.user.accountType === 'SIMPLES') {
-        return res.status(403).json({
-          error: 'Access denied',
-          message: 'Financial operations not available for this account type',
-        });
-      }
-
       const { id } = req.params;
       const tenantDb = await tenantService.getTenantDatabase(req.tenantId);
 
@@ -303,10 +255,10 @@ export class TransactionsController {
       }
 
       // Soft delete (set is_active to false)
-      await tenantDb.update('transactions', id, { is_active: false });
+      await tenantDb.update('transactions', id, { is_active: false, deleted_at: new Date() });
 
       // Log audit trail
-      await this.logAuditTrail(req.user.id, req.tenantId, 'transactions', id, 'DELETE', transaction, null);
+      await this.logAuditTrail(req.user.id, req.tenantId, 'transactions', id, 'DELETE', transaction, null, req.impersonator?.adminId);
 
       res.json({
         message: 'Transaction deleted successfully',
@@ -327,12 +279,14 @@ export class TransactionsController {
     recordId: string,
     operation: string,
     oldData: any,
-    newData: any
+    newData: any,
+    impersonatorId?: string
   ) {
     try {
       await prisma.auditLog.create({
         data: {
           userId,
+          impersonatorId,
           tenantId,
           tableName,
           recordId,
@@ -0,0 +1,141 @@
+import { Response } from 'express';
+import { z } from 'zod';
+import { AuthenticatedRequest, getRequestPermissions } from '../middleware/auth';
+import { prisma } from '../config/database';
+import { trashService, TrashType, TRASH_TABLES, TRASH_RETENTION_DAYS } from '../services/trashService';
+import { permissionService } from '../services/permissionService';
+import { AppError, PermissionAction } from '../types';
+
+// Validation schemas
+const itemSchema = z.object({
+  type: z.enum(['client', 'project', 'task', 'transaction', 'invoice']),
+  id: z.string().uuid('Invalid id'),
+});
+
+const restoreSchema = z.object({
+  withTasks: z.boolean().optional(),
+});
+
+// Each item follows its own module: read to see it, delete to restore it, admin to purge it
+async function canAccess(req: AuthenticatedRequest, type: TrashType, action: PermissionAction) {
+  return permissionService.hasPermission(await getRequestPermissions(req), TRASH_TABLES[type], action);
+}
+
+function denied(res: Response, type: TrashType, action: PermissionAction) {
+  return res.status(403).json({
+    error: 'Insufficient permissions',
+    required: `${TRASH_TABLES[type]}:${action}`,
+    code: 'AUTH_004',
+  });
+}
+
+async function logAuditTrail(req: AuthenticatedRequest, type: TrashType, recordId: string, operation: string, oldData: any, newData?: any) {
+  try {
+    await prisma.auditLog.create({
+      data: {
+        userId: req.user!.id,
+        impersonatorId: req.impersonator?.adminId,
+        tenantId: req.tenantId!,
+        tableName: TRASH_TABLES[type],
+        recordId,
+        operation,
+        oldData: oldData || undefined,
+        newData: newData || undefined,
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent'),
+        createdAt: new Date(),
+      },
+    });
+  } catch (error) {
+    console.error('Audit log error:', error);
+  }
+}
+
+export class TrashController {
+  // Lists only the types the user can read
+  async listTrash(req: AuthenticatedRequest, res: Response) {
+    try {
+      if (!req.user || !req.tenantId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const types: TrashType[] = [];
+      for (const type of Object.keys(TRASH_TABLES) as TrashType[]) {
+        if (await canAccess(req, type, 'read')) {
+          types.push(type);
+        }
+      }
+
+      res.json({
+        items: await trashService.list(req.tenantId, types),
+        retentionDays: TRASH_RETENTION_DAYS,
+      });
+    } catch (error) {
+      console.error('List trash error:', error);
+      res.status(500).json({
+        error: 'Failed to fetch trash',
+        details: error.message,
+      });
+    }
+  }
+
+  async restoreItem(req: AuthenticatedRequest, res: Response) {
+    try {
+      if (!req.user || !req.tenantId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const { type, id } = itemSchema.parse(req.params);
+      const { withTasks } = restoreSchema.parse(req.body || {});
+      if (!(await canAccess(req, type, 'delete'))) {
+        return denied(res, type, 'delete');
+      }
+
+      const { before, after, tasks } = await trashService.restore(req.tenantId, type, id, withTasks);
+      await logAuditTrail(req, type, id, 'RESTORE', before, after);
+
+      res.json({
+        message: 'Item restored',
+        record: after,
+        restoredTasks: tasks,
+      });
+    } catch (error) {
+      console.error('Restore trash item error:', error);
+      res.status(error instanceof AppError ? error.statusCode : 400).json({
+        error: 'Failed to restore item',
+        details: error.message,
+        ...(error instanceof AppError && { code: error.code }),
+      });
+    }
+  }
+
+  // Permanent: the row and its attachments are gone, only the audit entry remains
+  async purgeItem(req: AuthenticatedRequest, res: Response) {
+    try {
+      if (!req.user || !req.tenantId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const { type, id } = itemSchema.parse(req.params);
+      if (!(await canAccess(req, type, 'admin'))) {
+        return denied(res, type, 'admin');
+      }
+
+      const row = await trashService.purge(req.tenantId, type, id);
+      await logAuditTrail(req, type, id, 'PURGE', row);
+
+      res.json({
+        message: 'Item permanently deleted',
+      });
+    } catch (error) {
+      console.error('Purge trash item error:', error);
+      res.status(error instanceof AppError ? error.statusCode : 400).json({
+        error: 'Failed to delete item',
+        details: error.message,
+        ...(error instanceof AppError && { code: error.code }),
+      });
+    }
+  }
+}
+
+export const trashController = new TrashController();
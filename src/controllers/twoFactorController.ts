@@ -0,0 +1,200 @@
+import { Response } from 'express';
+import { z } from 'zod';
+import { AuthenticatedRequest, authService } from '../middleware/auth';
+import { prisma } from '../config/database';
+import { twoFactorService } from '../services/twoFactorService';
+import { tenantSettingsService } from '../services/tenantSettingsService';
+
+// Validation schemas
+const codeSchema = z.object({
+  code: z.string().min(6, 'Verification code is required'),
+});
+
+const disableSchema = z.object({
+  password: z.string().min(1, 'Password is required'),
+  code: z.string().min(6, 'Verification code is required'),
+});
+
+export class TwoFactorController {
+  async setup(req: AuthenticatedRequest, res: Response) {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const user = await prisma.user.findUnique({
+        where: { id: req.user.id },
+      });
+
+      if (user!.twoFactorEnabled) {
+        return res.status(400).json({
+          error: 'Two-factor authentication is already enabled',
+        });
+      }
+
+      // Secret stays pending until confirmed through /enable
+      const secret = twoFactorService.generateSecret();
+      const otpauthUri = twoFactorService.buildOtpauthUri(secret, req.user.email);
+
+      await prisma.user.update({
+        where: { id: req.user.id },
+        data: { twoFactorSecret: secret },
+      });
+
+      res.json({
+        secret,
+        otpauthUri,
+        qrCode: await twoFactorService.generateQrCode(otpauthUri),
+      });
+    } catch (error) {
+      console.error('Two-factor setup error:', error);
+      res.status(500).json({
+        error: 'Failed to start two-factor setup',
+        details: error.message,
+      });
+    }
+  }
+
+  async enable(req: AuthenticatedRequest, res: Response) {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const validatedData = codeSchema.parse(req.body);
+      const user = await prisma.user.findUnique({
+        where: { id: req.user.id },
+      });
+
+      if (!user?.twoFactorSecret) {
+        return res.status(400).json({
+          error: 'Start two-factor setup first',
+        });
+      }
+
+      const step = twoFactorService.verifyCode(user.twoFactorSecret, validatedData.code);
+      if (step === null) {
+        return res.status(400).json({
+          error: 'Invalid verification code',
+          code: 'AUTH_2FA_001',
+        });
+      }
+
+      const { codes, hashes } = twoFactorService.generateRecoveryCodes();
+
+      await prisma.user.update({
+        where: { id: user.id },
+        data: {
+          twoFactorEnabled: true,
+          twoFactorLastStep: step,
+          twoFactorRecoveryCodes: hashes,
+        },
+      });
+
+      res.json({
+        message: 'Two-factor authentication enabled',
+        recoveryCodes: codes, // Shown only once
+      });
+    } catch (error) {
+      console.error('Two-factor enable error:', error);
+      res.status(400).json({
+        error: 'Failed to enable two-factor authentication',
+        details: error.message,
+      });
+    }
+  }
+
+  async disable(req: AuthenticatedRequest, res: Response) {
+    try {
+      if (!req.user || !req.tenantId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const validatedData = disableSchema.parse(req.body);
+
+      const security = await tenantSettingsService.getSecuritySettings(req.tenantId);
+      if (security.twoFactorAuth.required) {
+        return res.status(403).json({
+          error: 'Two-factor authentication is required by your organization',
+          code: 'AUTH_2FA_003',
+        });
+      }
+
+      const user = await prisma.user.findUnique({
+        where: { id: req.user.id },
+      });
+
+      const isValidPassword = await authService.verifyPassword(validatedData.password, user!.password);
+      const step = user!.twoFactorSecret
+        ? twoFactorService.verifyCode(user!.twoFactorSecret, validatedData.code)
+        : null;
+
+      if (!isValidPassword || step === null) {
+        return res.status(400).json({
+          error: 'Invalid password or verification code',
+        });
+      }
+
+      await prisma.user.update({
+        where: { id: req.user.id },
+        data: {
+          twoFactorEnabled: false,
+          twoFactorSecret: null,
+          twoFactorLastStep: null,
+          twoFactorRecoveryCodes: [],
+        },
+      });
+
+      res.json({ message: 'Two-factor authentication disabled' });
+    } catch (error) {
+      console.error('Two-factor disable error:', error);
+      res.status(400).json({
+        error: 'Failed to disable two-factor authentication',
+        details: error.message,
+      });
+    }
+  }
+
+  async regenerateRecoveryCodes(req: AuthenticatedRequest, res: Response) {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const validatedData = codeSchema.parse(req.body);
+      const user = await prisma.user.findUnique({
+        where: { id: req.user.id },
+      });
+
+      if (!user?.twoFactorEnabled || !user.twoFactorSecret) {
+        return res.status(400).json({
+          error: 'Two-factor authentication is not enabled',
+        });
+      }
+
+      if (twoFactorService.verifyCode(user.twoFactorSecret, validatedData.code) === null) {
+        return res.status(400).json({
+          error: 'Invalid verification code',
+          code: 'AUTH_2FA_001',
+        });
+      }
+
+      const { codes, hashes } = twoFactorService.generateRecoveryCodes();
+
+      await prisma.user.update({
+        where: { id: user.id },
+        data: { twoFactorRecoveryCodes: hashes },
+      });
+
+      res.json({ recoveryCodes: codes });
+    } catch (error) {
+      console.error('Regenerate recovery codes error:', error);
+      res.status(400).json({
+        error: 'Failed to regenerate recovery codes',
+        details: error.message,
+      });
+    }
+  }
+}
+
+export const twoFactorController = new TwoFactorController();
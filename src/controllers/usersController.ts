@@ -0,0 +1,367 @@
+import { Response } from 'express';
+import { z } from 'zod';
+import { AuthenticatedRequest, authService } from '../middleware/auth';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import { sessionService } from '../services/sessionService';
+import { loginProtectionService } from '../services/loginProtectionService';
+import { teamInviteService } from '../services/teamInviteService';
+import { PlanLimitError } from '../types';
+
+// Validation schemas
+const assignRoleSchema = z.object({
+  // null restores the built-in role of the user's account type
+  roleId: z.string().uuid().nullable(),
+});
+
+const inviteSchema = z.object({
+  email: z.string().email('Invalid email format'),
+  accountType: z.enum(['SIMPLES', 'COMPOSTA', 'GERENCIAL']),
+  roleId: z.string().uuid().nullable().optional(),
+});
+
+const statusSchema = z.object({
+  isActive: z.boolean(),
+});
+
+async function logAuditTrail(
+  req: AuthenticatedRequest,
+  recordId: string,
+  operation: string,
+  oldData: any,
+  newData: any
+) {
+  try {
+    await prisma.auditLog.create({
+      data: {
+        userId: req.user!.id,
+        impersonatorId: req.impersonator?.adminId,
+        tenantId: req.tenantId!,
+        tableName: 'users',
+        recordId,
+        operation,
+        oldData: oldData || undefined,
+        newData: newData || undefined,
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent'),
+        createdAt: new Date(),
+      },
+    });
+  } catch (error) {
+    console.error('Audit log error:', error);
+    // Don't fail the main operation if audit logging fails
+  }
+}
+
+// Team members are only reachable inside the caller's tenant
+async function findTenantUser(req: AuthenticatedRequest) {
+  return prisma.user.findFirst({
+    where: { id: req.params.id, tenantId: req.tenantId },
+  });
+}
+
+function planLimitDetails(error: unknown) {
+  return error instanceof PlanLimitError
+    ? { code: error.code, limit: error.limit, used: error.used }
+    : {};
+}
+
+export class UsersController {
+  async getUsers(req: AuthenticatedRequest, res: Response) {
+    try {
+      if (!req.user || !req.tenantId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const users = await prisma.user.findMany({
+        where: { tenantId: req.tenantId },
+        orderBy: { name: 'asc' },
+        select: {
+          id: true,
+          email: true,
+          name: true,
+          accountType: true,
+          roleId: true,
+          isActive: true,
+          lastLogin: true,
+          createdAt: true,
+          updatedAt: true,
+          _count: {
+            select: { sessions: { where: { revokedAt: null } } },
+          },
+        },
+      });
+
+      const locked = await loginProtectionService.getLockedAccounts(users.map((user: { email: string }) => user.email));
+
+      res.json({
+        users: users.map(({ _count, ...user }: (typeof users)[number]) => ({
+          ...user,
+          activeSessions: _count.sessions,
+          lockedUntil: locked.get(user.email) || null,
+        })),
+      });
+    } catch (error) {
+      console.error('Get users error:', error);
+      res.status(500).json({
+        error: 'Failed to fetch users',
+        details: error.message,
+      });
+    }
+  }
+
+  async getUserSessions(req: AuthenticatedRequest, res: Response) {
+    try {
+      if (!req.user || !req.tenantId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const user = await findTenantUser(req);
+
+      if (!user) {
+        return res.status(404).json({ error: 'User not found' });
+      }
+
+      const sessions = await sessionService.listSessions(user.id);
+
+      res.json({ sessions });
+    } catch (error) {
+      console.error('Get user sessions error:', error);
+      res.status(500).json({
+        error: 'Failed to fetch user sessions',
+        details: error.message,
+      });
+    }
+  }
+
+  async revokeUserSessions(req: AuthenticatedRequest, res: Response) {
+    try {
+      if (!req.user || !req.tenantId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const user = await findTenantUser(req);
+
+      if (!user) {
+        return res.status(404).json({ error: 'User not found' });
+      }
+
+      const count = await sessionService.revokeAllSessions(user.id);
+
+      await logAuditTrail(req, user.id, 'REVOKE_SESSIONS', null, { revokedSessions: count });
+
+      res.json({
+        message: 'User sessions revoked successfully',
+        count,
+      });
+    } catch (error) {
+      console.error('Revoke user sessions error:', error);
+      res.status(500).json({
+        error: 'Failed to revoke user sessions',
+        details: error.message,
+      });
+    }
+  }
+
+  async unlockUser(req: AuthenticatedRequest, res: Response) {
+    try {
+      if (!req.user || !req.tenantId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const user = await findTenantUser(req);
+
+      if (!user) {
+        return res.status(404).json({ error: 'User not found' });
+      }
+
+      const unlocked = await loginProtectionService.unlock(user.email);
+
+      if (!unlocked) {
+        return res.status(404).json({ error: 'User is not locked' });
+      }
+
+      await logAuditTrail(req, user.id, 'UNLOCK', null, { email: user.email });
+
+      res.json({ message: 'User unlocked successfully' });
+    } catch (error) {
+      console.error('Unlock user error:', error);
+      res.status(500).json({
+        error: 'Failed to unlock user',
+        details: error.message,
+      });
+    }
+  }
+
+  async getInvites(req: AuthenticatedRequest, res: Response) {
+    try {
+      if (!req.user || !req.tenantId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const [invites, seats] = await Promise.all([
+        teamInviteService.listInvites(req.tenantId),
+        teamInviteService.getSeatUsage(req.tenantId),
+      ]);
+
+      res.json({ invites, seats });
+    } catch (error) {
+      console.error('Get invites error:', error);
+      res.status(500).json({
+        error: 'Failed to fetch invites',
+        details: error.message,
+      });
+    }
+  }
+
+  async createInvite(req: AuthenticatedRequest, res: Response) {
+    try {
+      if (!req.user || !req.tenantId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const validatedData = inviteSchema.parse(req.body);
+      const invite = await teamInviteService.createInvite(req.tenantId, req.user.id, {
+        ...validatedData,
+        email: validatedData.email.toLowerCase(),
+      });
+
+      await logAuditTrail(req, invite.id, 'INVITE', null, {
+        email: invite.email,
+        accountType: invite.accountType,
+        roleId: invite.roleId,
+      });
+
+      res.status(201).json({
+        message: 'Invitation sent',
+        invite,
+      });
+    } catch (error) {
+      console.error('Create invite error:', error);
+      res.status(error instanceof PlanLimitError ? error.statusCode : 400).json({
+        error: 'Failed to send invitation',
+        details: error.message,
+        ...planLimitDetails(error),
+      });
+    }
+  }
+
+  async revokeInvite(req: AuthenticatedRequest, res: Response) {
+    try {
+      if (!req.user || !req.tenantId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const revoked = await teamInviteService.revokeInvite(req.tenantId, req.params.inviteId);
+
+      if (!revoked) {
+        return res.status(404).json({ error: 'Invite not found' });
+      }
+
+      await logAuditTrail(req, req.params.inviteId, 'REVOKE_INVITE', null, null);
+
+      res.json({ message: 'Invitation revoked' });
+    } catch (error) {
+      console.error('Revoke invite error:', error);
+      res.status(500).json({
+        error: 'Failed to revoke invitation',
+        details: error.message,
+      });
+    }
+  }
+
+  async setStatus(req: AuthenticatedRequest, res: Response) {
+    try {
+      if (!req.user || !req.tenantId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const validatedData = statusSchema.parse(req.body);
+
+      if (req.params.id === req.user.id) {
+        return res.status(400).json({ error: 'You cannot change your own status' });
+      }
+
+      const user = await findTenantUser(req);
+
+      if (!user) {
+        return res.status(404).json({ error: 'User not found' });
+      }
+
+      if (user.isActive === validatedData.isActive) {
+        return res.json({ message: 'User status unchanged' });
+      }
+
+      await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+        if (validatedData.isActive) {
+          await teamInviteService.assertSeatAvailable(req.tenantId!, tx);
+        }
+
+        await tx.user.update({
+          where: { id: user.id },
+          data: { isActive: validatedData.isActive },
+        });
+      });
+
+      // A deactivated member frees the seat and loses every open session at once
+      if (!validatedData.isActive) {
+        await authService.revokeAllTokens(user.id);
+      }
+
+      await logAuditTrail(req, user.id, 'UPDATE', { isActive: user.isActive }, { isActive: validatedData.isActive });
+
+      res.json({
+        message: validatedData.isActive ? 'User reactivated successfully' : 'User deactivated successfully',
+      });
+    } catch (error) {
+      console.error('Set user status error:', error);
+      res.status(error instanceof PlanLimitError ? error.statusCode : 400).json({
+        error: 'Failed to update user status',
+        details: error.message,
+        ...planLimitDetails(error),
+      });
+    }
+  }
+
+  async assignRole(req: AuthenticatedRequest, res: Response) {
+    try {
+      if (!req.user || !req.tenantId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const validatedData = assignRoleSchema.parse(req.body);
+      const user = await findTenantUser(req);
+
+      if (!user) {
+        return res.status(404).json({ error: 'User not found' });
+      }
+
+      if (validatedData.roleId) {
+        const role = await prisma.role.findFirst({
+          where: { id: validatedData.roleId, tenantId: req.tenantId },
+        });
+
+        if (!role) {
+          return res.status(404).json({ error: 'Role not found' });
+        }
+      }
+
+      await prisma.user.update({
+        where: { id: user.id },
+        data: { roleId: validatedData.roleId },
+      });
+
+      await logAuditTrail(req, user.id, 'UPDATE', { roleId: user.roleId }, { roleId: validatedData.roleId });
+
+      res.json({ message: 'Role assigned successfully' });
+    } catch (error) {
+      console.error('Assign role error:', error);
+      res.status(400).json({
+        error: 'Failed to assign role',
+        details: error.message,
+      });
+    }
+  }
+}
+
+export const usersController = new UsersController();
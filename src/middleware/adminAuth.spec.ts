@@ -0,0 +1,67 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const { prisma } = vi.hoisted(() => ({
+  prisma: {
+    adminRefreshToken: {
+      create: vi.fn(),
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+      updateMany: vi.fn(),
+    },
+  },
+}));
+
+vi.mock("../config/database", () => ({ prisma }));
+
+import { AdminAuthService } from "./adminAuth";
+
+const service = new AdminAuthService();
+const admin = { id: "admin-1", email: "suporte@legalsaas.com", name: "Suporte", role: "support" };
+
+async function issue() {
+  const { refreshToken } = await service.generateTokens(admin);
+  const row = prisma.adminRefreshToken.create.mock.calls.at(-1)![0].data;
+  return { refreshToken, row };
+}
+
+describe("AdminAuthService refresh tokens", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    prisma.adminRefreshToken.updateMany.mockResolvedValue({ count: 1 });
+  });
+
+  it("should look the token up by its embedded id and rotate it", async () => {
+    const { refreshToken, row } = await issue();
+    prisma.adminRefreshToken.findUnique.mockResolvedValue(row);
+
+    const decoded = await service.verifyRefreshToken(refreshToken);
+
+    expect(decoded).toMatchObject({ adminId: "admin-1", role: "support", jti: row.id });
+    expect(row.tokenHash).toBe(service.hashRefreshToken(refreshToken));
+    expect(prisma.adminRefreshToken.findUnique).toHaveBeenCalledWith({ where: { id: row.id } });
+    expect(prisma.adminRefreshToken.findMany).not.toHaveBeenCalled();
+    expect(prisma.adminRefreshToken.updateMany).toHaveBeenCalledWith({
+      where: { id: row.id, isActive: true },
+      data: { isActive: false },
+    });
+  });
+
+  it("should refuse a token already exchanged, even concurrently", async () => {
+    const { refreshToken, row } = await issue();
+    prisma.adminRefreshToken.findUnique.mockResolvedValue(row);
+    prisma.adminRefreshToken.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(service.verifyRefreshToken(refreshToken)).rejects.toThrow("Invalid or expired admin refresh token");
+
+    prisma.adminRefreshToken.findUnique.mockResolvedValue({ ...row, isActive: false });
+    await expect(service.verifyRefreshToken(refreshToken)).rejects.toThrow("Invalid or expired admin refresh token");
+  });
+
+  it("should refuse a row whose hash does not match the token", async () => {
+    const { refreshToken, row } = await issue();
+    prisma.adminRefreshToken.findUnique.mockResolvedValue({ ...row, tokenHash: "other" });
+
+    await expect(service.verifyRefreshToken(refreshToken)).rejects.toThrow("Invalid or expired admin refresh token");
+    expect(prisma.adminRefreshToken.updateMany).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,247 @@
+import { Request, Response, NextFunction } from 'express';
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import bcrypt from 'bcrypt';
+import { prisma } from '../config/database';
+
+export type AdminRole = 'super_admin' | 'admin' | 'support';
+
+export interface AdminAuthenticatedRequest extends Request {
+  admin?: {
+    id: string;
+    email: string;
+    name: string;
+    role: AdminRole;
+  };
+}
+
+export interface AdminJWTPayload {
+  adminId: string;
+  email: string;
+  name: string;
+  role: AdminRole;
+  scope: 'admin';
+  type: 'access' | 'refresh';
+  jti?: string; // refresh tokens only: admin_refresh_tokens row id
+}
+
+// The admin_users columns a token is issued for
+export interface AdminTokenSubject {
+  id: string;
+  email: string;
+  name: string;
+  role: string;
+}
+
+export class AdminAuthService {
+  private accessTokenSecret: string;
+  private refreshTokenSecret: string;
+  private accessTokenExpiry: jwt.SignOptions['expiresIn'];
+  private refreshTokenExpiry: jwt.SignOptions['expiresIn'];
+
+  constructor() {
+    // Admin tokens use their own secrets so a tenant token can never be replayed against /api/admin
+    this.accessTokenSecret = process.env.JWT_ADMIN_ACCESS_SECRET || 'admin-access-secret';
+    this.refreshTokenSecret = process.env.JWT_ADMIN_REFRESH_SECRET || 'admin-refresh-secret';
+    this.accessTokenExpiry = (process.env.JWT_ADMIN_ACCESS_EXPIRY || '15m') as jwt.SignOptions['expiresIn'];
+    this.refreshTokenExpiry = (process.env.JWT_ADMIN_REFRESH_EXPIRY || '8h') as jwt.SignOptions['expiresIn'];
+  }
+
+  async generateTokens(admin: AdminTokenSubject) {
+    const payload: Omit<AdminJWTPayload, 'type'> = {
+      adminId: admin.id,
+      email: admin.email,
+      name: admin.name,
+      role: admin.role as AdminRole,
+      scope: 'admin',
+    };
+
+    // Generate access token
+    const accessToken = jwt.sign(
+      { ...payload, type: 'access' },
+      this.accessTokenSecret,
+      { expiresIn: this.accessTokenExpiry }
+    );
+
+    // Generate refresh token; jti points straight at its row
+    const tokenId = crypto.randomUUID();
+    const refreshToken = jwt.sign(
+      { ...payload, jti: tokenId, type: 'refresh' },
+      this.refreshTokenSecret,
+      { expiresIn: this.refreshTokenExpiry }
+    );
+
+    // Store refresh token hash in database
+    const expiresAt = new Date(Date.now() + 8 * 60 * 60 * 1000); // 8 hours
+
+    await prisma.adminRefreshToken.create({
+      data: {
+        id: tokenId,
+        tokenHash: this.hashRefreshToken(refreshToken),
+        adminUserId: admin.id,
+        expiresAt,
+        isActive: true,
+      },
+    });
+
+    return { accessToken, refreshToken };
+  }
+
+  // Refresh tokens are signed high-entropy JWTs, so a fast digest is enough
+  hashRefreshToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  async verifyAccessToken(token: string): Promise<AdminJWTPayload> {
+    try {
+      const decoded = jwt.verify(token, this.accessTokenSecret) as AdminJWTPayload;
+
+      if (decoded.type !== 'access' || decoded.scope !== 'admin') {
+        throw new Error('Invalid token type');
+      }
+
+      return decoded;
+    } catch (error) {
+      throw new Error('Invalid or expired admin access token');
+    }
+  }
+
+  async verifyRefreshToken(token: string): Promise<AdminJWTPayload> {
+    try {
+      const decoded = jwt.verify(token, this.refreshTokenSecret) as AdminJWTPayload;
+
+      if (decoded.type !== 'refresh' || decoded.scope !== 'admin') {
+        throw new Error('Invalid token type');
+      }
+
+      if (!decoded.jti) {
+        throw new Error('Refresh token not found or invalid');
+      }
+
+      const stored = await prisma.adminRefreshToken.findUnique({
+        where: { id: decoded.jti },
+      });
+
+      if (
+        !stored ||
+        stored.adminUserId !== decoded.adminId ||
+        stored.tokenHash !== this.hashRefreshToken(token) ||
+        !stored.isActive ||
+        stored.expiresAt <= new Date()
+      ) {
+        throw new Error('Refresh token not found or invalid');
+      }
+
+      // Invalidate used refresh token (rotation); a concurrent exchange of the same token loses
+      const rotated = await prisma.adminRefreshToken.updateMany({
+        where: { id: stored.id, isActive: true },
+        data: { isActive: false },
+      });
+
+      if (rotated.count === 0) {
+        throw new Error('Refresh token not found or invalid');
+      }
+
+      return decoded;
+    } catch (error) {
+      throw new Error('Invalid or expired admin refresh token');
+    }
+  }
+
+  async revokeAllTokens(adminId: string) {
+    await prisma.adminRefreshToken.updateMany({
+      where: { adminUserId: adminId },
+      data: { isActive: false },
+    });
+  }
+
+  async verifyPassword(password: string, hash: string): Promise<boolean> {
+    return await bcrypt.compare(password, hash);
+  }
+
+  // Records which admin performed a privileged operation
+  async logAdminAction(adminId: string, action: string, metadata: Record<string, any> = {}, tenantId?: string) {
+    try {
+      await prisma.systemLog.create({
+        data: {
+          tenantId,
+          level: 'info',
+          message: `admin:${action}`,
+          metadata: { adminId, action, ...metadata },
+        },
+      });
+    } catch (error) {
+      console.error('Admin action log error:', error);
+    }
+  }
+}
+
+// Admin authentication middleware
+export const authenticateAdmin = async (
+  req: AdminAuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  const authHeader = req.headers.authorization;
+  const token = authHeader?.split(' ')[1];
+
+  if (!token) {
+    return res.status(401).json({
+      error: 'Admin access token required',
+      code: 'ADMIN_001',
+    });
+  }
+
+  try {
+    const decoded = await adminAuthService.verifyAccessToken(token);
+
+    // Verify admin is still active
+    const admin = await prisma.adminUser.findUnique({
+      where: { id: decoded.adminId },
+    });
+
+    if (!admin || !admin.isActive) {
+      return res.status(401).json({
+        error: 'Admin user inactive',
+        code: 'ADMIN_002',
+      });
+    }
+
+    req.admin = {
+      id: admin.id,
+      email: admin.email,
+      name: admin.name,
+      role: admin.role as AdminRole,
+    };
+
+    next();
+  } catch (error) {
+    return res.status(403).json({
+      error: 'Invalid admin token',
+      code: 'ADMIN_003',
+      details: error.message,
+    });
+  }
+};
+
+// Authorization middleware for admin roles
+export const requireAdminRole = (allowedRoles: AdminRole[]) => {
+  return (req: AdminAuthenticatedRequest, res: Response, next: NextFunction) => {
+    if (!req.admin) {
+      return res.status(401).json({ error: 'Admin authentication required' });
+    }
+
+    if (!allowedRoles.includes(req.admin.role)) {
+      return res.status(403).json({
+        error: 'Insufficient admin permissions',
+        required: allowedRoles,
+        current: req.admin.role,
+        code: 'ADMIN_004',
+      });
+    }
+
+    next();
+  };
+};
+
+export const adminAuthService = new AdminAuthService();
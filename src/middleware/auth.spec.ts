@@ -0,0 +1,82 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const { prisma, sessionService } = vi.hoisted(() => ({
+  prisma: {
+    refreshToken: {
+      create: vi.fn(),
+      findUnique: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    systemLog: { create: vi.fn() },
+  },
+  sessionService: {
+    validateSession: vi.fn(),
+    revokeSession: vi.fn(),
+  },
+}));
+
+vi.mock("../config/database", () => ({ prisma }));
+vi.mock("../services/sessionService", () => ({ sessionService }));
+vi.mock("../services/permissionService", () => ({ permissionService: {} }));
+
+import { AuthService } from "./auth";
+
+const service = new AuthService();
+const user = { id: "user-1", tenantId: "tenant-1", accountType: "SIMPLES", email: "a@b.com", name: "Ana" };
+
+async function issue(familyId?: string) {
+  const { refreshToken } = await service.generateTokens(user, "session-1", familyId);
+  const row = prisma.refreshToken.create.mock.calls.at(-1)![0].data;
+  return { refreshToken, row: { ...row, rotatedAt: null } };
+}
+
+describe("AuthService refresh tokens", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    sessionService.validateSession.mockResolvedValue(true);
+  });
+
+  it("should look the token up by its embedded id and rotate it", async () => {
+    const { refreshToken, row } = await issue();
+    prisma.refreshToken.findUnique.mockResolvedValue(row);
+    prisma.refreshToken.updateMany.mockResolvedValue({ count: 1 });
+
+    const decoded = await service.verifyRefreshToken(refreshToken);
+
+    expect(prisma.refreshToken.findUnique).toHaveBeenCalledWith({ where: { id: row.id } });
+    expect(decoded.familyId).toBe(row.familyId);
+    expect(prisma.systemLog.create).not.toHaveBeenCalled();
+  });
+
+  it("should keep the family across rotations", async () => {
+    const first = await issue();
+    const second = await issue(first.row.familyId);
+
+    expect(second.row.familyId).toBe(first.row.familyId);
+    expect(second.row.id).not.toBe(first.row.id);
+  });
+
+  it("should revoke the whole family and log when a rotated token is reused", async () => {
+    const { refreshToken, row } = await issue();
+    prisma.refreshToken.findUnique.mockResolvedValue({ ...row, isActive: false, rotatedAt: new Date() });
+
+    await expect(service.verifyRefreshToken(refreshToken)).rejects.toThrow("Invalid or expired refresh token");
+
+    expect(prisma.refreshToken.updateMany).toHaveBeenCalledWith({
+      where: { familyId: row.familyId },
+      data: { isActive: false },
+    });
+    expect(sessionService.revokeSession).toHaveBeenCalledWith("user-1", "session-1");
+    expect(prisma.systemLog.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ level: "warn", message: "security:refresh_token_reuse", tenantId: "tenant-1" }),
+    });
+  });
+
+  it("should reject a token whose hash does not match without revoking anything", async () => {
+    const { refreshToken, row } = await issue();
+    prisma.refreshToken.findUnique.mockResolvedValue({ ...row, tokenHash: "other" });
+
+    await expect(service.verifyRefreshToken(refreshToken)).rejects.toThrow();
+    expect(prisma.refreshToken.updateMany).not.toHaveBeenCalled();
+  });
+});
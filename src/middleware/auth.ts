@@ -1,8 +1,14 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
 import bcrypt from 'bcrypt';
+import crypto from 'crypto';
 import { prisma } from '../config/database';
 import { AccountType } from '@prisma/client';
+import { sessionService } from '../services/sessionService';
+import { permissionService } from '../services/permissionService';
+import { apiKeyService } from '../services/apiKeyService';
+import { impersonationService, Impersonator } from '../services/impersonationService';
+import { Permission, PermissionAction, PermissionModule } from '../types';
 
 export interface AuthenticatedRequest extends Request {
   user?: {
@@ -11,8 +17,13 @@ export interface AuthenticatedRequest extends Request {
     tenantId: string;
     accountType: AccountType;
     name: string;
+    roleId?: string | null;
   };
   tenantId?: string;
+  sessionId?: string;
+  apiKeyId?: string; // set when authenticated with an API key instead of a login
+  impersonator?: Impersonator; // set when a support admin is acting as this user
+  permissions?: Permission[];
 }
 
 export interface JWTPayload {
@@ -21,7 +32,22 @@ export interface JWTPayload {
   accountType: AccountType;
   email: string;
   name: string;
+  sessionId?: string;
+  familyId?: string; // refresh tokens only
+  jti?: string; // refresh tokens only: refresh_tokens row id
+  impersonation?: { id: string; adminId: string; adminEmail: string; adminName: string; readOnly: boolean };
   type: 'access' | 'refresh';
+  exp?: number; // set by jsonwebtoken
+}
+
+// Login challenge between the password step and the second factor
+export interface ChallengePayload {
+  userId: string;
+  tenantId: string;
+  purpose: 'verify' | 'setup';
+  type: 'challenge';
+  jti: string;
+  exp: number;
 }
 
 export class AuthService {
@@ -37,13 +63,15 @@ export class AuthService {
     this.refreshTokenExpiry = process.env.JWT_REFRESH_EXPIRY || '7d';
   }
 
-  async generateTokens(user: any) {
+  // familyId is carried over on rotation; a fresh login starts a new family
+  async generateTokens(user: any, sessionId?: string, familyId: string = crypto.randomUUID()) {
     const payload: Omit<JWTPayload, 'type'> = {
       userId: user.id,
       tenantId: user.tenantId,
       accountType: user.accountType,
       email: user.email,
       name: user.name,
+      sessionId,
     };
 
     // Generate access token
@@ -53,21 +81,24 @@ export class AuthService {
       { expiresIn: this.accessTokenExpiry }
     );
 
-    // Generate refresh token
+    // Generate refresh token; jti points straight at its row
+    const tokenId = crypto.randomUUID();
     const refreshToken = jwt.sign(
-      { ...payload, type: 'refresh' },
+      { ...payload, familyId, jti: tokenId, type: 'refresh' },
       this.refreshTokenSecret,
       { expiresIn: this.refreshTokenExpiry }
     );
 
     // Store refresh token hash in database
-    const tokenHash = await bcrypt.hash(refreshToken, 10);
     const expiresAt = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000); // 7 days
 
     await prisma.refreshToken.create({
       data: {
-        tokenHash,
+        id: tokenId,
+        tokenHash: this.hashRefreshToken(refreshToken),
         userId: user.id,
+        sessionId,
+        familyId,
         expiresAt,
         isActive: true,
       },
@@ -76,6 +107,11 @@ export class AuthService {
     return { accessToken, refreshToken };
   }
 
+  // Refresh tokens are signed high-entropy JWTs, so a fast digest is enough
+  hashRefreshToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
   async verifyAccessToken(token: string): Promise<JWTPayload> {
     try {
       const decoded = jwt.verify(token, this.accessTokenSecret) as JWTPayload;
@@ -98,46 +134,137 @@ export class AuthService {
         throw new Error('Invalid token type');
       }
 
-      // Verify token exists in database
-      const storedTokens = await prisma.refreshToken.findMany({
-        where: {
-          userId: decoded.userId,
-          isActive: true,
-          expiresAt: { gt: new Date() },
-        },
+      if (!decoded.jti) {
+        throw new Error('Refresh token not found or invalid');
+      }
+
+      const stored = await prisma.refreshToken.findUnique({
+        where: { id: decoded.jti },
       });
 
-      // Check if any stored token matches
-      let validToken = null;
-      for (const stored of storedTokens) {
-        const isValid = await bcrypt.compare(token, stored.tokenHash);
-        if (isValid) {
-          validToken = stored;
-          break;
-        }
+      if (!stored || stored.userId !== decoded.userId || stored.tokenHash !== this.hashRefreshToken(token)) {
+        throw new Error('Refresh token not found or invalid');
       }
 
-      if (!validToken) {
+      // Already exchanged: someone replayed a stolen token, or the thief already used it
+      if (stored.rotatedAt) {
+        await this.revokeTokenFamily(stored, decoded.tenantId);
+        throw new Error('Refresh token reuse detected');
+      }
+
+      if (!stored.isActive || stored.expiresAt <= new Date()) {
         throw new Error('Refresh token not found or invalid');
       }
 
-      // Invalidate used refresh token (rotation)
-      await prisma.refreshToken.update({
-        where: { id: validToken.id },
-        data: { isActive: false },
+      if (decoded.sessionId && !(await sessionService.validateSession(decoded.sessionId, decoded.tenantId))) {
+        throw new Error('Session expired or revoked');
+      }
+
+      // Retire the token (rotation); losing this race means it was just used concurrently
+      const rotated = await prisma.refreshToken.updateMany({
+        where: { id: stored.id, isActive: true, rotatedAt: null },
+        data: { isActive: false, rotatedAt: new Date() },
       });
 
+      if (rotated.count === 0) {
+        await this.revokeTokenFamily(stored, decoded.tenantId);
+        throw new Error('Refresh token reuse detected');
+      }
+
       return decoded;
     } catch (error) {
       throw new Error('Invalid or expired refresh token');
     }
   }
 
+  // Support access: an access token only (no refresh), valid until the impersonation expires
+  generateImpersonationToken(
+    user: any,
+    impersonation: { id: string; expiresAt: Date },
+    admin: { id: string; email: string; name: string; role: string }
+  ): string {
+    const payload: Omit<JWTPayload, 'type'> = {
+      userId: user.id,
+      tenantId: user.tenantId,
+      accountType: user.accountType,
+      email: user.email,
+      name: user.name,
+      impersonation: {
+        id: impersonation.id,
+        adminId: admin.id,
+        adminEmail: admin.email,
+        adminName: admin.name,
+        // The support role is read-only in the admin panel and stays read-only here
+        readOnly: admin.role === 'support',
+      },
+    };
+
+    return jwt.sign(
+      { ...payload, type: 'access' },
+      this.accessTokenSecret,
+      { expiresIn: Math.max(1, Math.floor((impersonation.expiresAt.getTime() - Date.now()) / 1000)) }
+    );
+  }
+
+  // Short-lived token proving the password step succeeded; never accepted as an access token.
+  // Its id (jti) keys the count of wrong codes tried against it.
+  generateChallengeToken(user: { id: string; tenantId: string }, purpose: ChallengePayload['purpose']): string {
+    return jwt.sign(
+      { userId: user.id, tenantId: user.tenantId, purpose, type: 'challenge' },
+      this.accessTokenSecret,
+      { expiresIn: '5m', jwtid: crypto.randomUUID() }
+    );
+  }
+
+  verifyChallengeToken(token: string): ChallengePayload {
+    try {
+      // Access tokens share the secret, so the type is checked before trusting the shape
+      const decoded = jwt.verify(token, this.accessTokenSecret) as ChallengePayload | JWTPayload;
+
+      if (decoded.type !== 'challenge' || !decoded.jti) {
+        throw new Error('Invalid token type');
+      }
+
+      return decoded;
+    } catch (error) {
+      throw new Error('Invalid or expired login challenge');
+    }
+  }
+
+  async revokeTokenFamily(
+    stored: { id: string; userId: string; familyId: string | null; sessionId: string | null },
+    tenantId: string
+  ) {
+    await prisma.refreshToken.updateMany({
+      where: stored.familyId ? { familyId: stored.familyId } : { id: stored.id },
+      data: { isActive: false },
+    });
+
+    if (stored.sessionId) {
+      await sessionService.revokeSession(stored.userId, stored.sessionId);
+    }
+
+    await prisma.systemLog.create({
+      data: {
+        tenantId,
+        level: 'warn',
+        message: 'security:refresh_token_reuse',
+        metadata: {
+          userId: stored.userId,
+          familyId: stored.familyId,
+          tokenId: stored.id,
+          sessionId: stored.sessionId,
+        },
+      },
+    });
+  }
+
   async revokeAllTokens(userId: string) {
     await prisma.refreshToken.updateMany({
       where: { userId },
       data: { isActive: false },
     });
+    await sessionService.revokeAllSessions(userId);
   }
 
   async hashPassword(password: string): Promise<string> {
@@ -149,14 +276,74 @@ export class AuthService {
   }
 }
 
+export interface AuthenticateOptions {
+  // Let users flagged with mustChangePassword through (change-password, profile, logout)
+  allowPasswordChangeRequired?: boolean;
+  // Account management (profile, sessions, 2FA, team, keys) needs a real login
+  rejectApiKeys?: boolean;
+  // Credentials and keys stay out of reach of support impersonation
+  rejectImpersonation?: boolean;
+}
+
+// API keys act as their creator, limited to the key's scopes
+const authenticateApiKey = async (
+  key: string,
+  options: AuthenticateOptions,
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  if (options.rejectApiKeys) {
+    return res.status(403).json({
+      error: 'API keys are not accepted on this route',
+      code: 'AUTH_008',
+    });
+  }
+
+  const apiKey = await apiKeyService.authenticate(key);
+
+  if (!apiKey) {
+    return res.status(401).json({
+      error: 'Invalid, expired or revoked API key',
+      code: 'AUTH_003',
+    });
+  }
+
+  const user = apiKey.creator;
+
+  if (!user.isActive || !user.tenant.isActive) {
+    return res.status(401).json({
+      error: 'User or tenant inactive',
+      code: 'AUTH_002',
+    });
+  }
+
+  req.user = {
+    id: user.id,
+    email: user.email,
+    tenantId: user.tenantId,
+    accountType: user.accountType,
+    name: user.name,
+    roleId: user.roleId,
+  };
+  req.tenantId = user.tenantId;
+  req.apiKeyId = apiKey.id;
+  req.permissions = apiKeyService.effectivePermissions(
+    (apiKey.scopes as unknown as Permission[] | null) || [],
+    await permissionService.getPermissions(user)
+  );
+
+  next();
+};
+
 // Authentication middleware
-export const authenticateToken = async (
+export const createAuthenticateToken = (options: AuthenticateOptions = {}) => async (
   req: AuthenticatedRequest,
   res: Response,
   next: NextFunction
 ) => {
   const authHeader = req.headers.authorization;
-  const token = authHeader?.split(' ')[1];
+  const token = req.get('X-API-Key') || authHeader?.split(' ')[1];
 
   if (!token) {
     return res.status(401).json({ 
@@ -166,6 +353,10 @@ export const authenticateToken = async (
   }
 
   try {
+    if (apiKeyService.isApiKey(token)) {
+      return await authenticateApiKey(token, options, req, res, next);
+    }
+
     const authService = new AuthService();
     const decoded = await authService.verifyAccessToken(token);
 
@@ -182,6 +373,37 @@ export const authenticateToken = async (
       });
     }
 
+    if (decoded.impersonation) {
+      if (!(await impersonationService.isActive(decoded.impersonation.id, user.tenantId))) {
+        return res.status(401).json({
+          error: 'Support access ended or expired',
+          code: 'AUTH_009',
+        });
+      }
+
+      if (options.rejectImpersonation || (decoded.impersonation.readOnly && req.method !== 'GET')) {
+        return res.status(403).json({
+          error: 'Not available during support access',
+          code: 'AUTH_010',
+        });
+      }
+    }
+
+    // Idle timeout and remote sign-out are enforced per session
+    if (decoded.sessionId && !(await sessionService.validateSession(decoded.sessionId, user.tenantId))) {
+      return res.status(401).json({
+        error: 'Session expired or revoked',
+        code: 'AUTH_006',
+      });
+    }
+
+    if (user.mustChangePassword && !options.allowPasswordChangeRequired && !decoded.impersonation) {
+      return res.status(403).json({
+        error: 'Password change required',
+        code: 'AUTH_005',
+      });
+    }
+
     // Add user info to request
     req.user = {
       id: user.id,
@@ -189,8 +411,31 @@ export const authenticateToken = async (
       tenantId: user.tenantId,
       accountType: user.accountType,
       name: user.name,
+      roleId: user.roleId,
     };
     req.tenantId = user.tenantId;
+    req.sessionId = decoded.sessionId;
+
+    if (decoded.impersonation) {
+      const impersonator: Impersonator = {
+        impersonationId: decoded.impersonation.id,
+        adminId: decoded.impersonation.adminId,
+        adminEmail: decoded.impersonation.adminEmail,
+        adminName: decoded.impersonation.adminName,
+        readOnly: decoded.impersonation.readOnly,
+        expiresAt: new Date(decoded.exp! * 1000),
+      };
+      req.impersonator = impersonator;
+
+      res.on('finish', () => {
+        impersonationService.logRequest(
+          impersonator,
+          user,
+          { method: req.method, path: req.originalUrl, statusCode: res.statusCode },
+          { ipAddress: req.ip, userAgent: req.get('User-Agent') }
+        );
+      });
+    }
 
     next();
   } catch (error) {
@@ -202,18 +447,65 @@ export const authenticateToken = async (
   }
 };
 
-// Authorization middleware for account types
-export const requireAccountType = (allowedTypes: AccountType[]) => {
+export const authenticateToken = createAuthenticateToken();
+export const authenticateSession = createAuthenticateToken({ rejectApiKeys: true });
+export const authenticateOwner = createAuthenticateToken({ rejectApiKeys: true, rejectImpersonation: true });
+export const authenticatePasswordChange = createAuthenticateToken({
+  allowPasswordChangeRequired: true,
+  rejectApiKeys: true,
+});
+export const authenticateCredentialChange = createAuthenticateToken({
+  allowPasswordChangeRequired: true,
+  rejectApiKeys: true,
+  rejectImpersonation: true,
+});
+
+// Resolves (once per request) the permissions of the caller's role
+export const getRequestPermissions = async (req: AuthenticatedRequest): Promise<Permission[]> => {
+  if (!req.permissions) {
+    req.permissions = req.user ? await permissionService.getPermissions(req.user) : [];
+  }
+
+  return req.permissions;
+};
+
+// Authorization middleware for role permissions
+export const requirePermission = (module: PermissionModule, action: PermissionAction) => {
+  return async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    try {
+      const permissions = await getRequestPermissions(req);
+
+      if (!permissionService.hasPermission(permissions, module, action)) {
+        return res.status(403).json({
+          error: 'Insufficient permissions',
+          required: `${module}:${action}`,
+          code: 'AUTH_004',
+        });
+      }
+
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+};
+
+// For actions tied to the account type itself rather than a module permission
+// (e.g. exporting every module at once), so custom roles cannot widen them
+export const requireAccountType = (...accountTypes: AccountType[]) => {
   return (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
     if (!req.user) {
       return res.status(401).json({ error: 'Authentication required' });
     }
 
-    if (!allowedTypes.includes(req.user.accountType)) {
+    if (!accountTypes.includes(req.user.accountType)) {
       return res.status(403).json({
         error: 'Insufficient permissions',
-        required: allowedTypes,
-        current: req.user.accountType,
+        required: accountTypes.join(' | '),
         code: 'AUTH_004',
       });
     }
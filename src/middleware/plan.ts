@@ -0,0 +1,43 @@
+import { Response, NextFunction } from 'express';
+import { AuthenticatedRequest } from './auth';
+import { PortalAuthenticatedRequest } from './portalAuth';
+import { PlanFeature } from '../config/plans';
+import { planService } from '../services/planService';
+import { UpgradeRequiredError } from '../types';
+
+// Body of every "upgrade required" response, so clients can handle them in one place
+export function upgradeRequiredBody(error: UpgradeRequiredError) {
+  return {
+    error: 'Upgrade required',
+    details: error.message,
+    code: error.code,
+    feature: error.feature,
+    plan: error.plan,
+    requiredPlan: error.requiredPlan,
+  };
+}
+
+// Blocks the route unless the tenant's plan includes the feature. Works behind both
+// authenticateToken (req.tenantId) and authenticatePortal (req.portal.tenantId).
+export const requirePlanFeature = (feature: PlanFeature) => {
+  return async (req: AuthenticatedRequest & PortalAuthenticatedRequest, res: Response, next: NextFunction) => {
+    const tenantId = req.tenantId || req.portal?.tenantId;
+    if (!tenantId) {
+      return res.status(403).json({
+        error: 'Tenant not identified',
+        code: 'TENANT_001',
+      });
+    }
+
+    try {
+      await planService.assertFeature(tenantId, feature);
+      next();
+    } catch (error) {
+      if (error instanceof UpgradeRequiredError) {
+        return res.status(error.statusCode).json(upgradeRequiredBody(error));
+      }
+      console.error('Plan check error:', error);
+      res.status(500).json({ error: 'Failed to check plan' });
+    }
+  };
+};
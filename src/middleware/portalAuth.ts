@@ -0,0 +1,119 @@
+import { Request, Response, NextFunction } from 'express';
+import jwt from 'jsonwebtoken';
+import bcrypt from 'bcrypt';
+import { prisma } from '../config/database';
+
+export interface PortalAuthenticatedRequest extends Request {
+  portal?: {
+    accountId: string;
+    tenantId: string;
+    clientId: string;
+    email: string;
+    name: string;
+  };
+}
+
+export interface PortalJWTPayload {
+  accountId: string;
+  tenantId: string;
+  clientId: string;
+  scope: 'portal';
+  type: 'access';
+}
+
+export class PortalAuthService {
+  private accessTokenSecret: string;
+  private accessTokenExpiry: jwt.SignOptions['expiresIn'];
+
+  constructor() {
+    // Own secret: a portal token must never pass authenticateToken, and vice versa
+    this.accessTokenSecret = process.env.JWT_PORTAL_SECRET || 'portal-access-secret';
+    this.accessTokenExpiry = (process.env.JWT_PORTAL_EXPIRY || '8h') as jwt.SignOptions['expiresIn'];
+  }
+
+  generateToken(account: any): string {
+    const payload: PortalJWTPayload = {
+      accountId: account.id,
+      tenantId: account.tenantId,
+      clientId: account.clientId,
+      scope: 'portal',
+      type: 'access',
+    };
+
+    return jwt.sign(payload, this.accessTokenSecret, { expiresIn: this.accessTokenExpiry });
+  }
+
+  async verifyToken(token: string): Promise<PortalJWTPayload> {
+    try {
+      const decoded = jwt.verify(token, this.accessTokenSecret) as PortalJWTPayload;
+
+      if (decoded.scope !== 'portal' || decoded.type !== 'access') {
+        throw new Error('Invalid token type');
+      }
+
+      return decoded;
+    } catch (error) {
+      throw new Error('Invalid or expired portal token');
+    }
+  }
+
+  async hashPassword(password: string): Promise<string> {
+    return await bcrypt.hash(password, 12);
+  }
+
+  async verifyPassword(password: string, hash: string): Promise<boolean> {
+    return await bcrypt.compare(password, hash);
+  }
+}
+
+// Portal authentication middleware
+export const authenticatePortal = async (
+  req: PortalAuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  const authHeader = req.headers.authorization;
+  const token = authHeader?.split(' ')[1];
+
+  if (!token) {
+    return res.status(401).json({
+      error: 'Portal access token required',
+      code: 'PORTAL_001',
+    });
+  }
+
+  try {
+    const decoded = await portalAuthService.verifyToken(token);
+
+    // Access ends as soon as the firm disables the account or the tenant
+    const account = await prisma.portalAccount.findUnique({
+      where: { id: decoded.accountId },
+      include: { tenant: true },
+    });
+
+    if (!account || !account.isActive || !account.tenant.isActive) {
+      return res.status(401).json({
+        error: 'Portal account inactive',
+        code: 'PORTAL_002',
+      });
+    }
+
+    req.portal = {
+      accountId: account.id,
+      tenantId: account.tenantId,
+      clientId: account.clientId,
+      email: account.email,
+      name: account.name,
+    };
+
+    next();
+  } catch (error) {
+    return res.status(403).json({
+      error: 'Invalid portal token',
+      code: 'PORTAL_003',
+      details: error.message,
+    });
+  }
+};
+
+export const portalAuthService = new PortalAuthService();
@@ -1,19 +1,57 @@
-import { Router } from 'express';
+import express, { Router } from 'express';
 import { adminController } from '../controllers/adminController';
+import { adminAuthController } from '../controllers/adminAuthController';
+import { authenticateAdmin, requireAdminRole } from '../middleware/adminAuth';
 
 const router = Router();
 
+// Tenant export archives uploaded for restore
+const archiveUpload = express.raw({
+  type: ['application/zip', 'application/octet-stream'],
+  limit: process.env.IMPORT_MAX_SIZE || '200mb',
+});
+
+// Admin authentication (public)
+router.post('/auth/login', adminAuthController.login);
+router.post('/auth/refresh', adminAuthController.refresh);
+router.post('/auth/logout', adminAuthController.logout);
+
+// Every route below requires an authenticated admin
+router.use(authenticateAdmin);
+
+router.get('/auth/me', adminAuthController.getProfile);
+
 // Registration Keys
-router.post('/keys', adminController.createRegistrationKey);
+router.post('/keys', requireAdminRole(['super_admin', 'admin']), adminController.createRegistrationKey);
 router.get('/keys', adminController.getRegistrationKeys);
-router.patch('/keys/:id/revoke', adminController.revokeRegistrationKey);
+router.patch('/keys/:id/revoke', requireAdminRole(['super_admin', 'admin']), adminController.revokeRegistrationKey);
 
 // Tenant Management
 router.get('/tenants', adminController.getTenants);
-router.post('/tenants', adminController.createTenant);
-router.delete('/tenants/:id', adminController.deleteTenant);
+router.post('/tenants', requireAdminRole(['super_admin', 'admin']), adminController.createTenant);
+// Deleting only schedules the purge (TENANT_DELETION_GRACE_DAYS); it can be cancelled until then
+router.delete('/tenants/:id', requireAdminRole(['super_admin']), adminController.deleteTenant);
+router.post('/tenants/:id/cancel-deletion', requireAdminRole(['super_admin']), adminController.cancelTenantDeletion);
+router.get('/tenant-deletions', adminController.getTenantDeletions);
+router.get('/tenants/:id/users', adminController.getTenantUsers);
+
+// Plans: changing one resets seats and storage to the plan's unless overridden
+router.get('/plans', adminController.getPlans);
+router.get('/tenants/:id/plan', adminController.getTenantPlan);
+router.patch('/tenants/:id/plan', requireAdminRole(['super_admin', 'admin']), adminController.changeTenantPlan);
+router.post('/tenants/:id/impersonate', adminController.impersonate);
+router.get('/tenants/:id/exports', adminController.getTenantExports);
+router.post('/tenants/:id/exports', requireAdminRole(['super_admin', 'admin']), adminController.exportTenant);
+
+// Restoring overwrites tenant data, so it is super_admin only (?dryRun=true only reports)
+router.post('/tenants/import', requireAdminRole(['super_admin']), archiveUpload, adminController.importNewTenant);
+router.post('/tenants/:id/import', requireAdminRole(['super_admin']), archiveUpload, adminController.importTenant);
+
+// Tenant schema migrations (running them is super_admin only; the CLI does the same)
+router.get('/tenant-migrations', adminController.getTenantMigrations);
+router.post('/tenant-migrations/run', requireAdminRole(['super_admin']), adminController.runTenantMigrations);
 
 // Global Metrics
 router.get('/metrics', adminController.getGlobalMetrics);
 
-export default router;
\ No newline at end of file
+export default router;
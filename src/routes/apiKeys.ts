@@ -0,0 +1,15 @@
+import { Router } from 'express';
+import { apiKeysController } from '../controllers/apiKeysController';
+import { authenticateOwner, tenantMiddleware } from '../middleware/auth';
+
+const router = Router();
+
+// Keys are managed from a logged-in session only; neither a key nor support access can mint or revoke keys
+router.use(authenticateOwner);
+router.use(tenantMiddleware);
+
+router.get('/', apiKeysController.list);
+router.post('/', apiKeysController.create);
+router.delete('/:id', apiKeysController.revoke);
+
+export default router;
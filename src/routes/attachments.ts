@@ -0,0 +1,21 @@
+import express, { Router } from 'express';
+import { attachmentsController } from '../controllers/attachmentsController';
+import { MAX_ATTACHMENT_SIZE } from '../services/attachmentService';
+import { authenticateToken, tenantMiddleware } from '../middleware/auth';
+
+const router = Router();
+
+// The file is the whole body; type and size are checked again by the service
+const fileUpload = express.raw({ type: () => true, limit: MAX_ATTACHMENT_SIZE });
+
+// Permissions follow the module of the entity each attachment belongs to (checked in the controller)
+router.use(authenticateToken);
+router.use(tenantMiddleware);
+
+router.get('/', attachmentsController.listAttachments);
+router.post('/', fileUpload, attachmentsController.uploadAttachment);
+router.get('/usage', attachmentsController.getUsage);
+router.get('/:id/download', attachmentsController.downloadAttachment);
+router.delete('/:id', attachmentsController.deleteAttachment);
+
+export default router;
@@ -1,17 +1,44 @@
 import { Router } from 'express';
 import { authController } from '../controllers/authController';
-import { authenticateToken } from '../middleware/auth';
+import { twoFactorController } from '../controllers/twoFactorController';
+import { sessionsController } from '../controllers/sessionsController';
+import {
+  authenticateSession,
+  authenticateOwner,
+  authenticatePasswordChange,
+  authenticateCredentialChange,
+} from '../middleware/auth';
 
 const router = Router();
 
 // Public routes
 router.post('/register', authController.register);
 router.post('/login', authController.login);
+router.post('/login/2fa', authController.verifyTwoFactor);
+router.post('/login/2fa/setup', authController.setupTwoFactorLogin);
+router.post('/login/sso', authController.ssoStart);
+router.post('/login/sso/callback', authController.ssoCallback);
 router.post('/refresh', authController.refresh);
+router.post('/forgot', authController.forgotPassword);
+router.post('/reset', authController.resetPassword);
 router.post('/logout', authController.logout);
+router.get('/invites/:token', authController.getInvite);
+router.post('/invites/accept', authController.acceptInvite);
 
-// Protected routes
-router.get('/me', authenticateToken, authController.getProfile);
-router.put('/me', authenticateToken, authController.updateProfile);
+// Protected routes (credential changes are refused during support access)
+router.get('/me', authenticatePasswordChange, authController.getProfile);
+router.put('/me', authenticateCredentialChange, authController.updateProfile);
+router.post('/password', authenticateCredentialChange, authController.changePassword);
+
+// Active sessions
+router.get('/sessions', authenticateSession, sessionsController.list);
+router.delete('/sessions', authenticateOwner, sessionsController.revokeAll);
+router.delete('/sessions/:id', authenticateOwner, sessionsController.revoke);
+
+// Two-factor authentication management
+router.post('/2fa/setup', authenticateOwner, twoFactorController.setup);
+router.post('/2fa/enable', authenticateOwner, twoFactorController.enable);
+router.post('/2fa/disable', authenticateOwner, twoFactorController.disable);
+router.post('/2fa/recovery-codes', authenticateOwner, twoFactorController.regenerateRecoveryCodes);
 
 export default router;
\ No newline at end of file
@@ -1,6 +1,9 @@
 import { Router } from 'express';
 import { clientsController } from '../controllers/clientsController';
-import { authenticateToken, tenantMiddleware } from '../middleware/auth';
+import { recordHistoryController } from '../controllers/recordHistoryController';
+import { portalAccessController } from '../controllers/portalAccessController';
+import { authenticateToken, tenantMiddleware, requirePermission } from '../middleware/auth';
+import { requirePlanFeature } from '../middleware/plan';
 
 const router = Router();
 
@@ -8,10 +11,24 @@ const router = Router();
 router.use(authenticateToken);
 router.use(tenantMiddleware);
 
-router.get('/', clientsController.getClients);
-router.get('/:id', clientsController.getClient);
-router.post('/', clientsController.createClient);
-router.put('/:id', clientsController.updateClient);
-router.delete('/:id', clientsController.deleteClient);
+router.get('/', requirePermission('clients', 'read'), clientsController.getClients);
+router.get('/:id', requirePermission('clients', 'read'), clientsController.getClient);
+router.post('/', requirePermission('clients', 'write'), clientsController.createClient);
+router.put('/:id', requirePermission('clients', 'write'), clientsController.updateClient);
+router.delete('/:id', requirePermission('clients', 'delete'), clientsController.deleteClient);
+
+// Change history from the audit trail; restoring re-applies an earlier version
+router.get('/:id/history', requirePermission('clients', 'read'), recordHistoryController.getHistory('clients'));
+router.post('/:id/history/:entryId/restore', requirePermission('clients', 'write'), recordHistoryController.restoreVersion('clients'));
+
+// Client portal access and shared records. Reading and revoking stay open after a
+// downgrade; granting access and sharing need the plan feature.
+const clientPortal = requirePlanFeature('client_portal');
+
+router.get('/:id/portal', requirePermission('clients', 'read'), portalAccessController.getAccess);
+router.put('/:id/portal', requirePermission('clients', 'write'), clientPortal, portalAccessController.invite);
+router.delete('/:id/portal', requirePermission('clients', 'write'), portalAccessController.disable);
+router.post('/:id/portal/shares', requirePermission('clients', 'write'), clientPortal, requirePlanFeature('publications'), portalAccessController.share);
+router.delete('/:id/portal/shares/:shareId', requirePermission('clients', 'write'), portalAccessController.unshare);
 
 export default router;
\ No newline at end of file
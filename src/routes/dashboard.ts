@@ -1,12 +1,13 @@
 import { Router } from 'express';
 import { dashboardController } from '../controllers/dashboardController';
-import { authenticateToken, tenantMiddleware } from '../middleware/auth';
+import { authenticateToken, tenantMiddleware, requirePermission } from '../middleware/auth';
 
 const router = Router();
 
 // All dashboard routes require authentication and tenant context
 router.use(authenticateToken);
 router.use(tenantMiddleware);
+router.use(requirePermission('dashboard', 'read'));
 
 router.get('/metrics', dashboardController.getMetrics);
 router.get('/financeiro', dashboardController.getFinancialData);
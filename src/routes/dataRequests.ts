@@ -0,0 +1,20 @@
+import { Router } from 'express';
+import { dataRequestsController } from '../controllers/dataRequestsController';
+import { authenticateOwner, tenantMiddleware, requireAccountType } from '../middleware/auth';
+
+const router = Router();
+
+// Data-subject requests touch every module and anonymisation cannot be undone:
+// Conta Gerencial only, from a real login (no API keys or support access)
+router.use(authenticateOwner);
+router.use(tenantMiddleware);
+router.use(requireAccountType('GERENCIAL'));
+
+router.get('/', dataRequestsController.listRequests);
+router.post('/', dataRequestsController.createRequest);
+router.get('/:id', dataRequestsController.getRequest);
+router.post('/:id/report', dataRequestsController.generateReport);
+router.post('/:id/anonymize', dataRequestsController.anonymize);
+router.post('/:id/reject', dataRequestsController.rejectRequest);
+
+export default router;
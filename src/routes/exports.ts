@@ -0,0 +1,20 @@
+import { Router } from 'express';
+import { exportsController } from '../controllers/exportsController';
+import { authenticateOwner, tenantMiddleware, requireAccountType } from '../middleware/auth';
+
+const router = Router();
+
+// Signed link handed out by GET /:id; opened directly by the browser, so no bearer token
+router.get('/download/:token', exportsController.download);
+
+// A full export holds every module, so it is Conta Gerencial only, from a real login
+// (support admins export from the admin panel instead)
+router.use(authenticateOwner);
+router.use(tenantMiddleware);
+router.use(requireAccountType('GERENCIAL'));
+
+router.get('/', exportsController.listExports);
+router.post('/', exportsController.requestExport);
+router.get('/:id', exportsController.getExport);
+
+export default router;
@@ -1,6 +1,7 @@
 import { Router } from 'express';
 import { invoicesController } from '../controllers/invoicesController';
-import { authenticateToken, tenantMiddleware, requireAccountType } from '../middleware/auth';
+import { authenticateToken, tenantMiddleware, requirePermission } from '../middleware/auth';
+import { requirePlanFeature } from '../middleware/plan';
 
 const router = Router();
 
@@ -8,14 +9,12 @@ const router = Router();
 router.use(authenticateToken);
 router.use(tenantMiddleware);
 
-// Billing data only for COMPOSTA and GERENCIAL accounts
-router.use(requireAccountType(['COMPOSTA', 'GERENCIAL']));
-
-router.get('/', invoicesController.getInvoices);
-router.get('/:id', invoicesController.getInvoice);
-router.post('/', invoicesController.createInvoice);
-router.put('/:id', invoicesController.updateInvoice);
-router.delete('/:id', invoicesController.deleteInvoice);
-router.get('/stats/overview', invoicesController.getInvoiceStats);
+router.get('/', requirePermission('invoices', 'read'), invoicesController.getInvoices);
+router.get('/:id', requirePermission('invoices', 'read'), invoicesController.getInvoice);
+router.post('/', requirePermission('invoices', 'write'), invoicesController.createInvoice);
+router.put('/:id', requirePermission('invoices', 'write'), invoicesController.updateInvoice);
+router.delete('/:id', requirePermission('invoices', 'delete'), invoicesController.deleteInvoice);
+router.post('/:id/reminders', requirePermission('invoices', 'write'), requirePlanFeature('receivables_automation'), invoicesController.sendReminder);
+router.get('/stats/overview', requirePermission('invoices', 'read'), invoicesController.getInvoiceStats);
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,22 @@
+import { Router } from 'express';
+import { portalController } from '../controllers/portalController';
+import { authenticatePortal } from '../middleware/portalAuth';
+import { requirePlanFeature } from '../middleware/plan';
+
+const router = Router();
+
+// Public routes
+router.post('/login', portalController.login);
+router.post('/activate', portalController.activate);
+
+// Portal routes only ever see the authenticated client's own records, and only while
+// the tenant's plan includes the client portal
+const portalAccess = [authenticatePortal, requirePlanFeature('client_portal')];
+
+router.get('/me', portalAccess, portalController.getProfile);
+router.get('/invoices', portalAccess, portalController.getInvoices);
+router.get('/invoices/:id', portalAccess, portalController.getInvoice);
+router.get('/projects', portalAccess, portalController.getProjects);
+router.get('/publications', portalAccess, requirePlanFeature('publications'), portalController.getPublications);
+
+export default router;
@@ -1,6 +1,7 @@
 import { Router } from 'express';
 import { projectsController } from '../controllers/projectsController';
-import { authenticateToken, tenantMiddleware } from '../middleware/auth';
+import { recordHistoryController } from '../controllers/recordHistoryController';
+import { authenticateToken, tenantMiddleware, requirePermission } from '../middleware/auth';
 
 const router = Router();
 
@@ -8,10 +9,14 @@ const router = Router();
 router.use(authenticateToken);
 router.use(tenantMiddleware);
 
-router.get('/', projectsController.getProjects);
-router.get('/:id', projectsController.getProject);
-router.post('/', projectsController.createProject);
-router.put('/:id', projectsController.updateProject);
-router.delete('/:id', projectsController.deleteProject);
+router.get('/', requirePermission('projects', 'read'), projectsController.getProjects);
+router.get('/:id', requirePermission('projects', 'read'), projectsController.getProject);
+router.post('/', requirePermission('projects', 'write'), projectsController.createProject);
+router.put('/:id', requirePermission('projects', 'write'), projectsController.updateProject);
+router.delete('/:id', requirePermission('projects', 'delete'), projectsController.deleteProject);
+
+// Change history from the audit trail; restoring re-applies an earlier version
+router.get('/:id/history', requirePermission('projects', 'read'), recordHistoryController.getHistory('projects'));
+router.post('/:id/history/:entryId/restore', requirePermission('projects', 'write'), recordHistoryController.restoreVersion('projects'));
 
 export default router;
\ No newline at end of file
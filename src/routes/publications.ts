@@ -0,0 +1,16 @@
+import { Router } from 'express';
+import { publicationsController } from '../controllers/publicationsController';
+import { authenticateToken, tenantMiddleware } from '../middleware/auth';
+import { requirePlanFeature } from '../middleware/plan';
+
+const router = Router();
+
+// Publications are per user (the lawyer whose OAB number is monitored) and part of the plan
+router.use(authenticateToken);
+router.use(tenantMiddleware);
+router.use(requirePlanFeature('publications'));
+
+router.get('/', publicationsController.getPublications);
+router.post('/', publicationsController.createPublication);
+
+export default router;
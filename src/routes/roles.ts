@@ -0,0 +1,17 @@
+import { Router } from 'express';
+import { rolesController } from '../controllers/rolesController';
+import { authenticateSession, tenantMiddleware, requirePermission } from '../middleware/auth';
+
+const router = Router();
+
+// Role management requires users:admin (Conta Gerencial by default)
+router.use(authenticateSession);
+router.use(tenantMiddleware);
+router.use(requirePermission('users', 'admin'));
+
+router.get('/', rolesController.getRoles);
+router.post('/', rolesController.createRole);
+router.put('/:id', rolesController.updateRole);
+router.delete('/:id', rolesController.deleteRole);
+
+export default router;
@@ -0,0 +1,25 @@
+import { Router } from 'express';
+import { settingsController } from '../controllers/settingsController';
+import { authenticateToken, authenticateOwner, tenantMiddleware, requirePermission } from '../middleware/auth';
+
+const router = Router();
+
+// All settings routes require authentication and tenant context. Changes to how people sign in
+// (SSO, password and 2FA rules) need the user's own login: no API keys, no support access.
+const access = [authenticateToken, tenantMiddleware];
+const ownerAccess = [authenticateOwner, tenantMiddleware];
+
+router.get('/security', access, settingsController.getSecuritySettings);
+
+// Every user reads the policy (2FA enrolment, password rules); changing it is settings:admin
+router.put('/security', ownerAccess, requirePermission('settings', 'admin'), settingsController.updateSecuritySettings);
+
+// The SSO configuration holds the client secret, so even reading it is settings:admin
+router.get('/sso', access, requirePermission('settings', 'admin'), settingsController.getSsoSettings);
+router.put('/sso', ownerAccess, requirePermission('settings', 'admin'), settingsController.updateSsoSettings);
+router.post('/sso/domains/:domain/verify', ownerAccess, requirePermission('settings', 'admin'), settingsController.verifySsoDomain);
+
+// Plan, features and usage against its limits; every user sees what the tenant may use
+router.get('/plan', access, settingsController.getPlan);
+
+export default router;
@@ -1,6 +1,7 @@
 import { Router } from 'express';
 import { tasksController } from '../controllers/tasksController';
-import { authenticateToken, tenantMiddleware } from '../middleware/auth';
+import { recordHistoryController } from '../controllers/recordHistoryController';
+import { authenticateToken, tenantMiddleware, requirePermission } from '../middleware/auth';
 
 const router = Router();
 
@@ -8,11 +9,16 @@ const router = Router();
 router.use(authenticateToken);
 router.use(tenantMiddleware);
 
-router.get('/', tasksController.getTasks);
-router.get('/:id', tasksController.getTask);
-router.post('/', tasksController.createTask);
-router.put('/:id', tasksController.updateTask);
-router.delete('/:id', tasksController.deleteTask);
-router.get('/stats/overview', tasksController.getTaskStats);
+router.get('/', requirePermission('tasks', 'read'), tasksController.getTasks);
+router.get('/:id', requirePermission('tasks', 'read'), tasksController.getTask);
+router.post('/', requirePermission('tasks', 'write'), tasksController.createTask);
+router.put('/:id', requirePermission('tasks', 'write'), tasksController.updateTask);
+router.delete('/:id', requirePermission('tasks', 'delete'), tasksController.deleteTask);
+
+// Change history from the audit trail; restoring re-applies an earlier version
+router.get('/:id/history', requirePermission('tasks', 'read'), recordHistoryController.getHistory('tasks'));
+router.post('/:id/history/:entryId/restore', requirePermission('tasks', 'write'), recordHistoryController.restoreVersion('tasks'));
+
+router.get('/stats/overview', requirePermission('tasks', 'read'), tasksController.getTaskStats);
 
 export default router;
\ No newline at end of file
@@ -1,6 +1,7 @@
 import { Router } from 'express';
 import { transactionsController } from '../controllers/transactionsController';
-import { authenticateToken, tenantMiddleware, requireAccountType } from '../middleware/auth';
+import { recordHistoryController } from '../controllers/recordHistoryController';
+import { authenticateToken, tenantMiddleware, requirePermission } from '../middleware/auth';
 
 const router = Router();
 
@@ -8,13 +9,14 @@ const router = Router();
 router.use(authenticateToken);
 router.use(tenantMiddleware);
 
-// Financial data only for COMPOSTA and GERENCIAL accounts
-router.use(requireAccountType(['COMPOSTA', 'GERENCIAL']));
+router.get('/', requirePermission('transactions', 'read'), transactionsController.getTransactions);
+router.get('/:id', requirePermission('transactions', 'read'), transactionsController.getTransaction);
+router.post('/', requirePermission('transactions', 'write'), transactionsController.createTransaction);
+router.put('/:id', requirePermission('transactions', 'write'), transactionsController.updateTransaction);
+router.delete('/:id', requirePermission('transactions', 'delete'), transactionsController.deleteTransaction);
 
-router.get('/', transactionsController.getTransactions);
-router.get('/:id', transactionsController.getTransaction);
-router.post('/', transactionsController.createTransaction);
-router.put('/:id', transactionsController.updateTransaction);
-router.delete('/:id', transactionsController.deleteTransaction);
+// Change history from the audit trail; restoring re-applies an earlier version
+router.get('/:id/history', requirePermission('transactions', 'read'), recordHistoryController.getHistory('transactions'));
+router.post('/:id/history/:entryId/restore', requirePermission('transactions', 'write'), recordHistoryController.restoreVersion('transactions'));
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,15 @@
+import { Router } from 'express';
+import { trashController } from '../controllers/trashController';
+import { authenticateToken, tenantMiddleware } from '../middleware/auth';
+
+const router = Router();
+
+// Permissions follow the module of each item's type (checked in the controller)
+router.use(authenticateToken);
+router.use(tenantMiddleware);
+
+router.get('/', trashController.listTrash);
+router.post('/:type/:id/restore', trashController.restoreItem);
+router.delete('/:type/:id', trashController.purgeItem);
+
+export default router;
@@ -0,0 +1,22 @@
+import { Router } from 'express';
+import { usersController } from '../controllers/usersController';
+import { authenticateSession, tenantMiddleware, requirePermission } from '../middleware/auth';
+
+const router = Router();
+
+// Team management requires users:admin (Conta Gerencial by default)
+router.use(authenticateSession);
+router.use(tenantMiddleware);
+router.use(requirePermission('users', 'admin'));
+
+router.get('/', usersController.getUsers);
+router.get('/invites', usersController.getInvites);
+router.post('/invites', usersController.createInvite);
+router.delete('/invites/:inviteId', usersController.revokeInvite);
+router.put('/:id/status', usersController.setStatus);
+router.put('/:id/role', usersController.assignRole);
+router.get('/:id/sessions', usersController.getUserSessions);
+router.delete('/:id/sessions', usersController.revokeUserSessions);
+router.post('/:id/unlock', usersController.unlockUser);
+
+export default router;
@@ -1,6 +1,10 @@
 import 'dotenv/config';
 import { createApp } from './app';
 import { prisma } from './config/database';
+import { closePgPool } from './config/pgPool';
+import { tenantExportService } from './services/tenantExportService';
+import { tenantService } from './services/tenantService';
+import { trashService } from './services/trashService';
 
 const PORT = process.env.PORT || 4000;
 
@@ -21,15 +25,29 @@ async function startServer() {
       console.log(`📚 Environment: ${process.env.NODE_ENV || 'development'}`);
     });
 
+    // Exports interrupted by a restart start over; archives past retention, tenants past
+    // their deletion grace period and trash past its retention are removed hourly
+    const runScheduledMaintenance = () => {
+      tenantExportService.purgeExpired().catch((error) => console.error('❌ Export cleanup failed:', error));
+      tenantService.purgeDueTenants().catch((error) => console.error('❌ Tenant purge failed:', error));
+      trashService.purgeExpired().catch((error) => console.error('❌ Trash purge failed:', error));
+    };
+    tenantExportService.resumeInterrupted().catch((error) => console.error('❌ Export resume failed:', error));
+    runScheduledMaintenance();
+    const scheduledMaintenance = setInterval(runScheduledMaintenance, 60 * 60 * 1000);
+    scheduledMaintenance.unref();
+
     // Graceful shutdown
     const gracefulShutdown = async (signal: string) => {
       console.log(`\n🛑 Received ${signal}, shutting down gracefully...`);
+      clearInterval(scheduledMaintenance);
       
       server.close(async () => {
         console.log('📡 HTTP server closed');
         
         try {
           await prisma.$disconnect();
+          await closePgPool();
           console.log('🗄️ Database disconnected');
         } catch (error) {
           console.error('❌ Error disconnecting database:', error);
@@ -0,0 +1,35 @@
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("../config/database", () => ({ prisma: {} }));
+
+import { ApiKeyService } from "./apiKeyService";
+import { SYSTEM_ROLES } from "./permissionService";
+
+const service = new ApiKeyService();
+
+describe("ApiKeyService", () => {
+  it("should generate prefixed keys that are told apart from JWTs", () => {
+    const key = service.generateKey();
+
+    expect(service.isApiKey(key)).toBe(true);
+    expect(service.isApiKey("eyJhbGciOiJIUzI1NiJ9.e30.abc")).toBe(false);
+    expect(service.generateKey()).not.toBe(key);
+    expect(service.hashKey(key)).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it("should fall back to the creator's permissions when no scopes are set", () => {
+    const creator = SYSTEM_ROLES.COMPOSTA.permissions;
+
+    expect(service.effectivePermissions([], creator)).toBe(creator);
+  });
+
+  it("should never let scopes exceed the creator's permissions", () => {
+    const scopes = [
+      { module: "clients" as const, action: "read" as const, granted: true },
+      { module: "invoices" as const, action: "write" as const, granted: true },
+    ];
+
+    expect(service.effectivePermissions(scopes, SYSTEM_ROLES.SIMPLES.permissions)).toEqual([scopes[0]]);
+    expect(service.effectivePermissions(scopes, SYSTEM_ROLES.COMPOSTA.permissions)).toEqual(scopes);
+  });
+});
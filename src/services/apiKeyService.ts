@@ -0,0 +1,127 @@
+import crypto from 'crypto';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import { permissionService } from './permissionService';
+import { Permission } from '../types';
+
+// Recognisable in logs and secret scanners; the middleware also uses it to tell keys from JWTs
+export const API_KEY_PREFIX = 'lsk_';
+
+// Characters kept in clear so users can tell their keys apart
+const VISIBLE_PREFIX_LENGTH = 12;
+
+// Same resolution as sessions: no write per request
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+export interface CreateApiKeyInput {
+  name: string;
+  // Empty means "everything the creator can do"
+  scopes?: Permission[];
+  expiresAt?: Date | null;
+}
+
+const PUBLIC_FIELDS = {
+  id: true,
+  name: true,
+  prefix: true,
+  scopes: true,
+  expiresAt: true,
+  lastUsedAt: true,
+  revokedAt: true,
+  createdAt: true,
+  createdBy: true,
+  creator: { select: { id: true, name: true, email: true } },
+};
+
+// Json columns take plain objects only, so each scope is copied field by field
+function scopesToJson(scopes: Permission[]): Prisma.InputJsonValue {
+  return scopes.map(({ module, action, granted }) => ({ module, action, granted }));
+}
+
+export class ApiKeyService {
+  isApiKey(token?: string): token is string {
+    return !!token && token.startsWith(API_KEY_PREFIX);
+  }
+
+  hashKey(key: string): string {
+    return crypto.createHash('sha256').update(key).digest('hex');
+  }
+
+  generateKey(): string {
+    return `${API_KEY_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+  }
+
+  // Scopes can only narrow the creator's role, never widen it
+  effectivePermissions(scopes: Permission[], creatorPermissions: Permission[]): Permission[] {
+    if (scopes.length === 0) {
+      return creatorPermissions;
+    }
+
+    return scopes.filter(
+      (scope) => scope.granted && permissionService.hasPermission(creatorPermissions, scope.module, scope.action)
+    );
+  }
+
+  // The raw key is only returned here; afterwards only its hash and prefix exist
+  async createKey(tenantId: string, userId: string, input: CreateApiKeyInput) {
+    const key = this.generateKey();
+
+    const record = await prisma.apiKey.create({
+      data: {
+        tenantId,
+        createdBy: userId,
+        name: input.name,
+        prefix: key.slice(0, VISIBLE_PREFIX_LENGTH),
+        keyHash: this.hashKey(key),
+        scopes: scopesToJson(permissionService.normalizePermissions(input.scopes || [])),
+        expiresAt: input.expiresAt || null,
+      },
+      select: PUBLIC_FIELDS,
+    });
+
+    return { key, apiKey: record };
+  }
+
+  // Personal keys of one user, or every key of the tenant when userId is omitted
+  async listKeys(tenantId: string, userId?: string) {
+    return prisma.apiKey.findMany({
+      where: { tenantId, revokedAt: null, ...(userId && { createdBy: userId }) },
+      orderBy: { createdAt: 'desc' },
+      select: PUBLIC_FIELDS,
+    });
+  }
+
+  async revokeKey(tenantId: string, keyId: string, userId?: string): Promise<boolean> {
+    const revoked = await prisma.apiKey.updateMany({
+      where: { id: keyId, tenantId, revokedAt: null, ...(userId && { createdBy: userId }) },
+      data: { revokedAt: new Date() },
+    });
+
+    return revoked.count > 0;
+  }
+
+  // Returns the usable key with its creator, or null for unknown, revoked or expired keys
+  async authenticate(key: string) {
+    const record = await prisma.apiKey.findUnique({
+      where: { keyHash: this.hashKey(key) },
+      include: { creator: { include: { tenant: true } } },
+    });
+
+    const now = new Date();
+
+    if (!record || record.revokedAt || (record.expiresAt && record.expiresAt <= now)) {
+      return null;
+    }
+
+    if (!record.lastUsedAt || now.getTime() - record.lastUsedAt.getTime() >= LAST_USED_RESOLUTION_MS) {
+      await prisma.apiKey.update({
+        where: { id: record.id },
+        data: { lastUsedAt: now },
+      });
+    }
+
+    return record;
+  }
+}
+
+export const apiKeyService = new ApiKeyService();
@@ -0,0 +1,93 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const { prisma, tenantDb, storage } = vi.hoisted(() => ({
+  prisma: {
+    tenant: { findUnique: vi.fn() },
+  },
+  tenantDb: {
+    findById: vi.fn(),
+    findMany: vi.fn(),
+    create: vi.fn(async (_table: string, data: any) => data),
+    delete: vi.fn(),
+    query: vi.fn(),
+    transaction: vi.fn(),
+  },
+  storage: new Map<string, Buffer>(),
+}));
+
+vi.mock("../config/database", () => ({
+  prisma,
+  TenantDatabase: vi.fn(() => tenantDb),
+}));
+
+import { AttachmentService } from "./attachmentService";
+import { storageService } from "./storageService";
+
+storageService.useDriver({
+  put: async (key, data) => void storage.set(key, data),
+  get: async (key) => storage.get(key) || null,
+  delete: async (key) => void storage.delete(key),
+});
+
+const service = new AttachmentService();
+
+const pdf = Buffer.from("%PDF-1.7\n...");
+const upload = { entityType: "task" as const, entityId: "task-1", name: "peticao.pdf", mimeType: "application/pdf", data: pdf };
+
+describe("AttachmentService", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    storage.clear();
+    tenantDb.findById.mockResolvedValue({ id: "task-1" });
+    tenantDb.query.mockResolvedValue([{ storage_used: pdf.length }]);
+    tenantDb.transaction.mockImplementation(async (fn: any) => fn(tenantDb));
+    prisma.tenant.findUnique.mockResolvedValue({ storageUsed: BigInt(1000), maxStorage: BigInt(1000) });
+  });
+
+  it("should reserve the file size and store the content under the tenant", async () => {
+    const attachment = await service.upload("tenant-1", upload, "user-1");
+
+    expect(tenantDb.query.mock.calls[0][0]).toContain("storage_used + $2 <= max_storage");
+    expect(tenantDb.query.mock.calls[0][1]).toEqual(["tenant-1", pdf.length]);
+    expect(attachment).toMatchObject({ entityType: "task", entityId: "task-1", type: "application/pdf", size: pdf.length });
+    expect(storage.get(`tenant-1/${attachment.id}`)).toEqual(pdf);
+  });
+
+  it("should refuse uploads past the tenant quota without keeping the file", async () => {
+    tenantDb.query.mockResolvedValue([]);
+
+    await expect(service.upload("tenant-1", upload, "user-1")).rejects.toMatchObject({
+      statusCode: 403,
+      code: "PLAN_001",
+      limit: 1000,
+      used: 1000,
+    });
+    expect(tenantDb.create).not.toHaveBeenCalled();
+    expect(storage.size).toBe(0);
+  });
+
+  it("should reject types outside the list and content that does not match its type", async () => {
+    await expect(
+      service.upload("tenant-1", { ...upload, mimeType: "application/x-msdownload" }, "user-1")
+    ).rejects.toMatchObject({ statusCode: 415, code: "ATTACH_001" });
+
+    await expect(
+      service.upload("tenant-1", { ...upload, data: Buffer.from("MZ\x90\x00") }, "user-1")
+    ).rejects.toMatchObject({ statusCode: 415, code: "ATTACH_001" });
+
+    await expect(
+      service.upload("tenant-1", { ...upload, mimeType: "toString" }, "user-1")
+    ).rejects.toMatchObject({ code: "ATTACH_001" });
+    expect(tenantDb.query).not.toHaveBeenCalled();
+  });
+
+  it("should give the space back and remove the file on delete", async () => {
+    storage.set("tenant-1/attachment-1", pdf);
+    tenantDb.delete.mockResolvedValue({ id: "attachment-1", entity_type: "task", entity_id: "task-1", size: String(pdf.length) });
+
+    await service.remove("tenant-1", "attachment-1");
+
+    expect(tenantDb.query).toHaveBeenCalledWith(expect.stringContaining("GREATEST(storage_used - $2, 0)"), ["tenant-1", pdf.length]);
+    expect(storage.has("tenant-1/attachment-1")).toBe(false);
+  });
+});
@@ -0,0 +1,240 @@
+import crypto from 'crypto';
+import { prisma, TenantDatabase } from '../config/database';
+import { AppError, AttachmentEntityType, AttachmentRow, PlanLimitError } from '../types';
+import { storageService } from './storageService';
+
+export const MAX_ATTACHMENT_SIZE = Number(process.env.ATTACHMENT_MAX_SIZE) || 25 * 1024 * 1024;
+
+// Accepted types and, where the format has one, the bytes every such file starts with,
+// so a renamed executable cannot pass as a PDF
+const ALLOWED_TYPES = new Map<string, string | null>([
+  ['application/pdf', '25504446'], // %PDF
+  ['image/png', '89504e47'],
+  ['image/jpeg', 'ffd8ff'],
+  ['image/gif', '47494638'], // GIF8
+  ['image/webp', '52494646'], // RIFF
+  ['text/plain', null],
+  ['text/csv', null],
+  ['application/msword', 'd0cf11e0'],
+  ['application/vnd.ms-excel', 'd0cf11e0'],
+  ['application/vnd.openxmlformats-officedocument.wordprocessingml.document', '504b0304'], // zip
+  ['application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', '504b0304'],
+  ['application/vnd.oasis.opendocument.text', '504b0304'],
+  ['application/zip', '504b0304'],
+]);
+
+// Entity types and the tenant table the referenced row lives in
+export const ATTACHMENT_ENTITIES = {
+  client: 'clients',
+  project: 'projects',
+  task: 'tasks',
+  transaction: 'transactions',
+  invoice: 'invoices',
+} as const;
+
+export interface AttachmentUpload {
+  entityType: AttachmentEntityType;
+  entityId: string;
+  name: string;
+  mimeType: string;
+  data: Buffer;
+}
+
+export interface AttachmentStatus {
+  id: string;
+  entityType: AttachmentEntityType;
+  entityId: string;
+  name: string;
+  type: string;
+  size: number;
+  uploadedAt: Date;
+  uploadedBy: string | null;
+}
+
+export interface StorageUsage {
+  used: number;
+  limit: number;
+}
+
+export function storageKey(tenantId: string, attachmentId: string) {
+  return `${tenantId}/${attachmentId}`;
+}
+
+// Files attached to tenant rows. Each upload reserves its size on tenants.storage_used in
+// the same transaction that records it, so concurrent uploads cannot overshoot max_storage.
+export class AttachmentService {
+  async listAttachments(tenantId: string, entityType: AttachmentEntityType, entityId: string): Promise<AttachmentStatus[]> {
+    const attachments = await new TenantDatabase(tenantId).findMany('attachments', {
+      entity_type: entityType,
+      entity_id: entityId,
+    }, { orderBy: { field: 'created_at' } });
+
+    return attachments.map((attachment) => this.toStatus(attachment));
+  }
+
+  // Attachments of many rows at once (list endpoints), grouped by entity id
+  async listByEntities(
+    tenantId: string,
+    entityType: AttachmentEntityType,
+    entityIds: string[]
+  ): Promise<Map<string, AttachmentStatus[]>> {
+    const grouped = new Map<string, AttachmentStatus[]>(entityIds.map((entityId) => [entityId, []]));
+    if (entityIds.length === 0) {
+      return grouped;
+    }
+
+    const attachments = await new TenantDatabase(tenantId).findMany('attachments', {
+      entity_type: entityType,
+      entity_id: { in: entityIds },
+    }, { orderBy: { field: 'created_at' } });
+
+    for (const attachment of attachments) {
+      grouped.get(attachment.entity_id)?.push(this.toStatus(attachment));
+    }
+    return grouped;
+  }
+
+  async getAttachment(tenantId: string, attachmentId: string): Promise<AttachmentStatus | null> {
+    const attachment = await new TenantDatabase(tenantId).findById('attachments', attachmentId);
+    return attachment ? this.toStatus(attachment) : null;
+  }
+
+  async upload(tenantId: string, upload: AttachmentUpload, userId: string): Promise<AttachmentStatus> {
+    this.validate(upload);
+
+    const tenantDb = new TenantDatabase(tenantId);
+    const entity = await tenantDb.findById(ATTACHMENT_ENTITIES[upload.entityType], upload.entityId);
+    if (!entity) {
+      throw new AppError(`${upload.entityType} not found`, 404, 'ATTACH_002');
+    }
+
+    const id = crypto.randomUUID();
+    const key = storageKey(tenantId, id);
+    const size = upload.data.length;
+
+    try {
+      const attachment = await tenantDb.transaction(async (tx) => {
+        const reserved = await tx.query(
+          `UPDATE public.tenants SET storage_used = storage_used + $2
+           WHERE id = $1 AND storage_used + $2 <= max_storage
+           RETURNING storage_used`,
+          [tenantId, size]
+        );
+        if (reserved.length === 0) {
+          const usage = await this.getUsage(tenantId);
+          throw new PlanLimitError(
+            `Your plan allows ${usage.limit} bytes of attachments and ${usage.used} are in use. Delete files or upgrade the plan.`,
+            usage.limit,
+            usage.used
+          );
+        }
+
+        const now = new Date();
+        const row = await tx.create('attachments', {
+          id,
+          entity_type: upload.entityType,
+          entity_id: upload.entityId,
+          name: upload.name,
+          mime_type: upload.mimeType,
+          size,
+          checksum: crypto.createHash('sha256').update(upload.data).digest('hex'),
+          uploaded_by: userId,
+          created_at: now,
+          updated_at: now,
+        });
+
+        // Last step before commit: a storage failure rolls the row and the reservation back
+        await storageService.put(key, upload.data, upload.mimeType);
+        return row;
+      });
+
+      return this.toStatus(attachment);
+    } catch (error) {
+      // The commit itself may fail after the file was written
+      await storageService.delete(key).catch(() => undefined);
+      throw error;
+    }
+  }
+
+  async download(tenantId: string, attachmentId: string): Promise<{ attachment: AttachmentStatus; data: Buffer }> {
+    const attachment = await this.getAttachment(tenantId, attachmentId);
+    if (!attachment) {
+      throw new AppError('Attachment not found', 404, 'ATTACH_002');
+    }
+
+    const data = await storageService.get(storageKey(tenantId, attachment.id));
+    if (!data) {
+      throw new AppError('Attachment file is missing from storage', 404, 'ATTACH_003');
+    }
+
+    return { attachment, data };
+  }
+
+  async remove(tenantId: string, attachmentId: string): Promise<AttachmentStatus> {
+    const tenantDb = new TenantDatabase(tenantId);
+
+    const attachment = await tenantDb.transaction(async (tx) => {
+      const row = await tx.delete('attachments', attachmentId);
+      if (!row) {
+        throw new AppError('Attachment not found', 404, 'ATTACH_002');
+      }
+
+      await tx.query(
+        'UPDATE public.tenants SET storage_used = GREATEST(storage_used - $2, 0) WHERE id = $1',
+        [tenantId, Number(row.size)]
+      );
+      return row;
+    });
+
+    // An orphaned file only wastes space, so the deletion stands even if this fails
+    await storageService.delete(storageKey(tenantId, attachment.id)).catch((error) => {
+      console.error(`Failed to delete attachment file ${attachment.id}:`, error);
+    });
+
+    return this.toStatus(attachment);
+  }
+
+  async getUsage(tenantId: string): Promise<StorageUsage> {
+    const tenant = await prisma.tenant.findUnique({
+      where: { id: tenantId },
+      select: { storageUsed: true, maxStorage: true },
+    });
+    if (!tenant) {
+      throw new AppError('Tenant not found', 404, 'TENANT_001');
+    }
+
+    return { used: Number(tenant.storageUsed), limit: Number(tenant.maxStorage) };
+  }
+
+  private validate(upload: AttachmentUpload) {
+    if (!ALLOWED_TYPES.has(upload.mimeType)) {
+      throw new AppError(`File type ${upload.mimeType} is not accepted`, 415, 'ATTACH_001');
+    }
+    if (upload.data.length === 0) {
+      throw new AppError('File is empty', 400, 'ATTACH_001');
+    }
+    if (upload.data.length > MAX_ATTACHMENT_SIZE) {
+      throw new AppError(`File is larger than ${MAX_ATTACHMENT_SIZE} bytes`, 413, 'ATTACH_001');
+    }
+
+    const signature = ALLOWED_TYPES.get(upload.mimeType);
+    if (signature && upload.data.subarray(0, signature.length / 2).toString('hex') !== signature) {
+      throw new AppError(`File content does not match ${upload.mimeType}`, 415, 'ATTACH_001');
+    }
+  }
+
+  private toStatus(attachment: AttachmentRow): AttachmentStatus {
+    return {
+      id: attachment.id,
+      entityType: attachment.entity_type,
+      entityId: attachment.entity_id,
+      name: attachment.name,
+      type: attachment.mime_type,
+      size: Number(attachment.size),
+      uploadedAt: attachment.created_at,
+      uploadedBy: attachment.uploaded_by,
+    };
+  }
+}
+
+export const attachmentService = new AttachmentService();
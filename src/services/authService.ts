@@ -1,6 +1,7 @@
 import bcrypt from 'bcrypt';
 import jwt from 'jsonwebtoken';
 import { supabase } from '../config/supabase';
+import { tenantMigrationService } from './tenantMigrationService';
 
 export interface User {
   id: string;
@@ -385,9 +386,14 @@ export class AuthService {
       throw new Error(`Failed to create tenant: ${error.message}`);
     }
 
-    // Create tenant schema
+    // Create tenant schema, then its tables from the versioned tenant migrations
     await supabase.rpc('create_tenant_schema', { tenant_uuid: tenantId });
 
+    const migration = await tenantMigrationService.migrateTenant({ id: tenantId, schemaName });
+    if (migration.failed) {
+      throw new Error(`Tenant migration ${migration.failed.version} failed: ${migration.failed.error}`);
+    }
+
     return tenantId;
   }
 
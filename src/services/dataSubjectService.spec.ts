@@ -0,0 +1,169 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const { prisma, tenantDb, attachmentService, tenantExportService } = vi.hoisted(() => ({
+  prisma: {
+    portalAccount: { findFirst: vi.fn() },
+  },
+  tenantDb: {
+    findById: vi.fn(),
+    findMany: vi.fn(),
+    create: vi.fn(async (_table: string, data: any) => ({ id: "request-1", ...data })),
+    update: vi.fn(async (_table: string, id: string, data: any) => ({ id, ...data })),
+    query: vi.fn(),
+    transaction: vi.fn(),
+  },
+  attachmentService: {
+    listAttachments: vi.fn(),
+    remove: vi.fn(),
+  },
+  tenantExportService: {
+    hasActiveExport: vi.fn(),
+    discardArchives: vi.fn(),
+  },
+}));
+
+vi.mock("../config/database", () => ({
+  prisma,
+  TenantDatabase: vi.fn(() => tenantDb),
+}));
+
+vi.mock("./attachmentService", () => ({ attachmentService }));
+vi.mock("./tenantExportService", () => ({ tenantExportService }));
+
+import { DataSubjectService, ANONYMIZED_NAME } from "./dataSubjectService";
+
+const service = new DataSubjectService();
+
+const client = {
+  id: "client-1",
+  name: "Maria da Silva",
+  email: "maria@example.com",
+  phone: "11999990000",
+  cpf: "123.456.789-09",
+  rg: null,
+  pis: null,
+  anonymized_at: null,
+};
+
+function givenRows(request: any) {
+  tenantDb.findById.mockImplementation(async (table: string) => (table === "clients" ? client : request));
+}
+
+describe("DataSubjectService", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    tenantDb.findMany.mockResolvedValue([]);
+    tenantDb.query.mockResolvedValue([]);
+    tenantDb.transaction.mockImplementation(async (fn: any) => fn(tenantDb));
+    attachmentService.listAttachments.mockResolvedValue([]);
+    tenantExportService.hasActiveExport.mockResolvedValue(false);
+  });
+
+  it("should open a request with the legal deadline and refuse duplicates", async () => {
+    givenRows(null);
+
+    const request = await service.createRequest("tenant-1", { clientId: "client-1", type: "access" }, "user-1");
+    const days = (request.due_at.getTime() - Date.now()) / (24 * 60 * 60 * 1000);
+    expect(Math.round(days)).toBe(15);
+    expect(request).toMatchObject({ status: "open", requested_by: "user-1", overdue: false });
+
+    tenantDb.findMany.mockResolvedValueOnce([{ id: "request-0", status: "open" }]);
+    await expect(
+      service.createRequest("tenant-1", { clientId: "client-1", type: "access" }, "user-1")
+    ).rejects.toMatchObject({ statusCode: 409, code: "DSR_001" });
+  });
+
+  it("should anonymise the client and related rows without touching amounts", async () => {
+    givenRows({ id: "request-1", client_id: "client-1", type: "anonymization", status: "open" });
+    tenantDb.query.mockImplementation(async (sql: string) =>
+      sql.includes("projects") || sql.includes("invoices") ? [{ id: `${sql.includes("projects") ? "project" : "invoice"}-1` }] : []
+    );
+
+    const request = await service.anonymize("tenant-1", "request-1", "user-1");
+
+    const calls = tenantDb.query.mock.calls as [string, any[]][];
+    const clientUpdate = calls.find(([sql]) => sql.includes(".clients SET"))!;
+    expect(clientUpdate[0]).toContain("cpf = NULL");
+    expect(clientUpdate[1]).toEqual(["client-1", ANONYMIZED_NAME]);
+
+    const invoiceUpdate = calls.find(([sql]) => sql.includes(".invoices SET"))!;
+    expect(invoiceUpdate[0]).toContain("client_email = NULL");
+    expect(invoiceUpdate[0]).not.toMatch(/\bamount\b/);
+    // Whole words only, and the formatted CPF before its bare digits
+    const patterns = invoiceUpdate[1].slice(2).map((pattern: string) => new RegExp(pattern.replace(/\[\[:alnum:\]_\]/g, "\\w"), "i"));
+    expect(patterns.some((pattern: RegExp) => pattern.test("CPF 123.456.789-09."))).toBe(true);
+    expect(patterns.findIndex((pattern: RegExp) => pattern.test("123.456.789-09")))
+      .toBeLessThan(patterns.findIndex((pattern: RegExp) => pattern.test("12345678909")));
+
+    const auditScrub = calls.find(([sql]) => sql.includes("public.audit_logs"))!;
+    expect(auditScrub[1]).toEqual(["tenant-1", ["client-1", "project-1", "invoice-1"]]);
+    expect(calls.some(([sql]) => sql.includes("DELETE FROM public.portal_accounts"))).toBe(true);
+
+    expect(request.status).toBe("completed");
+    expect(JSON.parse(request.result as unknown as string).records).toMatchObject({ clients: 1, projects: 1, invoices: 1 });
+  });
+
+  it("should match publications by full name or documents as whole words only", async () => {
+    givenRows({ id: "request-1", client_id: "client-1", type: "anonymization", status: "open" });
+    tenantDb.findById.mockImplementation(async (table: string) =>
+      table === "clients" ? { ...client, name: "Ana", cpf: null } : { id: "request-1", client_id: "client-1", type: "anonymization", status: "open" }
+    );
+
+    await service.anonymize("tenant-1", "request-1", "user-1");
+
+    const calls = tenantDb.query.mock.calls as [string, any[]][];
+    const invoiceUpdate = calls.find(([sql]) => sql.includes(".invoices SET"))!;
+    const name = new RegExp(invoiceUpdate[1].find((pattern: string) => pattern.includes("Ana")).replace(/\[\[:alnum:\]_\]/g, "\\w"), "i");
+    expect(name.test("ANA assinou")).toBe(true);
+    expect(name.test("Banana")).toBe(false);
+
+    // A lone first name is not enough to touch publications about other people
+    const publicationUpdate = calls.find(([sql]) => sql.includes(".publications SET"))!;
+    expect(publicationUpdate[1].slice(1, -1)).toHaveLength(1);
+    expect(publicationUpdate[1][1]).toContain("maria@example\\.com");
+  });
+
+  it("should remove the client's attachments and count them", async () => {
+    givenRows({ id: "request-1", client_id: "client-1", type: "anonymization", status: "open" });
+    attachmentService.listAttachments.mockResolvedValue([{ id: "a1" }, { id: "a2" }]);
+
+    const request = await service.anonymize("tenant-1", "request-1", "user-1");
+
+    expect(attachmentService.listAttachments).toHaveBeenCalledWith("tenant-1", "client", "client-1");
+    expect(attachmentService.remove.mock.calls.map((call) => call[1])).toEqual(["a1", "a2"]);
+    expect(JSON.parse(request.result as unknown as string).records).toMatchObject({ attachments: 2 });
+  });
+
+  it("should discard export archives after anonymising and wait for running exports", async () => {
+    givenRows({ id: "request-1", client_id: "client-1", type: "anonymization", status: "open" });
+    tenantExportService.hasActiveExport.mockResolvedValueOnce(true);
+
+    await expect(service.anonymize("tenant-1", "request-1", "user-1")).rejects.toMatchObject({ statusCode: 409, code: "DSR_005" });
+    expect(tenantDb.query).not.toHaveBeenCalled();
+    expect(tenantExportService.discardArchives).not.toHaveBeenCalled();
+
+    await service.anonymize("tenant-1", "request-1", "user-1");
+    expect(tenantExportService.discardArchives).toHaveBeenCalledWith("tenant-1");
+  });
+
+  it("should only carry out open anonymisation requests", async () => {
+    givenRows({ id: "request-1", client_id: "client-1", type: "access", status: "open" });
+
+    await expect(service.anonymize("tenant-1", "request-1", "user-1")).rejects.toMatchObject({ code: "DSR_003" });
+    expect(tenantDb.query).not.toHaveBeenCalled();
+  });
+
+  it("should report the client's data and record the answer", async () => {
+    givenRows({ id: "request-1", client_id: "client-1", type: "access", status: "open", completed_at: null });
+    tenantDb.findMany.mockImplementation(async (table: string) => (table === "invoices" ? [{ id: "invoice-1" }] : []));
+    prisma.portalAccount.findFirst.mockResolvedValue({ email: "maria@example.com" });
+
+    const { request, report } = await service.generateReport("tenant-1", "request-1", "user-1");
+
+    expect(report.client).toBe(client);
+    expect(report.invoices).toHaveLength(1);
+    expect(report.portalAccount).toEqual({ email: "maria@example.com" });
+    expect(request.status).toBe("completed");
+    expect(tenantDb.findMany).toHaveBeenCalledWith("projects", { client_id: "client-1" }, expect.anything());
+  });
+});
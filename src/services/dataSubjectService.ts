@@ -0,0 +1,351 @@
+import { prisma, TenantDatabase } from '../config/database';
+import {
+  AppError,
+  ClientRow,
+  DataSubjectRequestRow,
+  InvoiceRow,
+  ProjectRow,
+  PublicationRow,
+  TaskRow,
+  TransactionRow,
+} from '../types';
+import { attachmentService } from './attachmentService';
+import { tenantExportService } from './tenantExportService';
+
+// LGPD art. 19, II: a complete report is due within 15 days of the request
+const DEADLINE_DAYS = Number(process.env.DSR_DEADLINE_DAYS) || 15;
+
+export const ANONYMIZED_NAME = 'Titular anonimizado';
+
+export type DataSubjectRequestType = DataSubjectRequestRow['type'];
+
+export interface DataSubjectRequestStatus extends DataSubjectRequestRow {
+  overdue: boolean;
+}
+
+export interface DataSubjectReport {
+  generatedAt: string;
+  client: ClientRow;
+  projects: ProjectRow[];
+  tasks: TaskRow[];
+  invoices: InvoiceRow[];
+  transactions: TransactionRow[];
+  // Publications whose text mentions the client's full name or documents, as whole words
+  publications: PublicationRow[];
+  portalAccount: Record<string, unknown> | null;
+}
+
+// Client-linked tables and the free-text columns that may repeat the client's name or documents
+const LINKED_TABLES = [
+  { table: 'projects', text: ['title', 'description', 'notes'], cleared: ['address'] },
+  { table: 'tasks', text: ['title', 'description', 'notes'], cleared: [] },
+  { table: 'invoices', text: ['title', 'description', 'notes'], cleared: ['client_email', 'client_phone'] },
+  { table: 'transactions', text: ['description', 'notes'], cleared: [] },
+] as const;
+
+// Values that identify the client inside free text (name, documents, contacts)
+function identifyingTerms(client: ClientRow): string[] {
+  return uniqueTerms([client.name, client.cpf, client.cpf?.replace(/\D/g, ''), client.rg, client.pis, client.email, client.phone], 3);
+}
+
+// Publications are about anyone the firm follows, so only values that point to this person and
+// nobody else count there: documents, the e-mail and the full name (never a lone first name)
+function publicationTerms(client: ClientRow): string[] {
+  const fullName = client.name && client.name.trim().split(/\s+/).length >= 2 ? client.name.trim() : null;
+  return uniqueTerms([fullName, client.cpf, client.cpf?.replace(/\D/g, ''), client.rg, client.pis, client.email], 5);
+}
+
+function uniqueTerms(terms: (string | null | undefined)[], minLength: number): string[] {
+  return [...new Set(terms.filter((term): term is string => !!term && term.length >= minLength))]
+    // Longest first, so a formatted CPF is replaced before its bare digits
+    .sort((a, b) => b.length - a.length);
+}
+
+// Postgres pattern matching the term as a whole word, case-insensitively with the 'i' flag:
+// "Ana" matches "ANA" but never the middle of "Banana"
+function wordPattern(term: string): string {
+  const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return `(?<![[:alnum:]_])${escaped}(?![[:alnum:]_])`;
+}
+
+// regexp_replace(regexp_replace(column, $3, $1, 'gi'), $4, $1, 'gi')... with $1 the placeholder
+// and $firstPattern.. the word patterns
+function redactSql(column: string, firstPattern: number, patternCount: number): string {
+  let sql = column;
+  for (let index = 0; index < patternCount; index++) {
+    sql = `regexp_replace(${sql}, $${firstPattern + index}, $1, 'gi')`;
+  }
+  return sql;
+}
+
+// Tracks access-report and anonymisation requests about a firm's clients (data subjects).
+// Requests live in the tenant schema and only reference the client by id, so they survive
+// the anonymisation they record.
+export class DataSubjectService {
+  async listRequests(tenantId: string, status?: DataSubjectRequestRow['status']): Promise<DataSubjectRequestStatus[]> {
+    const tenantDb = new TenantDatabase(tenantId);
+    const requests = await tenantDb.findMany('data_subject_requests', status ? { status } : {}, {
+      orderBy: { field: 'created_at', direction: 'desc' },
+      limit: 200,
+    });
+
+    return requests.map((request) => this.toStatus(request));
+  }
+
+  async getRequest(tenantId: string, requestId: string): Promise<DataSubjectRequestStatus | null> {
+    const request = await new TenantDatabase(tenantId).findById('data_subject_requests', requestId);
+    return request ? this.toStatus(request) : null;
+  }
+
+  async createRequest(
+    tenantId: string,
+    data: { clientId: string; type: DataSubjectRequestType; notes?: string },
+    userId: string
+  ): Promise<DataSubjectRequestStatus> {
+    const tenantDb = new TenantDatabase(tenantId);
+    await this.findClient(tenantDb, data.clientId);
+
+    const [open] = await tenantDb.findMany('data_subject_requests', {
+      client_id: data.clientId,
+      type: data.type,
+      status: 'open',
+    }, { limit: 1 });
+    if (open) {
+      throw new AppError('There is already an open request of this type for this client', 409, 'DSR_001');
+    }
+
+    const now = new Date();
+    const request = await tenantDb.create('data_subject_requests', {
+      client_id: data.clientId,
+      type: data.type,
+      status: 'open',
+      notes: data.notes || null,
+      due_at: new Date(now.getTime() + DEADLINE_DAYS * 24 * 60 * 60 * 1000),
+      requested_by: userId,
+      created_at: now,
+      updated_at: now,
+    });
+
+    return this.toStatus(request);
+  }
+
+  // Builds the personal-data report and records the access request as answered
+  async generateReport(
+    tenantId: string,
+    requestId: string,
+    userId: string
+  ): Promise<{ request: DataSubjectRequestStatus; report: DataSubjectReport }> {
+    const tenantDb = new TenantDatabase(tenantId);
+    const request = await this.findRequest(tenantDb, requestId);
+    if (request.type !== 'access' || request.status === 'rejected') {
+      throw new AppError('Reports are generated for open or completed access requests', 409, 'DSR_003');
+    }
+
+    const client = await this.findClient(tenantDb, request.client_id);
+    const report = await this.collect(tenantId, tenantDb, client);
+
+    const updated = await tenantDb.update('data_subject_requests', request.id, {
+      status: 'completed',
+      completed_by: request.completed_by || userId,
+      completed_at: request.completed_at || new Date(),
+      result: JSON.stringify({
+        reportGeneratedAt: report.generatedAt,
+        records: {
+          projects: report.projects.length,
+          tasks: report.tasks.length,
+          invoices: report.invoices.length,
+          transactions: report.transactions.length,
+          publications: report.publications.length,
+          portalAccount: report.portalAccount ? 1 : 0,
+        },
+      }),
+      updated_at: new Date(),
+    });
+
+    return { request: this.toStatus(updated), report };
+  }
+
+  // Irreversibly removes the client's personal data. Rows stay (with their amounts), so
+  // financial totals and history are unchanged; only what identifies the person is cleared
+  // or replaced by ANONYMIZED_NAME, including audit snapshots and the portal account. The
+  // client's own attachments are deleted, and so are the firm's export archives, which hold a
+  // copy of everything erased here.
+  async anonymize(tenantId: string, requestId: string, userId: string): Promise<DataSubjectRequestStatus> {
+    const tenantDb = new TenantDatabase(tenantId);
+
+    // An archive being built now could be read before the changes below commit
+    if (await tenantExportService.hasActiveExport(tenantId)) {
+      throw new AppError('An export of this firm is in progress; carry out the anonymisation once it finishes', 409, 'DSR_005');
+    }
+
+    const updated = await tenantDb.transaction(async (tx) => {
+      const request = await this.findRequest(tx, requestId);
+      if (request.type !== 'anonymization' || request.status !== 'open') {
+        throw new AppError('Only open anonymisation requests can be carried out', 409, 'DSR_003');
+      }
+
+      const client = await this.findClient(tx, request.client_id);
+      const patterns = identifyingTerms(client).map(wordPattern);
+      const mentionPatterns = publicationTerms(client).map(wordPattern);
+      const records: Record<string, number> = { clients: 1 };
+      const touchedIds = [client.id];
+
+      // Attachments on the client are typically ID documents. They go first: should anything
+      // below fail, the request stays open and a retry finds them already removed.
+      const attachments = await attachmentService.listAttachments(tenantId, 'client', client.id);
+      for (const attachment of attachments) {
+        await attachmentService.remove(tenantId, attachment.id);
+      }
+      records.attachments = attachments.length;
+
+      await tx.query(
+        `UPDATE \${schema}.clients SET
+           name = $2, email = NULL, phone = NULL, organization = NULL, address = NULL, notes = NULL,
+           tags = ARRAY[]::text[], cpf = NULL, rg = NULL, pis = NULL, cei = NULL, birth_date = NULL,
+           marital_status = NULL, professional_title = NULL, anonymized_at = now(), updated_at = now()
+         WHERE id = $1`,
+        [client.id, ANONYMIZED_NAME]
+      );
+
+      for (const { table, text, cleared } of LINKED_TABLES) {
+        const assignments = [
+          'client_name = $1',
+          ...text.map((column) => `${column} = ${redactSql(column, 3, patterns.length)}`),
+          ...cleared.map((column) => `${column} = NULL`),
+          'updated_at = now()',
+        ];
+        const rows = await tx.query(
+          `UPDATE \${schema}.${table} SET ${assignments.join(', ')} WHERE client_id = $2 RETURNING id`,
+          [ANONYMIZED_NAME, client.id, ...patterns]
+        );
+        records[table] = rows.length;
+        touchedIds.push(...rows.map((row: any) => row.id));
+      }
+
+      if (mentionPatterns.length > 0) {
+        const mentions = await tx.query(
+          `UPDATE \${schema}.publications SET
+             content = ${redactSql('content', 2, mentionPatterns.length)},
+             notes = ${redactSql('notes', 2, mentionPatterns.length)},
+             updated_at = now()
+           WHERE content ~* ANY($${mentionPatterns.length + 2}::text[]) OR notes ~* ANY($${mentionPatterns.length + 2}::text[])
+           RETURNING id`,
+          [ANONYMIZED_NAME, ...mentionPatterns, mentionPatterns]
+        );
+        records.publications = mentions.length;
+        touchedIds.push(...mentions.map((row: any) => row.id));
+      }
+
+      // Audit snapshots would otherwise keep a copy of everything cleared above
+      const audits = await tx.query(
+        `UPDATE public.audit_logs SET old_data = NULL, new_data = NULL
+         WHERE tenant_id = $1 AND record_id = ANY($2::text[]) AND (old_data IS NOT NULL OR new_data IS NOT NULL)
+         RETURNING id`,
+        [tenantId, touchedIds]
+      );
+      records.auditLogs = audits.length;
+
+      const portal = await tx.query(
+        'DELETE FROM public.portal_accounts WHERE tenant_id = $1 AND client_id = $2 RETURNING id',
+        [tenantId, client.id]
+      );
+      await tx.query('DELETE FROM public.portal_shares WHERE tenant_id = $1 AND client_id = $2', [tenantId, client.id]);
+      records.portalAccounts = portal.length;
+
+      return await tx.update('data_subject_requests', request.id, {
+        status: 'completed',
+        completed_by: userId,
+        completed_at: new Date(),
+        result: JSON.stringify({ anonymizedAt: new Date().toISOString(), records }),
+        updated_at: new Date(),
+      });
+    });
+
+    await tenantExportService.discardArchives(tenantId);
+
+    return this.toStatus(updated);
+  }
+
+  async rejectRequest(tenantId: string, requestId: string, userId: string, reason: string): Promise<DataSubjectRequestStatus> {
+    const tenantDb = new TenantDatabase(tenantId);
+    const request = await this.findRequest(tenantDb, requestId);
+    if (request.status !== 'open') {
+      throw new AppError('Only open requests can be rejected', 409, 'DSR_003');
+    }
+
+    const updated = await tenantDb.update('data_subject_requests', request.id, {
+      status: 'rejected',
+      completed_by: userId,
+      completed_at: new Date(),
+      result: JSON.stringify({ reason }),
+      updated_at: new Date(),
+    });
+
+    return this.toStatus(updated);
+  }
+
+  private async findRequest(tenantDb: TenantDatabase, requestId: string): Promise<DataSubjectRequestRow> {
+    const request = await tenantDb.findById('data_subject_requests', requestId);
+    if (!request) {
+      throw new AppError('Request not found', 404, 'DSR_002');
+    }
+    return request;
+  }
+
+  private async findClient(tenantDb: TenantDatabase, clientId: string): Promise<ClientRow> {
+    const client = await tenantDb.findById('clients', clientId);
+    if (!client) {
+      throw new AppError('Client not found', 404, 'DSR_002');
+    }
+    if (client.anonymized_at) {
+      throw new AppError('Client has already been anonymised', 409, 'DSR_004');
+    }
+    return client;
+  }
+
+  private async collect(tenantId: string, tenantDb: TenantDatabase, client: ClientRow): Promise<DataSubjectReport> {
+    const byClient = { client_id: client.id };
+    const [projects, tasks, invoices, transactions] = await Promise.all([
+      tenantDb.findMany('projects', byClient, { orderBy: { field: 'created_at' } }),
+      tenantDb.findMany('tasks', byClient, { orderBy: { field: 'created_at' } }),
+      tenantDb.findMany('invoices', byClient, { orderBy: { field: 'created_at' } }),
+      tenantDb.findMany('transactions', byClient, { orderBy: { field: 'date' } }),
+    ]);
+
+    // The same matching anonymisation redacts, so the report lists what it would change
+    const patterns = publicationTerms(client).map(wordPattern);
+    const publications = patterns.length > 0
+      ? await tenantDb.query(
+        `SELECT * FROM \${schema}.publications
+         WHERE content ~* ANY($1::text[]) OR notes ~* ANY($1::text[])
+         ORDER BY publication_date`,
+        [patterns]
+      )
+      : [];
+
+    const portalAccount = await prisma.portalAccount.findFirst({
+      where: { tenantId, clientId: client.id },
+      select: { email: true, name: true, isActive: true, lastLogin: true, createdAt: true },
+    });
+
+    return {
+      generatedAt: new Date().toISOString(),
+      client,
+      projects,
+      tasks,
+      invoices,
+      transactions,
+      publications,
+      portalAccount,
+    };
+  }
+
+  private toStatus(request: DataSubjectRequestRow): DataSubjectRequestStatus {
+    return {
+      ...request,
+      overdue: request.status === 'open' && new Date(request.due_at) < new Date(),
+    };
+  }
+}
+
+export const dataSubjectService = new DataSubjectService();
@@ -0,0 +1,81 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const { prisma, security } = vi.hoisted(() => ({
+  prisma: {
+    impersonation: { findUnique: vi.fn(), create: vi.fn() },
+    user: { findFirst: vi.fn() },
+    auditLog: { create: vi.fn() },
+  },
+  security: { supportAccess: { allowImpersonation: true } },
+}));
+
+vi.mock("../config/database", () => ({ prisma }));
+vi.mock("./tenantSettingsService", () => ({
+  tenantSettingsService: { getSecuritySettings: vi.fn(async () => security) },
+}));
+
+import { ImpersonationService } from "./impersonationService";
+
+const service = new ImpersonationService();
+const admin = { id: "admin-1", email: "support@saas.com", name: "Support" };
+const activeRow = {
+  id: "imp-1",
+  tenantId: "tenant-1",
+  endedAt: null,
+  expiresAt: new Date(Date.now() + 60_000),
+};
+
+describe("ImpersonationService", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    security.supportAccess.allowImpersonation = true;
+  });
+
+  it("should accept a running impersonation of the same tenant", async () => {
+    prisma.impersonation.findUnique.mockResolvedValue(activeRow);
+
+    await expect(service.isActive("imp-1", "tenant-1")).resolves.toBe(true);
+    await expect(service.isActive("imp-1", "tenant-2")).resolves.toBe(false);
+  });
+
+  it("should reject ended or expired impersonations", async () => {
+    prisma.impersonation.findUnique.mockResolvedValueOnce({ ...activeRow, endedAt: new Date() });
+    await expect(service.isActive("imp-1", "tenant-1")).resolves.toBe(false);
+
+    prisma.impersonation.findUnique.mockResolvedValueOnce({ ...activeRow, expiresAt: new Date(Date.now() - 1) });
+    await expect(service.isActive("imp-1", "tenant-1")).resolves.toBe(false);
+  });
+
+  it("should stop running impersonations as soon as the tenant opts out", async () => {
+    prisma.impersonation.findUnique.mockResolvedValue(activeRow);
+    security.supportAccess.allowImpersonation = false;
+
+    await expect(service.isActive("imp-1", "tenant-1")).resolves.toBe(false);
+  });
+
+  it("should refuse to start when the tenant opted out", async () => {
+    prisma.user.findFirst.mockResolvedValue({ id: "user-1", isActive: true, tenant: { isActive: true } });
+    security.supportAccess.allowImpersonation = false;
+
+    await expect(service.start(admin, "tenant-1", "user-1", "Ticket #42")).rejects.toThrow(
+      "This tenant does not allow support impersonation"
+    );
+    expect(prisma.impersonation.create).not.toHaveBeenCalled();
+  });
+
+  it("should record the start in the tenant audit trail with the admin identity", async () => {
+    prisma.user.findFirst.mockResolvedValue({ id: "user-1", isActive: true, tenant: { isActive: true } });
+    prisma.impersonation.create.mockResolvedValue(activeRow);
+
+    await service.start(admin, "tenant-1", "user-1", "Ticket #42");
+
+    expect(prisma.auditLog.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        userId: "user-1",
+        impersonatorId: "admin-1",
+        tenantId: "tenant-1",
+        operation: "IMPERSONATION_START",
+      }),
+    });
+  });
+});
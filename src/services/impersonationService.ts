@@ -0,0 +1,134 @@
+import { prisma } from '../config/database';
+import { tenantSettingsService } from './tenantSettingsService';
+
+export interface ImpersonationContext {
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+// Identity of the admin behind an impersonated request
+export interface Impersonator {
+  impersonationId: string;
+  adminId: string;
+  adminEmail: string;
+  adminName: string;
+  readOnly: boolean;
+  expiresAt: Date;
+}
+
+export class ImpersonationService {
+  private ttlMinutes: number;
+
+  constructor() {
+    this.ttlMinutes = Number(process.env.IMPERSONATION_TTL_MINUTES) || 30;
+  }
+
+  async start(
+    admin: { id: string; email: string; name: string },
+    tenantId: string,
+    userId: string,
+    reason: string,
+    context: ImpersonationContext = {}
+  ) {
+    const user = await prisma.user.findFirst({
+      where: { id: userId, tenantId },
+      include: { tenant: true },
+    });
+
+    if (!user) {
+      throw new Error('User not found in this tenant');
+    }
+
+    if (!user.isActive || !user.tenant.isActive) {
+      throw new Error('User or tenant inactive');
+    }
+
+    const security = await tenantSettingsService.getSecuritySettings(tenantId);
+    if (!security.supportAccess.allowImpersonation) {
+      throw new Error('This tenant does not allow support impersonation');
+    }
+
+    const impersonation = await prisma.impersonation.create({
+      data: {
+        adminUserId: admin.id,
+        tenantId,
+        userId: user.id,
+        reason,
+        expiresAt: new Date(Date.now() + this.ttlMinutes * 60 * 1000),
+        ipAddress: context.ipAddress,
+      },
+    });
+
+    // Shows up in the tenant's own audit trail, not only in the admin logs
+    await prisma.auditLog.create({
+      data: {
+        userId: user.id,
+        impersonatorId: admin.id,
+        tenantId,
+        tableName: 'impersonations',
+        recordId: impersonation.id,
+        operation: 'IMPERSONATION_START',
+        newData: { adminEmail: admin.email, reason, expiresAt: impersonation.expiresAt },
+        ipAddress: context.ipAddress,
+        userAgent: context.userAgent,
+      },
+    });
+
+    return { impersonation, user };
+  }
+
+  // Checked on every request, so ending it or a tenant opt-out takes effect immediately
+  async isActive(impersonationId: string, tenantId: string): Promise<boolean> {
+    const impersonation = await prisma.impersonation.findUnique({
+      where: { id: impersonationId },
+    });
+
+    if (!impersonation || impersonation.tenantId !== tenantId) {
+      return false;
+    }
+
+    if (impersonation.endedAt || impersonation.expiresAt <= new Date()) {
+      return false;
+    }
+
+    const security = await tenantSettingsService.getSecuritySettings(tenantId);
+    return security.supportAccess.allowImpersonation;
+  }
+
+  async end(impersonationId: string): Promise<boolean> {
+    const ended = await prisma.impersonation.updateMany({
+      where: { id: impersonationId, endedAt: null },
+      data: { endedAt: new Date() },
+    });
+
+    return ended.count > 0;
+  }
+
+  // One audit row per request made while impersonating, reads included
+  async logRequest(
+    impersonator: Impersonator,
+    user: { id: string; tenantId: string },
+    request: { method: string; path: string; statusCode: number },
+    context: ImpersonationContext = {}
+  ) {
+    try {
+      await prisma.auditLog.create({
+        data: {
+          userId: user.id,
+          impersonatorId: impersonator.adminId,
+          tenantId: user.tenantId,
+          tableName: 'impersonations',
+          recordId: impersonator.impersonationId,
+          operation: 'IMPERSONATED_REQUEST',
+          newData: request,
+          ipAddress: context.ipAddress,
+          userAgent: context.userAgent,
+        },
+      });
+    } catch (error) {
+      console.error('Impersonation audit error:', error);
+    }
+  }
+}
+
+export const impersonationService = new ImpersonationService();
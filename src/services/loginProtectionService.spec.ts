@@ -0,0 +1,90 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const { prisma } = vi.hoisted(() => ({
+  prisma: {
+    loginThrottle: {
+      findUnique: vi.fn(),
+      upsert: vi.fn(),
+    },
+    auditLog: { create: vi.fn() },
+    systemLog: { create: vi.fn() },
+  },
+}));
+
+vi.mock("../config/database", () => ({ prisma }));
+vi.mock("./mailService", () => ({ mailService: { send: vi.fn() } }));
+
+import { LoginProtectionService } from "./loginProtectionService";
+
+const service = new LoginProtectionService();
+const user = { id: "user-1", tenantId: "tenant-1" };
+
+describe("LoginProtectionService", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should double the lockout for every repeated lock, up to a day", () => {
+    expect(service.lockoutDuration(1)).toBe(5 * 60 * 1000);
+    expect(service.lockoutDuration(2)).toBe(10 * 60 * 1000);
+    expect(service.lockoutDuration(3)).toBe(20 * 60 * 1000);
+    expect(service.lockoutDuration(20)).toBe(24 * 60 * 60 * 1000);
+  });
+
+  it("should only count failures below the threshold", async () => {
+    prisma.loginThrottle.findUnique.mockResolvedValue({ failures: 2, lockCount: 0, lastFailureAt: new Date() });
+
+    const lock = await service.recordFailure("Ana@Example.com", { ipAddress: "10.0.0.1" }, user);
+
+    expect(lock).toBeNull();
+    expect(prisma.loginThrottle.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { key: "email:ana@example.com" }, update: expect.objectContaining({ failures: 3 }) })
+    );
+    expect(prisma.auditLog.create).not.toHaveBeenCalled();
+  });
+
+  it("should lock the account and audit it on the fifth failure", async () => {
+    prisma.loginThrottle.findUnique.mockImplementation(({ where }) =>
+      where.key.startsWith("email:") ? { failures: 4, lockCount: 1, lastFailureAt: new Date() } : null
+    );
+
+    const lock = await service.recordFailure("ana@example.com", { ipAddress: "10.0.0.1" }, user);
+
+    expect(lock?.retryAfterSeconds).toBe(10 * 60);
+    expect(prisma.auditLog.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ userId: "user-1", operation: "LOCKOUT", tableName: "login_throttles" }),
+    });
+  });
+
+  it("should restart the count once the failure window has passed", async () => {
+    prisma.loginThrottle.findUnique.mockResolvedValue({
+      failures: 4,
+      lockCount: 0,
+      lastFailureAt: new Date(Date.now() - 60 * 60 * 1000),
+    });
+
+    expect(await service.recordFailure("ana@example.com", {}, user)).toBeNull();
+    expect(prisma.loginThrottle.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({ update: expect.objectContaining({ failures: 1 }) })
+    );
+  });
+
+  it("should use up a 2FA challenge after five wrong codes", async () => {
+    const expiresAt = new Date(Date.now() + 5 * 60 * 1000);
+
+    prisma.loginThrottle.findUnique.mockResolvedValue({ failures: 3 });
+    expect(await service.recordChallengeFailure("challenge-1", expiresAt)).toBe(false);
+
+    prisma.loginThrottle.findUnique.mockResolvedValue({ failures: 4 });
+    expect(await service.recordChallengeFailure("challenge-1", expiresAt)).toBe(true);
+    expect(prisma.loginThrottle.upsert).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        where: { key: "2fa:challenge-1" },
+        update: expect.objectContaining({ failures: 5, lockedUntil: expiresAt }),
+      })
+    );
+
+    prisma.loginThrottle.findUnique.mockResolvedValue({ failures: 5, lockedUntil: expiresAt });
+    expect(await service.isChallengeRevoked("challenge-1")).toBe(true);
+  });
+});
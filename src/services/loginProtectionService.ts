@@ -0,0 +1,287 @@
+import { LoginThrottle } from '@prisma/client';
+import { prisma } from '../config/database';
+import { mailService } from './mailService';
+import { sessionService, SessionContext } from './sessionService';
+
+export interface LoginLock {
+  lockedUntil: Date;
+  retryAfterSeconds: number;
+}
+
+interface ThrottleScope {
+  key: string;
+  maxFailures: number;
+}
+
+type KnownSession = { ipAddress: string | null; device: string | null };
+
+// Only failures this close together count towards a lockout
+const FAILURE_WINDOW_MS = 15 * 60 * 1000;
+const MAX_LOCKOUT_MS = 24 * 60 * 60 * 1000;
+
+// Sessions from this period make up the "known devices" for suspicious-login alerts
+const KNOWN_DEVICE_WINDOW_DAYS = 90;
+
+export class LoginProtectionService {
+  private maxEmailFailures: number;
+  private maxIpFailures: number;
+  private baseLockoutMinutes: number;
+  private maxChallengeFailures: number;
+
+  constructor() {
+    this.maxEmailFailures = Number(process.env.LOGIN_MAX_FAILURES) || 5;
+    // Offices often share one public IP, so the per-IP threshold is looser
+    this.maxIpFailures = Number(process.env.LOGIN_MAX_IP_FAILURES) || 20;
+    this.baseLockoutMinutes = Number(process.env.LOGIN_LOCKOUT_MINUTES) || 5;
+    this.maxChallengeFailures = Number(process.env.TWO_FACTOR_MAX_FAILURES) || 5;
+  }
+
+  emailKey(email: string) {
+    return `email:${email.trim().toLowerCase()}`;
+  }
+
+  ipKey(ipAddress: string) {
+    return `ip:${ipAddress}`;
+  }
+
+  challengeKey(challengeId: string) {
+    return `2fa:${challengeId}`;
+  }
+
+  // Each lockout doubles the previous one: 5, 10, 20 minutes... capped at a day
+  lockoutDuration(lockCount: number): number {
+    const duration = this.baseLockoutMinutes * 60 * 1000 * 2 ** Math.max(lockCount - 1, 0);
+    return Math.min(duration, MAX_LOCKOUT_MS);
+  }
+
+  private scopes(email: string, ipAddress?: string): ThrottleScope[] {
+    const scopes = [{ key: this.emailKey(email), maxFailures: this.maxEmailFailures }];
+
+    if (ipAddress) {
+      scopes.push({ key: this.ipKey(ipAddress), maxFailures: this.maxIpFailures });
+    }
+
+    return scopes;
+  }
+
+  // Longest active lock among the email and IP counters, or null
+  async getLock(email: string, ipAddress?: string, now = new Date()): Promise<LoginLock | null> {
+    const throttles = await prisma.loginThrottle.findMany({
+      where: {
+        key: { in: this.scopes(email, ipAddress).map((scope) => scope.key) },
+        lockedUntil: { gt: now },
+      },
+    });
+
+    if (throttles.length === 0) {
+      return null;
+    }
+
+    // Every row matched lockedUntil > now, so none is null here
+    const lockedUntil = new Date(Math.max(...throttles.map((throttle: LoginThrottle) => (throttle.lockedUntil ?? now).getTime())));
+
+    return {
+      lockedUntil,
+      retryAfterSeconds: Math.ceil((lockedUntil.getTime() - now.getTime()) / 1000),
+    };
+  }
+
+  // Counts a failed attempt; locks (and audits against the targeted account, if any) when a threshold is hit
+  async recordFailure(
+    email: string,
+    context: SessionContext,
+    user?: { id: string; tenantId: string } | null
+  ): Promise<LoginLock | null> {
+    const now = new Date();
+    let lock: LoginLock | null = null;
+
+    for (const scope of this.scopes(email, context.ipAddress)) {
+      const existing = await prisma.loginThrottle.findUnique({ where: { key: scope.key } });
+
+      const withinWindow =
+        existing?.lastFailureAt && now.getTime() - existing.lastFailureAt.getTime() < FAILURE_WINDOW_MS;
+      const failures = (withinWindow ? existing.failures : 0) + 1;
+
+      if (failures < scope.maxFailures) {
+        await prisma.loginThrottle.upsert({
+          where: { key: scope.key },
+          create: { key: scope.key, failures, lastFailureAt: now },
+          update: { failures, lastFailureAt: now },
+        });
+        continue;
+      }
+
+      const lockCount = (existing?.lockCount || 0) + 1;
+      const lockedUntil = new Date(now.getTime() + this.lockoutDuration(lockCount));
+
+      await prisma.loginThrottle.upsert({
+        where: { key: scope.key },
+        create: { key: scope.key, failures: 0, lockCount, lockedUntil, lastFailureAt: now },
+        update: { failures: 0, lockCount, lockedUntil, lastFailureAt: now },
+      });
+
+      await this.logLockout(scope.key, lockCount, lockedUntil, context, user);
+
+      if (!lock || lockedUntil > lock.lockedUntil) {
+        lock = { lockedUntil, retryAfterSeconds: Math.ceil((lockedUntil.getTime() - now.getTime()) / 1000) };
+      }
+    }
+
+    return lock;
+  }
+
+  // A correct password clears the account's counter; the IP counter keeps decaying on its own
+  async recordSuccess(email: string) {
+    await prisma.loginThrottle.deleteMany({
+      where: { key: this.emailKey(email) },
+    });
+  }
+
+  // Wrong 2FA codes count against one login challenge; once it is used up the password step
+  // has to be repeated. Returns true when this failure used it up.
+  async recordChallengeFailure(challengeId: string, expiresAt: Date): Promise<boolean> {
+    const key = this.challengeKey(challengeId);
+    const existing = await prisma.loginThrottle.findUnique({ where: { key } });
+    const failures = (existing?.failures || 0) + 1;
+    const exhausted = failures >= this.maxChallengeFailures;
+
+    await prisma.loginThrottle.upsert({
+      where: { key },
+      create: { key, failures, lastFailureAt: new Date(), ...(exhausted && { lockedUntil: expiresAt }) },
+      update: { failures, lastFailureAt: new Date(), ...(exhausted && { lockedUntil: expiresAt }) },
+    });
+
+    return exhausted;
+  }
+
+  async isChallengeRevoked(challengeId: string): Promise<boolean> {
+    const throttle = await prisma.loginThrottle.findUnique({ where: { key: this.challengeKey(challengeId) } });
+    return Boolean(throttle?.lockedUntil);
+  }
+
+  // Manager unlock: clears the lock and the escalation history of the account
+  async unlock(email: string): Promise<boolean> {
+    const deleted = await prisma.loginThrottle.deleteMany({
+      where: { key: this.emailKey(email), lockedUntil: { gt: new Date() } },
+    });
+
+    return deleted.count > 0;
+  }
+
+  // Active account locks keyed by email, for the team listing
+  async getLockedAccounts(emails: string[]): Promise<Map<string, Date>> {
+    const throttles = await prisma.loginThrottle.findMany({
+      where: {
+        key: { in: emails.map((email) => this.emailKey(email)) },
+        lockedUntil: { gt: new Date() },
+      },
+    });
+
+    const locked = new Map<string, Date>();
+    for (const email of emails) {
+      const throttle = throttles.find((entry: LoginThrottle) => entry.key === this.emailKey(email));
+      if (throttle?.lockedUntil) {
+        locked.set(email, throttle.lockedUntil);
+      }
+    }
+
+    return locked;
+  }
+
+  // Alerts when the IP or the device matches none of the user's recent sessions.
+  // Must run before the new session is created; a first-ever login is never suspicious.
+  async checkNewDevice(
+    user: { id: string; tenantId: string; email: string; name: string },
+    context: SessionContext
+  ): Promise<boolean> {
+    const since = new Date(Date.now() - KNOWN_DEVICE_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+
+    const recent = await prisma.userSession.findMany({
+      where: { userId: user.id, createdAt: { gte: since } },
+      select: { ipAddress: true, device: true },
+      take: 50,
+      orderBy: { createdAt: 'desc' },
+    });
+
+    if (recent.length === 0) {
+      return false;
+    }
+
+    // Compare device labels rather than raw user agents so browser updates don't alert
+    const device = sessionService.describeDevice(context.userAgent);
+    const newIp = !recent.some((session: KnownSession) => session.ipAddress === context.ipAddress);
+    const newDevice = !recent.some((session: KnownSession) => session.device === device);
+
+    if (!newIp && !newDevice) {
+      return false;
+    }
+
+    await prisma.auditLog.create({
+      data: {
+        userId: user.id,
+        tenantId: user.tenantId,
+        tableName: 'user_sessions',
+        recordId: user.id,
+        operation: 'LOGIN_ALERT',
+        newData: { device, newIp, newDevice },
+        ipAddress: context.ipAddress,
+        userAgent: context.userAgent,
+      },
+    });
+
+    await mailService.send({
+      to: user.email,
+      subject: 'Novo acesso à sua conta',
+      text: [
+        `Olá, ${user.name}.`,
+        '',
+        'Detectamos um acesso à sua conta a partir de um dispositivo ou local não reconhecido:',
+        `Dispositivo: ${device}`,
+        `IP: ${context.ipAddress || 'desconhecido'}`,
+        `Data: ${new Date().toLocaleString('pt-BR')}`,
+        '',
+        'Se foi você, nenhuma ação é necessária. Caso contrário, troque sua senha e',
+        'encerre as sessões desconhecidas em Configurações > Segurança.',
+      ].join('\n'),
+    });
+
+    return true;
+  }
+
+  private async logLockout(
+    key: string,
+    lockCount: number,
+    lockedUntil: Date,
+    context: SessionContext,
+    user?: { id: string; tenantId: string } | null
+  ) {
+    const details = { key, lockCount, lockedUntil: lockedUntil.toISOString() };
+
+    // audit_logs needs an account; lockouts of unknown emails only reach the system log
+    if (!user) {
+      await prisma.systemLog.create({
+        data: {
+          level: 'warn',
+          message: 'security:login_lockout',
+          metadata: { ...details, ipAddress: context.ipAddress },
+        },
+      });
+      return;
+    }
+
+    await prisma.auditLog.create({
+      data: {
+        userId: user.id,
+        tenantId: user.tenantId,
+        tableName: 'login_throttles',
+        recordId: user.id,
+        operation: 'LOCKOUT',
+        newData: details,
+        ipAddress: context.ipAddress,
+        userAgent: context.userAgent,
+      },
+    });
+  }
+}
+
+export const loginProtectionService = new LoginProtectionService();
@@ -0,0 +1,34 @@
+import { describe, it, expect } from "vitest";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { FileMailTransport, MailService, MailTransport } from "./mailService";
+
+describe("MailService", () => {
+  it("should deliver through the configured transport with the sender filled in", async () => {
+    const sent: any[] = [];
+    const transport: MailTransport = { send: async (message) => { sent.push(message); } };
+    const service = new MailService();
+    service.useTransport(transport);
+
+    await service.send({ to: "ana@example.com", subject: "Oi", text: "Olá" });
+
+    expect(sent).toHaveLength(1);
+    expect(sent[0].to).toBe("ana@example.com");
+    expect(sent[0].from).toBeTruthy();
+  });
+
+  it("should write one JSON file per message to the outbox", async () => {
+    const outbox = await fs.mkdtemp(path.join(os.tmpdir(), "outbox-"));
+    const transport = new FileMailTransport(outbox);
+
+    await transport.send({ from: "no-reply@example.com", to: "ana@example.com", subject: "Oi", text: "Olá" });
+
+    const files = await fs.readdir(outbox);
+    expect(files).toHaveLength(1);
+    const stored = JSON.parse(await fs.readFile(path.join(outbox, files[0]), "utf8"));
+    expect(stored.subject).toBe("Oi");
+
+    await fs.rm(outbox, { recursive: true });
+  });
+});
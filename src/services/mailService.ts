@@ -0,0 +1,100 @@
+import fs from 'fs/promises';
+import path from 'path';
+import crypto from 'crypto';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailTransport {
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+// Development: one JSON file per message, easy to open or assert on
+export class FileMailTransport implements MailTransport {
+  constructor(private outboxDir: string) {}
+
+  async send(message: MailMessage & { from: string }) {
+    await fs.mkdir(this.outboxDir, { recursive: true });
+
+    const fileName = `${Date.now()}-${crypto.randomUUID()}.json`;
+    await fs.writeFile(
+      path.join(this.outboxDir, fileName),
+      JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2)
+    );
+  }
+}
+
+export class ConsoleMailTransport implements MailTransport {
+  async send(message: MailMessage & { from: string }) {
+    console.log(`📧 Mail to ${message.to}: ${message.subject}\n${message.text}`);
+  }
+}
+
+export class ResendMailTransport implements MailTransport {
+  constructor(private apiKey: string) {}
+
+  async send(message: MailMessage & { from: string }) {
+    const response = await fetch('https://api.resend.com/emails', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${this.apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        from: message.from,
+        to: [message.to],
+        subject: message.subject,
+        text: message.text,
+        html: message.html,
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Mail delivery failed: ${response.status} ${await response.text()}`);
+    }
+  }
+}
+
+function createDefaultTransport(): MailTransport {
+  const transport = process.env.MAIL_TRANSPORT
+    || (process.env.RESEND_API_KEY ? 'resend' : 'file');
+
+  switch (transport) {
+    case 'resend':
+      return new ResendMailTransport(process.env.RESEND_API_KEY || '');
+    case 'console':
+      return new ConsoleMailTransport();
+    case 'file':
+      return new FileMailTransport(process.env.MAIL_OUTBOX_DIR || '.mail-outbox');
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT: ${transport}`);
+  }
+}
+
+export class MailService {
+  private transport: MailTransport | null = null;
+  private from: string;
+
+  constructor() {
+    this.from = process.env.MAIL_FROM || 'LegalSaaS <no-reply@legalsaas.local>';
+  }
+
+  // Swap the transport (tests, custom providers); defaults are resolved lazily from env
+  useTransport(transport: MailTransport) {
+    this.transport = transport;
+  }
+
+  async send(message: MailMessage) {
+    if (!this.transport) {
+      this.transport = createDefaultTransport();
+    }
+
+    await this.transport.send({ ...message, from: this.from });
+  }
+}
+
+export const mailService = new MailService();
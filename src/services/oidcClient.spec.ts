@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import http from "http";
+import crypto from "crypto";
+import { AddressInfo } from "net";
+import jwt from "jsonwebtoken";
+import { OidcClient } from "./oidcClient";
+
+// Local provider: discovery, token endpoint checking PKCE, and JWKS
+const { privateKey, publicKey } = crypto.generateKeyPairSync("rsa", { modulusLength: 2048 });
+const jwk = { ...publicKey.export({ format: "jwk" }), kid: "test-key", use: "sig" };
+const grants = new Map<string, { codeChallenge: string; nonce: string }>();
+
+let issuer = "";
+let server: http.Server;
+
+function signIdToken(claims: Record<string, unknown>, audience = "legalsaas") {
+  return jwt.sign({ email: "ana@firm.com", email_verified: true, ...claims }, privateKey, {
+    algorithm: "RS256",
+    keyid: "test-key",
+    issuer,
+    audience,
+    subject: "user-1",
+    expiresIn: "5m",
+  });
+}
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    const json = (status: number, body: unknown) => {
+      res.writeHead(status, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(body));
+    };
+
+    if (req.url === "/.well-known/openid-configuration") {
+      return json(200, {
+        issuer,
+        authorization_endpoint: `${issuer}/authorize`,
+        token_endpoint: `${issuer}/token`,
+        jwks_uri: `${issuer}/jwks`,
+      });
+    }
+    if (req.url === "/jwks") {
+      return json(200, { keys: [jwk] });
+    }
+    if (req.url === "/token") {
+      let data = "";
+      req.on("data", (chunk) => (data += chunk));
+      req.on("end", () => {
+        const body = new URLSearchParams(data);
+        const grant = grants.get(body.get("code")!);
+        const challenge = crypto.createHash("sha256").update(body.get("code_verifier")!).digest("base64url");
+
+        if (!grant || grant.codeChallenge !== challenge) {
+          return json(400, { error: "invalid_grant" });
+        }
+        json(200, { id_token: signIdToken({ nonce: grant.nonce }) });
+      });
+      return;
+    }
+    json(404, {});
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  issuer = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => {
+  server.close();
+});
+
+describe("OidcClient", () => {
+  const client = new OidcClient();
+  const config = () => ({ issuer, clientId: "legalsaas" });
+
+  it("should build an authorization URL with PKCE from discovery", async () => {
+    const url = new URL(
+      await client.buildAuthorizationUrl(config(), {
+        redirectUri: "http://localhost:8080/login/sso",
+        state: "state-1",
+        nonce: "nonce-1",
+        codeChallenge: "challenge",
+        loginHint: "ana@firm.com",
+      })
+    );
+
+    expect(url.origin + url.pathname).toBe(`${issuer}/authorize`);
+    expect(url.searchParams.get("code_challenge_method")).toBe("S256");
+    expect(url.searchParams.get("scope")).toBe("openid email profile");
+    expect(url.searchParams.get("login_hint")).toBe("ana@firm.com");
+  });
+
+  it("should exchange a code with the matching verifier and return the verified claims", async () => {
+    const { codeVerifier, codeChallenge } = client.generatePkce();
+    grants.set("code-1", { codeChallenge, nonce: "nonce-1" });
+
+    const claims = await client.exchangeCode(config(), {
+      code: "code-1",
+      codeVerifier,
+      redirectUri: "http://localhost:8080/login/sso",
+      nonce: "nonce-1",
+    });
+
+    expect(claims.email).toBe("ana@firm.com");
+  });
+
+  it("should fail the exchange when the verifier does not match the challenge", async () => {
+    grants.set("code-2", { codeChallenge: client.generatePkce().codeChallenge, nonce: "nonce-1" });
+
+    await expect(
+      client.exchangeCode(config(), {
+        code: "code-2",
+        codeVerifier: client.generatePkce().codeVerifier,
+        redirectUri: "http://localhost:8080/login/sso",
+        nonce: "nonce-1",
+      })
+    ).rejects.toThrow("OIDC token exchange failed with status 400");
+  });
+
+  it("should reject ID tokens with a different nonce or audience", async () => {
+    await expect(client.verifyIdToken(config(), signIdToken({ nonce: "other" }), "nonce-1")).rejects.toThrow(
+      "ID token nonce mismatch"
+    );
+    await expect(
+      client.verifyIdToken(config(), signIdToken({ nonce: "nonce-1" }, "another-app"), "nonce-1")
+    ).rejects.toThrow("jwt audience invalid");
+  });
+});
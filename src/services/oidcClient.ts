@@ -0,0 +1,173 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+
+export interface OidcProviderMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+export interface OidcClientConfig {
+  issuer: string;
+  clientId: string;
+  clientSecret?: string | null;
+}
+
+export interface IdTokenClaims {
+  sub: string;
+  email?: string;
+  email_verified?: boolean;
+  name?: string;
+  nonce?: string;
+}
+
+const CACHE_TTL_MS = 60 * 60 * 1000;
+const SUPPORTED_ALGORITHMS: jwt.Algorithm[] = ['RS256', 'RS384', 'RS512', 'ES256', 'ES384', 'ES512', 'PS256'];
+
+function base64url(buffer: Buffer): string {
+  return buffer.toString('base64url');
+}
+
+// Minimal authorization-code + PKCE client (discovery, token exchange, ID token validation)
+export class OidcClient {
+  private metadataCache = new Map<string, { value: OidcProviderMetadata; expiresAt: number }>();
+  private jwksCache = new Map<string, { keys: any[]; expiresAt: number }>();
+
+  generatePkce() {
+    const codeVerifier = base64url(crypto.randomBytes(32));
+    const codeChallenge = base64url(crypto.createHash('sha256').update(codeVerifier).digest());
+
+    return { codeVerifier, codeChallenge };
+  }
+
+  async discover(issuer: string): Promise<OidcProviderMetadata> {
+    const cached = this.metadataCache.get(issuer);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.value;
+    }
+
+    const response = await fetch(`${issuer.replace(/\/$/, '')}/.well-known/openid-configuration`);
+    if (!response.ok) {
+      throw new Error(`OIDC discovery failed with status ${response.status}`);
+    }
+
+    const metadata = (await response.json()) as OidcProviderMetadata;
+
+    // Mix-up protection: the document must describe the issuer we asked for
+    if (metadata.issuer.replace(/\/$/, '') !== issuer.replace(/\/$/, '')) {
+      throw new Error('OIDC discovery returned a different issuer');
+    }
+
+    this.metadataCache.set(issuer, { value: metadata, expiresAt: Date.now() + CACHE_TTL_MS });
+    return metadata;
+  }
+
+  async buildAuthorizationUrl(
+    config: OidcClientConfig,
+    params: { redirectUri: string; state: string; nonce: string; codeChallenge: string; loginHint?: string }
+  ): Promise<string> {
+    const metadata = await this.discover(config.issuer);
+    const url = new URL(metadata.authorization_endpoint);
+
+    url.searchParams.set('response_type', 'code');
+    url.searchParams.set('client_id', config.clientId);
+    url.searchParams.set('redirect_uri', params.redirectUri);
+    url.searchParams.set('scope', 'openid email profile');
+    url.searchParams.set('state', params.state);
+    url.searchParams.set('nonce', params.nonce);
+    url.searchParams.set('code_challenge', params.codeChallenge);
+    url.searchParams.set('code_challenge_method', 'S256');
+    if (params.loginHint) {
+      url.searchParams.set('login_hint', params.loginHint);
+    }
+
+    return url.toString();
+  }
+
+  async exchangeCode(
+    config: OidcClientConfig,
+    params: { code: string; codeVerifier: string; redirectUri: string; nonce: string }
+  ): Promise<IdTokenClaims> {
+    const metadata = await this.discover(config.issuer);
+
+    const body = new URLSearchParams({
+      grant_type: 'authorization_code',
+      code: params.code,
+      redirect_uri: params.redirectUri,
+      code_verifier: params.codeVerifier,
+      client_id: config.clientId,
+    });
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/x-www-form-urlencoded' };
+    if (config.clientSecret) {
+      // client_secret_basic, the default token endpoint auth method
+      const credentials = `${encodeURIComponent(config.clientId)}:${encodeURIComponent(config.clientSecret)}`;
+      headers.Authorization = `Basic ${Buffer.from(credentials).toString('base64')}`;
+    }
+
+    const response = await fetch(metadata.token_endpoint, { method: 'POST', headers, body });
+    if (!response.ok) {
+      throw new Error(`OIDC token exchange failed with status ${response.status}`);
+    }
+
+    const tokens = (await response.json()) as { id_token?: string };
+    if (!tokens.id_token) {
+      throw new Error('OIDC provider did not return an ID token');
+    }
+
+    return this.verifyIdToken(config, tokens.id_token, params.nonce);
+  }
+
+  async verifyIdToken(config: OidcClientConfig, idToken: string, nonce: string): Promise<IdTokenClaims> {
+    const metadata = await this.discover(config.issuer);
+    const decoded = jwt.decode(idToken, { complete: true });
+
+    if (!decoded || typeof decoded.payload === 'string') {
+      throw new Error('Malformed ID token');
+    }
+
+    const jwk = await this.findSigningKey(metadata.jwks_uri, decoded.header.kid);
+    const claims = jwt.verify(idToken, crypto.createPublicKey({ key: jwk, format: 'jwk' }), {
+      algorithms: SUPPORTED_ALGORITHMS,
+      issuer: metadata.issuer,
+      audience: config.clientId,
+    }) as IdTokenClaims;
+
+    if (claims.nonce !== nonce) {
+      throw new Error('ID token nonce mismatch');
+    }
+
+    return claims;
+  }
+
+  private async findSigningKey(jwksUri: string, kid?: string) {
+    const pick = (keys: any[]) => keys.find((key) => key.use !== 'enc' && (!kid || key.kid === kid));
+
+    const cached = this.jwksCache.get(jwksUri);
+    if (cached && cached.expiresAt > Date.now()) {
+      const key = pick(cached.keys);
+      if (key) {
+        return key;
+      }
+    }
+
+    // Unknown kid: the provider may have rotated its keys, so refetch once
+    const response = await fetch(jwksUri);
+    if (!response.ok) {
+      throw new Error(`OIDC JWKS fetch failed with status ${response.status}`);
+    }
+
+    const { keys = [] } = (await response.json()) as { keys?: any[] };
+    this.jwksCache.set(jwksUri, { keys, expiresAt: Date.now() + CACHE_TTL_MS });
+
+    const key = pick(keys);
+    if (!key) {
+      throw new Error('No matching signing key for ID token');
+    }
+
+    return key;
+  }
+}
+
+export const oidcClient = new OidcClient();
@@ -0,0 +1,40 @@
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("../config/database", () => ({ prisma: {} }));
+
+import { PasswordPolicyService } from "./passwordPolicyService";
+import { DEFAULT_SECURITY_SETTINGS } from "./tenantSettingsService";
+
+const service = new PasswordPolicyService();
+
+const strictPolicy = {
+  ...DEFAULT_SECURITY_SETTINGS.passwordPolicy,
+  minLength: 10,
+  requireUppercase: true,
+  requireLowercase: true,
+  requireNumbers: true,
+  requireSpecialChars: true,
+};
+
+describe("PasswordPolicyService", () => {
+  it("should accept passwords meeting the default policy", () => {
+    expect(service.validate("longenough", DEFAULT_SECURITY_SETTINGS.passwordPolicy)).toEqual([]);
+  });
+
+  it("should report every violated rule", () => {
+    expect(service.validate("abc", strictPolicy)).toHaveLength(4);
+    expect(service.validate("Abcdefghi1!", strictPolicy)).toEqual([]);
+  });
+
+  it("should not expire passwords when expiryDays is unset", () => {
+    expect(service.isExpired(new Date(0), DEFAULT_SECURITY_SETTINGS.passwordPolicy)).toBe(false);
+  });
+
+  it("should expire passwords older than expiryDays", () => {
+    const policy = { ...strictPolicy, expiryDays: 30 };
+    const changedAt = new Date("2024-01-01T00:00:00Z");
+
+    expect(service.isExpired(changedAt, policy, new Date("2024-01-30T23:59:59Z"))).toBe(false);
+    expect(service.isExpired(changedAt, policy, new Date("2024-01-31T00:00:00Z"))).toBe(true);
+  });
+});
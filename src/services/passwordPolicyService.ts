@@ -0,0 +1,133 @@
+import bcrypt from 'bcrypt';
+import { prisma } from '../config/database';
+import { tenantSettingsService, DEFAULT_SECURITY_SETTINGS } from './tenantSettingsService';
+import { PasswordPolicyError, SecuritySettings } from '../types';
+
+type PasswordPolicy = SecuritySettings['passwordPolicy'];
+
+export class PasswordPolicyService {
+  async getPolicy(tenantId?: string | null): Promise<PasswordPolicy> {
+    if (!tenantId) {
+      return DEFAULT_SECURITY_SETTINGS.passwordPolicy;
+    }
+
+    const security = await tenantSettingsService.getSecuritySettings(tenantId);
+    return security.passwordPolicy;
+  }
+
+  validate(password: string, policy: PasswordPolicy): string[] {
+    const violations: string[] = [];
+
+    if (password.length < policy.minLength) {
+      violations.push(`Password must be at least ${policy.minLength} characters`);
+    }
+    if (policy.requireUppercase && !/[A-Z]/.test(password)) {
+      violations.push('Password must contain an uppercase letter');
+    }
+    if (policy.requireLowercase && !/[a-z]/.test(password)) {
+      violations.push('Password must contain a lowercase letter');
+    }
+    if (policy.requireNumbers && !/\d/.test(password)) {
+      violations.push('Password must contain a number');
+    }
+    if (policy.requireSpecialChars && !/[^A-Za-z0-9]/.test(password)) {
+      violations.push('Password must contain a special character');
+    }
+
+    return violations;
+  }
+
+  isExpired(passwordChangedAt: Date | null, policy: PasswordPolicy, now = new Date()): boolean {
+    if (!policy.expiryDays || !passwordChangedAt) {
+      return false;
+    }
+
+    const expiresAt = passwordChangedAt.getTime() + policy.expiryDays * 24 * 60 * 60 * 1000;
+    return now.getTime() >= expiresAt;
+  }
+
+  // Throws PasswordPolicyError with every violation, including reuse of recent passwords
+  async assertAllowed(password: string, tenantId?: string | null, userId?: string) {
+    const policy = await this.getPolicy(tenantId);
+    const violations = this.validate(password, policy);
+
+    if (userId && policy.historyCount > 0) {
+      const reused = await this.wasRecentlyUsed(userId, password, policy.historyCount);
+      if (reused) {
+        violations.push(`Password cannot match any of your last ${policy.historyCount} passwords`);
+      }
+    }
+
+    if (violations.length > 0) {
+      throw new PasswordPolicyError(violations);
+    }
+  }
+
+  async wasRecentlyUsed(userId: string, password: string, historyCount: number): Promise<boolean> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { password: true },
+    });
+
+    if (user && await bcrypt.compare(password, user.password)) {
+      return true;
+    }
+
+    const history = await prisma.passwordHistory.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+      take: historyCount,
+    });
+
+    for (const entry of history) {
+      if (await bcrypt.compare(password, entry.passwordHash)) {
+        return true;
+      }
+    }
+
+    return false;
+  }
+
+  // Stores the new hash, archives the old one and clears any forced rotation
+  async changePassword(userId: string, newPasswordHash: string) {
+    const user = await prisma.user.findUniqueOrThrow({
+      where: { id: userId },
+      select: { password: true },
+    });
+
+    await prisma.$transaction([
+      prisma.passwordHistory.create({
+        data: { userId, passwordHash: user.password },
+      }),
+      prisma.user.update({
+        where: { id: userId },
+        data: {
+          password: newPasswordHash,
+          passwordChangedAt: new Date(),
+          mustChangePassword: false,
+        },
+      }),
+    ]);
+  }
+
+  // Flips mustChangePassword once the tenant's expiryDays has elapsed
+  async flagIfExpired(user: { id: string; tenantId: string; passwordChangedAt: Date | null; mustChangePassword: boolean }) {
+    if (user.mustChangePassword) {
+      return true;
+    }
+
+    const policy = await this.getPolicy(user.tenantId);
+    if (!this.isExpired(user.passwordChangedAt, policy)) {
+      return false;
+    }
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { mustChangePassword: true },
+    });
+
+    return true;
+  }
+}
+
+export const passwordPolicyService = new PasswordPolicyService();
@@ -0,0 +1,103 @@
+import crypto from 'crypto';
+import { prisma } from '../config/database';
+import { authService } from '../middleware/auth';
+import { mailService } from './mailService';
+import { passwordPolicyService } from './passwordPolicyService';
+
+export interface ResetRequestContext {
+  ipAddress?: string;
+}
+
+export class PasswordResetService {
+  private tokenTtlMinutes: number;
+  private frontendUrl: string;
+
+  constructor() {
+    this.tokenTtlMinutes = Number(process.env.PASSWORD_RESET_TTL_MINUTES) || 60;
+    this.frontendUrl = process.env.FRONTEND_URL || 'http://localhost:8080';
+  }
+
+  hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  // Silently does nothing for unknown or inactive accounts so callers can't probe emails
+  async requestReset(email: string, context: ResetRequestContext = {}) {
+    const user = await prisma.user.findUnique({
+      where: { email },
+      include: { tenant: true },
+    });
+
+    if (!user || !user.isActive || !user.tenant.isActive) {
+      return;
+    }
+
+    const token = crypto.randomBytes(32).toString('base64url');
+    const now = new Date();
+
+    // Only the latest emailed link stays valid
+    await prisma.$transaction([
+      prisma.passwordResetToken.updateMany({
+        where: { userId: user.id, usedAt: null },
+        data: { usedAt: now },
+      }),
+      prisma.passwordResetToken.create({
+        data: {
+          userId: user.id,
+          tokenHash: this.hashToken(token),
+          expiresAt: new Date(now.getTime() + this.tokenTtlMinutes * 60 * 1000),
+          ipAddress: context.ipAddress,
+        },
+      }),
+    ]);
+
+    const resetUrl = `${this.frontendUrl}/redefinir-senha?token=${token}`;
+
+    await mailService.send({
+      to: user.email,
+      subject: 'Redefinição de senha',
+      text: [
+        `Olá, ${user.name}.`,
+        '',
+        'Recebemos uma solicitação para redefinir a sua senha. Acesse o link abaixo:',
+        resetUrl,
+        '',
+        `O link expira em ${this.tokenTtlMinutes} minutos e só pode ser usado uma vez.`,
+        'Se você não fez esta solicitação, ignore este email.',
+      ].join('\n'),
+    });
+  }
+
+  async resetPassword(token: string, newPassword: string) {
+    const record = await prisma.passwordResetToken.findUnique({
+      where: { tokenHash: this.hashToken(token) },
+      include: { user: true },
+    });
+
+    if (!record || record.usedAt || record.expiresAt <= new Date()) {
+      throw new Error('Invalid or expired reset token');
+    }
+
+    // Validate before consuming so a rejected password doesn't burn the link
+    await passwordPolicyService.assertAllowed(newPassword, record.user.tenantId, record.userId);
+
+    const claimed = await prisma.passwordResetToken.updateMany({
+      where: { id: record.id, usedAt: null },
+      data: { usedAt: new Date() },
+    });
+
+    if (claimed.count === 0) {
+      throw new Error('Invalid or expired reset token');
+    }
+
+    await passwordPolicyService.changePassword(
+      record.userId,
+      await authService.hashPassword(newPassword)
+    );
+
+    // Whoever held the old password loses every session
+    await authService.revokeAllTokens(record.userId);
+  }
+}
+
+export const passwordResetService = new PasswordResetService();
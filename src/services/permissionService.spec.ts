@@ -0,0 +1,44 @@
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("../config/database", () => ({ prisma: {} }));
+
+import { PermissionService, SYSTEM_ROLES } from "./permissionService";
+
+const service = new PermissionService();
+
+describe("PermissionService", () => {
+  it("should keep the account-type gates of the system roles", () => {
+    expect(service.hasPermission(SYSTEM_ROLES.SIMPLES.permissions, "clients", "write")).toBe(true);
+    expect(service.hasPermission(SYSTEM_ROLES.SIMPLES.permissions, "invoices", "read")).toBe(false);
+    expect(service.hasPermission(SYSTEM_ROLES.COMPOSTA.permissions, "transactions", "delete")).toBe(true);
+    expect(service.hasPermission(SYSTEM_ROLES.COMPOSTA.permissions, "settings", "admin")).toBe(false);
+    expect(service.hasPermission(SYSTEM_ROLES.GERENCIAL.permissions, "users", "admin")).toBe(true);
+  });
+
+  it("should let admin and write imply narrower actions", () => {
+    const permissions = [
+      { module: "invoices" as const, action: "write" as const, granted: true },
+      { module: "tasks" as const, action: "admin" as const, granted: true },
+    ];
+
+    expect(service.hasPermission(permissions, "invoices", "read")).toBe(true);
+    expect(service.hasPermission(permissions, "invoices", "delete")).toBe(false);
+    expect(service.hasPermission(permissions, "tasks", "delete")).toBe(true);
+  });
+
+  it("should ignore permissions that are not granted", () => {
+    const permissions = [{ module: "clients" as const, action: "admin" as const, granted: false }];
+
+    expect(service.hasPermission(permissions, "clients", "read")).toBe(false);
+  });
+
+  it("should drop unknown and duplicated permissions", () => {
+    const normalized = service.normalizePermissions([
+      { module: "clients", action: "read", granted: true },
+      { module: "clients", action: "read", granted: true },
+      { module: "unknown" as any, action: "read", granted: true },
+    ]);
+
+    expect(normalized).toHaveLength(1);
+  });
+});
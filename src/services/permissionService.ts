@@ -0,0 +1,204 @@
+import { AccountType } from '@prisma/client';
+import { prisma } from '../config/database';
+import { Permission, PermissionAction, PermissionModule, Role } from '../types';
+
+export const PERMISSION_MODULES: PermissionModule[] = [
+  'dashboard',
+  'clients',
+  'projects',
+  'tasks',
+  'invoices',
+  'transactions',
+  'settings',
+  'users',
+];
+
+export const PERMISSION_ACTIONS: PermissionAction[] = ['read', 'write', 'delete', 'admin'];
+
+// Granting any of these also satisfies the key action
+const IMPLIED_BY: Record<PermissionAction, PermissionAction[]> = {
+  read: ['read', 'write', 'delete', 'admin'],
+  write: ['write', 'admin'],
+  delete: ['delete', 'admin'],
+  admin: ['admin'],
+};
+
+const grant = (module: PermissionModule, action: PermissionAction = 'admin'): Permission => ({
+  module,
+  action,
+  granted: true,
+});
+
+const SYSTEM_ROLE_TIMESTAMP = '2024-01-01T00:00:00Z';
+
+// Built-in roles mirroring the three account types; users without a custom role get these
+export const SYSTEM_ROLES: Record<AccountType, Role> = {
+  SIMPLES: {
+    id: 'system:SIMPLES',
+    name: 'Conta Simples',
+    description: 'Acesso ao CRM e áreas básicas do sistema',
+    permissions: [
+      grant('dashboard', 'read'),
+      grant('clients'),
+      grant('projects'),
+      grant('tasks'),
+      grant('settings', 'read'),
+    ],
+    isSystem: true,
+    createdAt: SYSTEM_ROLE_TIMESTAMP,
+    updatedAt: SYSTEM_ROLE_TIMESTAMP,
+  },
+  COMPOSTA: {
+    id: 'system:COMPOSTA',
+    name: 'Conta Composta',
+    description: 'Acesso ao CRM + Cobrança e Fluxo de Caixa',
+    permissions: [
+      grant('dashboard', 'read'),
+      grant('clients'),
+      grant('projects'),
+      grant('tasks'),
+      grant('invoices'),
+      grant('transactions'),
+      grant('settings', 'read'),
+    ],
+    isSystem: true,
+    createdAt: SYSTEM_ROLE_TIMESTAMP,
+    updatedAt: SYSTEM_ROLE_TIMESTAMP,
+  },
+  GERENCIAL: {
+    id: 'system:GERENCIAL',
+    name: 'Conta Gerencial',
+    description: 'Acesso completo + Controle de colaboradores',
+    permissions: PERMISSION_MODULES.map((module) => grant(module)),
+    isSystem: true,
+    createdAt: SYSTEM_ROLE_TIMESTAMP,
+    updatedAt: SYSTEM_ROLE_TIMESTAMP,
+  },
+};
+
+export interface PermissionSubject {
+  accountType: AccountType;
+  tenantId: string;
+  roleId?: string | null;
+}
+
+function toRole(record: any): Role {
+  return {
+    id: record.id,
+    name: record.name,
+    description: record.description || '',
+    permissions: (record.permissions as Permission[]) || [],
+    isSystem: false,
+    createdAt: record.createdAt.toISOString(),
+    updatedAt: record.updatedAt.toISOString(),
+  };
+}
+
+export class PermissionService {
+  hasPermission(permissions: Permission[], module: PermissionModule, action: PermissionAction): boolean {
+    return permissions.some(
+      (permission) =>
+        permission.granted &&
+        permission.module === module &&
+        IMPLIED_BY[action].includes(permission.action)
+    );
+  }
+
+  // Custom tenant role when assigned, otherwise the system role of the account type
+  async getRole(subject: PermissionSubject): Promise<Role> {
+    if (subject.roleId) {
+      const record = await prisma.role.findFirst({
+        where: { id: subject.roleId, tenantId: subject.tenantId },
+      });
+
+      if (record) {
+        return toRole(record);
+      }
+    }
+
+    return SYSTEM_ROLES[subject.accountType];
+  }
+
+  async getPermissions(subject: PermissionSubject): Promise<Permission[]> {
+    const role = await this.getRole(subject);
+    return role.permissions;
+  }
+
+  async can(subject: PermissionSubject, module: PermissionModule, action: PermissionAction): Promise<boolean> {
+    return this.hasPermission(await this.getPermissions(subject), module, action);
+  }
+
+  async listRoles(tenantId: string): Promise<Role[]> {
+    const records = await prisma.role.findMany({
+      where: { tenantId },
+      orderBy: { name: 'asc' },
+    });
+
+    return [...Object.values(SYSTEM_ROLES), ...records.map(toRole)];
+  }
+
+  // Drops unknown modules/actions and duplicates coming from the client
+  normalizePermissions(permissions: Permission[]): Permission[] {
+    const seen = new Set<string>();
+
+    return permissions.filter((permission) => {
+      const key = `${permission.module}:${permission.action}`;
+      const valid =
+        PERMISSION_MODULES.includes(permission.module) &&
+        PERMISSION_ACTIONS.includes(permission.action) &&
+        !seen.has(key);
+
+      seen.add(key);
+      return valid;
+    });
+  }
+
+  async createRole(tenantId: string, data: { name: string; description?: string; permissions: Permission[] }) {
+    const record = await prisma.role.create({
+      data: {
+        tenantId,
+        name: data.name,
+        description: data.description,
+        permissions: this.normalizePermissions(data.permissions) as any,
+      },
+    });
+
+    return toRole(record);
+  }
+
+  async updateRole(
+    tenantId: string,
+    roleId: string,
+    data: { name?: string; description?: string; permissions?: Permission[] }
+  ): Promise<Role | null> {
+    const existing = await prisma.role.findFirst({
+      where: { id: roleId, tenantId },
+    });
+
+    if (!existing) {
+      return null;
+    }
+
+    const record = await prisma.role.update({
+      where: { id: roleId },
+      data: {
+        ...(data.name && { name: data.name }),
+        ...(data.description !== undefined && { description: data.description }),
+        ...(data.permissions && { permissions: this.normalizePermissions(data.permissions) as any }),
+      },
+    });
+
+    return toRole(record);
+  }
+
+  // Users holding the role fall back to their account type's system role (FK is ON DELETE SET NULL)
+  async deleteRole(tenantId: string, roleId: string): Promise<boolean> {
+    const deleted = await prisma.role.deleteMany({
+      where: { id: roleId, tenantId },
+    });
+
+    return deleted.count > 0;
+  }
+}
+
+export const permissionService = new PermissionService();
@@ -0,0 +1,112 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const { prisma, tenantDb } = vi.hoisted(() => ({
+  prisma: {
+    tenant: { findUnique: vi.fn(), findUniqueOrThrow: vi.fn() },
+    user: { count: vi.fn() },
+    teamInvite: { count: vi.fn() },
+  },
+  tenantDb: {
+    count: vi.fn(),
+    query: vi.fn(),
+  },
+}));
+
+vi.mock("../config/database", () => ({
+  prisma,
+  TenantDatabase: vi.fn(() => tenantDb),
+}));
+vi.mock("./mailService", () => ({ mailService: { send: vi.fn() } }));
+
+import { PlanService } from "./planService";
+import { UpgradeRequiredError } from "../types";
+
+const service = new PlanService();
+
+function useTenant(planType: string, maxUsers = 5, maxStorage = 1073741824) {
+  prisma.tenant.findUnique.mockImplementation(async ({ select }: any) =>
+    select.planType
+      ? { planType, maxUsers, maxStorage: BigInt(maxStorage) }
+      : { storageUsed: BigInt(2048), maxStorage: BigInt(maxStorage) }
+  );
+  prisma.tenant.findUniqueOrThrow.mockResolvedValue({ maxUsers });
+}
+
+describe("PlanService", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    useTenant("basic");
+    prisma.user.count.mockResolvedValue(2);
+    prisma.teamInvite.count.mockResolvedValue(1);
+    tenantDb.count.mockResolvedValue(0);
+    tenantDb.query.mockResolvedValue([{ count: 0 }]);
+  });
+
+  it("should name the cheapest plan that unlocks a missing feature", async () => {
+    const error = await service.assertFeature("tenant-1", "client_portal").catch((e) => e);
+
+    expect(error).toBeInstanceOf(UpgradeRequiredError);
+    expect(error).toMatchObject({ statusCode: 403, code: "PLAN_002", feature: "client_portal", plan: "basic", requiredPlan: "premium" });
+
+    useTenant("premium");
+    await expect(service.assertFeature("tenant-1", "client_portal")).resolves.toBeUndefined();
+  });
+
+  it("should stop invoices once the month's allowance is used, but not on unlimited plans", async () => {
+    tenantDb.count.mockResolvedValue(50);
+
+    await expect(service.assertWithinLimit("tenant-1", "monthlyInvoices", tenantDb as any)).rejects.toMatchObject({
+      code: "PLAN_001",
+      limit: 50,
+      used: 50,
+    });
+    // Counted behind a lock on the tenant row, so concurrent requests cannot both take the last one
+    expect(tenantDb.query).toHaveBeenCalledWith("SELECT id FROM public.tenants WHERE id = $1 FOR UPDATE", ["tenant-1"]);
+    expect(tenantDb.query.mock.invocationCallOrder[0]).toBeLessThan(tenantDb.count.mock.invocationCallOrder[0]);
+
+    useTenant("enterprise");
+    await expect(service.assertWithinLimit("tenant-1", "monthlyInvoices", tenantDb as any)).resolves.toBeUndefined();
+    expect(tenantDb.count).toHaveBeenCalledTimes(1);
+  });
+
+  it("should count monitored OAB numbers against the plan", async () => {
+    useTenant("premium");
+    tenantDb.query.mockResolvedValue([{ count: 5 }]);
+
+    await expect(service.assertWithinLimit("tenant-1", "monitoredPublications", tenantDb as any)).rejects.toMatchObject({
+      code: "PLAN_001",
+      limit: 5,
+      used: 5,
+    });
+
+    useTenant("basic");
+    tenantDb.query.mockResolvedValue([{ count: 0 }]);
+    await expect(service.assertWithinLimit("tenant-1", "monitoredPublications", tenantDb as any)).rejects.toMatchObject({ limit: 0 });
+  });
+
+  it("should report usage against the tenant's own seat and storage limits", async () => {
+    useTenant("premium", 20);
+    tenantDb.count.mockResolvedValue(12);
+    tenantDb.query.mockResolvedValue([{ count: 3 }]);
+
+    const plan = await service.getUsage("tenant-1", new Date(2025, 8, 17));
+
+    expect(tenantDb.count).toHaveBeenCalledWith("invoices", { created_at: { gte: new Date(2025, 8, 1) } });
+    expect(plan).toEqual({
+      plan: { type: "premium", name: "Premium" },
+      features: ["publications", "client_portal"],
+      usage: {
+        users: { used: 3, limit: 20 },
+        storage: { used: 2048, limit: 1073741824 },
+        monthlyInvoices: { used: 12, limit: 500 },
+        monitoredPublications: { used: 3, limit: 5 },
+      },
+    });
+  });
+
+  it("should treat unknown plan names as basic", async () => {
+    useTenant("legacy-gold");
+
+    await expect(service.getTenantPlan("tenant-1")).resolves.toMatchObject({ type: "basic", features: [] });
+  });
+});
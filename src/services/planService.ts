@@ -0,0 +1,141 @@
+import { prisma, TenantDatabase } from '../config/database';
+import { getPlan, PlanDefinition, PlanFeature, PlanLimit, PlanType, PLANS, planWithFeature } from '../config/plans';
+import { AppError, PlanLimitError, UpgradeRequiredError } from '../types';
+import { teamInviteService } from './teamInviteService';
+import { attachmentService } from './attachmentService';
+
+export interface LimitUsage {
+  used: number;
+  limit: number | null; // null = unlimited
+}
+
+export interface PlanUsage {
+  plan: { type: PlanType; name: string };
+  features: PlanFeature[];
+  usage: Record<PlanLimit, LimitUsage>;
+}
+
+const FEATURE_NAMES: Record<PlanFeature, string> = {
+  receivables_automation: 'Receivables automation',
+  publications: 'Publication monitoring',
+  client_portal: 'Client portal',
+};
+
+// Counted limits the catalogue owns; users and storage live on the tenant row
+type CountedLimit = 'monthlyInvoices' | 'monitoredPublications';
+
+const LIMIT_MESSAGES: Record<CountedLimit, (limit: number) => string> = {
+  monthlyInvoices: (limit) => `Your plan allows ${limit} invoices per month and this month's are used up. Upgrade the plan to create more.`,
+  monitoredPublications: (limit) => `Your plan monitors publications for ${limit} OAB numbers. Upgrade the plan to monitor more.`,
+};
+
+function startOfMonth(now: Date) {
+  return new Date(now.getFullYear(), now.getMonth(), 1);
+}
+
+export class PlanService {
+  async getTenantPlan(tenantId: string): Promise<PlanDefinition> {
+    const tenant = await prisma.tenant.findUnique({
+      where: { id: tenantId },
+      select: { planType: true, maxUsers: true, maxStorage: true },
+    });
+    if (!tenant) {
+      throw new AppError('Tenant not found', 404, 'TENANT_001');
+    }
+
+    const plan = getPlan(tenant.planType);
+    return {
+      ...plan,
+      limits: { ...plan.limits, users: tenant.maxUsers, storage: Number(tenant.maxStorage) },
+    };
+  }
+
+  async hasFeature(tenantId: string, feature: PlanFeature) {
+    return (await this.getTenantPlan(tenantId)).features.includes(feature);
+  }
+
+  async assertFeature(tenantId: string, feature: PlanFeature) {
+    const plan = await this.getTenantPlan(tenantId);
+    if (plan.features.includes(feature)) {
+      return;
+    }
+
+    const required = planWithFeature(feature);
+    throw new UpgradeRequiredError(
+      `${FEATURE_NAMES[feature]} is not included in the ${plan.name} plan.` +
+        (required ? ` Upgrade to ${required.name} to use it.` : ''),
+      feature,
+      plan.type,
+      required?.type
+    );
+  }
+
+  // Run it inside the tenant transaction that inserts the rows. The tenant row stays locked
+  // until that transaction ends, so concurrent requests take turns and each one counts the
+  // rows the previous ones committed.
+  async assertWithinLimit(tenantId: string, limit: CountedLimit, tx: TenantDatabase, adding = 1) {
+    const plan = await this.getTenantPlan(tenantId);
+    const max = plan.limits[limit];
+    if (max === null) {
+      return;
+    }
+
+    await tx.query('SELECT id FROM public.tenants WHERE id = $1 FOR UPDATE', [tenantId]);
+    const used = await this.countUsage(tx, limit);
+    if (used + adding > max) {
+      throw new PlanLimitError(LIMIT_MESSAGES[limit](max), max, used);
+    }
+  }
+
+  async getUsage(tenantId: string, now = new Date()): Promise<PlanUsage> {
+    const plan = await this.getTenantPlan(tenantId);
+    const tenantDb = new TenantDatabase(tenantId);
+    const [seats, storage, monthlyInvoices, monitoredPublications] = await Promise.all([
+      teamInviteService.getSeatUsage(tenantId),
+      attachmentService.getUsage(tenantId),
+      this.countUsage(tenantDb, 'monthlyInvoices', now),
+      this.countUsage(tenantDb, 'monitoredPublications', now),
+    ]);
+
+    return {
+      plan: { type: plan.type, name: plan.name },
+      features: plan.features,
+      usage: {
+        users: { used: seats.used, limit: seats.limit },
+        storage: { used: storage.used, limit: storage.limit },
+        monthlyInvoices: { used: monthlyInvoices, limit: plan.limits.monthlyInvoices },
+        monitoredPublications: { used: monitoredPublications, limit: plan.limits.monitoredPublications },
+      },
+    };
+  }
+
+  // Moves the tenant to another plan; seats and storage reset to the plan's unless overridden
+  async changePlan(tenantId: string, planType: PlanType, overrides: { maxUsers?: number; maxStorage?: number } = {}) {
+    const plan = PLANS[planType];
+
+    return prisma.tenant.update({
+      where: { id: tenantId },
+      data: {
+        planType,
+        maxUsers: overrides.maxUsers ?? plan.limits.users ?? 0,
+        maxStorage: BigInt(overrides.maxStorage ?? plan.limits.storage ?? 0),
+      },
+    });
+  }
+
+  private async countUsage(tenantDb: TenantDatabase, limit: CountedLimit, now = new Date()) {
+    switch (limit) {
+      case 'monthlyInvoices':
+        // Deleted invoices still count: the quota is for invoices issued this month
+        return tenantDb.count('invoices', { created_at: { gte: startOfMonth(now) } });
+      case 'monitoredPublications': {
+        const rows = await tenantDb.query(
+          'SELECT COUNT(DISTINCT oab_number)::int AS count FROM ${schema}.publications WHERE oab_number IS NOT NULL'
+        );
+        return Number(rows[0]?.count || 0);
+      }
+    }
+  }
+}
+
+export const planService = new PlanService();
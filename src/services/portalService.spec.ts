@@ -0,0 +1,55 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const { prisma, tenantDb } = vi.hoisted(() => ({
+  prisma: {
+    portalShare: { findMany: vi.fn() },
+  },
+  tenantDb: { query: vi.fn() },
+}));
+
+vi.mock("../config/database", () => ({ prisma }));
+vi.mock("./tenantService", () => ({
+  tenantService: { getTenantDatabase: vi.fn(async () => tenantDb) },
+}));
+vi.mock("./mailService", () => ({ mailService: { send: vi.fn() } }));
+vi.mock("../middleware/portalAuth", () => ({ portalAuthService: {} }));
+
+import { PortalService } from "./portalService";
+
+const service = new PortalService();
+const subject = { accountId: "account-1", tenantId: "tenant-1", clientId: "client-1" };
+
+describe("PortalService", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    tenantDb.query.mockResolvedValue([]);
+  });
+
+  it("should filter invoices by the portal client and hide drafts", async () => {
+    await service.listInvoices(subject);
+
+    const [sql, params] = tenantDb.query.mock.calls[0];
+    expect(sql).toContain("client_id = $1");
+    expect(params).toEqual(["client-1", ["draft"]]);
+  });
+
+  it("should not return an invoice of another client", async () => {
+    expect(await service.getInvoice(subject, "invoice-9")).toBeNull();
+
+    const [sql, params] = tenantDb.query.mock.calls[0];
+    expect(sql).toContain("client_id = $2");
+    expect(params.slice(0, 2)).toEqual(["invoice-9", "client-1"]);
+  });
+
+  it("should only expose publications explicitly shared with the client", async () => {
+    prisma.portalShare.findMany.mockResolvedValue([]);
+
+    expect(await service.listPublications(subject)).toEqual([]);
+    expect(prisma.portalShare.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { tenantId: "tenant-1", clientId: "client-1", resourceType: "publication" },
+      })
+    );
+    expect(tenantDb.query).not.toHaveBeenCalled();
+  });
+});
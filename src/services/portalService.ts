@@ -0,0 +1,290 @@
+import crypto from 'crypto';
+import { prisma } from '../config/database';
+import { tenantService } from './tenantService';
+import { mailService } from './mailService';
+import { passwordPolicyService } from './passwordPolicyService';
+import { portalAuthService } from '../middleware/portalAuth';
+
+export type PortalShareType = 'publication';
+
+export interface PortalSubject {
+  accountId: string;
+  tenantId: string;
+  clientId: string;
+}
+
+export interface PortalAccessContext {
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+// Invoices still being drafted are internal to the firm
+const HIDDEN_INVOICE_STATUSES = ['draft'];
+
+const ACCOUNT_FIELDS = {
+  id: true,
+  clientId: true,
+  email: true,
+  name: true,
+  isActive: true,
+  lastLogin: true,
+  inviteExpiresAt: true,
+  passwordHash: true,
+  createdAt: true,
+};
+
+export class PortalService {
+  private inviteTtlHours: number;
+  private frontendUrl: string;
+
+  constructor() {
+    this.inviteTtlHours = Number(process.env.PORTAL_INVITE_TTL_HOURS) || 72;
+    this.frontendUrl = process.env.FRONTEND_URL || 'http://localhost:8080';
+  }
+
+  hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  private async findClient(tenantId: string, clientId: string) {
+    const tenantDb = await tenantService.getTenantDatabase(tenantId);
+    const rows = await tenantDb.query(
+      'SELECT id, name, email FROM ${schema}.clients WHERE id = $1 AND is_active = true',
+      [clientId]
+    );
+
+    return rows[0] || null;
+  }
+
+  // Never exposes the password hash; tells the firm whether the invitation was accepted
+  private toAccess(account: any) {
+    if (!account) {
+      return null;
+    }
+
+    const { passwordHash, ...rest } = account;
+    return { ...rest, activated: !!passwordHash };
+  }
+
+  async getAccess(tenantId: string, clientId: string) {
+    const [account, shares] = await Promise.all([
+      prisma.portalAccount.findUnique({
+        where: { tenantId_clientId: { tenantId, clientId } },
+        select: ACCOUNT_FIELDS,
+      }),
+      prisma.portalShare.findMany({
+        where: { tenantId, clientId },
+        orderBy: { createdAt: 'desc' },
+      }),
+    ]);
+
+    return { account: this.toAccess(account), shares };
+  }
+
+  // Creates the account (or re-enables it) and emails a fresh invitation link
+  async invite(tenantId: string, clientId: string, email: string, invitedBy: string) {
+    const client = await this.findClient(tenantId, clientId);
+
+    if (!client) {
+      throw new Error('Client not found');
+    }
+
+    // Portal emails are unique across tenants; the message must not tell that another firm uses it
+    const taken = await prisma.portalAccount.findUnique({ where: { email } });
+    if (taken && (taken.tenantId !== tenantId || taken.clientId !== clientId)) {
+      throw new Error('This email cannot be used for portal access, use a different one');
+    }
+
+    const token = crypto.randomBytes(32).toString('base64url');
+    const invite = {
+      email,
+      name: client.name,
+      inviteTokenHash: this.hashToken(token),
+      inviteExpiresAt: new Date(Date.now() + this.inviteTtlHours * 60 * 60 * 1000),
+      isActive: true,
+    };
+
+    const account = await prisma.portalAccount.upsert({
+      where: { tenantId_clientId: { tenantId, clientId } },
+      create: { tenantId, clientId, createdBy: invitedBy, ...invite },
+      update: invite,
+      select: ACCOUNT_FIELDS,
+    });
+
+    await mailService.send({
+      to: email,
+      subject: 'Acesso ao portal do cliente',
+      text: [
+        `Olá, ${client.name}.`,
+        '',
+        'Seu escritório liberou o acesso ao portal do cliente, onde você acompanha',
+        'faturas, processos e publicações compartilhadas. Defina sua senha no link abaixo:',
+        `${this.frontendUrl}/portal/ativar?token=${token}`,
+        '',
+        `O link expira em ${this.inviteTtlHours} horas.`,
+      ].join('\n'),
+    });
+
+    return this.toAccess(account);
+  }
+
+  async disable(tenantId: string, clientId: string): Promise<boolean> {
+    const updated = await prisma.portalAccount.updateMany({
+      where: { tenantId, clientId, isActive: true },
+      data: { isActive: false, inviteTokenHash: null },
+    });
+
+    return updated.count > 0;
+  }
+
+  async activate(token: string, password: string) {
+    const account = await prisma.portalAccount.findUnique({
+      where: { inviteTokenHash: this.hashToken(token) },
+    });
+
+    if (!account || !account.isActive || !account.inviteExpiresAt || account.inviteExpiresAt <= new Date()) {
+      throw new Error('Invalid or expired invitation');
+    }
+
+    // Portal passwords follow the firm's policy
+    await passwordPolicyService.assertAllowed(password, account.tenantId);
+
+    return prisma.portalAccount.update({
+      where: { id: account.id },
+      data: {
+        passwordHash: await portalAuthService.hashPassword(password),
+        inviteTokenHash: null,
+        inviteExpiresAt: null,
+      },
+    });
+  }
+
+  // Returns the account for valid credentials, null otherwise
+  async authenticate(email: string, password: string) {
+    const account = await prisma.portalAccount.findUnique({
+      where: { email },
+      include: { tenant: true },
+    });
+
+    if (!account || !account.isActive || !account.passwordHash || !account.tenant.isActive) {
+      return null;
+    }
+
+    if (!(await portalAuthService.verifyPassword(password, account.passwordHash))) {
+      return null;
+    }
+
+    await prisma.portalAccount.update({
+      where: { id: account.id },
+      data: { lastLogin: new Date() },
+    });
+
+    return account;
+  }
+
+  async share(tenantId: string, clientId: string, resourceType: PortalShareType, resourceId: string, sharedBy: string) {
+    const tenantDb = await tenantService.getTenantDatabase(tenantId);
+    const rows = await tenantDb.query('SELECT id FROM ${schema}.publications WHERE id = $1', [resourceId]);
+
+    if (rows.length === 0) {
+      throw new Error('Publication not found');
+    }
+
+    return prisma.portalShare.upsert({
+      where: { tenantId_clientId_resourceType_resourceId: { tenantId, clientId, resourceType, resourceId } },
+      create: { tenantId, clientId, resourceType, resourceId, sharedBy },
+      update: {},
+    });
+  }
+
+  async unshare(tenantId: string, clientId: string, shareId: string): Promise<boolean> {
+    const deleted = await prisma.portalShare.deleteMany({
+      where: { id: shareId, tenantId, clientId },
+    });
+
+    return deleted.count > 0;
+  }
+
+  // Every portal query below is filtered by the subject's client_id
+
+  async listInvoices(subject: PortalSubject) {
+    const tenantDb = await tenantService.getTenantDatabase(subject.tenantId);
+
+    return tenantDb.query(`
+      SELECT id, number, title, description, amount, currency, status, due_date, paid_at, items, created_at
+      FROM \${schema}.invoices
+      WHERE client_id = $1 AND is_active = true AND NOT (status = ANY($2::text[]))
+      ORDER BY due_date DESC NULLS LAST
+    `, [subject.clientId, HIDDEN_INVOICE_STATUSES]);
+  }
+
+  async getInvoice(subject: PortalSubject, invoiceId: string) {
+    const tenantDb = await tenantService.getTenantDatabase(subject.tenantId);
+
+    const rows = await tenantDb.query(`
+      SELECT id, number, title, description, amount, currency, status, due_date, paid_at, items, created_at
+      FROM \${schema}.invoices
+      WHERE id = $1 AND client_id = $2 AND is_active = true AND NOT (status = ANY($3::text[]))
+    `, [invoiceId, subject.clientId, HIDDEN_INVOICE_STATUSES]);
+
+    return rows[0] || null;
+  }
+
+  async listProjects(subject: PortalSubject) {
+    const tenantDb = await tenantService.getTenantDatabase(subject.tenantId);
+
+    return tenantDb.query(`
+      SELECT id, title, description, status, progress, start_date, due_date, completed_at
+      FROM \${schema}.projects
+      WHERE client_id = $1 AND is_active = true
+      ORDER BY created_at DESC
+    `, [subject.clientId]);
+  }
+
+  async listPublications(subject: PortalSubject) {
+    const shares = await prisma.portalShare.findMany({
+      where: { tenantId: subject.tenantId, clientId: subject.clientId, resourceType: 'publication' },
+      select: { resourceId: true },
+    });
+
+    if (shares.length === 0) {
+      return [];
+    }
+
+    const tenantDb = await tenantService.getTenantDatabase(subject.tenantId);
+
+    return tenantDb.query(`
+      SELECT id, process_number, publication_date, content, source
+      FROM \${schema}.publications
+      WHERE id = ANY($1::uuid[])
+      ORDER BY publication_date DESC NULLS LAST
+    `, [shares.map((share: any) => share.resourceId)]);
+  }
+
+  async logAccess(
+    subject: PortalSubject,
+    tableName: string,
+    operation: string,
+    recordId: string | null,
+    context: PortalAccessContext
+  ) {
+    try {
+      await prisma.auditLog.create({
+        data: {
+          portalAccountId: subject.accountId,
+          tenantId: subject.tenantId,
+          tableName,
+          recordId,
+          operation,
+          newData: { clientId: subject.clientId },
+          ipAddress: context.ipAddress,
+          userAgent: context.userAgent,
+        },
+      });
+    } catch (error) {
+      console.error('Portal audit log error:', error);
+    }
+  }
+}
+
+export const portalService = new PortalService();
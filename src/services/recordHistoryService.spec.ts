@@ -0,0 +1,92 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const { prisma, tenantDb } = vi.hoisted(() => ({
+  prisma: {
+    auditLog: { findMany: vi.fn(), findFirst: vi.fn() },
+  },
+  tenantDb: {
+    findById: vi.fn(),
+    restore: vi.fn(async (_table: string, id: string, snapshot: any) => ({ ...snapshot, id })),
+  },
+}));
+
+vi.mock("../config/database", () => ({
+  prisma,
+  TenantDatabase: vi.fn(() => tenantDb),
+}));
+
+import { RecordHistoryService } from "./recordHistoryService";
+
+const service = new RecordHistoryService();
+
+const v1 = { id: "client-1", name: "Ana", phone: "1111", tags: ["vip"], is_active: true, updated_at: "2025-09-01" };
+const v2 = { ...v1, phone: "2222", tags: ["vip", "pj"], updated_at: "2025-09-02" };
+
+describe("RecordHistoryService", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    tenantDb.findById.mockResolvedValue(v2);
+  });
+
+  it("should list field-level changes with their author, ignoring timestamps", async () => {
+    prisma.auditLog.findMany.mockResolvedValue([
+      { id: "e3", operation: "DELETE", oldData: v2, newData: null, createdAt: new Date(), user: { id: "u1", name: "Bia" }, impersonator: null },
+      { id: "e2", operation: "UPDATE", oldData: v1, newData: v2, createdAt: new Date(), user: { id: "u1", name: "Bia" }, impersonator: { name: "Suporte" } },
+    ]);
+
+    const history = await service.getHistory("tenant-1", "clients", "client-1");
+
+    expect(prisma.auditLog.findMany.mock.calls[0][0].where).toEqual({ tenantId: "tenant-1", tableName: "clients", recordId: "client-1" });
+    expect(history[0]).toMatchObject({ operation: "DELETE", restorable: false, changes: [{ field: "is_active", from: true, to: false }] });
+    expect(history[1]).toMatchObject({
+      operation: "UPDATE",
+      actor: { id: "u1", name: "Bia" },
+      impersonatedBy: "Suporte",
+      restorable: true,
+      changes: [
+        { field: "phone", from: "1111", to: "2222" },
+        { field: "tags", from: ["vip"], to: ["vip", "pj"] },
+      ],
+    });
+  });
+
+  it("should re-apply the version an entry left and return both sides", async () => {
+    prisma.auditLog.findFirst.mockResolvedValue({ id: "e1", newData: v1 });
+
+    const { before, after } = await service.restoreVersion("tenant-1", "clients", "client-1", "e1");
+
+    expect(prisma.auditLog.findFirst).toHaveBeenCalledWith({
+      where: { id: "e1", tenantId: "tenant-1", tableName: "clients", recordId: "client-1" },
+    });
+    const { is_active, ...content } = v1;
+    expect(tenantDb.restore).toHaveBeenCalledWith("clients", "client-1", content);
+    expect(before).toBe(v2);
+    expect(after).toMatchObject({ phone: "1111" });
+  });
+
+  it("should leave a trashed row in the trash", async () => {
+    prisma.auditLog.findFirst.mockResolvedValue({ id: "e1", newData: v1 });
+    tenantDb.findById.mockResolvedValue({ ...v2, is_active: false, deleted_at: "2025-09-10" });
+
+    const { after } = await service.restoreVersion("tenant-1", "clients", "client-1", "e1");
+
+    const snapshot = tenantDb.restore.mock.calls[0][2];
+    expect(snapshot).not.toHaveProperty("is_active");
+    expect(snapshot).not.toHaveProperty("deleted_at");
+    expect(after).toMatchObject({ phone: "1111" });
+  });
+
+  it("should refuse entries of other records, deletions and anonymised clients", async () => {
+    prisma.auditLog.findFirst.mockResolvedValue(null);
+    await expect(service.restoreVersion("tenant-1", "clients", "client-1", "e9")).rejects.toMatchObject({ statusCode: 404 });
+
+    prisma.auditLog.findFirst.mockResolvedValue({ id: "e3", newData: null });
+    await expect(service.restoreVersion("tenant-1", "clients", "client-1", "e3")).rejects.toMatchObject({ statusCode: 422 });
+
+    prisma.auditLog.findFirst.mockResolvedValue({ id: "e1", newData: v1 });
+    tenantDb.findById.mockResolvedValue({ ...v2, anonymized_at: "2025-09-10" });
+    await expect(service.restoreVersion("tenant-1", "clients", "client-1", "e1")).rejects.toMatchObject({ code: "HISTORY_003" });
+
+    expect(tenantDb.restore).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,114 @@
+import { Prisma } from '@prisma/client';
+import { prisma, TenantDatabase } from '../config/database';
+import { AppError } from '../types';
+
+// Tables whose controllers audit full before/after rows
+export type HistoryTable = 'clients' | 'projects' | 'tasks' | 'transactions';
+
+const HISTORY_LIMIT = 200;
+
+// Written by the database on every change; listing them would make every entry look alike
+const IGNORED_FIELDS = new Set(['created_at', 'updated_at']);
+
+// Only deleting and restoring from the trash move a row in or out of it (both need the delete
+// permission); going back to a version keeps the row where it is now
+const DELETION_FIELDS = new Set(['is_active', 'deleted_at']);
+
+type AuditEntryWithActors = Prisma.AuditLogGetPayload<{
+  include: { user: { select: { id: true; name: true } }; impersonator: { select: { name: true } } };
+}>;
+
+export interface FieldChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+export interface HistoryEntry {
+  id: string;
+  operation: string; // CREATE, UPDATE, DELETE, RESTORE
+  createdAt: Date;
+  actor: { id: string; name: string } | null;
+  impersonatedBy: string | null; // support admin acting as the actor
+  changes: FieldChange[];
+  // Entries that left the record in a known state can be restored
+  restorable: boolean;
+}
+
+// Audit snapshots are whole rows; anything else is not a version
+function asSnapshot(value: Prisma.JsonValue): Record<string, unknown> | null {
+  return value && typeof value === 'object' && !Array.isArray(value) ? value : null;
+}
+
+function sameValue(a: unknown, b: unknown) {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+export function diffSnapshots(before: Record<string, unknown> | null, after: Record<string, unknown> | null): FieldChange[] {
+  // A soft delete is logged as the row before it and no "after"
+  if (before && !after) {
+    return [{ field: 'is_active', from: before.is_active ?? true, to: false }];
+  }
+
+  const fields = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+  return [...fields]
+    .filter((field) => !IGNORED_FIELDS.has(field))
+    .filter((field) => !sameValue(before?.[field], after?.[field]))
+    .map((field) => ({ field, from: before?.[field] ?? null, to: after?.[field] ?? null }));
+}
+
+// Reads a record's audit trail back as field-level changes and re-applies earlier versions.
+// A version is the row as an entry left it (new_data).
+export class RecordHistoryService {
+  async getHistory(tenantId: string, table: HistoryTable, recordId: string): Promise<HistoryEntry[]> {
+    const entries = await prisma.auditLog.findMany({
+      where: { tenantId, tableName: table, recordId },
+      orderBy: { createdAt: 'desc' },
+      take: HISTORY_LIMIT,
+      include: {
+        user: { select: { id: true, name: true } },
+        impersonator: { select: { name: true } },
+      },
+    });
+
+    return entries.map((entry: AuditEntryWithActors) => ({
+      id: entry.id,
+      operation: entry.operation,
+      createdAt: entry.createdAt,
+      actor: entry.user,
+      impersonatedBy: entry.impersonator?.name || null,
+      changes: diffSnapshots(asSnapshot(entry.oldData), asSnapshot(entry.newData)),
+      restorable: Boolean(asSnapshot(entry.newData)),
+    }));
+  }
+
+  // Returns the row before and after, for the caller's own audit entry
+  async restoreVersion(tenantId: string, table: HistoryTable, recordId: string, entryId: string) {
+    const entry = await prisma.auditLog.findFirst({
+      where: { id: entryId, tenantId, tableName: table, recordId },
+    });
+    if (!entry) {
+      throw new AppError('History entry not found', 404, 'HISTORY_001');
+    }
+    const version = asSnapshot(entry.newData);
+    if (!version) {
+      throw new AppError('This entry has no version to restore', 422, 'HISTORY_002');
+    }
+
+    const tenantDb = new TenantDatabase(tenantId);
+    const before = await tenantDb.findById(table, recordId);
+    if (!before) {
+      throw new AppError('Record not found', 404, 'HISTORY_001');
+    }
+    // Anonymisation is final: an older version would bring the personal data back
+    if ('anonymized_at' in before && before.anonymized_at) {
+      throw new AppError('Anonymised clients cannot go back to an earlier version', 409, 'HISTORY_003');
+    }
+
+    const snapshot = Object.fromEntries(Object.entries(version).filter(([field]) => !DELETION_FIELDS.has(field)));
+    const after = await tenantDb.restore(table, recordId, snapshot);
+    return { before, after: after! };
+  }
+}
+
+export const recordHistoryService = new RecordHistoryService();
@@ -1,6 +1,16 @@
 import bcrypt from 'bcrypt';
 import crypto from 'crypto';
-import { supabase } from '../config/supabase';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import { AppError } from '../types';
+import { passwordPolicyService } from './passwordPolicyService';
+import { ssoService } from './ssoService';
+import { teamInviteService } from './teamInviteService';
+import { tenantMigrationService } from './tenantMigrationService';
+
+// A first redemption creates the tenant schema inside the transaction, which takes far longer
+// than Prisma's 5 s default for interactive transactions
+const PROVISIONING_TRANSACTION = { maxWait: 10_000, timeout: 120_000 };
 
 export interface CreateKeyRequest {
   tenantId?: string;
@@ -11,6 +21,15 @@ export interface CreateKeyRequest {
   metadata?: any;
 }
 
+export interface RedeemKeyRequest {
+  key: string;
+  email: string;
+  password: string;
+  name: string;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
 export class RegistrationKeyService {
   async generateKey(request: CreateKeyRequest, createdBy: string): Promise<string> {
     // Generate random key
@@ -18,81 +37,188 @@ export class RegistrationKeyService {
     const keyHash = await bcrypt.hash(key, 12);
 
     // Create key record
-    const { error } = await supabase.from('registration_keys').insert({
-      key_hash: keyHash,
-      tenant_id: request.tenantId,
-      account_type: request.accountType,
-      uses_allowed: request.usesAllowed || 1,
-      uses_left: request.usesAllowed || 1,
-      single_use: request.singleUse ?? true,
-      expires_at: request.expiresAt?.toISOString(),
-      metadata: request.metadata || {},
-      created_by: createdBy,
-      used_logs: [],
+    await prisma.registrationKey.create({
+      data: {
+        keyHash,
+        tenantId: request.tenantId,
+        accountType: request.accountType,
+        usesAllowed: request.usesAllowed || 1,
+        usesLeft: request.usesAllowed || 1,
+        singleUse: request.singleUse ?? true,
+        expiresAt: request.expiresAt,
+        metadata: request.metadata || {},
+        createdBy,
+        usedLogs: [],
+      },
     });
 
-    if (error) {
-      throw new Error(`Failed to create registration key: ${error.message}`);
-    }
-
     return key; // Return plain key only once
   }
 
   async listKeys(tenantId?: string) {
-    let query = supabase
-      .from('registration_keys')
-      .select(`
-        *,
-        tenants(name)
-      `)
-      .order('created_at', { ascending: false });
-
-    if (tenantId) {
-      query = query.eq('tenant_id', tenantId);
-    }
-
-    const { data, error } = await query;
-
-    if (error) {
-      throw new Error(`Failed to list keys: ${error.message}`);
-    }
-
-    return data;
+    return await prisma.registrationKey.findMany({
+      where: tenantId ? { tenantId } : {},
+      include: { tenant: { select: { id: true, name: true } } },
+      orderBy: { createdAt: 'desc' },
+    });
   }
 
   async revokeKey(keyId: string) {
-    const { error } = await supabase
-      .from('registration_keys')
-      .update({ revoked: true })
-      .eq('id', keyId);
+    const { count } = await prisma.registrationKey.updateMany({
+      where: { id: keyId },
+      data: { revoked: true },
+    });
 
-    if (error) {
-      throw new Error(`Failed to revoke key: ${error.message}`);
+    if (count === 0) {
+      throw new Error('Key not found');
     }
   }
 
   async getKeyUsage(keyId: string) {
-    const { data: key, error } = await supabase
-      .from('registration_keys')
-      .select('*')
-      .eq('id', keyId)
-      .single();
+    const key = await prisma.registrationKey.findUnique({
+      where: { id: keyId },
+    });
 
-    if (error || !key) {
+    if (!key) {
       throw new Error('Key not found');
     }
 
     return {
       id: key.id,
-      accountType: key.account_type,
-      usesAllowed: key.uses_allowed,
-      usesLeft: key.uses_left,
-      usedLogs: key.used_logs,
+      accountType: key.accountType,
+      usesAllowed: key.usesAllowed,
+      usesLeft: key.usesLeft,
+      usedLogs: key.usedLogs,
       revoked: key.revoked,
-      expiresAt: key.expires_at,
-      createdAt: key.created_at,
+      expiresAt: key.expiresAt,
+      createdAt: key.createdAt,
     };
   }
+
+  async validateAndUseKey(request: RedeemKeyRequest) {
+    // Find the key by hash among candidates that could still be redeemed
+    const candidates = await prisma.registrationKey.findMany({
+      where: {
+        revoked: false,
+        usesLeft: { gt: 0 },
+        OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }],
+      },
+    });
+
+    let matchedKey = null;
+    for (const candidate of candidates) {
+      const isValid = await bcrypt.compare(request.key, candidate.keyHash);
+      if (isValid) {
+        matchedKey = candidate;
+        break;
+      }
+    }
+
+    if (!matchedKey) {
+      throw new Error('Invalid, expired, or revoked registration key');
+    }
+
+    // Checked before the account exists: a tenant that enforces SSO takes no password sign-ups
+    if (matchedKey.tenantId && (await ssoService.isPasswordLoginDisabled(matchedKey.tenantId))) {
+      throw new AppError('Password sign-up is disabled for this organization; sign in with single sign-on', 403, 'AUTH_011');
+    }
+
+    // New tenants fall back to the default policy
+    await passwordPolicyService.assertAllowed(request.password, matchedKey.tenantId);
+
+    const keyId = matchedKey.id;
+    const passwordHash = await bcrypt.hash(request.password, 12);
+
+    return await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      // Conditional decrement: the row lock taken here serialises concurrent
+      // redemptions, and the re-checked WHERE makes the loser update 0 rows
+      const claimed = await tx.registrationKey.updateMany({
+        where: {
+          id: keyId,
+          revoked: false,
+          usesLeft: { gt: 0 },
+          OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }],
+        },
+        data: { usesLeft: { decrement: 1 } },
+      });
+
+      if (claimed.count === 0) {
+        throw new Error('Invalid, expired, or revoked registration key');
+      }
+
+      const existingUser = await tx.user.findUnique({
+        where: { email: request.email },
+      });
+
+      if (existingUser) {
+        throw new Error('Email already registered');
+      }
+
+      const key = await tx.registrationKey.findUniqueOrThrow({
+        where: { id: keyId },
+      });
+
+      let tenantId = key.tenantId;
+      let isNewTenant = false;
+
+      if (!tenantId) {
+        tenantId = crypto.randomUUID();
+        const metadata = (key.metadata || {}) as Record<string, any>;
+
+        const tenant = await tx.tenant.create({
+          data: {
+            id: tenantId,
+            name: metadata.tenantName || `Tenant for ${request.email}`,
+            schemaName: `tenant_${tenantId.replace(/-/g, '')}`,
+            isActive: true,
+          },
+        });
+
+        await tx.$executeRaw`SELECT create_tenant_schema(${tenantId}::uuid)`;
+
+        // Same transaction: a tenant never exists without its tables
+        const migration = await tenantMigrationService.migrateTenant(tenant, { client: tx });
+        if (migration.failed) {
+          throw new Error(`Tenant migration ${migration.failed.version} failed: ${migration.failed.error}`);
+        }
+        isNewTenant = true;
+      } else {
+        await teamInviteService.assertSeatAvailable(tenantId, tx);
+      }
+
+      const user = await tx.user.create({
+        data: {
+          email: request.email,
+          password: passwordHash,
+          passwordChangedAt: new Date(),
+          name: request.name,
+          accountType: key.accountType,
+          tenantId,
+          isActive: true,
+        },
+      });
+
+      const usedLogs = Array.isArray(key.usedLogs) ? key.usedLogs : [];
+      usedLogs.push({
+        email: request.email,
+        userId: user.id,
+        tenantId,
+        ipAddress: request.ipAddress,
+        userAgent: request.userAgent,
+        usedAt: new Date().toISOString(),
+      });
+
+      await tx.registrationKey.update({
+        where: { id: keyId },
+        data: {
+          usedLogs,
+          ...((key.singleUse || key.usesLeft <= 0) && { revoked: true }),
+        },
+      });
+
+      return { user, tenantId, isNewTenant };
+    }, PROVISIONING_TRANSACTION);
+  }
 }
 
-export const registrationKeyService = new RegistrationKeyService();
\ No newline at end of file
+export const registrationKeyService = new RegistrationKeyService();
@@ -0,0 +1,30 @@
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("../config/database", () => ({ prisma: {} }));
+
+import { SessionService } from "./sessionService";
+
+const service = new SessionService();
+
+describe("SessionService", () => {
+  it("should describe common browsers and platforms", () => {
+    expect(
+      service.describeDevice(
+        "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0 Safari/537.36"
+      )
+    ).toBe("Chrome on Windows");
+    expect(
+      service.describeDevice(
+        "Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1"
+      )
+    ).toBe("Safari on iOS");
+    expect(service.describeDevice(undefined)).toBe("Unknown device");
+  });
+
+  it("should treat sessions as idle once timeoutMinutes has elapsed", () => {
+    const lastSeenAt = new Date("2024-01-01T12:00:00Z");
+
+    expect(service.isIdle(lastSeenAt, 30, new Date("2024-01-01T12:29:59Z"))).toBe(false);
+    expect(service.isIdle(lastSeenAt, 30, new Date("2024-01-01T12:30:00Z"))).toBe(true);
+  });
+});
@@ -0,0 +1,171 @@
+import { prisma } from '../config/database';
+import { tenantSettingsService } from './tenantSettingsService';
+
+export interface SessionContext {
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+// What a user sees of their own sessions (no tenant or revocation fields)
+export interface SessionSummary {
+  id: string;
+  device: string | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+  lastSeenAt: Date;
+  createdAt: Date;
+}
+
+// Avoid a write per request: last_seen_at only needs minute precision for idle timeouts
+const LAST_SEEN_RESOLUTION_MS = 60 * 1000;
+
+const BROWSERS: [RegExp, string][] = [
+  [/Edg\//, 'Edge'],
+  [/OPR\//, 'Opera'],
+  [/Firefox\//, 'Firefox'],
+  [/Chrome\//, 'Chrome'],
+  [/Safari\//, 'Safari'],
+];
+
+const PLATFORMS: [RegExp, string][] = [
+  [/Android/, 'Android'],
+  [/iPhone|iPad/, 'iOS'],
+  [/Windows/, 'Windows'],
+  [/Mac OS X/, 'macOS'],
+  [/Linux/, 'Linux'],
+];
+
+export class SessionService {
+  // Human-readable label such as "Chrome on Windows"
+  describeDevice(userAgent?: string): string {
+    if (!userAgent) {
+      return 'Unknown device';
+    }
+
+    const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+    const platform = PLATFORMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+    if (browser && platform) {
+      return `${browser} on ${platform}`;
+    }
+
+    return browser || platform || 'Unknown device';
+  }
+
+  isIdle(lastSeenAt: Date, timeoutMinutes: number, now = new Date()): boolean {
+    return now.getTime() - lastSeenAt.getTime() >= timeoutMinutes * 60 * 1000;
+  }
+
+  // Opens a session and evicts the oldest ones beyond the tenant's maxSessions
+  async createSession(user: { id: string; tenantId: string }, context: SessionContext = {}) {
+    const session = await prisma.userSession.create({
+      data: {
+        userId: user.id,
+        tenantId: user.tenantId,
+        device: this.describeDevice(context.userAgent),
+        ipAddress: context.ipAddress,
+        userAgent: context.userAgent,
+      },
+    });
+
+    const { sessionSettings } = await tenantSettingsService.getSecuritySettings(user.tenantId);
+
+    const active = await prisma.userSession.findMany({
+      where: { userId: user.id, revokedAt: null },
+      orderBy: { lastSeenAt: 'desc' },
+      select: { id: true },
+    });
+
+    const evicted = active.slice(sessionSettings.maxSessions).map((entry: { id: string }) => entry.id);
+    if (evicted.length > 0) {
+      await this.revokeSessions(evicted);
+    }
+
+    return session;
+  }
+
+  async listSessions(userId: string): Promise<SessionSummary[]> {
+    return prisma.userSession.findMany({
+      where: { userId, revokedAt: null },
+      orderBy: { lastSeenAt: 'desc' },
+      select: {
+        id: true,
+        device: true,
+        ipAddress: true,
+        userAgent: true,
+        lastSeenAt: true,
+        createdAt: true,
+      },
+    });
+  }
+
+  // Returns the session when it is still usable, revoking it if it has gone idle
+  async validateSession(sessionId: string, tenantId: string) {
+    const session = await prisma.userSession.findUnique({
+      where: { id: sessionId },
+    });
+
+    if (!session || session.revokedAt) {
+      return null;
+    }
+
+    const { sessionSettings } = await tenantSettingsService.getSecuritySettings(tenantId);
+    const now = new Date();
+
+    if (this.isIdle(session.lastSeenAt, sessionSettings.timeoutMinutes, now)) {
+      await this.revokeSessions([session.id]);
+      return null;
+    }
+
+    if (now.getTime() - session.lastSeenAt.getTime() >= LAST_SEEN_RESOLUTION_MS) {
+      await prisma.userSession.update({
+        where: { id: session.id },
+        data: { lastSeenAt: now },
+      });
+    }
+
+    return session;
+  }
+
+  async revokeSession(userId: string, sessionId: string): Promise<boolean> {
+    const session = await prisma.userSession.findFirst({
+      where: { id: sessionId, userId, revokedAt: null },
+    });
+
+    if (!session) {
+      return false;
+    }
+
+    await this.revokeSessions([session.id]);
+    return true;
+  }
+
+  async revokeAllSessions(userId: string, exceptSessionId?: string) {
+    const sessions = await prisma.userSession.findMany({
+      where: {
+        userId,
+        revokedAt: null,
+        ...(exceptSessionId && { id: { not: exceptSessionId } }),
+      },
+      select: { id: true },
+    });
+
+    await this.revokeSessions(sessions.map((session: { id: string }) => session.id));
+    return sessions.length;
+  }
+
+  private async revokeSessions(sessionIds: string[]) {
+    await prisma.$transaction([
+      prisma.userSession.updateMany({
+        where: { id: { in: sessionIds } },
+        data: { revokedAt: new Date() },
+      }),
+      prisma.refreshToken.updateMany({
+        where: { sessionId: { in: sessionIds } },
+        data: { isActive: false },
+      }),
+    ]);
+  }
+}
+
+export const sessionService = new SessionService();
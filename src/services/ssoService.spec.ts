@@ -0,0 +1,92 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const { prisma, dns, oidcClient } = vi.hoisted(() => ({
+  prisma: {
+    ssoConfig: { findFirst: vi.fn(), findUnique: vi.fn(), upsert: vi.fn(), update: vi.fn() },
+  },
+  dns: { lookup: vi.fn(), resolveTxt: vi.fn() },
+  oidcClient: { discover: vi.fn() },
+}));
+
+vi.mock("../config/database", () => ({ prisma }));
+vi.mock("dns", () => ({ promises: dns }));
+vi.mock("./oidcClient", () => ({ oidcClient }));
+vi.mock("./teamInviteService", () => ({ teamInviteService: {} }));
+
+import { SsoService } from "./ssoService";
+
+const service = new SsoService();
+
+const input = {
+  enabled: true,
+  issuer: "https://login.firm.com",
+  clientId: "legalsaas",
+  allowedDomains: ["Firm.com"],
+  defaultAccountType: "SIMPLES" as any,
+  disablePasswordLogin: false,
+};
+
+const stored = {
+  tenantId: "tenant-1",
+  clientSecret: null,
+  allowedDomains: ["firm.com"],
+  verifiedDomains: [],
+  domainVerificationToken: "token-1",
+};
+
+describe("SsoService", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    prisma.ssoConfig.findFirst.mockResolvedValue(null);
+    prisma.ssoConfig.findUnique.mockResolvedValue(stored);
+    dns.lookup.mockResolvedValue([{ address: "203.0.113.10", family: 4 }]);
+    oidcClient.discover.mockResolvedValue({
+      token_endpoint: "https://login.firm.com/token",
+      jwks_uri: "https://login.firm.com/jwks",
+    });
+  });
+
+  it("should refuse issuers without https or on private addresses", async () => {
+    await expect(service.updateConfig("tenant-1", { ...input, issuer: "http://login.firm.com" })).rejects.toThrow("https");
+
+    dns.lookup.mockResolvedValue([{ address: "169.254.169.254", family: 4 }]);
+    await expect(service.updateConfig("tenant-1", input)).rejects.toThrow("public address");
+
+    dns.lookup.mockResolvedValue([{ address: "::1", family: 6 }]);
+    await expect(service.updateConfig("tenant-1", input)).rejects.toThrow("public address");
+
+    expect(oidcClient.discover).not.toHaveBeenCalled();
+    expect(prisma.ssoConfig.upsert).not.toHaveBeenCalled();
+  });
+
+  it("should keep new domains unverified and refuse those another tenant verified", async () => {
+    await service.updateConfig("tenant-1", input);
+
+    expect(prisma.ssoConfig.findFirst.mock.calls[0][0].where).toEqual({
+      tenantId: { not: "tenant-1" },
+      verifiedDomains: { hasSome: ["firm.com"] },
+    });
+    expect(prisma.ssoConfig.upsert.mock.calls[0][0].update).toMatchObject({ allowedDomains: ["firm.com"], verifiedDomains: [] });
+    await expect(service.updateConfig("tenant-1", { ...input, disablePasswordLogin: true })).rejects.toThrow("Verify");
+
+    prisma.ssoConfig.findFirst.mockResolvedValue({ tenantId: "tenant-2" });
+    await expect(service.updateConfig("tenant-1", input)).rejects.toThrow("another organization");
+  });
+
+  it("should verify a domain only with the tenant's TXT record", async () => {
+    dns.resolveTxt.mockResolvedValue([["v=spf1 -all"], ["legalsaas-domain-verification=", "token-2"]]);
+    await expect(service.verifyDomain("tenant-1", "firm.com")).rejects.toThrow("not found");
+    expect(prisma.ssoConfig.update).not.toHaveBeenCalled();
+
+    dns.resolveTxt.mockResolvedValue([["legalsaas-domain-verification=", "token-1"]]);
+    await service.verifyDomain("tenant-1", "FIRM.com");
+
+    expect(dns.resolveTxt).toHaveBeenLastCalledWith("firm.com");
+    expect(prisma.ssoConfig.update).toHaveBeenCalledWith({
+      where: { tenantId: "tenant-1" },
+      data: { verifiedDomains: { push: "firm.com" } },
+    });
+
+    await expect(service.verifyDomain("tenant-1", "other.com")).rejects.toThrow("Add the domain");
+  });
+});
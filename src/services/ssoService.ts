@@ -0,0 +1,294 @@
+import crypto from 'crypto';
+import net from 'net';
+import { promises as dns } from 'dns';
+import bcrypt from 'bcrypt';
+import { AccountType, Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import { oidcClient } from './oidcClient';
+import { teamInviteService } from './teamInviteService';
+
+export interface SsoConfigInput {
+  enabled: boolean;
+  issuer: string;
+  clientId: string;
+  clientSecret?: string | null; // undefined keeps the stored secret
+  allowedDomains: string[];
+  defaultAccountType: AccountType;
+  disablePasswordLogin: boolean;
+}
+
+function emailDomain(email: string): string {
+  return email.split('@').pop()!.toLowerCase();
+}
+
+// Published by the tenant as a TXT record on each domain to prove it owns it
+const DOMAIN_VERIFICATION_PREFIX = 'legalsaas-domain-verification=';
+
+// Local testing with `npm run oidc:mock` only: accepts http/private issuers and skips the DNS lookup
+const ALLOW_INSECURE_SSO = process.env.SSO_ALLOW_INSECURE === 'true' && process.env.NODE_ENV !== 'production';
+
+// Loopback, private, link-local, CGNAT, multicast and reserved ranges: the server must never
+// be pointed at its own network through an issuer URL (IPv4-mapped IPv6 is checked as IPv4)
+const PRIVATE_RANGES = new net.BlockList();
+for (const [address, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3],
+] as const) {
+  PRIVATE_RANGES.addSubnet(address, prefix, 'ipv4');
+}
+for (const [address, prefix] of [
+  ['::', 127], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+] as const) {
+  PRIVATE_RANGES.addSubnet(address, prefix, 'ipv6');
+}
+
+async function assertPublicHttpsUrl(value: string, label: string) {
+  if (ALLOW_INSECURE_SSO) {
+    return;
+  }
+
+  const url = new URL(value);
+  if (url.protocol !== 'https:') {
+    throw new Error(`${label} must use https`);
+  }
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, '');
+  const addresses = await dns.lookup(hostname, { all: true }).catch(() => {
+    throw new Error(`${label} host could not be resolved`);
+  });
+  if (addresses.some(({ address, family }) => PRIVATE_RANGES.check(address, family === 6 ? 'ipv6' : 'ipv4'))) {
+    throw new Error(`${label} must point to a public address`);
+  }
+}
+
+export class SsoService {
+  private redirectUri: string;
+  private stateTtlMinutes: number;
+
+  constructor() {
+    const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:8080';
+    this.redirectUri = process.env.OIDC_REDIRECT_URI || `${frontendUrl}/login/sso`;
+    this.stateTtlMinutes = 10;
+  }
+
+  hashState(state: string): string {
+    return crypto.createHash('sha256').update(state).digest('hex');
+  }
+
+  // What the settings screen sees; the client secret is write-only
+  async getConfig(tenantId: string) {
+    const config = await prisma.ssoConfig.findUnique({ where: { tenantId } });
+
+    if (!config) {
+      return null;
+    }
+
+    const { clientSecret, domainVerificationToken, ...rest } = config;
+    return {
+      ...rest,
+      hasClientSecret: !!clientSecret,
+      redirectUri: this.redirectUri,
+      // TXT record to publish on each allowed domain before it routes logins here
+      verificationRecord: `${DOMAIN_VERIFICATION_PREFIX}${domainVerificationToken}`,
+    };
+  }
+
+  // Domains only route logins and provision users once verified (verifyDomain); changing the
+  // list keeps the verification of the domains that stay
+  async updateConfig(tenantId: string, input: SsoConfigInput) {
+    const allowedDomains = [...new Set(input.allowedDomains.map((domain) => domain.trim().toLowerCase()))];
+
+    // A domain can only route to one tenant: the one that proved it owns it
+    const conflict = await prisma.ssoConfig.findFirst({
+      where: { tenantId: { not: tenantId }, verifiedDomains: { hasSome: allowedDomains } },
+    });
+    if (conflict) {
+      throw new Error('One of the domains is already used by another organization');
+    }
+
+    await assertPublicHttpsUrl(input.issuer, 'Issuer');
+    if (input.enabled) {
+      // The discovery document is attacker-controlled too: its endpoints are fetched later
+      const metadata = await oidcClient.discover(input.issuer);
+      for (const endpoint of [metadata.token_endpoint, metadata.jwks_uri]) {
+        await assertPublicHttpsUrl(endpoint, 'Provider endpoint');
+      }
+    }
+
+    const current = await prisma.ssoConfig.findUnique({ where: { tenantId } });
+    const verifiedDomains = (current?.verifiedDomains || []).filter((domain: string) => allowedDomains.includes(domain));
+
+    // Without a verified domain nobody could sign in with SSO, so passwords must stay on
+    if (input.enabled && input.disablePasswordLogin && verifiedDomains.length === 0) {
+      throw new Error('Verify at least one domain before disabling password login');
+    }
+
+    const data = {
+      enabled: input.enabled,
+      issuer: input.issuer.replace(/\/$/, ''),
+      clientId: input.clientId,
+      allowedDomains,
+      verifiedDomains,
+      defaultAccountType: input.defaultAccountType,
+      disablePasswordLogin: input.enabled && input.disablePasswordLogin,
+      ...(input.clientSecret !== undefined && { clientSecret: input.clientSecret || null }),
+    };
+
+    await prisma.ssoConfig.upsert({
+      where: { tenantId },
+      create: { tenantId, ...data },
+      update: data,
+    });
+
+    return this.getConfig(tenantId);
+  }
+
+  // Looks up the tenant's TXT record on the domain; a domain another tenant verified first stays theirs
+  async verifyDomain(tenantId: string, domain: string) {
+    const config = await prisma.ssoConfig.findUnique({ where: { tenantId } });
+    domain = domain.trim().toLowerCase();
+
+    if (!config || !config.allowedDomains.includes(domain)) {
+      throw new Error('Add the domain to the SSO settings before verifying it');
+    }
+
+    const records = ALLOW_INSECURE_SSO ? [] : await dns.resolveTxt(domain).catch((): string[][] => []);
+    const expected = `${DOMAIN_VERIFICATION_PREFIX}${config.domainVerificationToken}`;
+    if (!ALLOW_INSECURE_SSO && !records.some((chunks) => chunks.join('') === expected)) {
+      throw new Error(`TXT record "${expected}" not found on ${domain}`);
+    }
+
+    const conflict = await prisma.ssoConfig.findFirst({
+      where: { tenantId: { not: tenantId }, verifiedDomains: { has: domain } },
+    });
+    if (conflict) {
+      throw new Error('This domain is already used by another organization');
+    }
+
+    if (!config.verifiedDomains.includes(domain)) {
+      await prisma.ssoConfig.update({
+        where: { tenantId },
+        data: { verifiedDomains: { push: domain } },
+      });
+    }
+
+    return this.getConfig(tenantId);
+  }
+
+  async isPasswordLoginDisabled(tenantId: string): Promise<boolean> {
+    const config = await prisma.ssoConfig.findUnique({ where: { tenantId } });
+    return !!config?.enabled && config.disablePasswordLogin;
+  }
+
+  private async findConfigForEmail(email: string) {
+    return prisma.ssoConfig.findFirst({
+      where: { enabled: true, verifiedDomains: { has: emailDomain(email) } },
+    });
+  }
+
+  // Step 1: route the email to its tenant's provider and remember the PKCE verifier
+  async start(email: string): Promise<string> {
+    const config = await this.findConfigForEmail(email);
+
+    if (!config) {
+      throw new Error('Single sign-on is not configured for this email domain');
+    }
+
+    const state = crypto.randomBytes(32).toString('base64url');
+    const nonce = crypto.randomBytes(16).toString('base64url');
+    const { codeVerifier, codeChallenge } = oidcClient.generatePkce();
+
+    await prisma.ssoLoginState.create({
+      data: {
+        stateHash: this.hashState(state),
+        tenantId: config.tenantId,
+        codeVerifier,
+        nonce,
+        expiresAt: new Date(Date.now() + this.stateTtlMinutes * 60 * 1000),
+      },
+    });
+
+    return oidcClient.buildAuthorizationUrl(config, {
+      redirectUri: this.redirectUri,
+      state,
+      nonce,
+      codeChallenge,
+      loginHint: email,
+    });
+  }
+
+  // Step 2: redeem the code, validate the ID token and provision the user on first login
+  async complete(code: string, state: string) {
+    const pending = await prisma.ssoLoginState.findUnique({
+      where: { stateHash: this.hashState(state) },
+    });
+
+    // Single use: whoever deletes the row owns the login
+    const claimed = pending
+      ? await prisma.ssoLoginState.deleteMany({ where: { id: pending.id } })
+      : { count: 0 };
+
+    if (!pending || claimed.count === 0 || pending.expiresAt <= new Date()) {
+      throw new Error('Invalid or expired single sign-on request');
+    }
+
+    const config = await prisma.ssoConfig.findUnique({ where: { tenantId: pending.tenantId } });
+    if (!config?.enabled) {
+      throw new Error('Single sign-on is disabled for this organization');
+    }
+
+    const claims = await oidcClient.exchangeCode(config, {
+      code,
+      codeVerifier: pending.codeVerifier,
+      redirectUri: this.redirectUri,
+      nonce: pending.nonce,
+    });
+
+    if (!claims.email || claims.email_verified === false) {
+      throw new Error('The identity provider did not return a verified email');
+    }
+
+    const email = claims.email.toLowerCase();
+    if (!config.verifiedDomains.includes(emailDomain(email))) {
+      throw new Error('Email domain is not allowed for this organization');
+    }
+
+    return this.provisionUser(config, email, claims.name);
+  }
+
+  private async provisionUser(config: { tenantId: string; defaultAccountType: AccountType }, email: string, name?: string) {
+    return prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      const existing = await tx.user.findUnique({
+        where: { email },
+        include: { tenant: true },
+      });
+
+      if (existing) {
+        if (existing.tenantId !== config.tenantId) {
+          throw new Error('This email belongs to another organization');
+        }
+        if (!existing.isActive || !existing.tenant.isActive) {
+          throw new Error('User or tenant inactive');
+        }
+        return existing;
+      }
+
+      await teamInviteService.assertSeatAvailable(config.tenantId, tx);
+
+      // Just-in-time account; the random password is never disclosed, so only SSO works until a reset
+      return tx.user.create({
+        data: {
+          email,
+          password: await bcrypt.hash(crypto.randomBytes(32).toString('hex'), 12),
+          name: name || email.split('@')[0],
+          accountType: config.defaultAccountType,
+          tenantId: config.tenantId,
+          isActive: true,
+        },
+        include: { tenant: true },
+      });
+    });
+  }
+}
+
+export const ssoService = new SsoService();
@@ -0,0 +1,28 @@
+import { describe, it, expect } from "vitest";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { LocalStorageDriver, StorageDriver } from "./storageService";
+
+describe("LocalStorageDriver", () => {
+  it("should store, read back and delete objects by key", async () => {
+    const rootDir = await fs.mkdtemp(path.join(os.tmpdir(), "storage-"));
+    const driver: StorageDriver = new LocalStorageDriver(rootDir);
+
+    await driver.put("tenant-1/file-1", Buffer.from("conteúdo"), "text/plain");
+    expect((await driver.get("tenant-1/file-1"))?.toString()).toBe("conteúdo");
+    expect(await fs.readdir(path.join(rootDir, "tenant-1"))).toEqual(["file-1"]);
+
+    await driver.delete("tenant-1/file-1");
+    expect(await driver.get("tenant-1/file-1")).toBeNull();
+
+    await fs.rm(rootDir, { recursive: true, force: true });
+  });
+
+  it("should refuse keys that leave the storage root", async () => {
+    const driver: StorageDriver = new LocalStorageDriver(os.tmpdir());
+
+    await expect(driver.get("../etc/passwd")).rejects.toThrow("Invalid storage key");
+    await expect(driver.put("tenant-1/../../x", Buffer.from("x"), "text/plain")).rejects.toThrow("Invalid storage key");
+  });
+});
@@ -0,0 +1,188 @@
+import fs from 'fs/promises';
+import path from 'path';
+import crypto from 'crypto';
+
+// Object storage addressed by key ("<tenant id>/<attachment id>"); the S3 driver maps keys
+// to objects in one bucket, so any S3-compatible service (AWS, MinIO, R2...) works
+export interface StorageDriver {
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  // null when the object does not exist
+  get(key: string): Promise<Buffer | null>;
+  delete(key: string): Promise<void>;
+}
+
+// Keys are generated by the server, but never let one climb out of the storage root
+function assertSafeKey(key: string) {
+  if (!/^[0-9a-zA-Z_-]+(\/[0-9a-zA-Z_.-]+)*$/.test(key) || key.split('/').includes('..')) {
+    throw new Error(`Invalid storage key: ${key}`);
+  }
+}
+
+export class LocalStorageDriver implements StorageDriver {
+  constructor(private rootDir: string) {}
+
+  async put(key: string, data: Buffer) {
+    const filePath = this.resolve(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    // Written aside and renamed, so a crash never leaves a truncated file under the key
+    const partialPath = `${filePath}.${crypto.randomUUID()}.partial`;
+    await fs.writeFile(partialPath, data);
+    await fs.rename(partialPath, filePath);
+  }
+
+  async get(key: string) {
+    try {
+      return await fs.readFile(this.resolve(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string) {
+    await fs.rm(this.resolve(key), { force: true });
+  }
+
+  private resolve(key: string) {
+    assertSafeKey(key);
+    return path.join(this.rootDir, ...key.split('/'));
+  }
+}
+
+export interface S3StorageConfig {
+  endpoint: string;
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+}
+
+// Path-style requests signed with AWS Signature V4
+export class S3StorageDriver implements StorageDriver {
+  constructor(private config: S3StorageConfig) {}
+
+  async put(key: string, data: Buffer, contentType: string) {
+    const response = await this.request('PUT', key, data, contentType);
+    if (!response.ok) {
+      throw new Error(`Storage upload failed: ${response.status} ${await response.text()}`);
+    }
+  }
+
+  async get(key: string) {
+    const response = await this.request('GET', key);
+    if (response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      throw new Error(`Storage download failed: ${response.status} ${await response.text()}`);
+    }
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  async delete(key: string) {
+    const response = await this.request('DELETE', key);
+    if (!response.ok && response.status !== 404) {
+      throw new Error(`Storage delete failed: ${response.status} ${await response.text()}`);
+    }
+  }
+
+  private request(method: string, key: string, body?: Buffer, contentType?: string) {
+    assertSafeKey(key);
+    const url = new URL(`${this.config.endpoint.replace(/\/$/, '')}/${this.config.bucket}/${key}`);
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, '');
+    const date = amzDate.slice(0, 8);
+    const scope = `${date}/${this.config.region}/s3/aws4_request`;
+
+    const headers: Record<string, string> = {
+      host: url.host,
+      'x-amz-content-sha256': crypto.createHash('sha256').update(body || '').digest('hex'),
+      'x-amz-date': amzDate,
+      ...(contentType && { 'content-type': contentType }),
+    };
+    const signedHeaders = Object.keys(headers).sort();
+    const canonicalRequest = [
+      method,
+      url.pathname,
+      '',
+      ...signedHeaders.map((name) => `${name}:${headers[name]}`),
+      '',
+      signedHeaders.join(';'),
+      headers['x-amz-content-sha256'],
+    ].join('\n');
+    const stringToSign = [
+      'AWS4-HMAC-SHA256',
+      amzDate,
+      scope,
+      crypto.createHash('sha256').update(canonicalRequest).digest('hex'),
+    ].join('\n');
+
+    const signingKey = [date, this.config.region, 's3', 'aws4_request'].reduce<Buffer | string>(
+      (key, part) => crypto.createHmac('sha256', key).update(part).digest(),
+      `AWS4${this.config.secretAccessKey}`
+    );
+    const signature = crypto.createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+    const { host, ...sent } = headers;
+    return fetch(url, {
+      method,
+      headers: {
+        ...sent,
+        Authorization: `AWS4-HMAC-SHA256 Credential=${this.config.accessKeyId}/${scope}, SignedHeaders=${signedHeaders.join(';')}, Signature=${signature}`,
+      },
+      body: body && new Uint8Array(body),
+    });
+  }
+}
+
+function createDefaultDriver(): StorageDriver {
+  const driver = process.env.STORAGE_DRIVER || (process.env.S3_BUCKET ? 's3' : 'local');
+
+  switch (driver) {
+    case 's3': {
+      const region = process.env.S3_REGION || 'us-east-1';
+      return new S3StorageDriver({
+        endpoint: process.env.S3_ENDPOINT || `https://s3.${region}.amazonaws.com`,
+        region,
+        bucket: process.env.S3_BUCKET || '',
+        accessKeyId: process.env.AWS_ACCESS_KEY_ID || '',
+        secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY || '',
+      });
+    }
+    case 'local':
+      return new LocalStorageDriver(process.env.STORAGE_DIR || '.storage');
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER: ${driver}`);
+  }
+}
+
+export class StorageService {
+  private driver: StorageDriver | null = null;
+
+  // Swap the driver (tests, other providers); the default is resolved lazily from env
+  useDriver(driver: StorageDriver) {
+    this.driver = driver;
+  }
+
+  put(key: string, data: Buffer, contentType: string) {
+    return this.resolveDriver().put(key, data, contentType);
+  }
+
+  get(key: string) {
+    return this.resolveDriver().get(key);
+  }
+
+  delete(key: string) {
+    return this.resolveDriver().delete(key);
+  }
+
+  private resolveDriver(): StorageDriver {
+    if (!this.driver) {
+      this.driver = createDefaultDriver();
+    }
+    return this.driver;
+  }
+}
+
+export const storageService = new StorageService();
@@ -0,0 +1,71 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const { prisma } = vi.hoisted(() => ({
+  prisma: {
+    tenant: { findUniqueOrThrow: vi.fn() },
+    user: { count: vi.fn(), findUnique: vi.fn() },
+    teamInvite: { count: vi.fn(), updateMany: vi.fn(), create: vi.fn() },
+    $queryRaw: vi.fn(),
+    $transaction: vi.fn(),
+  },
+}));
+
+vi.mock("../config/database", () => ({ prisma }));
+vi.mock("./mailService", () => ({ mailService: { send: vi.fn() } }));
+
+import { TeamInviteService } from "./teamInviteService";
+import { PlanLimitError } from "../types";
+
+const service = new TeamInviteService();
+
+describe("TeamInviteService", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    prisma.tenant.findUniqueOrThrow.mockResolvedValue({ maxUsers: 5 });
+    prisma.user.count.mockResolvedValue(3);
+    prisma.teamInvite.count.mockResolvedValue(1);
+  });
+
+  it("should count pending invites as taken seats", async () => {
+    await expect(service.getSeatUsage("tenant-1")).resolves.toEqual({
+      limit: 5,
+      activeUsers: 3,
+      pendingInvites: 1,
+      used: 4,
+    });
+    expect(prisma.user.count).toHaveBeenCalledWith({ where: { tenantId: "tenant-1", isActive: true } });
+  });
+
+  it("should allow the last free seat", async () => {
+    await expect(service.assertSeatAvailable("tenant-1")).resolves.toBeUndefined();
+  });
+
+  it("should reject with the limit and usage once every seat is taken", async () => {
+    prisma.teamInvite.count.mockResolvedValue(2);
+
+    const error = await service.assertSeatAvailable("tenant-1").catch((e) => e);
+
+    expect(error).toBeInstanceOf(PlanLimitError);
+    expect(error).toMatchObject({ statusCode: 403, code: "PLAN_001", limit: 5, used: 5 });
+  });
+
+  it("should not count invites that are about to be replaced", async () => {
+    prisma.teamInvite.count.mockResolvedValue(2);
+
+    await expect(service.assertSeatAvailable("tenant-1", prisma as any, 1)).resolves.toBeUndefined();
+  });
+
+  it("should check seats and create the invite in one transaction holding the tenant lock", async () => {
+    const tx = { ...prisma, $queryRaw: vi.fn() };
+    prisma.$transaction.mockImplementation(async (fn: any) => fn(tx));
+    prisma.user.findUnique.mockResolvedValue(null);
+    prisma.user.count.mockResolvedValue(5);
+
+    await expect(
+      service.createInvite("tenant-1", "user-1", { email: "bia@example.com", accountType: "SIMPLES" as any })
+    ).rejects.toBeInstanceOf(PlanLimitError);
+
+    expect(tx.$queryRaw).toHaveBeenCalledTimes(1);
+    expect(prisma.teamInvite.create).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,222 @@
+import crypto from 'crypto';
+import bcrypt from 'bcrypt';
+import { AccountType, Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import { mailService } from './mailService';
+import { passwordPolicyService } from './passwordPolicyService';
+import { PlanLimitError } from '../types';
+
+export interface CreateInviteInput {
+  email: string;
+  accountType: AccountType;
+  roleId?: string | null;
+}
+
+export interface AcceptInviteInput {
+  name: string;
+  password: string;
+}
+
+export class TeamInviteService {
+  private inviteTtlHours: number;
+  private frontendUrl: string;
+
+  constructor() {
+    this.inviteTtlHours = Number(process.env.TEAM_INVITE_TTL_HOURS) || 72;
+    this.frontendUrl = process.env.FRONTEND_URL || 'http://localhost:8080';
+  }
+
+  hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  private pendingWhere(tenantId: string) {
+    return { tenantId, acceptedAt: null, revokedAt: null, expiresAt: { gt: new Date() } };
+  }
+
+  // Seats = active users plus pending invites, which reserve a seat until they expire
+  async getSeatUsage(tenantId: string, client: Prisma.TransactionClient = prisma) {
+    const [tenant, activeUsers, pendingInvites] = await Promise.all([
+      client.tenant.findUniqueOrThrow({ where: { id: tenantId }, select: { maxUsers: true } }),
+      client.user.count({ where: { tenantId, isActive: true } }),
+      client.teamInvite.count({ where: this.pendingWhere(tenantId) }),
+    ]);
+
+    return { limit: tenant.maxUsers, activeUsers, pendingInvites, used: activeUsers + pendingInvites };
+  }
+
+  // Pass the transaction client so the check and the insert see the same state; the tenant row
+  // stays locked until it commits, so concurrent invites, accepts and sign-ups take turns.
+  // `replacing` discounts pending invites that the caller is about to revoke.
+  async assertSeatAvailable(tenantId: string, client: Prisma.TransactionClient = prisma, replacing = 0) {
+    if (client !== prisma) {
+      await client.$queryRaw`SELECT id FROM tenants WHERE id = ${tenantId} FOR UPDATE`;
+    }
+
+    const seats = await this.getSeatUsage(tenantId, client);
+    const used = seats.used - replacing;
+
+    if (used >= seats.limit) {
+      throw new PlanLimitError(
+        `Your plan allows ${seats.limit} users and all seats are taken. Deactivate a member, revoke a pending invite or upgrade the plan.`,
+        seats.limit,
+        used
+      );
+    }
+  }
+
+  async listInvites(tenantId: string) {
+    return prisma.teamInvite.findMany({
+      where: this.pendingWhere(tenantId),
+      orderBy: { createdAt: 'desc' },
+      select: {
+        id: true,
+        email: true,
+        accountType: true,
+        roleId: true,
+        expiresAt: true,
+        createdAt: true,
+        inviter: { select: { id: true, name: true } },
+      },
+    });
+  }
+
+  async createInvite(tenantId: string, invitedBy: string, input: CreateInviteInput) {
+    const existingUser = await prisma.user.findUnique({ where: { email: input.email } });
+    if (existingUser) {
+      throw new Error('Email already registered');
+    }
+
+    if (input.roleId) {
+      const role = await prisma.role.findFirst({ where: { id: input.roleId, tenantId } });
+      if (!role) {
+        throw new Error('Role not found');
+      }
+    }
+
+    const token = crypto.randomBytes(32).toString('base64url');
+
+    const invite = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      // Re-inviting the same email replaces the previous link instead of taking another seat
+      const previous = await tx.teamInvite.count({
+        where: { ...this.pendingWhere(tenantId), email: input.email },
+      });
+      await this.assertSeatAvailable(tenantId, tx, previous);
+
+      await tx.teamInvite.updateMany({
+        where: { tenantId, email: input.email, acceptedAt: null, revokedAt: null },
+        data: { revokedAt: new Date() },
+      });
+
+      return tx.teamInvite.create({
+        data: {
+          tenantId,
+          email: input.email,
+          accountType: input.accountType,
+          roleId: input.roleId || null,
+          tokenHash: this.hashToken(token),
+          expiresAt: new Date(Date.now() + this.inviteTtlHours * 60 * 60 * 1000),
+          invitedBy,
+        },
+        include: { tenant: true, inviter: true },
+      });
+    });
+
+    await mailService.send({
+      to: input.email,
+      subject: `Convite para ${invite.tenant.name}`,
+      text: [
+        'Olá.',
+        '',
+        `${invite.inviter.name} convidou você para a equipe de ${invite.tenant.name}.`,
+        'Crie sua conta pelo link abaixo:',
+        `${this.frontendUrl}/convite?token=${token}`,
+        '',
+        `O convite expira em ${this.inviteTtlHours} horas.`,
+      ].join('\n'),
+    });
+
+    return {
+      id: invite.id,
+      email: invite.email,
+      accountType: invite.accountType,
+      roleId: invite.roleId,
+      expiresAt: invite.expiresAt,
+      createdAt: invite.createdAt,
+    };
+  }
+
+  async revokeInvite(tenantId: string, inviteId: string): Promise<boolean> {
+    const revoked = await prisma.teamInvite.updateMany({
+      where: { id: inviteId, tenantId, acceptedAt: null, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+
+    return revoked.count > 0;
+  }
+
+  private async findPending(token: string) {
+    const invite = await prisma.teamInvite.findUnique({
+      where: { tokenHash: this.hashToken(token) },
+      include: { tenant: true },
+    });
+
+    if (!invite || invite.acceptedAt || invite.revokedAt || invite.expiresAt <= new Date() || !invite.tenant.isActive) {
+      throw new Error('Invalid or expired invitation');
+    }
+
+    return invite;
+  }
+
+  // Public preview for the acceptance page
+  async getInvite(token: string) {
+    const invite = await this.findPending(token);
+
+    return {
+      email: invite.email,
+      tenantName: invite.tenant.name,
+      expiresAt: invite.expiresAt,
+    };
+  }
+
+  async acceptInvite(token: string, input: AcceptInviteInput) {
+    const invite = await this.findPending(token);
+
+    await passwordPolicyService.assertAllowed(input.password, invite.tenantId);
+    const passwordHash = await bcrypt.hash(input.password, 12);
+
+    return prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      const claimed = await tx.teamInvite.updateMany({
+        where: { id: invite.id, acceptedAt: null, revokedAt: null },
+        data: { acceptedAt: new Date() },
+      });
+
+      if (claimed.count === 0) {
+        throw new Error('Invalid or expired invitation');
+      }
+
+      if (await tx.user.findUnique({ where: { email: invite.email } })) {
+        throw new Error('Email already registered');
+      }
+
+      // The claimed invite no longer counts, so this checks the seat it was holding
+      await this.assertSeatAvailable(invite.tenantId, tx);
+
+      return tx.user.create({
+        data: {
+          email: invite.email,
+          password: passwordHash,
+          passwordChangedAt: new Date(),
+          name: input.name,
+          accountType: invite.accountType,
+          roleId: invite.roleId,
+          tenantId: invite.tenantId,
+          isActive: true,
+        },
+        include: { tenant: true },
+      });
+    });
+  }
+}
+
+export const teamInviteService = new TeamInviteService();
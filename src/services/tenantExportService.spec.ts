@@ -0,0 +1,167 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+const { prisma, exports, tenantRows } = vi.hoisted(() => {
+  const exports = new Map<string, any>();
+  const tenant = {
+    id: "tenant-1",
+    name: "Silva & Associados",
+    schemaName: "tenant_0123456789abcdef0123456789abcdef",
+    maxStorage: BigInt(1073741824),
+  };
+
+  return {
+    exports,
+    tenantRows: {
+      clients: [
+        { id: "c1", name: "Ana", notes: "=HYPERLINK(\"http://x\")", created_at: new Date("2025-01-02T00:00:00Z") },
+        { id: "c2", name: "Bruno, \"B\"", notes: null, created_at: new Date("2025-01-03T00:00:00Z") },
+      ],
+      schema_migrations: [{ version: 1 }, { version: 2 }],
+    } as Record<string, any[]>,
+    prisma: {
+      tenant: { findUnique: vi.fn(async () => tenant), findUniqueOrThrow: vi.fn(async () => tenant) },
+      user: { findMany: vi.fn(async () => [{ id: "u1", email: "ana@silva.adv.br", name: "Ana" }]) },
+      role: { findMany: vi.fn(async () => []) },
+      tenantSettings: { findMany: vi.fn(async () => [{ tenantId: tenant.id, settings: {} }]) },
+      ssoConfig: { findMany: vi.fn(async () => []) },
+      tenantExport: {
+        findFirst: vi.fn(async ({ where }: any) => {
+          const record = [...exports.values()].find(
+            (candidate) =>
+              candidate.tenantId === where.tenantId &&
+              (!where.id || candidate.id === where.id) &&
+              (!where.status || where.status.in.includes(candidate.status))
+          );
+          return record ? { ...record, tenant } : null;
+        }),
+        findUnique: vi.fn(async ({ where }: any) => (exports.has(where.id) ? { ...exports.get(where.id), tenant } : null)),
+        findMany: vi.fn(async () => [...exports.values()]),
+        create: vi.fn(async ({ data }: any) => {
+          const record = { id: `export-${exports.size + 1}`, status: "pending", progress: 0, createdAt: new Date(), ...data };
+          exports.set(record.id, record);
+          return record;
+        }),
+        update: vi.fn(async ({ where, data }: any) => {
+          const record = { ...exports.get(where.id), ...data };
+          exports.set(where.id, record);
+          return record;
+        }),
+      },
+    },
+  };
+});
+
+// Fake tenant schema: two tables, read through the export cursor
+vi.mock("../config/database", () => {
+  class TenantDatabase {
+    private current: any[] = [];
+
+    async transaction(fn: (tx: any) => Promise<any>) {
+      return fn(this);
+    }
+
+    async query(sql: string, params: any[] = []) {
+      if (sql.includes("information_schema.tables")) {
+        return Object.keys(tenantRows).map((table_name) => ({ table_name }));
+      }
+      if (sql.includes("information_schema.columns")) {
+        return Object.keys(tenantRows[params[1]][0]).map((column_name) => ({ column_name }));
+      }
+      if (sql.startsWith("DECLARE")) {
+        this.current = [...tenantRows[/\."(\w+)"$/.exec(sql)![1]]];
+        return [];
+      }
+      if (sql.startsWith("FETCH")) {
+        return this.current.splice(0, 500);
+      }
+      return [];
+    }
+  }
+
+  return { prisma, TenantDatabase };
+});
+
+import { TenantExportService, toCsv } from "./tenantExportService";
+
+let dir: string;
+
+async function waitForStatus(service: TenantExportService, id: string, status: string) {
+  for (let i = 0; i < 100; i++) {
+    const record = await service.getExport("tenant-1", id);
+    if (record?.status === status) return record;
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+  throw new Error(`export never reached ${status}`);
+}
+
+describe("TenantExportService", () => {
+  beforeEach(() => {
+    exports.clear();
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "tenant-exports-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should quote CSV cells and neutralise spreadsheet formulas", () => {
+    expect(toCsv(["name", "notes"], [{ name: "Bruno, \"B\"", notes: "=1+1" }, { name: "Ana", notes: null }])).toBe(
+      "name,notes\r\n\"Bruno, \"\"B\"\"\",'=1+1\r\nAna,\r\n"
+    );
+  });
+
+  it("should build the archive in the background and hand out a download link", async () => {
+    const service = new TenantExportService(dir);
+
+    const requested = await service.requestExport("tenant-1", { userId: "u1" });
+    expect(requested.status).toBe("pending");
+    expect(requested.downloadUrl).toBeUndefined();
+
+    const completed = await waitForStatus(service, requested.id, "completed");
+    expect(completed.progress).toBe(100);
+    expect(completed.downloadUrl).toMatch(/^\/api\/exports\/download\/.+/);
+    expect(completed.expiresAt!.getTime()).toBeGreaterThan(Date.now());
+
+    const download = await service.resolveDownload(completed.downloadUrl!.split("/").pop()!);
+    expect(download.fileName).toMatch(/^silva-associados-export-\d{4}-\d{2}-\d{2}\.zip$/);
+
+    // Entry names are stored uncompressed in the zip directory
+    const archive = fs.readFileSync(download.filePath).toString("latin1");
+    for (const name of ["manifest.json", "global/users.json", "global/users.csv", "tenant/clients.json", "tenant/clients.csv"]) {
+      expect(archive).toContain(name);
+    }
+  });
+
+  it("should refuse a second export while one is in progress", async () => {
+    const service = new TenantExportService(dir);
+    exports.set("export-running", { id: "export-running", tenantId: "tenant-1", status: "running" });
+
+    await expect(service.requestExport("tenant-1", { userId: "u1" })).rejects.toMatchObject({
+      statusCode: 409,
+      code: "EXPORT_001",
+    });
+  });
+
+  it("should reject tampered links and expire archives past retention", async () => {
+    const service = new TenantExportService(dir);
+    await expect(service.resolveDownload("not-a-token")).rejects.toMatchObject({ statusCode: 410 });
+
+    const filePath = path.join(dir, "old.zip");
+    fs.writeFileSync(filePath, "zip");
+    exports.set("export-old", {
+      id: "export-old",
+      tenantId: "tenant-1",
+      status: "completed",
+      filePath,
+      expiresAt: new Date(Date.now() - 1000),
+    });
+    prisma.tenantExport.findMany.mockResolvedValueOnce([exports.get("export-old")]);
+
+    expect(await service.purgeExpired()).toBe(1);
+    expect(fs.existsSync(filePath)).toBe(false);
+    expect(exports.get("export-old")).toMatchObject({ status: "expired", filePath: null });
+  });
+});
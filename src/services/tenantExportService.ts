@@ -0,0 +1,534 @@
+import archiver from 'archiver';
+import fs from 'fs';
+import path from 'path';
+import jwt from 'jsonwebtoken';
+import { Prisma, TenantExport } from '@prisma/client';
+import { prisma, TenantDatabase } from '../config/database';
+import { AppError } from '../types';
+import { storageService } from './storageService';
+import { storageKey } from './attachmentService';
+
+// Bump when the archive layout changes; restores read it from manifest.json
+export const EXPORT_FORMAT_VERSION = 1;
+
+const FETCH_BATCH_SIZE = 500;
+const ACTIVE_STATUSES = ['pending', 'running'];
+
+export interface ExportRequester {
+  userId?: string;
+  adminId?: string;
+}
+
+export interface ExportManifestEntry {
+  name: string;
+  rows: number;
+  files: string[];
+}
+
+export interface ExportManifest {
+  formatVersion: number;
+  exportId: string;
+  tenant: { id: string; name: string; schemaName: string };
+  schemaVersion: number;
+  createdAt: string;
+  tables: ExportManifestEntry[];
+  global: ExportManifestEntry[];
+  // Attachment contents, one files/<attachment id> entry each (absent in older archives)
+  attachmentFiles?: number;
+}
+
+// A completed archive still on disk, within its retention
+type DownloadableExport = { filePath: string; completedAt: Date; expiresAt: Date };
+
+export interface TenantExportStatus {
+  id: string;
+  tenantId: string;
+  status: string;
+  progress: number;
+  currentStep: string | null;
+  formatVersion: number;
+  fileSize: number | null;
+  error: string | null;
+  requestedById: string | null;
+  requestedByAdminId: string | null;
+  startedAt: Date | null;
+  completedAt: Date | null;
+  expiresAt: Date | null;
+  createdAt: Date;
+  // Short-lived signed link; only present while the archive can be downloaded
+  downloadUrl?: string;
+  downloadUrlExpiresAt?: Date;
+}
+
+interface DownloadTokenPayload {
+  type: 'export_download';
+  exportId: string;
+  tenantId: string;
+}
+
+function quoteIdent(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+// BigInt (maxStorage, file sizes) has no JSON form
+function toJson(value: unknown): string {
+  return JSON.stringify(value, (_key, item) => (typeof item === 'bigint' ? item.toString() : item), 2);
+}
+
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+
+  let text = value instanceof Date
+    ? value.toISOString()
+    : typeof value === 'object'
+      ? JSON.stringify(value)
+      : String(value);
+
+  // Spreadsheet apps run cells starting with these as formulas; the JSON copy keeps the raw value
+  if (/^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(columns: string[], rows: Record<string, unknown>[]): string {
+  const lines = [columns.map(csvCell).join(',')];
+  for (const row of rows) {
+    lines.push(columns.map((column) => csvCell(row[column])).join(','));
+  }
+  return `${lines.join('\r\n')}\r\n`;
+}
+
+// Archives are built one at a time in this process, in the order they were requested.
+// Jobs left pending/running by a restart are picked up again by resumeInterrupted().
+export class TenantExportService {
+  private exportsDir: string;
+  private retentionHours: number;
+  private linkTtlMinutes: number;
+  private linkSecret: string;
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(exportsDir?: string) {
+    this.exportsDir = exportsDir || process.env.EXPORTS_DIR || path.resolve(process.cwd(), '.exports');
+    this.retentionHours = Number(process.env.EXPORT_RETENTION_HOURS) || 72;
+    this.linkTtlMinutes = Number(process.env.EXPORT_LINK_TTL_MINUTES) || 15;
+    // Its own key: a leaked link secret must not be able to mint access tokens, nor the reverse
+    this.linkSecret = process.env.EXPORT_LINK_SECRET || 'export-link-secret';
+  }
+
+  // retainUntil overrides EXPORT_RETENTION_HOURS for this archive
+  async requestExport(tenantId: string, requester: ExportRequester, retainUntil?: Date): Promise<TenantExportStatus> {
+    const tenant = await prisma.tenant.findUnique({ where: { id: tenantId }, select: { id: true } });
+    if (!tenant) {
+      throw new AppError('Tenant not found', 404, 'EXPORT_002');
+    }
+
+    const active = await prisma.tenantExport.findFirst({
+      where: { tenantId, status: { in: ACTIVE_STATUSES } },
+    });
+    if (active) {
+      throw new AppError('An export is already in progress for this tenant', 409, 'EXPORT_001');
+    }
+
+    const record = await prisma.tenantExport.create({
+      data: {
+        tenantId,
+        requestedById: requester.userId,
+        requestedByAdminId: requester.adminId,
+        formatVersion: EXPORT_FORMAT_VERSION,
+        currentStep: 'queued',
+        expiresAt: retainUntil,
+      },
+    });
+
+    this.enqueue(record.id);
+
+    return this.toStatus(record);
+  }
+
+  // Snapshot kept until retainUntil (a tenant scheduled for deletion keeps it until the purge).
+  // An export already in progress becomes the snapshot instead of being refused.
+  async requestSnapshot(tenantId: string, requester: ExportRequester, retainUntil: Date): Promise<TenantExportStatus> {
+    const active = await prisma.tenantExport.findFirst({
+      where: { tenantId, status: { in: ACTIVE_STATUSES } },
+    });
+
+    if (active) {
+      const record = await prisma.tenantExport.update({
+        where: { id: active.id },
+        data: { expiresAt: retainUntil },
+      });
+      return this.toStatus(record);
+    }
+
+    return this.requestExport(tenantId, requester, retainUntil);
+  }
+
+  // Puts a snapshot back on the normal retention, counted from now
+  async releaseSnapshot(exportId: string) {
+    const record = await prisma.tenantExport.findUnique({ where: { id: exportId } });
+    if (!record || !['completed', ...ACTIVE_STATUSES].includes(record.status)) {
+      return;
+    }
+
+    await prisma.tenantExport.update({
+      where: { id: exportId },
+      data: {
+        expiresAt: record.status === 'completed'
+          ? new Date(Date.now() + this.retentionHours * 60 * 60 * 1000)
+          : null,
+      },
+    });
+  }
+
+  async listExports(tenantId: string): Promise<TenantExportStatus[]> {
+    const records = await prisma.tenantExport.findMany({
+      where: { tenantId },
+      orderBy: { createdAt: 'desc' },
+      take: 20,
+    });
+
+    return records.map((record: TenantExport) => this.toStatus(record));
+  }
+
+  async getExport(tenantId: string, exportId: string): Promise<TenantExportStatus | null> {
+    const record = await prisma.tenantExport.findFirst({
+      where: { id: exportId, tenantId },
+    });
+
+    return record ? this.toStatus(record) : null;
+  }
+
+  // Validates a signed download link and returns the archive to stream
+  async resolveDownload(token: string): Promise<{ exportId: string; tenantId: string; filePath: string; fileName: string }> {
+    let payload: DownloadTokenPayload;
+    try {
+      payload = jwt.verify(token, this.linkSecret) as DownloadTokenPayload;
+    } catch (error) {
+      throw new AppError('Download link is invalid or has expired', 410, 'EXPORT_003');
+    }
+
+    if (payload.type !== 'export_download') {
+      throw new AppError('Download link is invalid or has expired', 410, 'EXPORT_003');
+    }
+
+    const record = await prisma.tenantExport.findFirst({
+      where: { id: payload.exportId, tenantId: payload.tenantId },
+      include: { tenant: { select: { name: true } } },
+    });
+
+    if (!record || !this.isDownloadable(record) || !fs.existsSync(record.filePath)) {
+      throw new AppError('Export is no longer available', 410, 'EXPORT_004');
+    }
+
+    const slug = record.tenant.name.normalize('NFD').replace(/[^a-zA-Z0-9]+/g, '-').replace(/^-|-$/g, '').toLowerCase();
+    const date = record.completedAt.toISOString().slice(0, 10);
+
+    return {
+      exportId: record.id,
+      tenantId: record.tenantId,
+      filePath: record.filePath,
+      fileName: `${slug || 'tenant'}-export-${date}.zip`,
+    };
+  }
+
+  async resumeInterrupted() {
+    const records = await prisma.tenantExport.findMany({
+      where: { status: { in: ACTIVE_STATUSES } },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    for (const record of records) {
+      this.enqueue(record.id);
+    }
+
+    return records.length;
+  }
+
+  // Deletes archives past their retention and marks them expired
+  async purgeExpired(now: Date = new Date()) {
+    const records = await prisma.tenantExport.findMany({
+      where: { status: 'completed', expiresAt: { lte: now } },
+    });
+
+    await this.expire(records);
+    return records.length;
+  }
+
+  // Deletes every archive of a tenant whatever its retention, once data copied into them
+  // has been erased (an anonymised client)
+  async discardArchives(tenantId: string) {
+    const records = await prisma.tenantExport.findMany({
+      where: { tenantId, status: 'completed' },
+    });
+
+    await this.expire(records);
+    return records.length;
+  }
+
+  async hasActiveExport(tenantId: string): Promise<boolean> {
+    const active = await prisma.tenantExport.findFirst({
+      where: { tenantId, status: { in: ACTIVE_STATUSES } },
+      select: { id: true },
+    });
+    return !!active;
+  }
+
+  private async expire(records: TenantExport[]) {
+    for (const record of records) {
+      if (record.filePath) {
+        await fs.promises.rm(record.filePath, { force: true });
+      }
+      await prisma.tenantExport.update({
+        where: { id: record.id },
+        data: { status: 'expired', filePath: null },
+      });
+    }
+  }
+
+  private enqueue(exportId: string) {
+    this.queue = this.queue
+      .then(() => this.run(exportId))
+      .catch((error) => console.error('Tenant export queue error:', error));
+  }
+
+  private async run(exportId: string) {
+    const record = await prisma.tenantExport.findUnique({
+      where: { id: exportId },
+      include: { tenant: true },
+    });
+    if (!record || !ACTIVE_STATUSES.includes(record.status)) {
+      return;
+    }
+
+    await prisma.tenantExport.update({
+      where: { id: exportId },
+      data: { status: 'running', progress: 0, currentStep: 'starting', startedAt: new Date(), error: null },
+    });
+
+    await fs.promises.mkdir(this.exportsDir, { recursive: true });
+    const filePath = path.join(this.exportsDir, `${exportId}.zip`);
+    const partialPath = `${filePath}.partial`;
+
+    try {
+      await this.writeArchive(record, partialPath, async (progress, currentStep) => {
+        await prisma.tenantExport.update({
+          where: { id: exportId },
+          data: { progress, currentStep },
+        });
+      });
+      await fs.promises.rename(partialPath, filePath);
+
+      const { size } = await fs.promises.stat(filePath);
+      const completedAt = new Date();
+
+      await prisma.tenantExport.update({
+        where: { id: exportId },
+        data: {
+          status: 'completed',
+          progress: 100,
+          currentStep: 'done',
+          filePath,
+          fileSize: BigInt(size),
+          completedAt,
+          expiresAt: record.expiresAt || new Date(completedAt.getTime() + this.retentionHours * 60 * 60 * 1000),
+        },
+      });
+    } catch (error) {
+      console.error(`Tenant export ${exportId} failed:`, error);
+      await fs.promises.rm(partialPath, { force: true });
+      await prisma.tenantExport.update({
+        where: { id: exportId },
+        data: { status: 'failed', currentStep: null, error: error.message },
+      });
+    }
+  }
+
+  private async writeArchive(
+    record: Prisma.TenantExportGetPayload<{ include: { tenant: true } }>,
+    filePath: string,
+    onProgress: (progress: number, step: string) => Promise<void>
+  ) {
+    const tenant = record.tenant;
+    const output = fs.createWriteStream(filePath);
+    const archive = archiver('zip', { zlib: { level: 9 } });
+    const closed = new Promise<void>((resolve, reject) => {
+      output.on('close', resolve);
+      output.on('error', reject);
+      archive.on('error', reject);
+    });
+    archive.pipe(output);
+
+    const manifest: ExportManifest = {
+      formatVersion: EXPORT_FORMAT_VERSION,
+      exportId: record.id,
+      tenant: { id: tenant.id, name: tenant.name, schemaName: tenant.schemaName },
+      schemaVersion: 0,
+      createdAt: new Date().toISOString(),
+      tables: [],
+      global: [],
+      attachmentFiles: 0,
+    };
+
+    try {
+      // Global rows; credentials (password hashes, 2FA and SSO secrets) are left out
+      await onProgress(0, 'global');
+      const global: Record<string, Record<string, unknown>[]> = {
+        tenant: [await prisma.tenant.findUniqueOrThrow({
+          where: { id: tenant.id },
+          select: {
+            id: true, name: true, schemaName: true, planType: true, isActive: true,
+            maxUsers: true, maxStorage: true, createdAt: true, updatedAt: true,
+          },
+        })],
+        users: await prisma.user.findMany({
+          where: { tenantId: tenant.id },
+          select: {
+            id: true, email: true, name: true, accountType: true, roleId: true, isActive: true,
+            twoFactorEnabled: true, lastLogin: true, createdAt: true, updatedAt: true,
+          },
+          orderBy: { createdAt: 'asc' },
+        }),
+        roles: await prisma.role.findMany({ where: { tenantId: tenant.id }, orderBy: { createdAt: 'asc' } }),
+        settings: await prisma.tenantSettings.findMany({ where: { tenantId: tenant.id } }),
+        sso_config: await prisma.ssoConfig.findMany({
+          where: { tenantId: tenant.id },
+          select: {
+            issuer: true, clientId: true, allowedDomains: true, defaultAccountType: true,
+            disablePasswordLogin: true, enabled: true, createdAt: true, updatedAt: true,
+          },
+        }),
+      };
+
+      for (const [name, rows] of Object.entries(global)) {
+        const columns = rows.length > 0 ? Object.keys(rows[0]) : [];
+        archive.append(toJson(rows), { name: `global/${name}.json` });
+        archive.append(toCsv(columns, rows), { name: `global/${name}.csv` });
+        manifest.global.push({ name, rows: rows.length, files: [`global/${name}.json`, `global/${name}.csv`] });
+      }
+
+      // Tenant schema, read from one snapshot so related tables stay consistent
+      const tenantDb = new TenantDatabase(tenant.id);
+      let attachments: Record<string, unknown>[] = [];
+      await tenantDb.transaction(async (tx) => {
+        const tables: { table_name: string }[] = await tx.query(
+          `SELECT table_name FROM information_schema.tables
+           WHERE table_schema = $1 AND table_type = 'BASE TABLE'
+           ORDER BY table_name`,
+          [tenant.schemaName]
+        );
+
+        for (const [index, { table_name: table }] of tables.entries()) {
+          await onProgress(Math.round(((index + 1) / (tables.length + 1)) * 95), `table:${table}`);
+
+          const columns: { column_name: string }[] = await tx.query(
+            `SELECT column_name FROM information_schema.columns
+             WHERE table_schema = $1 AND table_name = $2
+             ORDER BY ordinal_position`,
+            [tenant.schemaName, table]
+          );
+
+          const rows = await this.readTable(tx, table);
+          if (table === 'schema_migrations') {
+            manifest.schemaVersion = Math.max(0, ...rows.map((row) => Number(row.version)));
+          }
+          if (table === 'attachments') {
+            attachments = rows;
+          }
+
+          const files = [`tenant/${table}.json`, `tenant/${table}.csv`];
+          archive.append(toJson(rows), { name: files[0] });
+          archive.append(toCsv(columns.map((column) => column.column_name), rows), { name: files[1] });
+          manifest.tables.push({ name: table, rows: rows.length, files });
+        }
+      }, { readOnly: true });
+
+      await onProgress(96, 'attachments');
+      for (const attachment of attachments) {
+        const data = await storageService.get(storageKey(tenant.id, String(attachment.id)));
+        if (data) {
+          archive.append(data, { name: `files/${attachment.id}` });
+          manifest.attachmentFiles = (manifest.attachmentFiles || 0) + 1;
+        }
+      }
+
+      await onProgress(98, 'finalizing');
+      archive.append(toJson(manifest), { name: 'manifest.json' });
+      await archive.finalize();
+      await closed;
+    } catch (error) {
+      archive.abort();
+      output.destroy();
+      throw error;
+    }
+  }
+
+  // Cursor so large tables are fetched in batches instead of one huge result
+  private async readTable(tx: TenantDatabase, table: string): Promise<Record<string, unknown>[]> {
+    const rows: Record<string, unknown>[] = [];
+
+    await tx.query(`DECLARE export_cursor NO SCROLL CURSOR FOR SELECT * FROM \${schema}.${quoteIdent(table)}`);
+    try {
+      for (;;) {
+        const batch = await tx.query(`FETCH ${FETCH_BATCH_SIZE} FROM export_cursor`);
+        rows.push(...batch);
+        if (batch.length < FETCH_BATCH_SIZE) break;
+      }
+    } finally {
+      await tx.query('CLOSE export_cursor');
+    }
+
+    return rows;
+  }
+
+  private isDownloadable<T extends TenantExport>(record: T): record is T & DownloadableExport {
+    return (
+      record.status === 'completed' &&
+      !!record.filePath &&
+      !!record.completedAt &&
+      !!record.expiresAt &&
+      record.expiresAt > new Date()
+    );
+  }
+
+  private toStatus(record: TenantExport): TenantExportStatus {
+    const status: TenantExportStatus = {
+      id: record.id,
+      tenantId: record.tenantId,
+      status: record.status,
+      progress: record.progress,
+      currentStep: record.currentStep,
+      formatVersion: record.formatVersion,
+      fileSize: record.fileSize !== null && record.fileSize !== undefined ? Number(record.fileSize) : null,
+      error: record.error,
+      requestedById: record.requestedById,
+      requestedByAdminId: record.requestedByAdminId,
+      startedAt: record.startedAt,
+      completedAt: record.completedAt,
+      expiresAt: record.expiresAt,
+      createdAt: record.createdAt,
+    };
+
+    if (this.isDownloadable(record)) {
+      // The link never outlives the archive
+      const expiresAt = new Date(Math.min(
+        Date.now() + this.linkTtlMinutes * 60 * 1000,
+        record.expiresAt.getTime()
+      ));
+      const payload: DownloadTokenPayload = { type: 'export_download', exportId: record.id, tenantId: record.tenantId };
+      const token = jwt.sign(payload, this.linkSecret, {
+        expiresIn: Math.max(1, Math.floor((expiresAt.getTime() - Date.now()) / 1000)),
+      });
+
+      status.downloadUrl = `/api/exports/download/${token}`;
+      status.downloadUrlExpiresAt = expiresAt;
+    }
+
+    return status;
+  }
+}
+
+export const tenantExportService = new TenantExportService();
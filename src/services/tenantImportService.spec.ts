@@ -0,0 +1,251 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import archiver from "archiver";
+
+const { prisma, db } = vi.hoisted(() => ({
+  prisma: {
+    tenant: {
+      findUnique: vi.fn(async () => ({ id: "tenant-1", schemaName: "tenant_0123456789abcdef0123456789abcdef" })),
+    },
+  },
+  // State of the fake target database
+  db: {
+    committed: false,
+    failCommit: false,
+    existingIds: new Set<string>(),
+    users: [] as { id: string; email: string; tenant_id: string }[],
+    inserts: {} as Record<string, Record<string, unknown>[]>,
+  },
+}));
+
+vi.mock("../config/database", () => {
+  class TenantDatabase {
+    async transaction(fn: (tx: any) => Promise<any>) {
+      const result = await fn(this);
+      if (db.failCommit) throw new Error("could not serialize access");
+      db.committed = true;
+      return result;
+    }
+
+    async query(sql: string, params: any[] = []) {
+      if (sql.includes("FROM public.roles WHERE tenant_id")) return [];
+      if (sql.includes("FROM public.users WHERE email")) return db.users.filter((user) => params[0].includes(user.email));
+      if (sql.includes("WHERE id = ANY")) return [];
+      if (sql.includes("FROM public.tenant_settings")) return [{ id: "settings-1" }];
+      if (sql.includes("information_schema.columns")) {
+        return ["id", "name", "client_id", "created_by"].map((column_name) => ({ column_name }));
+      }
+      if (sql.includes("pg_index")) return [{ column_name: "id" }];
+
+      const tableInsert = /INSERT INTO \$\{schema\}\."(\w+)"/.exec(sql);
+      if (tableInsert) {
+        const rows = JSON.parse(params[0]);
+        (db.inserts[tableInsert[1]] ||= []).push(...rows);
+        // ON CONFLICT DO NOTHING: rows whose id already exists are not returned
+        return rows.filter((row: any) => !db.existingIds.has(row.id)).map(() => ({ inserted: true }));
+      }
+
+      const globalInsert = /INSERT INTO public\.(\w+)/.exec(sql);
+      if (globalInsert) {
+        (db.inserts[globalInsert[1]] ||= []).push({ id: params[0] });
+      }
+      return [];
+    }
+  }
+
+  return { prisma, TenantDatabase };
+});
+
+vi.mock("./tenantMigrationService", () => ({
+  tenantMigrationService: {
+    latestVersion: () => 2,
+    getAppliedMigrations: vi.fn(async () => [{ version: 1 }, { version: 2 }]),
+  },
+}));
+
+vi.mock("./tenantService", () => ({ tenantService: {} }));
+
+import { tenantImportService, readArchive } from "./tenantImportService";
+import { storageService } from "./storageService";
+
+const stored = new Map<string, Buffer>();
+storageService.useDriver({
+  put: async (key, data) => void stored.set(key, data),
+  get: async (key) => stored.get(key) || null,
+  delete: async (key) => void stored.delete(key),
+});
+
+const CLIENT_ID = "11111111-1111-4111-8111-111111111111";
+const PROJECT_ID = "22222222-2222-4222-8222-222222222222";
+const USER_ID = "33333333-3333-4333-8333-333333333333";
+
+async function buildArchive(overrides: Record<string, unknown> = {}): Promise<Buffer> {
+  const files: Record<string, unknown> = {
+    "manifest.json": {
+      formatVersion: 1,
+      exportId: "export-1",
+      tenant: { id: "source-tenant", name: "Silva & Associados", schemaName: "tenant_source" },
+      schemaVersion: 2,
+      createdAt: "2025-09-27T00:00:00.000Z",
+      tables: [
+        { name: "clients", rows: 1, files: [] },
+        { name: "projects", rows: 1, files: [] },
+        { name: "schema_migrations", rows: 2, files: [] },
+      ],
+      global: [{ name: "users", rows: 1, files: [] }],
+    },
+    "global/users.json": [{ id: USER_ID, email: "ana@silva.adv.br", name: "Ana", accountType: "GERENCIAL" }],
+    "tenant/clients.json": [{ id: CLIENT_ID, name: "Cliente", created_by: USER_ID, legacy_field: "x" }],
+    "tenant/projects.json": [{ id: PROJECT_ID, name: "Projeto", client_id: CLIENT_ID, created_by: USER_ID }],
+    ...overrides,
+  };
+
+  const archive = archiver("zip");
+  const chunks: Buffer[] = [];
+  archive.on("data", (chunk: Buffer) => chunks.push(chunk));
+  const ended = new Promise((resolve) => archive.on("end", resolve));
+  for (const [name, content] of Object.entries(files)) {
+    archive.append(JSON.stringify(content), { name });
+  }
+  await archive.finalize();
+  await ended;
+
+  return Buffer.concat(chunks);
+}
+
+describe("TenantImportService", () => {
+  beforeEach(() => {
+    db.committed = false;
+    db.failCommit = false;
+    db.existingIds = new Set();
+    db.users = [];
+    db.inserts = {};
+    stored.clear();
+  });
+
+  it("should reject files that are not export archives or come from a newer schema", async () => {
+    await expect(tenantImportService.importArchive("tenant-1", Buffer.from("not a zip"))).rejects.toMatchObject({
+      statusCode: 400,
+      code: "IMPORT_001",
+    });
+
+    const newer = await buildArchive({
+      "manifest.json": { formatVersion: 1, tenant: {}, schemaVersion: 3, tables: [], global: [] },
+    });
+    await expect(tenantImportService.importArchive("tenant-1", newer)).rejects.toMatchObject({
+      statusCode: 422,
+      code: "IMPORT_003",
+    });
+  });
+
+  it("should stop reading archives past the entry or decompressed size limits", async () => {
+    const archive = await buildArchive({ "tenant/padding.json": "x".repeat(10_000) });
+
+    await expect(readArchive(archive, { maxEntries: 2, maxBytes: 1_000_000 })).rejects.toMatchObject({
+      statusCode: 413,
+      code: "IMPORT_005",
+    });
+    await expect(readArchive(archive, { maxEntries: 100, maxBytes: 5_000 })).rejects.toMatchObject({
+      statusCode: 413,
+      code: "IMPORT_005",
+    });
+    await expect(readArchive(archive, { maxEntries: 100, maxBytes: 1_000_000 })).resolves.toHaveProperty("size", 5);
+  });
+
+  it("should report a dry run without committing", async () => {
+    db.existingIds.add(CLIENT_ID);
+
+    const report = await tenantImportService.importArchive("tenant-1", await buildArchive(), { dryRun: true });
+
+    expect(db.committed).toBe(false);
+    expect(report.dryRun).toBe(true);
+    expect(report.tables.map((table) => table.name)).toEqual(["clients", "projects"]);
+    expect(report.tables[0]).toMatchObject({ rows: 1, inserted: 0, skipped: 1, droppedColumns: ["legacy_field"] });
+    expect(report.tables[1]).toMatchObject({ rows: 1, inserted: 1, skipped: 0 });
+    expect(report.global.find((table) => table.name === "users")).toMatchObject({ inserted: 1 });
+    expect(report.conflicts).toBe(1);
+  });
+
+  it("should give rows new ids and rewrite references when remapping", async () => {
+    db.users = [{ id: "existing-user", email: "ana@silva.adv.br", tenant_id: "tenant-1" }];
+
+    const report = await tenantImportService.importArchive("tenant-1", await buildArchive(), { ids: "remap" });
+
+    expect(db.committed).toBe(true);
+    expect(report.global.find((table) => table.name === "users")).toMatchObject({ inserted: 0, skipped: 1 });
+
+    const [client] = db.inserts.clients;
+    const [project] = db.inserts.projects;
+    expect(client.id).not.toBe(CLIENT_ID);
+    expect(project.client_id).toBe(client.id);
+    // Users are matched by email, so references follow the existing account
+    expect(client.created_by).toBe("existing-user");
+    expect(project.created_by).toBe("existing-user");
+  });
+
+  it("should roll everything back when conflicts are not allowed", async () => {
+    db.existingIds.add(PROJECT_ID);
+
+    await expect(
+      tenantImportService.importArchive("tenant-1", await buildArchive(), { conflict: "fail" })
+    ).rejects.toMatchObject({ statusCode: 409, code: "IMPORT_004" });
+    expect(db.committed).toBe(false);
+  });
+
+  it("should put attachment files back under the restored ids", async () => {
+    const ATTACHMENT_ID = "44444444-4444-4444-8444-444444444444";
+    const archive = await buildArchive({
+      "manifest.json": {
+        formatVersion: 1,
+        tenant: { id: "source-tenant", name: "Silva & Associados" },
+        schemaVersion: 2,
+        tables: [{ name: "attachments", rows: 1, files: [] }],
+        global: [],
+        attachmentFiles: 1,
+      },
+      "tenant/attachments.json": [{ id: ATTACHMENT_ID, name: "peticao.pdf", mime_type: "application/pdf", size: 6 }],
+      [`files/${ATTACHMENT_ID}`]: "%PDF-1",
+    });
+
+    const dryRun = await tenantImportService.importArchive("tenant-1", archive, { dryRun: true, ids: "remap" });
+    expect(dryRun.attachmentFiles).toBe(0);
+    expect(stored.size).toBe(0);
+
+    const report = await tenantImportService.importArchive("tenant-1", archive, { ids: "remap" });
+
+    const [attachment] = db.inserts.attachments.slice(-1);
+    expect(attachment.id).not.toBe(ATTACHMENT_ID);
+    expect(report.attachmentFiles).toBe(1);
+    expect(stored.get(`tenant-1/${attachment.id}`)?.toString()).toBe(JSON.stringify("%PDF-1"));
+  });
+
+  it("should revert attachment files when the commit fails", async () => {
+    const ATTACHMENT_ID = "44444444-4444-4444-8444-444444444444";
+    const OTHER_ID = "55555555-5555-4555-8555-555555555555";
+    stored.set(`tenant-1/${OTHER_ID}`, Buffer.from("original"));
+    const archive = await buildArchive({
+      "manifest.json": {
+        formatVersion: 1,
+        tenant: { id: "source-tenant", name: "Silva & Associados" },
+        schemaVersion: 2,
+        tables: [{ name: "attachments", rows: 2, files: [] }],
+        global: [],
+        attachmentFiles: 2,
+      },
+      "tenant/attachments.json": [
+        { id: ATTACHMENT_ID, name: "peticao.pdf", mime_type: "application/pdf", size: 6 },
+        { id: OTHER_ID, name: "contrato.pdf", mime_type: "application/pdf", size: 6 },
+      ],
+      [`files/${ATTACHMENT_ID}`]: "%PDF-1",
+      [`files/${OTHER_ID}`]: "%PDF-2",
+    });
+    db.failCommit = true;
+
+    await expect(tenantImportService.importArchive("tenant-1", archive, { conflict: "overwrite" })).rejects.toThrow(
+      "could not serialize access"
+    );
+
+    expect(db.committed).toBe(false);
+    expect(stored.has(`tenant-1/${ATTACHMENT_ID}`)).toBe(false);
+    expect(stored.get(`tenant-1/${OTHER_ID}`)?.toString()).toBe("original");
+  });
+});
@@ -0,0 +1,615 @@
+import bcrypt from 'bcrypt';
+import crypto from 'crypto';
+import yauzl from 'yauzl';
+import { prisma, TenantDatabase } from '../config/database';
+import { AppError } from '../types';
+import { EXPORT_FORMAT_VERSION, ExportManifest } from './tenantExportService';
+import { tenantMigrationService } from './tenantMigrationService';
+import { tenantService } from './tenantService';
+import { storageService } from './storageService';
+import { storageKey } from './attachmentService';
+
+const INSERT_BATCH_SIZE = 500;
+
+// The archive is read into memory, so entries and decompressed bytes are capped while
+// streaming: a zip bomb declares small sizes and inflates far past them
+const MAX_ARCHIVE_ENTRIES = Number(process.env.IMPORT_MAX_ENTRIES) || 100_000;
+const MAX_UNCOMPRESSED_BYTES = Number(process.env.IMPORT_MAX_UNCOMPRESSED_BYTES) || 2 * 1024 * 1024 * 1024;
+
+// What to do with archive rows that already exist in the target (same primary key,
+// or the same email / role name / settings row for global rows)
+export type ImportConflictPolicy = 'skip' | 'overwrite' | 'fail';
+
+// preserve: keep archive ids (restoring a firm over itself or into an empty environment);
+// remap: give every row a new id and rewrite references (copying next to the original)
+export type ImportIdPolicy = 'preserve' | 'remap';
+
+export interface TenantImportOptions {
+  dryRun?: boolean;
+  conflict?: ImportConflictPolicy;
+  ids?: ImportIdPolicy;
+}
+
+export interface ImportTableReport {
+  name: string;
+  rows: number;
+  inserted: number;
+  updated: number;
+  // Rows left as they were because they already exist (counted as conflicts under 'fail')
+  skipped: number;
+  // Archive columns the target table no longer has; their values are dropped
+  droppedColumns: string[];
+}
+
+export interface TenantImportReport {
+  tenantId: string;
+  dryRun: boolean;
+  conflict: ImportConflictPolicy;
+  ids: ImportIdPolicy;
+  formatVersion: number;
+  archiveSchemaVersion: number;
+  targetSchemaVersion: number;
+  sourceTenant: { id: string; name: string };
+  global: ImportTableReport[];
+  tables: ImportTableReport[];
+  conflicts: number;
+  // Attachment contents written to storage (reverted if the commit fails; never on a dry run)
+  attachmentFiles: number;
+  warnings: string[];
+}
+
+// Thrown inside the restore transaction to roll a dry run back once the report is complete
+class DryRunRollback extends Error {
+  constructor(public report: TenantImportReport) {
+    super('Dry run');
+  }
+}
+
+// An attachment file written during the restore and what its key held before, so a
+// failed restore can put storage back the way it was
+interface StagedFile {
+  key: string;
+  previous: Buffer | null;
+  contentType: string;
+}
+
+function quoteIdent(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+function emptyReport(name: string, rows: number): ImportTableReport {
+  return { name, rows, inserted: 0, updated: 0, skipped: 0, droppedColumns: [] };
+}
+
+// References between tenant rows are plain uuid columns (client_id, created_by, assigned_to[]),
+// so any string equal to a remapped id is rewritten. Values nested inside jsonb are left alone.
+function remapValue(value: unknown, idMap: Map<string, string>): unknown {
+  if (typeof value === 'string') {
+    return idMap.get(value) ?? value;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => remapValue(item, idMap));
+  }
+  return value;
+}
+
+function remapRow(row: Record<string, unknown>, idMap: Map<string, string>): Record<string, unknown> {
+  if (idMap.size === 0) {
+    return row;
+  }
+  return Object.fromEntries(Object.entries(row).map(([key, value]) => [key, remapValue(value, idMap)]));
+}
+
+// Reads the JSON entries and attachment files of an export archive; the CSV copies are for humans only
+export function readArchive(
+  archive: Buffer,
+  limits = { maxEntries: MAX_ARCHIVE_ENTRIES, maxBytes: MAX_UNCOMPRESSED_BYTES }
+): Promise<Map<string, Buffer>> {
+  return new Promise((resolve, reject) => {
+    yauzl.fromBuffer(archive, { lazyEntries: true }, (openError, zipfile) => {
+      if (openError || !zipfile) {
+        return reject(new AppError('Archive is not a valid zip file', 400, 'IMPORT_001'));
+      }
+
+      const entries = new Map<string, Buffer>();
+      let entryCount = 0;
+      let totalBytes = 0;
+      let failed = false;
+      const fail = (error: Error) => {
+        if (!failed) {
+          failed = true;
+          zipfile.close();
+          reject(error);
+        }
+      };
+      const tooLarge = () =>
+        new AppError(
+          `Archive is too large once decompressed (limit ${limits.maxEntries} entries, ${limits.maxBytes} bytes)`,
+          413,
+          'IMPORT_005'
+        );
+
+      zipfile.on('error', fail);
+      zipfile.on('end', () => !failed && resolve(entries));
+      zipfile.on('entry', (entry: yauzl.Entry) => {
+        entryCount += 1;
+        if (entryCount > limits.maxEntries) {
+          return fail(tooLarge());
+        }
+        if (!entry.fileName.endsWith('.json') && !entry.fileName.startsWith('files/')) {
+          return zipfile.readEntry();
+        }
+
+        zipfile.openReadStream(entry, (streamError, stream) => {
+          if (streamError || !stream) {
+            return fail(streamError || new AppError('Archive is not a valid zip file', 400, 'IMPORT_001'));
+          }
+          const chunks: Buffer[] = [];
+          stream.on('data', (chunk: Buffer) => {
+            // Counted on the inflated bytes, not the sizes the entry headers claim
+            totalBytes += chunk.length;
+            if (totalBytes > limits.maxBytes) {
+              stream.destroy();
+              return fail(tooLarge());
+            }
+            chunks.push(chunk);
+          });
+          stream.on('error', fail);
+          stream.on('end', () => {
+            entries.set(entry.fileName, Buffer.concat(chunks));
+            zipfile.readEntry();
+          });
+        });
+      });
+      zipfile.readEntry();
+    });
+  });
+}
+
+// Restores an archive produced by TenantExportService. Everything (tenant schema and the
+// tenant's global rows) is written in one transaction, so a failure leaves the target untouched
+// and a dry run is the same restore rolled back once its report is built. Attachment files are
+// written just before the commit and reverted if it fails.
+export class TenantImportService {
+  async importArchive(tenantId: string, archive: Buffer, options: TenantImportOptions = {}): Promise<TenantImportReport> {
+    if (options.conflict === 'overwrite' && options.ids === 'remap') {
+      throw new AppError('Remapped ids never collide; use conflict "skip" or "fail" with ids "remap"', 400, 'IMPORT_001');
+    }
+
+    const tenant = await prisma.tenant.findUnique({ where: { id: tenantId } });
+    if (!tenant) {
+      throw new AppError('Tenant not found', 404, 'IMPORT_002');
+    }
+
+    const entries = await readArchive(archive);
+    const manifest = this.readJson<ExportManifest>(entries, 'manifest.json');
+    const targetSchemaVersion = await this.checkVersions(manifest, tenant.schemaName);
+
+    const report: TenantImportReport = {
+      tenantId,
+      dryRun: !!options.dryRun,
+      conflict: options.conflict || 'skip',
+      ids: options.ids || 'preserve',
+      formatVersion: manifest.formatVersion,
+      archiveSchemaVersion: manifest.schemaVersion,
+      targetSchemaVersion,
+      sourceTenant: { id: manifest.tenant.id, name: manifest.tenant.name },
+      global: [],
+      tables: [],
+      conflicts: 0,
+      attachmentFiles: 0,
+      warnings: [],
+    };
+
+    const tenantDb = new TenantDatabase(tenantId);
+    // Archive id -> target id, filled by the global rows first so tenant rows follow them
+    const idMap = new Map<string, string>();
+    const staged: StagedFile[] = [];
+
+    try {
+      await tenantDb.transaction(async (tx) => {
+
+        await this.restoreRoles(tx, tenantId, this.readGlobal(entries, manifest, 'roles'), idMap, report);
+        await this.restoreUsers(tx, tenantId, this.readGlobal(entries, manifest, 'users'), idMap, report);
+        await this.restoreSettings(tx, tenantId, this.readGlobal(entries, manifest, 'settings'), report);
+
+        if (this.readGlobal(entries, manifest, 'sso_config').length > 0) {
+          report.warnings.push('SSO configuration is not restored (the archive has no client secret); configure it again');
+        }
+
+        const tables = manifest.tables.filter((table) => table.name !== 'schema_migrations');
+        const tableRows = new Map(tables.map((table) => [table.name, this.readJson<Record<string, unknown>[]>(entries, `tenant/${table.name}.json`)]));
+
+        if (report.ids === 'remap') {
+          for (const rows of tableRows.values()) {
+            for (const row of rows) {
+              if (typeof row.id === 'string') {
+                idMap.set(row.id, crypto.randomUUID());
+              }
+            }
+          }
+        }
+
+        for (const table of tables) {
+          const rows = tableRows.get(table.name)!.map((row) => remapRow(row, idMap));
+          report.tables.push(await this.restoreTable(tx, tenant.schemaName, table.name, rows, report));
+        }
+
+        if (tableRows.has('attachments')) {
+          await this.recountStorage(tx, tenantId, report);
+        }
+
+        report.conflicts = [...report.global, ...report.tables].reduce((total, table) => total + table.skipped, 0);
+        if (report.dryRun) {
+          throw new DryRunRollback(report);
+        }
+        if (report.conflict === 'fail' && report.conflicts > 0) {
+          throw new AppError(`${report.conflicts} rows already exist in the target tenant`, 409, 'IMPORT_004');
+        }
+
+        await this.restoreFiles(tenantId, entries, tableRows.get('attachments') || [], idMap, report, staged);
+      });
+    } catch (error) {
+      if (error instanceof DryRunRollback) {
+        return error.report;
+      }
+      await this.unstageFiles(staged);
+      // Unique violation outside the primary key (e.g. an invoice number taken by another row)
+      const pgError = error as { code?: string; detail?: string; message: string };
+      if (pgError.code === '23505') {
+        throw new AppError(`Conflicting row: ${pgError.detail || pgError.message}`, 409, 'IMPORT_004');
+      }
+      throw error;
+    }
+
+    return report;
+  }
+
+  // Restores into a tenant created for the purpose; it is removed again if the restore
+  // fails or was only a dry run, so nothing is left behind either way
+  async importAsNewTenant(name: string, archive: Buffer, options: TenantImportOptions = {}): Promise<TenantImportReport> {
+    const tenantId = await tenantService.createTenant(name);
+
+    try {
+      const report = await this.importArchive(tenantId, archive, options);
+      if (report.dryRun) {
+        await tenantService.purgeTenant(tenantId);
+      }
+      return report;
+    } catch (error) {
+      await tenantService.purgeTenant(tenantId);
+      throw error;
+    }
+  }
+
+  // Usage is recounted from the restored rows rather than added up, so skipped and
+  // overwritten attachments are not counted twice
+  private async recountStorage(tx: TenantDatabase, tenantId: string, report: TenantImportReport) {
+    const [usage] = await tx.query(
+      `UPDATE public.tenants
+       SET storage_used = (SELECT COALESCE(SUM(size), 0) FROM \${schema}.attachments)
+       WHERE id = $1
+       RETURNING storage_used, max_storage`,
+      [tenantId]
+    );
+    if (usage && Number(usage.storage_used) > Number(usage.max_storage)) {
+      report.warnings.push(
+        `Attachments take ${usage.storage_used} bytes, over the plan's ${usage.max_storage}; new uploads are refused until files are removed`
+      );
+    }
+  }
+
+  private async restoreFiles(
+    tenantId: string,
+    entries: Map<string, Buffer>,
+    attachments: Record<string, unknown>[],
+    idMap: Map<string, string>,
+    report: TenantImportReport,
+    staged: StagedFile[]
+  ) {
+    const missing: string[] = [];
+
+    for (const attachment of attachments) {
+      const archiveId = String(attachment.id);
+      const data = entries.get(`files/${archiveId}`);
+      if (!data) {
+        missing.push(archiveId);
+        continue;
+      }
+      const key = storageKey(tenantId, idMap.get(archiveId) ?? archiveId);
+      const contentType = String(attachment.mime_type);
+      // Recorded before the write, so a write that fails halfway is reverted too
+      staged.push({ key, previous: await storageService.get(key), contentType });
+      await storageService.put(key, data, contentType);
+      report.attachmentFiles += 1;
+    }
+
+    if (missing.length > 0) {
+      report.warnings.push(`${missing.length} attachments have no file in the archive and cannot be downloaded`);
+    }
+  }
+
+  // Best effort, like other storage cleanups: a file left behind is logged, not rethrown over
+  // the error that failed the restore
+  private async unstageFiles(staged: StagedFile[]) {
+    for (const { key, previous, contentType } of staged.reverse()) {
+      try {
+        if (previous) {
+          await storageService.put(key, previous, contentType);
+        } else {
+          await storageService.delete(key);
+        }
+      } catch (error) {
+        console.error(`Failed to revert restored file ${key}:`, error);
+      }
+    }
+  }
+
+  private readJson<T>(entries: Map<string, Buffer>, name: string): T {
+    const entry = entries.get(name);
+    if (!entry) {
+      throw new AppError(`Archive is missing ${name}`, 400, 'IMPORT_001');
+    }
+
+    try {
+      return JSON.parse(entry.toString('utf8'));
+    } catch (error) {
+      throw new AppError(`Archive entry ${name} is not valid JSON`, 400, 'IMPORT_001');
+    }
+  }
+
+  private readGlobal(entries: Map<string, Buffer>, manifest: ExportManifest, name: string): Record<string, any>[] {
+    return manifest.global.some((entry) => entry.name === name)
+      ? this.readJson<Record<string, any>[]>(entries, `global/${name}.json`)
+      : [];
+  }
+
+  // Archives from older releases restore into newer schemas (columns are matched by name);
+  // the reverse would silently lose data, so it is refused
+  private async checkVersions(manifest: ExportManifest, schemaName: string): Promise<number> {
+    if (!manifest || typeof manifest.formatVersion !== 'number' || !Array.isArray(manifest.tables)) {
+      throw new AppError('Archive manifest is invalid', 400, 'IMPORT_001');
+    }
+    if (manifest.formatVersion > EXPORT_FORMAT_VERSION) {
+      throw new AppError(
+        `Archive format ${manifest.formatVersion} is newer than this server supports (${EXPORT_FORMAT_VERSION})`,
+        422,
+        'IMPORT_003'
+      );
+    }
+    if (manifest.schemaVersion > tenantMigrationService.latestVersion()) {
+      throw new AppError(
+        `Archive schema version ${manifest.schemaVersion} is newer than this release (${tenantMigrationService.latestVersion()})`,
+        422,
+        'IMPORT_003'
+      );
+    }
+
+    const applied = await tenantMigrationService.getAppliedMigrations(schemaName);
+    const targetVersion = Math.max(0, ...applied.map((migration) => migration.version));
+    if (manifest.schemaVersion > targetVersion) {
+      throw new AppError(
+        `Target tenant schema is at version ${targetVersion}, archive needs ${manifest.schemaVersion}; run tenant migrations first`,
+        422,
+        'IMPORT_003'
+      );
+    }
+
+    return targetVersion;
+  }
+
+  // Global ids are unique across tenants: an archive id already used elsewhere gets a new one
+  private async takenIds(tx: TenantDatabase, table: 'roles' | 'users', ids: string[], report: TenantImportReport) {
+    if (report.ids === 'remap') {
+      return new Set(ids);
+    }
+    const taken = await tx.query(`SELECT id FROM public.${table} WHERE id = ANY($1::uuid[])`, [ids]);
+    return new Set(taken.map((row: any) => row.id as string));
+  }
+
+  private async restoreRoles(
+    tx: TenantDatabase,
+    tenantId: string,
+    roles: Record<string, any>[],
+    idMap: Map<string, string>,
+    report: TenantImportReport
+  ) {
+    const result = emptyReport('roles', roles.length);
+    const existing: { id: string; name: string }[] = await tx.query(
+      'SELECT id, name FROM public.roles WHERE tenant_id = $1',
+      [tenantId]
+    );
+    const taken = await this.takenIds(tx, 'roles', roles.map((role) => role.id), report);
+
+    for (const role of roles) {
+      const match = existing.find((candidate) => candidate.name === role.name);
+      if (match) {
+        idMap.set(role.id, match.id);
+        if (report.conflict === 'overwrite') {
+          await tx.query(
+            'UPDATE public.roles SET description = $2, permissions = $3::jsonb, updated_at = now() WHERE id = $1',
+            [match.id, role.description ?? null, JSON.stringify(role.permissions ?? [])]
+          );
+          result.updated++;
+        } else {
+          result.skipped++;
+        }
+        continue;
+      }
+
+      const id = taken.has(role.id) ? crypto.randomUUID() : role.id;
+      idMap.set(role.id, id);
+      await tx.query(
+        `INSERT INTO public.roles (id, tenant_id, name, description, permissions, created_at, updated_at)
+         VALUES ($1, $2, $3, $4, $5::jsonb, $6, now())`,
+        [id, tenantId, role.name, role.description ?? null, JSON.stringify(role.permissions ?? []), role.createdAt ?? new Date()]
+      );
+      result.inserted++;
+    }
+
+    report.global.push(result);
+  }
+
+  // Password hashes are never exported: restored users get an unusable password and
+  // sign in again through password reset (or SSO)
+  private async restoreUsers(
+    tx: TenantDatabase,
+    tenantId: string,
+    users: Record<string, any>[],
+    idMap: Map<string, string>,
+    report: TenantImportReport
+  ) {
+    const result = emptyReport('users', users.length);
+    const existing: { id: string; email: string; tenant_id: string }[] = await tx.query(
+      'SELECT id, email, tenant_id FROM public.users WHERE email = ANY($1::text[])',
+      [users.map((user) => user.email)]
+    );
+    const taken = await this.takenIds(tx, 'users', users.map((user) => user.id), report);
+
+    for (const user of users) {
+      const roleId = user.roleId ? idMap.get(user.roleId) ?? null : null;
+      const match = existing.find((candidate) => candidate.email === user.email);
+
+      // Emails are unique across tenants; a user of another firm cannot be moved here
+      if (match && match.tenant_id !== tenantId) {
+        report.warnings.push(`User ${user.email} belongs to another tenant and was not restored`);
+        result.skipped++;
+        continue;
+      }
+
+      if (match) {
+        idMap.set(user.id, match.id);
+        if (report.conflict === 'overwrite') {
+          await tx.query(
+            `UPDATE public.users SET name = $2, account_type = $3, role_id = $4, is_active = $5, updated_at = now()
+             WHERE id = $1`,
+            [match.id, user.name, user.accountType, roleId, user.isActive ?? true]
+          );
+          result.updated++;
+        } else {
+          result.skipped++;
+        }
+        continue;
+      }
+
+      const id = taken.has(user.id) ? crypto.randomUUID() : user.id;
+      idMap.set(user.id, id);
+      const password = await bcrypt.hash(crypto.randomBytes(32).toString('hex'), 10);
+      await tx.query(
+        `INSERT INTO public.users
+           (id, email, password, name, account_type, tenant_id, role_id, is_active, must_change_password,
+            two_factor_enabled, created_at, updated_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, true, false, $9, now())`,
+        [id, user.email, password, user.name, user.accountType, tenantId, roleId, user.isActive ?? true, user.createdAt ?? new Date()]
+      );
+      result.inserted++;
+    }
+
+    if (result.inserted > 0) {
+      report.warnings.push(`${result.inserted} restored users have no password and must use password reset to sign in`);
+    }
+    if (users.some((user) => user.twoFactorEnabled)) {
+      report.warnings.push('Two-factor authentication is not restored; affected users must enroll again');
+    }
+
+    report.global.push(result);
+  }
+
+  private async restoreSettings(
+    tx: TenantDatabase,
+    tenantId: string,
+    settings: Record<string, any>[],
+    report: TenantImportReport
+  ) {
+    const result = emptyReport('settings', settings.length);
+
+    for (const row of settings) {
+      const [existing] = await tx.query('SELECT id FROM public.tenant_settings WHERE tenant_id = $1', [tenantId]);
+
+      if (!existing) {
+        await tx.query(
+          `INSERT INTO public.tenant_settings (id, tenant_id, settings, created_at, updated_at)
+           VALUES ($1, $2, $3::jsonb, now(), now())`,
+          [crypto.randomUUID(), tenantId, JSON.stringify(row.settings ?? {})]
+        );
+        result.inserted++;
+      } else if (report.conflict === 'overwrite') {
+        await tx.query(
+          'UPDATE public.tenant_settings SET settings = $2::jsonb, updated_at = now() WHERE id = $1',
+          [existing.id, JSON.stringify(row.settings ?? {})]
+        );
+        result.updated++;
+      } else {
+        result.skipped++;
+      }
+    }
+
+    report.global.push(result);
+  }
+
+  private async restoreTable(
+    tx: TenantDatabase,
+    schemaName: string,
+    table: string,
+    rows: Record<string, unknown>[],
+    report: TenantImportReport
+  ): Promise<ImportTableReport> {
+    const result = emptyReport(table, rows.length);
+
+    const targetColumns: string[] = (await tx.query(
+      `SELECT column_name FROM information_schema.columns
+       WHERE table_schema = $1 AND table_name = $2
+       ORDER BY ordinal_position`,
+      [schemaName, table]
+    )).map((row: any) => row.column_name);
+
+    if (targetColumns.length === 0) {
+      report.warnings.push(`Table ${table} does not exist in the target tenant; ${rows.length} rows not restored`);
+      return result;
+    }
+
+    const archiveColumns = [...new Set(rows.flatMap((row) => Object.keys(row)))];
+    const columns = archiveColumns.filter((column) => targetColumns.includes(column));
+    result.droppedColumns = archiveColumns.filter((column) => !targetColumns.includes(column));
+    if (rows.length === 0 || columns.length === 0) {
+      return result;
+    }
+
+    const primaryKey: string[] = (await tx.query(
+      `SELECT a.attname AS column_name
+       FROM pg_index i
+       JOIN pg_attribute a ON a.attrelid = i.indrelid AND a.attnum = ANY(i.indkey)
+       WHERE i.indrelid = to_regclass($1) AND i.indisprimary`,
+      [`${quoteIdent(schemaName)}.${quoteIdent(table)}`]
+    )).map((row: any) => row.column_name);
+
+    const updates = columns.filter((column) => !primaryKey.includes(column));
+    const onConflict = report.conflict === 'overwrite' && primaryKey.length > 0 && updates.length > 0
+      ? `ON CONFLICT (${primaryKey.map(quoteIdent).join(', ')}) DO UPDATE SET ${updates.map((column) => `${quoteIdent(column)} = EXCLUDED.${quoteIdent(column)}`).join(', ')}`
+      : 'ON CONFLICT DO NOTHING';
+    const columnList = columns.map(quoteIdent).join(', ');
+    const target = `\${schema}.${quoteIdent(table)}`;
+
+    // jsonb_populate_recordset casts each JSON value to the column type; xmax = 0 tells
+    // fresh inserts apart from rows updated by ON CONFLICT
+    for (let start = 0; start < rows.length; start += INSERT_BATCH_SIZE) {
+      const batch = rows.slice(start, start + INSERT_BATCH_SIZE);
+      const written: { inserted: boolean }[] = await tx.query(
+        `INSERT INTO ${target} (${columnList})
+         SELECT ${columnList} FROM jsonb_populate_recordset(NULL::${target}, $1::jsonb)
+         ${onConflict}
+         RETURNING (xmax = 0) AS inserted`,
+        [JSON.stringify(batch)]
+      );
+
+      const inserted = written.filter((row) => row.inserted).length;
+      result.inserted += inserted;
+      result.updated += written.length - inserted;
+      result.skipped += batch.length - written.length;
+    }
+
+    return result;
+  }
+}
+
+export const tenantImportService = new TenantImportService();
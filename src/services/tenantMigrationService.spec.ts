@@ -0,0 +1,87 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+vi.mock("../config/database", () => ({ prisma: {} }));
+
+import { TenantMigrationService } from "./tenantMigrationService";
+
+const tenant = { id: "tenant-1", schemaName: "tenant_0123456789abcdef0123456789abcdef" };
+let dir: string;
+
+function writeMigration(file: string, sql: string) {
+  fs.writeFileSync(path.join(dir, file), sql);
+}
+
+// Fake client: schema_migrations rows and the migration call
+function createClient(applied: { version: number; name: string; checksum: string }[], failOn?: number) {
+  return {
+    $queryRawUnsafe: vi.fn(async (sql: string, ...params: any[]) => {
+      if (sql.includes("to_regclass")) return [{ exists: applied.length > 0 }];
+      if (sql.includes("FROM")) return applied.map((row) => ({ ...row, applied_at: new Date() }));
+      if (params[1] === failOn) throw new Error("column already exists");
+      return [{ apply_tenant_migration: true }];
+    }),
+  };
+}
+
+describe("TenantMigrationService", () => {
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "tenant-migrations-"));
+    writeMigration("0002_add_index.sql", "CREATE INDEX ...;");
+    writeMigration("0001_base_tables.sql", "CREATE TABLE ...;");
+    writeMigration("0003_add_column.sql", "ALTER TABLE ...;");
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should load numbered migrations in order and reject bad names", () => {
+    const service = new TenantMigrationService(dir);
+    expect(service.loadMigrations().map((migration) => migration.version)).toEqual([1, 2, 3]);
+    expect(service.latestVersion()).toBe(3);
+
+    writeMigration("add_column.sql", "");
+    expect(() => new TenantMigrationService(dir).loadMigrations()).toThrow("Invalid tenant migration file name");
+  });
+
+  it("should report pending and modified migrations per tenant", async () => {
+    const service = new TenantMigrationService(dir);
+    const [first] = service.loadMigrations();
+    const client = createClient([
+      { version: 1, name: "base_tables", checksum: first.checksum },
+      { version: 2, name: "add_index", checksum: "edited-since" },
+    ]);
+
+    const status = await service.getStatus(tenant, client as any);
+
+    expect(status.currentVersion).toBe(2);
+    expect(status.pending).toEqual([{ version: 3, name: "add_column" }]);
+    expect(status.modified).toEqual([{ version: 2, name: "add_index" }]);
+  });
+
+  it("should list pending migrations without applying them on a dry run", async () => {
+    const service = new TenantMigrationService(dir);
+    const client = createClient([]);
+
+    const result = await service.migrateTenant(tenant, { dryRun: true, client: client as any });
+
+    expect(result.pending.map((migration) => migration.version)).toEqual([1, 2, 3]);
+    expect(result.applied).toEqual([]);
+    const calls = client.$queryRawUnsafe.mock.calls.map(([sql]) => sql);
+    expect(calls.some((sql) => sql.includes("apply_tenant_migration"))).toBe(false);
+  });
+
+  it("should stop at the first failure and leave the rest pending for the next run", async () => {
+    const service = new TenantMigrationService(dir);
+    const client = createClient([], 2);
+
+    const result = await service.migrateTenant(tenant, { client: client as any });
+
+    expect(result.applied).toEqual([{ version: 1, name: "base_tables" }]);
+    expect(result.failed).toEqual({ version: 2, name: "add_index", error: "column already exists" });
+    expect(result.pending.map((migration) => migration.version)).toEqual([2, 3]);
+  });
+});
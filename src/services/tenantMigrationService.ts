@@ -0,0 +1,266 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+
+export interface TenantMigration {
+  version: number;
+  name: string;
+  checksum: string;
+  sql: string;
+}
+
+export interface TenantRef {
+  id: string;
+  name?: string;
+  schemaName: string;
+}
+
+export interface AppliedMigration {
+  version: number;
+  name: string;
+  checksum: string;
+  appliedAt: Date;
+}
+
+interface SchemaMigrationRow {
+  version: number | bigint;
+  name: string;
+  checksum: string;
+  applied_at: Date;
+}
+
+export interface TenantMigrationStatus {
+  tenantId: string;
+  tenantName?: string;
+  schemaName: string;
+  currentVersion: number;
+  pending: { version: number; name: string }[];
+  // Applied migrations whose file changed afterwards
+  modified: { version: number; name: string }[];
+  error?: string;
+}
+
+export interface TenantMigrationResult {
+  tenantId: string;
+  schemaName: string;
+  dryRun: boolean;
+  applied: { version: number; name: string }[];
+  pending: { version: number; name: string }[];
+  failed?: { version: number; name: string; error: string };
+}
+
+const FILE_PATTERN = /^(\d{4})_([a-z0-9_]+)\.sql$/;
+const SCHEMA_PATTERN = /^tenant_[0-9a-f]{32}$/;
+
+// Numbered SQL files in supabase/tenant-migrations, applied to every tenant schema.
+// Each migration runs and is recorded in one transaction (apply_tenant_migration),
+// so a failed run stops at the failing version and the next run resumes from there.
+export class TenantMigrationService {
+  private migrationsDir: string;
+  private migrations: TenantMigration[] | null = null;
+
+  constructor(migrationsDir?: string) {
+    this.migrationsDir = migrationsDir
+      || process.env.TENANT_MIGRATIONS_DIR
+      || path.resolve(process.cwd(), 'supabase/tenant-migrations');
+  }
+
+  loadMigrations(): TenantMigration[] {
+    if (this.migrations) {
+      return this.migrations;
+    }
+
+    const migrations = fs.readdirSync(this.migrationsDir)
+      .filter((file) => file.endsWith('.sql'))
+      .map((file) => {
+        const match = FILE_PATTERN.exec(file);
+        if (!match) {
+          throw new Error(`Invalid tenant migration file name: ${file}`);
+        }
+
+        const sql = fs.readFileSync(path.join(this.migrationsDir, file), 'utf8');
+        return {
+          version: Number(match[1]),
+          name: match[2],
+          checksum: crypto.createHash('sha256').update(sql).digest('hex'),
+          sql,
+        };
+      })
+      .sort((a, b) => a.version - b.version);
+
+    migrations.forEach((migration, index) => {
+      if (index > 0 && migration.version === migrations[index - 1].version) {
+        throw new Error(`Duplicate tenant migration version ${migration.version}`);
+      }
+    });
+
+    this.migrations = migrations;
+    return migrations;
+  }
+
+  latestVersion(): number {
+    const migrations = this.loadMigrations();
+    return migrations.length > 0 ? migrations[migrations.length - 1].version : 0;
+  }
+
+  async getAppliedMigrations(schemaName: string, client: Prisma.TransactionClient = prisma): Promise<AppliedMigration[]> {
+    this.assertSchemaName(schemaName);
+
+    const [table] = await client.$queryRawUnsafe<{ exists: boolean }[]>(
+      'SELECT to_regclass($1) IS NOT NULL AS exists',
+      `${schemaName}.schema_migrations`
+    );
+    if (!table?.exists) {
+      return [];
+    }
+
+    const rows = await client.$queryRawUnsafe<SchemaMigrationRow[]>(
+      `SELECT version, name, checksum, applied_at FROM "${schemaName}".schema_migrations ORDER BY version`
+    );
+
+    return rows.map((row: SchemaMigrationRow) => ({
+      version: Number(row.version),
+      name: row.name,
+      checksum: row.checksum,
+      appliedAt: row.applied_at,
+    }));
+  }
+
+  async getStatus(tenant: TenantRef, client: Prisma.TransactionClient = prisma): Promise<TenantMigrationStatus> {
+    const applied = await this.getAppliedMigrations(tenant.schemaName, client);
+    const appliedByVersion = new Map(applied.map((migration) => [migration.version, migration]));
+
+    const pending = [];
+    const modified = [];
+    for (const migration of this.loadMigrations()) {
+      const record = appliedByVersion.get(migration.version);
+      if (!record) {
+        pending.push({ version: migration.version, name: migration.name });
+      } else if (record.checksum !== migration.checksum) {
+        modified.push({ version: migration.version, name: migration.name });
+      }
+    }
+
+    return {
+      tenantId: tenant.id,
+      tenantName: tenant.name,
+      schemaName: tenant.schemaName,
+      currentVersion: applied.length > 0 ? applied[applied.length - 1].version : 0,
+      pending,
+      modified,
+    };
+  }
+
+  // One tenant failing to report (e.g. missing schema) does not hide the others
+  async getAllStatuses(): Promise<TenantMigrationStatus[]> {
+    const tenants = await prisma.tenant.findMany({
+      select: { id: true, name: true, schemaName: true },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    const statuses = [];
+    for (const tenant of tenants) {
+      try {
+        statuses.push(await this.getStatus(tenant));
+      } catch (error) {
+        statuses.push({
+          tenantId: tenant.id,
+          tenantName: tenant.name,
+          schemaName: tenant.schemaName,
+          currentVersion: 0,
+          pending: [],
+          modified: [],
+          error: error.message,
+        });
+      }
+    }
+
+    return statuses;
+  }
+
+  async migrateTenant(
+    tenant: TenantRef,
+    options: { dryRun?: boolean; client?: Prisma.TransactionClient } = {}
+  ): Promise<TenantMigrationResult> {
+    const client = options.client || prisma;
+    const status = await this.getStatus(tenant, client);
+    const pendingVersions = new Set(status.pending.map((migration) => migration.version));
+    const pending = this.loadMigrations().filter((migration) => pendingVersions.has(migration.version));
+
+    const result: TenantMigrationResult = {
+      tenantId: tenant.id,
+      schemaName: tenant.schemaName,
+      dryRun: !!options.dryRun,
+      applied: [],
+      pending: status.pending,
+    };
+
+    if (options.dryRun) {
+      return result;
+    }
+
+    for (const migration of pending) {
+      try {
+        await client.$queryRawUnsafe(
+          'SELECT apply_tenant_migration($1, $2, $3, $4, $5)',
+          tenant.schemaName,
+          migration.version,
+          migration.name,
+          migration.checksum,
+          migration.sql
+        );
+        result.applied.push({ version: migration.version, name: migration.name });
+      } catch (error) {
+        // Later migrations may depend on this one: stop here, the next run resumes
+        result.failed = { version: migration.version, name: migration.name, error: error.message };
+        break;
+      }
+    }
+
+    result.pending = status.pending.filter(
+      (migration) => !result.applied.some((applied) => applied.version === migration.version)
+    );
+
+    return result;
+  }
+
+  async migrateAll(options: { dryRun?: boolean; tenantId?: string } = {}): Promise<TenantMigrationResult[]> {
+    const tenants = await prisma.tenant.findMany({
+      where: options.tenantId ? { id: options.tenantId } : {},
+      select: { id: true, name: true, schemaName: true },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    if (options.tenantId && tenants.length === 0) {
+      throw new Error('Tenant not found');
+    }
+
+    const results = [];
+    for (const tenant of tenants) {
+      try {
+        results.push(await this.migrateTenant(tenant, { dryRun: options.dryRun }));
+      } catch (error) {
+        results.push({
+          tenantId: tenant.id,
+          schemaName: tenant.schemaName,
+          dryRun: !!options.dryRun,
+          applied: [],
+          pending: [],
+          failed: { version: 0, name: 'status', error: error.message },
+        });
+      }
+    }
+
+    return results;
+  }
+
+  private assertSchemaName(schemaName: string) {
+    if (!SCHEMA_PATTERN.test(schemaName)) {
+      throw new Error(`Invalid tenant schema: ${schemaName}`);
+    }
+  }
+}
+
+export const tenantMigrationService = new TenantMigrationService();
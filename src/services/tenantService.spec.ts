@@ -0,0 +1,123 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const { prisma, tenantDb, tenantExportService, mailService, storageService } = vi.hoisted(() => ({
+  prisma: {
+    tenant: { findUnique: vi.fn(), findMany: vi.fn(), update: vi.fn(), updateMany: vi.fn(), delete: vi.fn() },
+    tenantExport: { findMany: vi.fn() },
+    userSession: { updateMany: vi.fn() },
+    refreshToken: { updateMany: vi.fn() },
+    user: { findMany: vi.fn() },
+    systemLog: { create: vi.fn() },
+    $executeRawUnsafe: vi.fn(),
+  },
+  tenantDb: { query: vi.fn() },
+  tenantExportService: { requestSnapshot: vi.fn(), releaseSnapshot: vi.fn() },
+  mailService: { send: vi.fn() },
+  storageService: { delete: vi.fn(async () => undefined) },
+}));
+
+vi.mock("../config/database", () => ({ prisma, TenantDatabase: vi.fn(() => tenantDb) }));
+vi.mock("./tenantExportService", () => ({ tenantExportService }));
+vi.mock("./mailService", () => ({ mailService }));
+vi.mock("./storageService", () => ({ storageService }));
+vi.mock("./tenantMigrationService", () => ({ tenantMigrationService: {} }));
+
+import { TenantService } from "./tenantService";
+
+const service = new TenantService();
+
+const tenant = { id: "tenant-1", name: "Silva Advogados", schemaName: "tenant_1", isActive: true, deletedAt: null, deletionExportId: null };
+
+describe("TenantService deletion", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    let stored: any = tenant;
+    prisma.tenant.update.mockImplementation(async ({ data }: any) => (stored = { ...stored, ...data }));
+    prisma.tenant.updateMany.mockImplementation(async ({ where, data }: any) => {
+      if (where.deletedAt === null && stored.deletedAt) return { count: 0 };
+      stored = { ...stored, ...data };
+      return { count: 1 };
+    });
+    prisma.user.findMany.mockResolvedValue([{ email: "gestor@example.com", name: "Gestor" }]);
+    prisma.tenantExport.findMany.mockResolvedValue([]);
+    tenantExportService.requestSnapshot.mockResolvedValue({ id: "export-1" });
+  });
+
+  it("should deactivate, snapshot and notify instead of dropping the schema", async () => {
+    prisma.tenant.findUnique.mockResolvedValue(tenant);
+
+    const updated = await service.scheduleDeletion("tenant-1", "admin-1");
+
+    expect(prisma.tenant.updateMany).toHaveBeenCalledWith({
+      where: { id: "tenant-1", deletedAt: null },
+      data: expect.objectContaining({ isActive: false, deletedBy: "admin-1" }),
+    });
+    const days = (updated.purgeAfter!.getTime() - updated.deletedAt!.getTime()) / (24 * 60 * 60 * 1000);
+    expect(days).toBe(30);
+    expect(tenantExportService.requestSnapshot).toHaveBeenCalledWith("tenant-1", { adminId: "admin-1" }, updated.purgeAfter);
+    expect(updated.deletionExportId).toBe("export-1");
+    expect(prisma.userSession.updateMany).toHaveBeenCalledWith(expect.objectContaining({ where: { tenantId: "tenant-1", revokedAt: null } }));
+    expect(mailService.send).toHaveBeenCalledWith(expect.objectContaining({ to: "gestor@example.com" }));
+    expect(prisma.$executeRawUnsafe).not.toHaveBeenCalled();
+    expect(prisma.tenant.delete).not.toHaveBeenCalled();
+  });
+
+  it("should refuse to schedule twice and to cancel when nothing is scheduled", async () => {
+    // Both requests read the tenant before either schedules it; only the first one wins
+    prisma.tenant.findUnique.mockResolvedValue(tenant);
+    await service.scheduleDeletion("tenant-1", "admin-1");
+    await expect(service.scheduleDeletion("tenant-1", "admin-2")).rejects.toMatchObject({ statusCode: 409, code: "TENANT_002" });
+    expect(tenantExportService.requestSnapshot).toHaveBeenCalledTimes(1);
+
+    prisma.tenant.findUnique.mockResolvedValue(tenant);
+    await expect(service.cancelDeletion("tenant-1")).rejects.toMatchObject({ statusCode: 409, code: "TENANT_003" });
+  });
+
+  it("should leave the tenant untouched when the snapshot cannot be requested", async () => {
+    prisma.tenant.findUnique.mockResolvedValue(tenant);
+    tenantExportService.requestSnapshot.mockRejectedValueOnce(new Error("Tenant not found"));
+
+    await expect(service.scheduleDeletion("tenant-1", "admin-1")).rejects.toThrow("Tenant not found");
+
+    expect(prisma.tenant.update).toHaveBeenLastCalledWith({
+      where: { id: "tenant-1" },
+      data: { isActive: true, deletedAt: null, purgeAfter: null, deletedBy: null },
+    });
+    expect(prisma.userSession.updateMany).not.toHaveBeenCalled();
+    expect(mailService.send).not.toHaveBeenCalled();
+
+    // Nothing is left scheduled, so a retry goes through
+    await service.scheduleDeletion("tenant-1", "admin-1");
+    expect(tenantExportService.requestSnapshot).toHaveBeenCalledTimes(2);
+  });
+
+  it("should reactivate a scheduled tenant and release its snapshot", async () => {
+    prisma.tenant.findUnique.mockResolvedValue({ ...tenant, deletedAt: new Date(), deletionExportId: "export-1" });
+
+    const updated = await service.cancelDeletion("tenant-1");
+
+    expect(updated).toMatchObject({ isActive: true, deletedAt: null, purgeAfter: null });
+    expect(tenantExportService.releaseSnapshot).toHaveBeenCalledWith("export-1");
+  });
+
+  it("should purge only tenants past their grace period", async () => {
+    const now = new Date();
+    prisma.tenant.findMany.mockResolvedValue([{ ...tenant, deletedAt: now, deletedBy: "admin-1" }]);
+    prisma.tenant.findUnique.mockResolvedValue(tenant);
+    tenantDb.query.mockImplementation(async (sql: string) =>
+      sql.includes("to_regclass") ? [{ migrated: true }] : [{ id: "attachment-1" }]
+    );
+
+    expect(await service.purgeDueTenants(now)).toBe(1);
+
+    expect(prisma.tenant.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { deletedAt: { not: null }, purgeAfter: { lte: now } },
+    }));
+    expect(prisma.$executeRawUnsafe).toHaveBeenCalledWith('DROP SCHEMA IF EXISTS "tenant_1" CASCADE');
+    expect(prisma.tenant.delete).toHaveBeenCalledWith({ where: { id: "tenant-1" } });
+    expect(storageService.delete).toHaveBeenCalledWith("tenant-1/attachment-1");
+    expect(prisma.systemLog.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ message: "tenant:purged", metadata: expect.objectContaining({ tenantId: "tenant-1" }) }),
+    });
+  });
+});
@@ -1,5 +1,18 @@
-import { supabase } from '../config/supabase';
-import { TenantDatabase } from '../config/supabase';
+import crypto from 'crypto';
+import fs from 'fs';
+import { Prisma } from '@prisma/client';
+import { prisma, TenantDatabase } from '../config/database';
+import { tenantMigrationService } from './tenantMigrationService';
+import { tenantExportService, TenantExportStatus } from './tenantExportService';
+import { mailService } from './mailService';
+import { storageService } from './storageService';
+import { storageKey } from './attachmentService';
+import { AppError } from '../types';
+
+// Days a deleted tenant stays restorable before the purge job removes it
+const GRACE_DAYS = Number(process.env.TENANT_DELETION_GRACE_DAYS) || 30;
+
+type TenantWithUserCount = Prisma.TenantGetPayload<{ include: { _count: { select: { users: true } } } }>;
 
 export class TenantService {
   async createTenant(name: string): Promise<string> {
@@ -7,37 +20,34 @@ export class TenantService {
     const schemaName = `tenant_${tenantId.replace(/-/g, '')}`;
 
     // Create tenant record
-    const { data: tenant, error } = await supabase
-      .from('tenants')
-      .insert({
+    await prisma.tenant.create({
+      data: {
         id: tenantId,
         name,
-        schema_name: schemaName,
-        is_active: true,
-      })
-      .select()
-      .single();
+        schemaName,
+        isActive: true,
+      },
+    });
 
-    if (error) {
-      throw new Error(`Failed to create tenant: ${error.message}`);
-    }
+    // Create tenant schema, then its tables from the versioned tenant migrations
+    await prisma.$executeRaw`SELECT create_tenant_schema(${tenantId}::uuid)`;
 
-    // Create tenant schema
-    await supabase.rpc('create_tenant_schema', { tenant_uuid: tenantId });
+    const migration = await tenantMigrationService.migrateTenant({ id: tenantId, schemaName });
+    if (migration.failed) {
+      throw new Error(`Tenant migration ${migration.failed.version} failed: ${migration.failed.error}`);
+    }
 
     return tenantId;
   }
 
   async getTenantDatabase(tenantId: string): Promise<TenantDatabase> {
     // Verify tenant exists and is active
-    const { data: tenant, error } = await supabase
-      .from('tenants')
-      .select('*')
-      .eq('id', tenantId)
-      .eq('is_active', true)
-      .single();
-
-    if (error || !tenant) {
+    const tenant = await prisma.tenant.findFirst({
+      where: { id: tenantId, isActive: true },
+      select: { id: true },
+    });
+
+    if (!tenant) {
       throw new Error('Tenant not found or inactive');
     }
 
@@ -47,14 +57,16 @@ export class TenantService {
   async validateTenantAccess(resourceTenantId: string, userTenantId: string) {
     if (resourceTenantId !== userTenantId) {
       // Log critical security violation
-      await supabase.from('audit_logs').insert({
-        tenant_id: userTenantId,
-        table_name: 'security_violation',
-        operation: 'CROSS_TENANT_ACCESS',
-        new_data: {
-          attempted_tenant: resourceTenantId,
-          user_tenant: userTenantId,
-          timestamp: new Date().toISOString(),
+      await prisma.auditLog.create({
+        data: {
+          tenantId: userTenantId,
+          tableName: 'security_violation',
+          operation: 'CROSS_TENANT_ACCESS',
+          newData: {
+            attempted_tenant: resourceTenantId,
+            user_tenant: userTenantId,
+            timestamp: new Date().toISOString(),
+          },
         },
       });
 
@@ -63,33 +75,25 @@ export class TenantService {
   }
 
   async getTenantUsers(tenantId: string) {
-    const { data: users, error } = await supabase
-      .from('users')
-      .select(`
-        id, name, email, account_type, is_active, last_login, created_at
-      `)
-      .eq('tenant_id', tenantId)
-      .eq('is_active', true);
-
-    if (error) {
-      throw new Error(`Failed to get tenant users: ${error.message}`);
-    }
-
-    return users;
+    return await prisma.user.findMany({
+      where: { tenantId, isActive: true },
+      select: {
+        id: true,
+        name: true,
+        email: true,
+        accountType: true,
+        isActive: true,
+        lastLogin: true,
+        createdAt: true,
+      },
+    });
   }
 
   async updateTenantSettings(tenantId: string, settings: any) {
-    const { error } = await supabase
-      .from('tenants')
-      .update({
-        ...settings,
-        updated_at: new Date().toISOString(),
-      })
-      .eq('id', tenantId);
-
-    if (error) {
-      throw new Error(`Failed to update tenant settings: ${error.message}`);
-    }
+    await prisma.tenant.update({
+      where: { id: tenantId },
+      data: settings,
+    });
   }
 
   async getTenantStats(tenantId: string) {
@@ -124,25 +128,18 @@ export class TenantService {
   }
 
   async getAllTenants() {
-    const { data: tenants, error } = await supabase
-      .from('tenants')
-      .select(`
-        *,
-        users!inner(count)
-      `)
-      .order('created_at', { ascending: false });
-
-    if (error) {
-      throw new Error(`Failed to get tenants: ${error.message}`);
-    }
+    const tenants = await prisma.tenant.findMany({
+      include: { _count: { select: { users: true } } },
+      orderBy: { createdAt: 'desc' },
+    });
 
     // Get stats for each tenant
     const tenantsWithStats = await Promise.all(
-      tenants.map(async (tenant) => {
+      tenants.map(async (tenant: TenantWithUserCount) => {
         const stats = await this.getTenantStats(tenant.id);
         return {
           ...tenant,
-          userCount: tenant.users?.length || 0,
+          userCount: tenant._count.users,
           stats,
         };
       })
@@ -151,31 +148,193 @@ export class TenantService {
     return tenantsWithStats;
   }
 
-  async deleteTenant(tenantId: string) {
-    // Get tenant info
-    const { data: tenant, error: fetchError } = await supabase
-      .from('tenants')
-      .select('schema_name')
-      .eq('id', tenantId)
-      .single();
+  // Deleting a tenant only deactivates it: a snapshot export is taken, sessions are revoked
+  // and its managers are told. Data stays until purgeDueTenants runs after the grace period,
+  // and cancelDeletion brings the tenant back unchanged until then.
+  async scheduleDeletion(tenantId: string, adminId: string) {
+    const tenant = await prisma.tenant.findUnique({ where: { id: tenantId } });
+    if (!tenant) {
+      throw new AppError('Tenant not found', 404, 'TENANT_001');
+    }
+
+    const deletedAt = new Date();
+    const purgeAfter = new Date(deletedAt.getTime() + GRACE_DAYS * 24 * 60 * 60 * 1000);
+
+    // Conditional, so two concurrent requests cannot both schedule (and snapshot) the tenant
+    const { count } = await prisma.tenant.updateMany({
+      where: { id: tenantId, deletedAt: null },
+      data: { isActive: false, deletedAt, purgeAfter, deletedBy: adminId },
+    });
+    if (count === 0) {
+      throw new AppError('Tenant is already scheduled for deletion', 409, 'TENANT_002');
+    }
+
+    // Without a snapshot the deletion is not scheduled at all, so it can simply be retried
+    let snapshot: TenantExportStatus;
+    try {
+      snapshot = await tenantExportService.requestSnapshot(tenantId, { adminId }, purgeAfter);
+    } catch (error) {
+      await prisma.tenant.update({
+        where: { id: tenantId },
+        data: { isActive: tenant.isActive, deletedAt: null, purgeAfter: null, deletedBy: null },
+      });
+      throw error;
+    }
+
+    const updated = await prisma.tenant.update({
+      where: { id: tenantId },
+      data: { deletionExportId: snapshot.id },
+    });
+
+    // Logins are already refused for inactive tenants; this ends the ones in progress
+    await Promise.all([
+      prisma.userSession.updateMany({
+        where: { tenantId, revokedAt: null },
+        data: { revokedAt: deletedAt },
+      }),
+      prisma.refreshToken.updateMany({
+        where: { user: { tenantId }, isActive: true },
+        data: { isActive: false },
+      }),
+    ]);
+
+    await this.notifyManagers(tenantId, `Conta ${tenant.name} desativada`, [
+      `A conta ${tenant.name} foi desativada e será excluída definitivamente em ${purgeAfter.toLocaleDateString('pt-BR')}.`,
+      'Até lá os dados continuam guardados e a exclusão pode ser cancelada pelo suporte.',
+    ]);
+
+    return updated;
+  }
+
+  async cancelDeletion(tenantId: string) {
+    const tenant = await prisma.tenant.findUnique({ where: { id: tenantId } });
+    if (!tenant) {
+      throw new AppError('Tenant not found', 404, 'TENANT_001');
+    }
+    if (!tenant.deletedAt) {
+      throw new AppError('Tenant is not scheduled for deletion', 409, 'TENANT_003');
+    }
+
+    if (tenant.deletionExportId) {
+      await tenantExportService.releaseSnapshot(tenant.deletionExportId);
+    }
 
-    if (fetchError || !tenant) {
+    const updated = await prisma.tenant.update({
+      where: { id: tenantId },
+      data: { isActive: true, deletedAt: null, purgeAfter: null, deletedBy: null, deletionExportId: null },
+    });
+
+    await this.notifyManagers(tenantId, `Conta ${tenant.name} reativada`, [
+      `A exclusão da conta ${tenant.name} foi cancelada e o acesso foi restabelecido.`,
+      'Os usuários precisam entrar novamente.',
+    ]);
+
+    return updated;
+  }
+
+  async getPendingDeletions() {
+    return await prisma.tenant.findMany({
+      where: { deletedAt: { not: null } },
+      select: {
+        id: true,
+        name: true,
+        schemaName: true,
+        deletedAt: true,
+        purgeAfter: true,
+        deletedBy: true,
+        deletionExportId: true,
+      },
+      orderBy: { purgeAfter: 'asc' },
+    });
+  }
+
+  // Removes the tenant for good: schema, row (users, keys and logs cascade), export archives
+  // and attachment files
+  async purgeTenant(tenantId: string) {
+    const tenant = await prisma.tenant.findUnique({
+      where: { id: tenantId },
+      select: { schemaName: true },
+    });
+
+    if (!tenant) {
       throw new Error('Tenant not found');
     }
 
-    // Drop tenant schema
-    await supabase.rpc('execute_sql', {
-      query: `DROP SCHEMA IF EXISTS "${tenant.schema_name}" CASCADE`
+    const exports = await prisma.tenantExport.findMany({
+      where: { tenantId, filePath: { not: null } },
+      select: { filePath: true },
     });
+    // Schemas not yet migrated to attachments have none
+    const tenantDb = new TenantDatabase(tenantId);
+    const [{ migrated }] = await tenantDb.query(`SELECT to_regclass('\${schema}.attachments') IS NOT NULL AS migrated`);
+    const attachments: { id: string }[] = migrated ? await tenantDb.query('SELECT id FROM ${schema}.attachments') : [];
+
+    // Drop tenant schema
+    await prisma.$executeRawUnsafe(`DROP SCHEMA IF EXISTS "${tenant.schemaName}" CASCADE`);
 
     // Delete tenant record (cascade will delete users and keys)
-    const { error } = await supabase
-      .from('tenants')
-      .delete()
-      .eq('id', tenantId);
+    await prisma.tenant.delete({
+      where: { id: tenantId },
+    });
+
+    for (const record of exports) {
+      await fs.promises.rm(record.filePath!, { force: true });
+    }
+    for (const attachment of attachments) {
+      await storageService.delete(storageKey(tenantId, attachment.id)).catch((error) => {
+        console.error(`Failed to delete attachment file ${attachment.id}:`, error);
+      });
+    }
+  }
+
+  // Purges tenants whose grace period is over; run by the hourly maintenance job
+  async purgeDueTenants(now: Date = new Date()) {
+    const tenants = await prisma.tenant.findMany({
+      where: { deletedAt: { not: null }, purgeAfter: { lte: now } },
+      select: { id: true, name: true, schemaName: true, deletedAt: true, deletedBy: true },
+    });
+
+    for (const tenant of tenants) {
+      try {
+        await this.purgeTenant(tenant.id);
+        // Logged without tenantId: the tenant's own logs were removed by the cascade
+        await prisma.systemLog.create({
+          data: {
+            level: 'info',
+            message: 'tenant:purged',
+            metadata: {
+              tenantId: tenant.id,
+              name: tenant.name,
+              schemaName: tenant.schemaName,
+              deletedAt: tenant.deletedAt,
+              deletedBy: tenant.deletedBy,
+            },
+          },
+        });
+      } catch (error) {
+        console.error(`Tenant purge failed for ${tenant.id}:`, error);
+      }
+    }
+
+    return tenants.length;
+  }
+
+  private async notifyManagers(tenantId: string, subject: string, lines: string[]) {
+    const managers = await prisma.user.findMany({
+      where: { tenantId, accountType: 'GERENCIAL', isActive: true },
+      select: { email: true, name: true },
+    });
 
-    if (error) {
-      throw new Error(`Failed to delete tenant: ${error.message}`);
+    for (const manager of managers) {
+      try {
+        await mailService.send({
+          to: manager.email,
+          subject,
+          text: [`Olá, ${manager.name}.`, '', ...lines].join('\n'),
+        });
+      } catch (error) {
+        console.error('Tenant deletion notice failed:', error);
+      }
     }
   }
 }
@@ -0,0 +1,82 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import { SecuritySettings, SecuritySettingsUpdate } from '../types';
+
+export const DEFAULT_SECURITY_SETTINGS: SecuritySettings = {
+  passwordPolicy: {
+    minLength: 8,
+    requireUppercase: false,
+    requireLowercase: false,
+    requireNumbers: false,
+    requireSpecialChars: false,
+    historyCount: 5,
+  },
+  sessionSettings: {
+    timeoutMinutes: 480,
+    maxSessions: 5,
+    requireReauth: false,
+  },
+  twoFactorAuth: {
+    enabled: true,
+    required: false,
+    methods: ['app'],
+  },
+  auditLog: {
+    retention: 90,
+    enabledActions: [],
+  },
+  supportAccess: {
+    allowImpersonation: true,
+  },
+};
+
+// Merges stored sections over defaults so partially-configured tenants get sane values
+function mergeSecuritySettings(stored: Partial<SecuritySettings> = {}): SecuritySettings {
+  return {
+    passwordPolicy: { ...DEFAULT_SECURITY_SETTINGS.passwordPolicy, ...stored.passwordPolicy },
+    sessionSettings: { ...DEFAULT_SECURITY_SETTINGS.sessionSettings, ...stored.sessionSettings },
+    twoFactorAuth: { ...DEFAULT_SECURITY_SETTINGS.twoFactorAuth, ...stored.twoFactorAuth },
+    auditLog: { ...DEFAULT_SECURITY_SETTINGS.auditLog, ...stored.auditLog },
+    supportAccess: { ...DEFAULT_SECURITY_SETTINGS.supportAccess, ...stored.supportAccess },
+  };
+}
+
+export class TenantSettingsService {
+  async getSettings(tenantId: string): Promise<Record<string, any>> {
+    const record = await prisma.tenantSettings.findUnique({
+      where: { tenantId },
+    });
+
+    return (record?.settings as Record<string, any>) || {};
+  }
+
+  async getSecuritySettings(tenantId: string): Promise<SecuritySettings> {
+    const settings = await this.getSettings(tenantId);
+    return mergeSecuritySettings(settings.security);
+  }
+
+  async updateSecuritySettings(tenantId: string, update: SecuritySettingsUpdate): Promise<SecuritySettings> {
+    const settings = await this.getSettings(tenantId);
+    const current = mergeSecuritySettings(settings.security);
+
+    const security = mergeSecuritySettings({
+      passwordPolicy: { ...current.passwordPolicy, ...update.passwordPolicy },
+      sessionSettings: { ...current.sessionSettings, ...update.sessionSettings },
+      twoFactorAuth: { ...current.twoFactorAuth, ...update.twoFactorAuth },
+      auditLog: { ...current.auditLog, ...update.auditLog },
+      supportAccess: { ...current.supportAccess, ...update.supportAccess },
+    });
+
+    // Settings are one Json document; the typed sections hold plain values only
+    const next = { ...settings, security } as unknown as Prisma.InputJsonObject;
+    await prisma.tenantSettings.upsert({
+      where: { tenantId },
+      create: { tenantId, settings: next },
+      update: { settings: next },
+    });
+
+    return security;
+  }
+}
+
+export const tenantSettingsService = new TenantSettingsService();
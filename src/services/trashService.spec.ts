@@ -0,0 +1,91 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const { prisma, tenantDb, attachmentService } = vi.hoisted(() => ({
+  prisma: {
+    tenant: { findMany: vi.fn() },
+    systemLog: { create: vi.fn() },
+  },
+  tenantDb: {
+    findMany: vi.fn(),
+    findById: vi.fn(),
+    update: vi.fn(async (_table: string, id: string, data: any) => ({ id, ...data })),
+    delete: vi.fn(),
+    query: vi.fn(),
+  },
+  attachmentService: {
+    listAttachments: vi.fn(),
+    remove: vi.fn(),
+  },
+}));
+
+vi.mock("../config/database", () => ({
+  prisma,
+  TenantDatabase: vi.fn(() => tenantDb),
+}));
+
+vi.mock("./attachmentService", async (importOriginal) => ({
+  ATTACHMENT_ENTITIES: (await importOriginal<typeof import("./attachmentService")>()).ATTACHMENT_ENTITIES,
+  attachmentService,
+}));
+
+import { TrashService } from "./trashService";
+
+const service = new TrashService();
+
+const deletedAt = new Date("2025-09-01T12:00:00Z");
+const project = { id: "project-1", title: "Inventário", is_active: false, deleted_at: deletedAt };
+
+describe("TrashService", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    tenantDb.findById.mockResolvedValue(project);
+    attachmentService.listAttachments.mockResolvedValue([]);
+  });
+
+  it("should restore a project with the tasks deleted at the same moment", async () => {
+    tenantDb.query.mockResolvedValue([{ id: "task-1" }, { id: "task-2" }]);
+
+    const { after, tasks } = await service.restore("tenant-1", "project", "project-1", true);
+
+    expect(tenantDb.update).toHaveBeenCalledWith("projects", "project-1", { is_active: true, deleted_at: null });
+    expect(tenantDb.query.mock.calls[0][1]).toEqual(["project-1", deletedAt]);
+    expect(after).toMatchObject({ is_active: true });
+    expect(tasks).toBe(2);
+
+    tenantDb.query.mockClear();
+    await service.restore("tenant-1", "project", "project-1");
+    expect(tenantDb.query).not.toHaveBeenCalled();
+  });
+
+  it("should refuse active records and purge attachments with the row", async () => {
+    tenantDb.findById.mockResolvedValueOnce({ ...project, is_active: true });
+    await expect(service.purge("tenant-1", "project", "project-1")).rejects.toMatchObject({ code: "TRASH_001" });
+    expect(tenantDb.delete).not.toHaveBeenCalled();
+
+    attachmentService.listAttachments.mockResolvedValue([{ id: "a1" }, { id: "a2" }]);
+    await service.purge("tenant-1", "project", "project-1");
+
+    expect(attachmentService.listAttachments).toHaveBeenCalledWith("tenant-1", "project", "project-1");
+    expect(attachmentService.remove.mock.calls.map((call) => call[1])).toEqual(["a1", "a2"]);
+    expect(tenantDb.delete).toHaveBeenCalledWith("projects", "project-1");
+  });
+
+  it("should purge only rows past the retention window and log the counts", async () => {
+    prisma.tenant.findMany.mockResolvedValue([{ id: "tenant-1" }]);
+    tenantDb.findMany.mockImplementation(async (table: string) => (table === "projects" ? [project] : []));
+
+    const purged = await service.purgeExpired(new Date("2025-10-15T12:00:00Z"));
+
+    expect(tenantDb.findMany.mock.calls[0][1]).toEqual({
+      is_active: false,
+      deleted_at: { lte: new Date("2025-09-15T12:00:00Z") },
+    });
+    expect(purged).toBe(1);
+    expect(tenantDb.delete).toHaveBeenCalledTimes(1);
+    expect(prisma.systemLog.create.mock.calls[0][0].data).toMatchObject({
+      message: "trash:purged",
+      tenantId: "tenant-1",
+      metadata: { counts: { projects: 1 } },
+    });
+  });
+});
@@ -0,0 +1,185 @@
+import { prisma, TenantDatabase } from '../config/database';
+import { MAX_LIMIT, TenantTables } from '../config/tenantQuery';
+import { AppError, AttachmentEntityType } from '../types';
+import { attachmentService, ATTACHMENT_ENTITIES } from './attachmentService';
+
+export const TRASH_RETENTION_DAYS = Number(process.env.TRASH_RETENTION_DAYS) || 30;
+
+// The trash holds the same record types that take attachments
+export type TrashType = AttachmentEntityType;
+export const TRASH_TABLES = ATTACHMENT_ENTITIES;
+
+type TrashTable = (typeof TRASH_TABLES)[TrashType];
+type TrashRow = TenantTables[TrashTable];
+
+// Column shown as the item's name
+const LABEL_COLUMNS: { [T in TrashTable]: keyof TenantTables[T] } = {
+  clients: 'name',
+  projects: 'title',
+  tasks: 'title',
+  transactions: 'description',
+  invoices: 'number',
+};
+
+export interface TrashItem {
+  id: string;
+  type: TrashType;
+  name: string;
+  deletedAt: Date;
+  purgeAt: Date;
+  // Projects: tasks deleted together with the project, restorable along with it
+  tasks?: number;
+}
+
+function itemName<T extends TrashTable>(table: T, row: TenantTables[T]): string {
+  return String(row[LABEL_COLUMNS[table]] || row.id);
+}
+
+function purgeDate(deletedAt: Date) {
+  return new Date(new Date(deletedAt).getTime() + TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+}
+
+// Soft-deleted rows (is_active = false) with their deletion time. Restoring clears the flag;
+// purging removes the row and its attachments for good, by hand or after TRASH_RETENTION_DAYS.
+export class TrashService {
+  async list(tenantId: string, types: TrashType[]): Promise<TrashItem[]> {
+    const tenantDb = new TenantDatabase(tenantId);
+    const items: TrashItem[] = [];
+
+    for (const type of types) {
+      const table = TRASH_TABLES[type];
+      const rows: TrashRow[] = await tenantDb.findMany(table, { is_active: false }, {
+        orderBy: { field: 'deleted_at', direction: 'desc' },
+        limit: MAX_LIMIT,
+      });
+
+      const cascaded = type === 'project' ? await this.countCascadedTasks(tenantDb, rows.map((row) => row.id)) : null;
+
+      for (const row of rows) {
+        // Deleted before the column existed and not backfilled: its last update is the delete
+        const deletedAt = row.deleted_at || row.updated_at;
+        items.push({
+          id: row.id,
+          type,
+          name: itemName(table, row),
+          deletedAt,
+          purgeAt: purgeDate(deletedAt),
+          ...(cascaded && { tasks: cascaded.get(row.id) || 0 }),
+        });
+      }
+    }
+
+    return items.sort((a, b) => new Date(b.deletedAt).getTime() - new Date(a.deletedAt).getTime());
+  }
+
+  // withTasks: also restore the project's tasks that were deleted together with it
+  async restore(tenantId: string, type: TrashType, id: string, withTasks = false) {
+    const tenantDb = new TenantDatabase(tenantId);
+    const row = await this.findTrashed(tenantDb, type, id);
+
+    const restored = await tenantDb.update(TRASH_TABLES[type], id, { is_active: true, deleted_at: null });
+
+    let tasks = 0;
+    if (type === 'project' && withTasks && row.deleted_at) {
+      const rows = await tenantDb.query(
+        `UPDATE \${schema}.tasks SET is_active = true, deleted_at = NULL, updated_at = NOW()
+         WHERE project_id = $1 AND is_active = false AND deleted_at = $2
+         RETURNING id`,
+        [id, row.deleted_at]
+      );
+      tasks = rows.length;
+    }
+
+    return { before: row, after: restored, tasks };
+  }
+
+  async purge(tenantId: string, type: TrashType, id: string) {
+    const tenantDb = new TenantDatabase(tenantId);
+    const row = await this.findTrashed(tenantDb, type, id);
+
+    // Frees the storage quota and the files before the row they belong to disappears
+    for (const attachment of await attachmentService.listAttachments(tenantId, type, id)) {
+      await attachmentService.remove(tenantId, attachment.id);
+    }
+    await tenantDb.delete(TRASH_TABLES[type], id);
+
+    return row;
+  }
+
+  // Hourly maintenance: purge everything past the retention window, a batch per table and tenant
+  async purgeExpired(now: Date = new Date()) {
+    const cutoff = new Date(now.getTime() - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+    const tenants = await prisma.tenant.findMany({
+      where: { deletedAt: null },
+      select: { id: true },
+    });
+
+    let purged = 0;
+    for (const tenant of tenants) {
+      const tenantDb = new TenantDatabase(tenant.id);
+      const counts: Record<string, number> = {};
+
+      try {
+        for (const type of Object.keys(TRASH_TABLES) as TrashType[]) {
+          const rows = await tenantDb.findMany(TRASH_TABLES[type], {
+            is_active: false,
+            deleted_at: { lte: cutoff },
+          }, { limit: MAX_LIMIT });
+
+          for (const row of rows) {
+            await this.purge(tenant.id, type, row.id);
+          }
+          if (rows.length > 0) {
+            counts[TRASH_TABLES[type]] = rows.length;
+            purged += rows.length;
+          }
+        }
+      } catch (error) {
+        console.error(`Trash purge failed for tenant ${tenant.id}:`, error);
+      }
+
+      if (Object.keys(counts).length > 0) {
+        await prisma.systemLog.create({
+          data: {
+            level: 'info',
+            message: 'trash:purged',
+            tenantId: tenant.id,
+            metadata: { counts, cutoff },
+          },
+        });
+      }
+    }
+
+    return purged;
+  }
+
+  private async findTrashed(tenantDb: TenantDatabase, type: TrashType, id: string): Promise<TrashRow> {
+    const row: TrashRow | null = await tenantDb.findById(TRASH_TABLES[type], id);
+    if (!row || row.is_active) {
+      throw new AppError('Item not found in the trash', 404, 'TRASH_001');
+    }
+    return row;
+  }
+
+  private async countCascadedTasks(tenantDb: TenantDatabase, projectIds: string[]) {
+    const counts = new Map<string, number>();
+    if (projectIds.length === 0) {
+      return counts;
+    }
+
+    const rows = await tenantDb.query(
+      `SELECT t.project_id, COUNT(*)::int AS count
+       FROM \${schema}.tasks t
+       JOIN \${schema}.projects p ON p.id = t.project_id
+       WHERE t.project_id = ANY($1::uuid[]) AND t.is_active = false AND t.deleted_at = p.deleted_at
+       GROUP BY t.project_id`,
+      [projectIds]
+    );
+    for (const row of rows) {
+      counts.set(row.project_id, Number(row.count));
+    }
+    return counts;
+  }
+}
+
+export const trashService = new TrashService();
@@ -0,0 +1,99 @@
+import { describe, it, expect, vi } from "vitest";
+
+const { prisma } = vi.hoisted(() => ({
+  prisma: { user: { updateMany: vi.fn() } },
+}));
+
+vi.mock("../config/database", () => ({ prisma }));
+
+import { TwoFactorService } from "./twoFactorService";
+
+const service = new TwoFactorService();
+
+// RFC 6238 appendix B seed ("12345678901234567890") in base32
+const RFC_SECRET = "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ";
+
+describe("TwoFactorService", () => {
+  it("should round-trip base32", () => {
+    const buffer = Buffer.from("12345678901234567890");
+    expect(service.base32Encode(buffer)).toBe(RFC_SECRET);
+    expect(service.base32Decode(RFC_SECRET).equals(buffer)).toBe(true);
+  });
+
+  it("should match the RFC 6238 SHA-1 test vectors", () => {
+    expect(service.generateCode(RFC_SECRET, service.currentStep(59_000), 8)).toBe("94287082");
+    expect(service.generateCode(RFC_SECRET, service.currentStep(1_111_111_109_000), 8)).toBe("07081804");
+    expect(service.generateCode(RFC_SECRET, service.currentStep(1_234_567_890_000), 8)).toBe("89005924");
+  });
+
+  it("should accept codes within the drift window and return the matched step", () => {
+    const now = 1_700_000_000_000;
+    const step = service.currentStep(now);
+    const previous = service.generateCode(RFC_SECRET, step - 1);
+
+    expect(service.verifyCode(RFC_SECRET, previous, now)).toBe(step - 1);
+    expect(service.verifyCode(RFC_SECRET, previous, now, { window: 0 })).toBeNull();
+  });
+
+  it("should reject malformed codes", () => {
+    expect(service.verifyCode(RFC_SECRET, "12ab56")).toBeNull();
+    expect(service.verifyCode(RFC_SECRET, "12345")).toBeNull();
+  });
+
+  it("should hash recovery codes case-insensitively", () => {
+    const { codes, hashes } = service.generateRecoveryCodes(3);
+    expect(codes).toHaveLength(3);
+    expect(service.hashRecoveryCode(codes[0].toUpperCase())).toBe(hashes[0]);
+  });
+
+  it("should build an otpauth URI with issuer and secret", () => {
+    const uri = service.buildOtpauthUri(RFC_SECRET, "ana@escritorio.com");
+    expect(uri.startsWith("otpauth://totp/")).toBe(true);
+    expect(uri).toContain(`secret=${RFC_SECRET}`);
+  });
+
+  it("should let only one of two concurrent logins use a TOTP step", async () => {
+    // The row as Postgres would see it: each conditional update runs against the latest write
+    const row = { twoFactorLastStep: 100 as number | null, twoFactorEnabled: false };
+    prisma.user.updateMany.mockImplementation(async ({ where, data }: any) => {
+      await Promise.resolve();
+      const [, newer] = where.OR;
+      if (row.twoFactorLastStep !== null && row.twoFactorLastStep >= newer.twoFactorLastStep.lt) {
+        return { count: 0 };
+      }
+      Object.assign(row, data);
+      return { count: 1 };
+    });
+
+    const results = await Promise.all([service.claimStep("user-1", 101), service.claimStep("user-1", 101)]);
+
+    expect(results.sort()).toEqual([false, true]);
+    expect(row.twoFactorLastStep).toBe(101);
+    await expect(service.claimStep("user-1", 100)).resolves.toBe(false);
+
+    await service.claimStep("user-1", 102, { recoveryCodeHashes: ["h1"] });
+    expect(row).toMatchObject({ twoFactorEnabled: true, twoFactorLastStep: 102 });
+  });
+
+  it("should spend a recovery code once even when used concurrently", async () => {
+    const { codes, hashes } = service.generateRecoveryCodes(2);
+    const row = { twoFactorRecoveryCodes: hashes };
+    prisma.user.updateMany.mockImplementation(async ({ where, data }: any) => {
+      await Promise.resolve();
+      if (JSON.stringify(row.twoFactorRecoveryCodes) !== JSON.stringify(where.twoFactorRecoveryCodes.equals)) {
+        return { count: 0 };
+      }
+      Object.assign(row, data);
+      return { count: 1 };
+    });
+
+    const results = await Promise.all([
+      service.consumeRecoveryCode("user-1", hashes, codes[0]),
+      service.consumeRecoveryCode("user-1", hashes, codes[0]),
+    ]);
+
+    expect(results.sort()).toEqual([false, true]);
+    expect(row.twoFactorRecoveryCodes).toEqual([hashes[1]]);
+    await expect(service.consumeRecoveryCode("user-1", row.twoFactorRecoveryCodes, codes[0])).resolves.toBe(false);
+  });
+});
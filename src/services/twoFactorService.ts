@@ -0,0 +1,169 @@
+import crypto from 'crypto';
+import QRCode from 'qrcode';
+import { prisma } from '../config/database';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export interface TotpOptions {
+  digits?: number;
+  period?: number;
+  window?: number;
+}
+
+// RFC 6238 TOTP (HMAC-SHA1), compatible with Google Authenticator, Authy, 1Password, etc.
+export class TwoFactorService {
+  private issuer: string;
+
+  constructor() {
+    this.issuer = process.env.TOTP_ISSUER || 'LegalSaaS';
+  }
+
+  generateSecret(bytes = 20): string {
+    return this.base32Encode(crypto.randomBytes(bytes));
+  }
+
+  buildOtpauthUri(secret: string, accountName: string): string {
+    const label = encodeURIComponent(`${this.issuer}:${accountName}`);
+    const params = new URLSearchParams({
+      secret,
+      issuer: this.issuer,
+      algorithm: 'SHA1',
+      digits: '6',
+      period: '30',
+    });
+
+    return `otpauth://totp/${label}?${params.toString()}`;
+  }
+
+  async generateQrCode(otpauthUri: string): Promise<string> {
+    return await QRCode.toDataURL(otpauthUri);
+  }
+
+  generateCode(secret: string, step: number, digits = 6): string {
+    const counter = Buffer.alloc(8);
+    counter.writeBigUInt64BE(BigInt(step));
+
+    const hmac = crypto.createHmac('sha1', this.base32Decode(secret)).update(counter).digest();
+    const offset = hmac[hmac.length - 1] & 0x0f;
+    const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+
+    return (binary % 10 ** digits).toString().padStart(digits, '0');
+  }
+
+  currentStep(now = Date.now(), period = 30): number {
+    return Math.floor(now / 1000 / period);
+  }
+
+  // Returns the matched time step so callers can reject replays, or null
+  verifyCode(secret: string, code: string, now = Date.now(), options: TotpOptions = {}): number | null {
+    const digits = options.digits ?? 6;
+    const window = options.window ?? 1;
+    const normalized = code.replace(/\s/g, '');
+
+    if (!/^\d+$/.test(normalized) || normalized.length !== digits) {
+      return null;
+    }
+
+    const step = this.currentStep(now, options.period ?? 30);
+    for (let drift = -window; drift <= window; drift++) {
+      const candidate = this.generateCode(secret, step + drift, digits);
+      if (crypto.timingSafeEqual(Buffer.from(candidate), Buffer.from(normalized))) {
+        return step + drift;
+      }
+    }
+
+    return null;
+  }
+
+  generateRecoveryCodes(count = 10): { codes: string[]; hashes: string[] } {
+    const codes = Array.from({ length: count }, () => {
+      const raw = crypto.randomBytes(5).toString('hex');
+      return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+    });
+
+    return { codes, hashes: codes.map(code => this.hashRecoveryCode(code)) };
+  }
+
+  // Marks the step as used, in one conditional write so two requests racing with the same code
+  // cannot both pass. False when the step (or a later one) was already used. Completing a setup
+  // challenge passes the recovery code hashes, which turns 2FA on in the same write.
+  async claimStep(userId: string, step: number, enrolment?: { recoveryCodeHashes: string[] }): Promise<boolean> {
+    const { count } = await prisma.user.updateMany({
+      where: { id: userId, OR: [{ twoFactorLastStep: null }, { twoFactorLastStep: { lt: step } }] },
+      data: {
+        twoFactorLastStep: step,
+        ...(enrolment && { twoFactorEnabled: true, twoFactorRecoveryCodes: enrolment.recoveryCodeHashes }),
+      },
+    });
+
+    return count > 0;
+  }
+
+  // Recovery codes are single-use: the matching hash is removed only if the stored list is still
+  // the one that was read, so the same code cannot be spent twice by concurrent requests
+  async consumeRecoveryCode(userId: string, storedHashes: string[], code: string): Promise<boolean> {
+    const hash = this.hashRecoveryCode(code);
+    if (!storedHashes.includes(hash)) {
+      return false;
+    }
+
+    const { count } = await prisma.user.updateMany({
+      where: { id: userId, twoFactorRecoveryCodes: { equals: storedHashes } },
+      data: { twoFactorRecoveryCodes: storedHashes.filter((stored) => stored !== hash) },
+    });
+
+    return count > 0;
+  }
+
+  hashRecoveryCode(code: string): string {
+    return crypto.createHash('sha256').update(code.trim().toLowerCase()).digest('hex');
+  }
+
+  base32Encode(buffer: Buffer): string {
+    let bits = 0;
+    let value = 0;
+    let output = '';
+
+    for (const byte of buffer) {
+      value = (value << 8) | byte;
+      bits += 8;
+
+      while (bits >= 5) {
+        output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+        bits -= 5;
+      }
+    }
+
+    if (bits > 0) {
+      output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+    }
+
+    return output;
+  }
+
+  base32Decode(input: string): Buffer {
+    const cleaned = input.toUpperCase().replace(/=+$/, '').replace(/\s/g, '');
+    let bits = 0;
+    let value = 0;
+    const bytes: number[] = [];
+
+    for (const char of cleaned) {
+      const index = BASE32_ALPHABET.indexOf(char);
+      if (index === -1) {
+        throw new Error('Invalid base32 secret');
+      }
+
+      value = (value << 5) | index;
+      bits += 5;
+
+      if (bits >= 8) {
+        bytes.push((value >>> (bits - 8)) & 255);
+        bits -= 8;
+      }
+    }
+
+    return Buffer.from(bytes);
+  }
+}
+
+export const twoFactorService = new TwoFactorService();
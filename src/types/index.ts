@@ -224,6 +224,231 @@ export interface InvoiceItem {
   tax?: number;
 }
 
+// Tenant table rows (columns as stored in each tenant schema, see supabase/tenant-migrations)
+interface TenantRowBase {
+  id: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface ClientRow extends TenantRowBase {
+  name: string;
+  email: string | null;
+  phone: string | null;
+  organization: string | null;
+  address: Client['address'] | null;
+  budget: number;
+  currency: string;
+  status: string;
+  tags: string[];
+  notes: string | null;
+  cpf: string | null;
+  rg: string | null;
+  pis: string | null;
+  cei: string | null;
+  birth_date: Date | null;
+  marital_status: string | null;
+  professional_title: string | null;
+  anonymized_at: Date | null;
+  created_by: string | null;
+  is_active: boolean;
+  deleted_at: Date | null; // set with is_active = false; the trash purges it after TRASH_RETENTION_DAYS
+}
+
+export interface ProjectRow extends TenantRowBase {
+  title: string;
+  description: string | null;
+  client_id: string | null;
+  client_name: string | null;
+  organization: string | null;
+  address: string | null;
+  budget: number;
+  currency: string;
+  status: Project['status'];
+  priority: Project['priority'];
+  progress: number;
+  start_date: Date | null;
+  due_date: Date | null;
+  completed_at: Date | null;
+  tags: string[];
+  assigned_to: string[];
+  notes: string | null;
+  created_by: string | null;
+  is_active: boolean;
+  deleted_at: Date | null;
+}
+
+export interface TaskRow extends TenantRowBase {
+  title: string;
+  description: string | null;
+  project_id: string | null;
+  project_title: string | null;
+  client_id: string | null;
+  client_name: string | null;
+  assigned_to: string | null;
+  status: Task['status'];
+  priority: Task['priority'];
+  progress: number;
+  start_date: Date | null;
+  end_date: Date | null;
+  completed_at: Date | null;
+  estimated_hours: number | null;
+  actual_hours: number | null;
+  tags: string[];
+  notes: string | null;
+  subtasks: Subtask[];
+  created_by: string | null;
+  is_active: boolean;
+  deleted_at: Date | null;
+}
+
+export interface TransactionRow extends TenantRowBase {
+  type: Transaction['type'];
+  amount: number;
+  category_id: string | null;
+  category: string | null;
+  description: string;
+  date: Date;
+  payment_method: string | null;
+  status: Transaction['status'];
+  project_id: string | null;
+  project_title: string | null;
+  client_id: string | null;
+  client_name: string | null;
+  tags: string[];
+  notes: string | null;
+  is_recurring: boolean;
+  recurring_frequency: string | null;
+  created_by: string | null;
+  is_active: boolean;
+  deleted_at: Date | null;
+}
+
+export interface InvoiceRow extends TenantRowBase {
+  number: string;
+  title: string;
+  description: string | null;
+  client_id: string | null;
+  client_name: string | null;
+  client_email: string | null;
+  client_phone: string | null;
+  amount: number;
+  currency: string;
+  status: Invoice['status'];
+  due_date: Date | null;
+  paid_at: Date | null;
+  payment_method: string | null;
+  items: InvoiceItem[];
+  tags: string[];
+  notes: string | null;
+  created_by: string | null;
+  is_active: boolean;
+  deleted_at: Date | null;
+}
+
+export interface PublicationRow extends TenantRowBase {
+  user_id: string;
+  oab_number: string | null;
+  process_number: string | null;
+  publication_date: Date | null;
+  content: string | null;
+  source: string | null;
+  external_id: string | null;
+  status: string;
+  urgency: string;
+  responsible: string | null;
+  notes: string | null;
+}
+
+export interface DataSubjectRequestRow extends TenantRowBase {
+  client_id: string;
+  type: 'access' | 'anonymization';
+  status: 'open' | 'completed' | 'rejected';
+  notes: string | null;
+  due_at: Date;
+  requested_by: string | null;
+  completed_by: string | null;
+  completed_at: Date | null;
+  result: Record<string, unknown> | null;
+}
+
+export type AttachmentEntityType = 'client' | 'project' | 'task' | 'transaction' | 'invoice';
+
+export interface AttachmentRow extends TenantRowBase {
+  entity_type: AttachmentEntityType;
+  entity_id: string;
+  name: string;
+  mime_type: string;
+  // bigint: the pg driver returns it as a string
+  size: number | string;
+  checksum: string;
+  uploaded_by: string | null;
+}
+
+// Tenant settings types
+export interface SecuritySettings {
+  passwordPolicy: {
+    minLength: number;
+    requireUppercase: boolean;
+    requireLowercase: boolean;
+    requireNumbers: boolean;
+    requireSpecialChars: boolean;
+    expiryDays?: number;
+    historyCount: number; // previous passwords that cannot be reused
+  };
+  sessionSettings: {
+    timeoutMinutes: number;
+    maxSessions: number;
+    requireReauth: boolean;
+  };
+  twoFactorAuth: {
+    enabled: boolean;
+    required: boolean;
+    methods: ('sms' | 'email' | 'app')[];
+  };
+  auditLog: {
+    retention: number; // days
+    enabledActions: string[];
+  };
+  supportAccess: {
+    allowImpersonation: boolean; // SaaS support may open time-boxed sessions as a user
+  };
+}
+
+// Settings updates change any subset of fields within each section
+export type SecuritySettingsUpdate = {
+  [Section in keyof SecuritySettings]?: Partial<SecuritySettings[Section]>;
+};
+
+// Authorization types
+export type PermissionModule =
+  | 'dashboard'
+  | 'clients'
+  | 'projects'
+  | 'tasks'
+  | 'invoices'
+  | 'transactions'
+  | 'settings'
+  | 'users';
+
+export type PermissionAction = 'read' | 'write' | 'delete' | 'admin';
+
+export interface Permission {
+  module: PermissionModule;
+  action: PermissionAction;
+  granted: boolean;
+}
+
+export interface Role {
+  id: string;
+  name: string;
+  description: string;
+  permissions: Permission[];
+  isSystem: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
 // Error types
 export class AppError extends Error {
   public statusCode: number;
@@ -268,4 +493,45 @@ export class TenantError extends AppError {
   constructor(message: string, code: string = 'TENANT_ERROR') {
     super(message, 400, code);
   }
-}
\ No newline at end of file
+}
+
+export class PasswordPolicyError extends ValidationError {
+  public violations: string[];
+
+  constructor(violations: string[]) {
+    super(violations.join('; '), 'PASSWORD_POLICY');
+    this.violations = violations;
+  }
+}
+
+// Rejected by the tenant query builder (unknown table/column, bad sort or pagination)
+export class InvalidQueryError extends ValidationError {
+  constructor(message: string) {
+    super(message, 'INVALID_QUERY');
+  }
+}
+
+export class PlanLimitError extends AppError {
+  public limit: number;
+  public used: number;
+
+  constructor(message: string, limit: number, used: number) {
+    super(message, 403, 'PLAN_001');
+    this.limit = limit;
+    this.used = used;
+  }
+}
+
+// A plan feature the tenant's current plan does not include
+export class UpgradeRequiredError extends AppError {
+  public feature: string;
+  public plan: string;
+  public requiredPlan?: string;
+
+  constructor(message: string, feature: string, plan: string, requiredPlan?: string) {
+    super(message, 403, 'PLAN_002');
+    this.feature = feature;
+    this.plan = plan;
+    this.requiredPlan = requiredPlan;
+  }
+}
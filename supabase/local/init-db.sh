@@ -0,0 +1,15 @@
+#!/bin/sh
+# Runs once, on the first start of the docker-compose `db` service:
+# Supabase shim, then every global migration in order.
+set -e
+
+run_sql() {
+  psql -v ON_ERROR_STOP=1 --username "$POSTGRES_USER" --dbname "$POSTGRES_DB" -f "$1"
+}
+
+run_sql /supabase/local/supabase-shim.sql
+
+for file in /supabase/migrations/*.sql; do
+  echo "Applying $(basename "$file")"
+  run_sql "$file"
+done
@@ -0,0 +1,34 @@
+/*
+  # Admin Authentication
+
+  1. Changes
+    - `admin_users.role` now accepts `support` (read-only panel access)
+    - `admin_refresh_tokens` - Refresh tokens issued to admin panel sessions,
+      kept apart from tenant `refresh_tokens`
+
+  2. Security
+    - Enable RLS on `admin_refresh_tokens`
+*/
+
+-- Allow the support role
+ALTER TABLE admin_users DROP CONSTRAINT IF EXISTS admin_users_role_check;
+ALTER TABLE admin_users
+  ADD CONSTRAINT admin_users_role_check CHECK (role IN ('super_admin', 'admin', 'support'));
+
+-- Admin Refresh Tokens Table
+CREATE TABLE IF NOT EXISTS admin_refresh_tokens (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  token_hash text NOT NULL,
+  admin_user_id uuid REFERENCES admin_users(id) ON DELETE CASCADE,
+  expires_at timestamptz NOT NULL,
+  is_active boolean DEFAULT true,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE admin_refresh_tokens ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admin full access to admin_refresh_tokens" ON admin_refresh_tokens
+  FOR ALL TO authenticated
+  USING (auth.jwt() ->> 'role' = 'admin');
+
+CREATE INDEX IF NOT EXISTS idx_admin_refresh_tokens_admin ON admin_refresh_tokens(admin_user_id);
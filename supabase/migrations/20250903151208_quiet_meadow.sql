@@ -0,0 +1,19 @@
+/*
+  # Two-Factor Authentication
+
+  1. Changes
+    - `users` gains TOTP columns:
+      - `two_factor_enabled` - enrolment confirmed with a valid code
+      - `two_factor_secret` - base32 TOTP secret (pending until enabled)
+      - `two_factor_last_step` - last accepted time step, blocks code replay
+      - `two_factor_recovery_codes` - SHA-256 hashes of unused recovery codes
+
+  2. Notes
+    - The tenant-level "require 2FA" flag lives in
+      `tenant_settings.settings -> 'security' -> 'twoFactorAuth' -> 'required'`
+*/
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS two_factor_enabled boolean DEFAULT false;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS two_factor_secret text;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS two_factor_last_step integer;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS two_factor_recovery_codes jsonb DEFAULT '[]';
@@ -0,0 +1,24 @@
+/*
+  # Password Policy
+
+  1. Changes
+    - `users.password_changed_at` - drives `passwordPolicy.expiryDays`
+    - `password_history` - previous password hashes, blocks reuse of the
+      last `passwordPolicy.historyCount` passwords
+
+  2. Security
+    - Enable RLS on `password_history`
+*/
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS password_changed_at timestamptz DEFAULT now();
+
+CREATE TABLE IF NOT EXISTS password_history (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES users(id) ON DELETE CASCADE,
+  password_hash text NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE password_history ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_password_history_user_date ON password_history(user_id, created_at);
@@ -0,0 +1,35 @@
+/*
+  # User Sessions
+
+  1. New Tables
+    - `user_sessions` - one row per login, survives refresh token rotation
+      - device, IP and user agent captured at login
+      - `last_seen_at` drives `sessionSettings.timeoutMinutes`
+      - `revoked_at` set on logout, eviction or remote sign-out
+
+  2. Changes
+    - `refresh_tokens.session_id` - ties each rotated token to its session
+
+  3. Security
+    - Enable RLS on `user_sessions`
+*/
+
+CREATE TABLE IF NOT EXISTS user_sessions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES users(id) ON DELETE CASCADE,
+  tenant_id uuid REFERENCES tenants(id) ON DELETE CASCADE,
+  device text,
+  ip_address inet,
+  user_agent text,
+  last_seen_at timestamptz DEFAULT now(),
+  revoked_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE refresh_tokens
+  ADD COLUMN IF NOT EXISTS session_id uuid REFERENCES user_sessions(id) ON DELETE CASCADE;
+
+ALTER TABLE user_sessions ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_user_sessions_user_active ON user_sessions(user_id) WHERE revoked_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_refresh_tokens_session ON refresh_tokens(session_id);
@@ -0,0 +1,25 @@
+/*
+  # Password Reset Tokens
+
+  1. New Tables
+    - `password_reset_tokens` - emailed one-time tokens for self-service reset
+      - only the SHA-256 hash of the token is stored
+      - `used_at` marks consumption; unused tokens are voided when a new one is issued
+
+  2. Security
+    - Enable RLS on `password_reset_tokens`
+*/
+
+CREATE TABLE IF NOT EXISTS password_reset_tokens (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES users(id) ON DELETE CASCADE,
+  token_hash text UNIQUE NOT NULL,
+  expires_at timestamptz NOT NULL,
+  used_at timestamptz,
+  ip_address inet,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE password_reset_tokens ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_password_reset_tokens_user ON password_reset_tokens(user_id);
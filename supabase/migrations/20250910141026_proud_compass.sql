@@ -0,0 +1,31 @@
+/*
+  # Tenant Roles
+
+  1. New Tables
+    - `roles` - tenant-defined roles with a JSON permission list
+      (`[{ module, action, granted }]`, actions: read, write, delete, admin)
+
+  2. Changes
+    - `users.role_id` - optional custom role; NULL keeps the built-in role of
+      the user's account type (SIMPLES, COMPOSTA, GERENCIAL)
+
+  3. Security
+    - Enable RLS on `roles`
+*/
+
+CREATE TABLE IF NOT EXISTS roles (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id uuid REFERENCES tenants(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  description text,
+  permissions jsonb NOT NULL DEFAULT '[]',
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (tenant_id, name)
+);
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS role_id uuid REFERENCES roles(id) ON DELETE SET NULL;
+
+ALTER TABLE roles ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_users_role ON users(role_id);
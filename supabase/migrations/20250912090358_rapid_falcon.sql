@@ -0,0 +1,20 @@
+/*
+  # Refresh Token Families
+
+  1. Changes
+    - `refresh_tokens.family_id` - shared by every rotation of one login
+    - `refresh_tokens.rotated_at` - set when a token is exchanged; presenting a
+      rotated token again revokes the whole family
+    - `token_hash` now holds a SHA-256 digest looked up by the token's `jti`
+      (row id), so existing rows can no longer be matched and are retired
+
+  2. Indexes
+    - `family_id` for family-wide revocation
+*/
+
+ALTER TABLE refresh_tokens ADD COLUMN IF NOT EXISTS family_id uuid;
+ALTER TABLE refresh_tokens ADD COLUMN IF NOT EXISTS rotated_at timestamptz;
+
+UPDATE refresh_tokens SET is_active = false WHERE family_id IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_refresh_tokens_family ON refresh_tokens(family_id);
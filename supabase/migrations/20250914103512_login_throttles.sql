@@ -0,0 +1,25 @@
+/*
+  # Login Throttles
+
+  1. New Tables
+    - `login_throttles` - failed-login counters for progressive lockout
+      - one row per scope key: `email:<address>` or `ip:<address>`
+      - `failures` counts consecutive failures inside the current window
+      - `lock_count` grows with every lockout and doubles the next lock duration
+      - `locked_until` is cleared by a successful login or by a tenant manager
+
+  2. Security
+    - Enable RLS on `login_throttles` (server-side access only)
+*/
+
+CREATE TABLE IF NOT EXISTS login_throttles (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  key text UNIQUE NOT NULL,
+  failures integer NOT NULL DEFAULT 0,
+  lock_count integer NOT NULL DEFAULT 0,
+  locked_until timestamptz,
+  last_failure_at timestamptz,
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE login_throttles ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,32 @@
+/*
+  # API Keys
+
+  1. New Tables
+    - `api_keys` - personal access tokens / tenant API keys for integrations
+      - only the SHA-256 hash of the key is stored; `prefix` keeps the first
+        characters for display
+      - `scopes` narrows the creator's permissions (`[]` = all of them)
+      - `expires_at` is optional; `revoked_at` marks manual revocation
+      - `last_used_at` is refreshed at most once per minute
+
+  2. Security
+    - Enable RLS on `api_keys`
+*/
+
+CREATE TABLE IF NOT EXISTS api_keys (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id uuid REFERENCES tenants(id) ON DELETE CASCADE,
+  created_by uuid REFERENCES users(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  prefix text NOT NULL,
+  key_hash text UNIQUE NOT NULL,
+  scopes jsonb NOT NULL DEFAULT '[]',
+  expires_at timestamptz,
+  last_used_at timestamptz,
+  revoked_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE api_keys ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_api_keys_tenant ON api_keys(tenant_id);
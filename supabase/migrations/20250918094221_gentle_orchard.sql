@@ -0,0 +1,56 @@
+/*
+  # Client Portal
+
+  1. New Tables
+    - `portal_accounts` - logins for a tenant's end clients
+      - linked to one row of the tenant schema's `clients` table (`client_id`)
+      - `password_hash` stays NULL until the emailed invitation is accepted;
+        only the SHA-256 hash of the invitation token is stored
+    - `portal_shares` - records the firm explicitly shares with a client
+      (currently `publication`)
+
+  2. Changes
+    - `audit_logs.portal_account_id` - portal accesses are audited against the
+      portal account (`user_id` stays NULL for them)
+    - `audit_logs` operation check dropped: besides CREATE/UPDATE/DELETE the
+      trail now records security and access events (LOCKOUT, PORTAL_VIEW, ...)
+
+  3. Security
+    - Enable RLS on `portal_accounts` and `portal_shares`
+*/
+
+CREATE TABLE IF NOT EXISTS portal_accounts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id uuid REFERENCES tenants(id) ON DELETE CASCADE,
+  client_id uuid NOT NULL,
+  email text UNIQUE NOT NULL,
+  name text NOT NULL,
+  password_hash text,
+  invite_token_hash text UNIQUE,
+  invite_expires_at timestamptz,
+  is_active boolean DEFAULT true,
+  last_login timestamptz,
+  created_by uuid NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (tenant_id, client_id)
+);
+
+CREATE TABLE IF NOT EXISTS portal_shares (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id uuid REFERENCES tenants(id) ON DELETE CASCADE,
+  client_id uuid NOT NULL,
+  resource_type text NOT NULL,
+  resource_id uuid NOT NULL,
+  shared_by uuid NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (tenant_id, client_id, resource_type, resource_id)
+);
+
+ALTER TABLE audit_logs ADD COLUMN IF NOT EXISTS portal_account_id uuid REFERENCES portal_accounts(id) ON DELETE CASCADE;
+ALTER TABLE audit_logs DROP CONSTRAINT IF EXISTS audit_logs_operation_check;
+
+ALTER TABLE portal_accounts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE portal_shares ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_audit_logs_portal_account ON audit_logs(portal_account_id);
@@ -0,0 +1,31 @@
+/*
+  # Team Invites
+
+  1. New Tables
+    - `team_invites` - email invitations to join a tenant
+      - carries the account type and optional custom role of the new member
+      - only the SHA-256 hash of the token is stored
+      - a pending invite (not accepted, revoked or expired) reserves a seat
+        against `tenants.max_users`
+
+  2. Security
+    - Enable RLS on `team_invites`
+*/
+
+CREATE TABLE IF NOT EXISTS team_invites (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id uuid REFERENCES tenants(id) ON DELETE CASCADE,
+  email text NOT NULL,
+  account_type text NOT NULL CHECK (account_type IN ('SIMPLES', 'COMPOSTA', 'GERENCIAL')),
+  role_id uuid REFERENCES roles(id) ON DELETE SET NULL,
+  token_hash text UNIQUE NOT NULL,
+  expires_at timestamptz NOT NULL,
+  invited_by uuid REFERENCES users(id) ON DELETE CASCADE,
+  accepted_at timestamptz,
+  revoked_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE team_invites ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_team_invites_tenant_email ON team_invites(tenant_id, email);
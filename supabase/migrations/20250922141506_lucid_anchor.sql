@@ -0,0 +1,34 @@
+/*
+  # Support Impersonation
+
+  1. New Tables
+    - `impersonations` - time-boxed support sessions where an admin acts as a tenant user
+      - records the admin, the impersonated user, the stated reason and the expiry
+      - `ended_at` is set when the session is closed before it expires
+
+  2. Changes
+    - `audit_logs.impersonator_id` - admin behind an action taken during impersonation
+
+  3. Security
+    - Enable RLS on `impersonations`
+    - Tenants opt out through `supportAccess.allowImpersonation` in tenant settings
+*/
+
+CREATE TABLE IF NOT EXISTS impersonations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  admin_user_id uuid REFERENCES admin_users(id) ON DELETE CASCADE,
+  tenant_id uuid REFERENCES tenants(id) ON DELETE CASCADE,
+  user_id uuid REFERENCES users(id) ON DELETE CASCADE,
+  reason text NOT NULL,
+  expires_at timestamptz NOT NULL,
+  ended_at timestamptz,
+  ip_address inet,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE impersonations ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_impersonations_tenant_id ON impersonations(tenant_id);
+
+ALTER TABLE audit_logs
+  ADD COLUMN IF NOT EXISTS impersonator_id uuid REFERENCES admin_users(id) ON DELETE SET NULL;
@@ -0,0 +1,43 @@
+/*
+  # OpenID Connect Single Sign-On
+
+  1. New Tables
+    - `sso_configs` - per-tenant OIDC provider (issuer, client credentials)
+      - `allowed_domains` routes staff emails to the tenant and limits who is provisioned
+      - `default_account_type` for users created on their first SSO login
+      - `disable_password_login` makes SSO the only way in for the tenant
+    - `sso_login_states` - pending authorization-code logins
+      - only the SHA-256 hash of `state` is stored; the PKCE verifier never leaves the server
+
+  2. Security
+    - Enable RLS on both tables
+*/
+
+CREATE TABLE IF NOT EXISTS sso_configs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id uuid UNIQUE REFERENCES tenants(id) ON DELETE CASCADE,
+  enabled boolean DEFAULT false,
+  issuer text NOT NULL,
+  client_id text NOT NULL,
+  client_secret text,
+  allowed_domains text[] NOT NULL DEFAULT '{}',
+  default_account_type text NOT NULL DEFAULT 'SIMPLES' CHECK (default_account_type IN ('SIMPLES', 'COMPOSTA', 'GERENCIAL')),
+  disable_password_login boolean DEFAULT false,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS sso_login_states (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  state_hash text UNIQUE NOT NULL,
+  tenant_id uuid REFERENCES tenants(id) ON DELETE CASCADE,
+  code_verifier text NOT NULL,
+  nonce text NOT NULL,
+  expires_at timestamptz NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE sso_configs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE sso_login_states ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_sso_configs_allowed_domains ON sso_configs USING gin(allowed_domains);
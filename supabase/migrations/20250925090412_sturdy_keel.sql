@@ -0,0 +1,86 @@
+/*
+  # Versioned tenant schema migrations
+
+  1. Changes
+    - `create_tenant_schema` now only creates the schema and its `schema_migrations` table.
+      The two previous definitions (calm_spring and quick_dust) disagreed on the tenant tables;
+      the tables now come from the numbered files in `supabase/tenant-migrations`, applied by
+      the application's migration runner.
+    - New `apply_tenant_migration(schema, version, name, checksum, sql)` applies one migration to
+      one tenant schema and records it in `<schema>.schema_migrations` in the same transaction.
+      Already-applied versions are skipped, so a failed run can simply be resumed.
+    - `apply_migration_to_all_tenants` is dropped: it ran raw SQL over every schema and
+      recorded nothing.
+
+  2. Security
+    - `apply_tenant_migration` only accepts `tenant_<32 hex>` schema names and takes an
+      advisory lock per schema so two runners cannot migrate the same tenant at once
+*/
+
+DROP FUNCTION IF EXISTS apply_migration_to_all_tenants(text);
+DROP FUNCTION IF EXISTS create_tenant_schema(uuid);
+
+CREATE OR REPLACE FUNCTION create_tenant_schema(tenant_uuid uuid)
+RETURNS text AS $$
+DECLARE
+    schema_name text := 'tenant_' || replace(tenant_uuid::text, '-', '');
+BEGIN
+    EXECUTE format('CREATE SCHEMA IF NOT EXISTS %I', schema_name);
+
+    EXECUTE format('
+        CREATE TABLE IF NOT EXISTS %I.schema_migrations (
+            version integer PRIMARY KEY,
+            name text NOT NULL,
+            checksum text NOT NULL,
+            applied_at timestamptz DEFAULT now()
+        )
+    ', schema_name);
+
+    RETURN schema_name;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION apply_tenant_migration(
+    tenant_schema text,
+    migration_version integer,
+    migration_name text,
+    migration_checksum text,
+    migration_sql text
+)
+RETURNS boolean AS $$
+DECLARE
+    already_applied boolean;
+BEGIN
+    IF tenant_schema !~ '^tenant_[0-9a-f]{32}$' THEN
+        RAISE EXCEPTION 'Invalid tenant schema: %', tenant_schema;
+    END IF;
+
+    PERFORM pg_advisory_xact_lock(hashtext(tenant_schema));
+
+    -- Tenants created before the runner existed get their tracking table here
+    EXECUTE format('CREATE SCHEMA IF NOT EXISTS %I', tenant_schema);
+    EXECUTE format('
+        CREATE TABLE IF NOT EXISTS %I.schema_migrations (
+            version integer PRIMARY KEY,
+            name text NOT NULL,
+            checksum text NOT NULL,
+            applied_at timestamptz DEFAULT now()
+        )
+    ', tenant_schema);
+
+    EXECUTE format('SELECT EXISTS (SELECT 1 FROM %I.schema_migrations WHERE version = $1)', tenant_schema)
+        INTO already_applied
+        USING migration_version;
+
+    IF already_applied THEN
+        RETURN false;
+    END IF;
+
+    EXECUTE replace(migration_sql, '${schema}', quote_ident(tenant_schema));
+
+    EXECUTE format('INSERT INTO %I.schema_migrations (version, name, checksum) VALUES ($1, $2, $3)', tenant_schema)
+        USING migration_version, migration_name, migration_checksum;
+
+    RETURN true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,38 @@
+/*
+  # Tenant data export (LGPD portability)
+
+  1. New Tables
+    - `tenant_exports` - one background export job per request
+      - `status` moves pending -> running -> completed | failed; completed archives
+        become `expired` once `expires_at` passes and the file is deleted
+      - `progress` (0-100) and `current_step` are updated while the archive is built
+      - `format_version` is the archive layout version written in its manifest
+      - requested either by a tenant user (`requested_by_id`) or an admin (`requested_by_admin_id`)
+
+  2. Security
+    - Enable RLS on `tenant_exports`
+*/
+
+CREATE TABLE IF NOT EXISTS tenant_exports (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id uuid NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  requested_by_id uuid REFERENCES users(id) ON DELETE SET NULL,
+  requested_by_admin_id uuid REFERENCES admin_users(id) ON DELETE SET NULL,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'running', 'completed', 'failed', 'expired')),
+  progress integer NOT NULL DEFAULT 0 CHECK (progress BETWEEN 0 AND 100),
+  current_step text,
+  format_version integer NOT NULL,
+  file_path text,
+  file_size bigint,
+  error text,
+  started_at timestamptz,
+  completed_at timestamptz,
+  expires_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE tenant_exports ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_tenant_exports_tenant_created ON tenant_exports(tenant_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_tenant_exports_status ON tenant_exports(status);
@@ -0,0 +1,22 @@
+/*
+  # Soft tenant deletion
+
+  1. Changes
+    - `tenants.deleted_at` - set when an admin deletes the tenant; the tenant is deactivated
+      (logins, API keys and the client portal stop working) but its data is kept
+    - `tenants.purge_after` - end of the grace period; a scheduled job drops the schema and
+      the tenant row after it. Clearing both columns cancels the deletion
+    - `tenants.deleted_by` - admin who requested the deletion
+    - `tenants.deletion_export_id` - export taken as a snapshot when the deletion was requested,
+      kept until the purge
+
+  2. Indexes
+    - `purge_after` for the purge job and the pending-purges list
+*/
+
+ALTER TABLE tenants ADD COLUMN IF NOT EXISTS deleted_at timestamptz;
+ALTER TABLE tenants ADD COLUMN IF NOT EXISTS purge_after timestamptz;
+ALTER TABLE tenants ADD COLUMN IF NOT EXISTS deleted_by uuid REFERENCES admin_users(id) ON DELETE SET NULL;
+ALTER TABLE tenants ADD COLUMN IF NOT EXISTS deletion_export_id uuid REFERENCES tenant_exports(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_tenants_purge_after ON tenants(purge_after) WHERE purge_after IS NOT NULL;
@@ -0,0 +1,9 @@
+/*
+  # Attachment storage usage
+
+  1. Changes
+    - `tenants.storage_used` - bytes taken by the tenant's attachments. Uploads reserve their
+      size here atomically and are refused once it would pass `max_storage`; deletions give it back
+*/
+
+ALTER TABLE tenants ADD COLUMN IF NOT EXISTS storage_used bigint NOT NULL DEFAULT 0;
@@ -0,0 +1,17 @@
+/*
+  # SSO domain verification
+
+  1. Changes
+    - `sso_configs.verified_domains` - allowed domains whose DNS carries the tenant's TXT record.
+      Only these route SSO logins and provision users; existing configurations start unverified
+    - `sso_configs.domain_verification_token` - value of the TXT record
+      (`legalsaas-domain-verification=<token>`)
+    - password login is turned back on where no domain is verified yet, so nobody is locked out
+*/
+
+ALTER TABLE sso_configs ADD COLUMN IF NOT EXISTS verified_domains text[] NOT NULL DEFAULT '{}';
+ALTER TABLE sso_configs ADD COLUMN IF NOT EXISTS domain_verification_token text NOT NULL DEFAULT gen_random_uuid()::text;
+
+UPDATE sso_configs SET disable_password_login = false WHERE cardinality(verified_domains) = 0;
+
+CREATE INDEX IF NOT EXISTS idx_sso_configs_verified_domains ON sso_configs USING gin(verified_domains);
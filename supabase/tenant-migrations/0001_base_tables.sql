@@ -0,0 +1,144 @@
+-- Tenant tables as defined by the latest create_tenant_schema (quick_dust).
+-- IF NOT EXISTS everywhere (index names included): tenants created before versioning already have them.
+
+CREATE TABLE IF NOT EXISTS ${schema}.clients (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    name text NOT NULL,
+    email text,
+    phone text,
+    organization text,
+    address jsonb,
+    budget decimal(15,2) DEFAULT 0,
+    currency text DEFAULT 'BRL',
+    status text DEFAULT 'active',
+    tags text[] DEFAULT ARRAY[]::text[],
+    notes text,
+    created_by uuid,
+    created_at timestamptz DEFAULT now(),
+    updated_at timestamptz DEFAULT now(),
+    is_active boolean DEFAULT true
+);
+
+CREATE TABLE IF NOT EXISTS ${schema}.projects (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    title text NOT NULL,
+    description text,
+    client_id uuid,
+    client_name text,
+    organization text,
+    address text,
+    budget decimal(15,2) DEFAULT 0,
+    currency text DEFAULT 'BRL',
+    status text DEFAULT 'contacted',
+    priority text DEFAULT 'medium',
+    progress integer DEFAULT 0 CHECK (progress >= 0 AND progress <= 100),
+    start_date date,
+    due_date date,
+    completed_at timestamptz,
+    tags text[] DEFAULT ARRAY[]::text[],
+    assigned_to text[] DEFAULT ARRAY[]::text[],
+    notes text,
+    created_by uuid,
+    created_at timestamptz DEFAULT now(),
+    updated_at timestamptz DEFAULT now(),
+    is_active boolean DEFAULT true
+);
+
+CREATE TABLE IF NOT EXISTS ${schema}.tasks (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    title text NOT NULL,
+    description text,
+    project_id uuid,
+    project_title text,
+    client_id uuid,
+    client_name text,
+    assigned_to text,
+    status text DEFAULT 'not_started',
+    priority text DEFAULT 'medium',
+    progress integer DEFAULT 0 CHECK (progress >= 0 AND progress <= 100),
+    start_date date,
+    end_date date,
+    completed_at timestamptz,
+    estimated_hours decimal(5,2),
+    actual_hours decimal(5,2),
+    tags text[] DEFAULT ARRAY[]::text[],
+    notes text,
+    subtasks jsonb DEFAULT '[]',
+    created_by uuid,
+    created_at timestamptz DEFAULT now(),
+    updated_at timestamptz DEFAULT now(),
+    is_active boolean DEFAULT true
+);
+
+CREATE TABLE IF NOT EXISTS ${schema}.transactions (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    type text CHECK (type IN ('income', 'expense')),
+    amount decimal(15,2) NOT NULL,
+    category_id text,
+    category text,
+    description text NOT NULL,
+    date date NOT NULL,
+    payment_method text,
+    status text DEFAULT 'confirmed',
+    project_id uuid,
+    project_title text,
+    client_id uuid,
+    client_name text,
+    tags text[] DEFAULT ARRAY[]::text[],
+    notes text,
+    is_recurring boolean DEFAULT false,
+    recurring_frequency text,
+    created_by uuid,
+    created_at timestamptz DEFAULT now(),
+    updated_at timestamptz DEFAULT now(),
+    is_active boolean DEFAULT true
+);
+
+CREATE TABLE IF NOT EXISTS ${schema}.invoices (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    number text UNIQUE NOT NULL,
+    title text NOT NULL,
+    description text,
+    client_id uuid,
+    client_name text,
+    client_email text,
+    client_phone text,
+    amount decimal(15,2) NOT NULL,
+    currency text DEFAULT 'BRL',
+    status text DEFAULT 'draft',
+    due_date date,
+    paid_at timestamptz,
+    payment_method text,
+    items jsonb DEFAULT '[]',
+    tags text[] DEFAULT ARRAY[]::text[],
+    notes text,
+    created_by uuid,
+    created_at timestamptz DEFAULT now(),
+    updated_at timestamptz DEFAULT now(),
+    is_active boolean DEFAULT true
+);
+
+CREATE TABLE IF NOT EXISTS ${schema}.publications (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id uuid NOT NULL,
+    oab_number text,
+    process_number text,
+    publication_date date,
+    content text,
+    source text,
+    external_id text,
+    status text DEFAULT 'nova',
+    urgency text DEFAULT 'media',
+    responsible text,
+    notes text,
+    created_at timestamptz DEFAULT now(),
+    updated_at timestamptz DEFAULT now(),
+    UNIQUE(user_id, external_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_${schema}_clients_created_by ON ${schema}.clients(created_by);
+CREATE INDEX IF NOT EXISTS idx_${schema}_projects_client_id ON ${schema}.projects(client_id);
+CREATE INDEX IF NOT EXISTS idx_${schema}_tasks_project_id ON ${schema}.tasks(project_id);
+CREATE INDEX IF NOT EXISTS idx_${schema}_tasks_assigned_to ON ${schema}.tasks(assigned_to);
+CREATE INDEX IF NOT EXISTS idx_${schema}_transactions_date ON ${schema}.transactions(date);
+CREATE INDEX IF NOT EXISTS idx_${schema}_publications_user_id ON ${schema}.publications(user_id);
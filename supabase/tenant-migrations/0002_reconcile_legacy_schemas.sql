@@ -0,0 +1,45 @@
+-- Tenants created by the first create_tenant_schema (calm_spring) got timestamp columns
+-- without time zone, no tags defaults and a different index set. Bring them in line;
+-- on tenants created by the later definition every statement is a no-op.
+
+ALTER TABLE ${schema}.clients
+    ALTER COLUMN created_at TYPE timestamptz,
+    ALTER COLUMN updated_at TYPE timestamptz,
+    ALTER COLUMN tags SET DEFAULT ARRAY[]::text[];
+
+ALTER TABLE ${schema}.projects
+    ALTER COLUMN completed_at TYPE timestamptz,
+    ALTER COLUMN created_at TYPE timestamptz,
+    ALTER COLUMN updated_at TYPE timestamptz,
+    ALTER COLUMN tags SET DEFAULT ARRAY[]::text[],
+    ALTER COLUMN assigned_to SET DEFAULT ARRAY[]::text[];
+
+ALTER TABLE ${schema}.tasks
+    ALTER COLUMN completed_at TYPE timestamptz,
+    ALTER COLUMN created_at TYPE timestamptz,
+    ALTER COLUMN updated_at TYPE timestamptz,
+    ALTER COLUMN tags SET DEFAULT ARRAY[]::text[];
+
+ALTER TABLE ${schema}.transactions
+    ALTER COLUMN created_at TYPE timestamptz,
+    ALTER COLUMN updated_at TYPE timestamptz,
+    ALTER COLUMN tags SET DEFAULT ARRAY[]::text[];
+
+ALTER TABLE ${schema}.invoices
+    ALTER COLUMN paid_at TYPE timestamptz,
+    ALTER COLUMN created_at TYPE timestamptz,
+    ALTER COLUMN updated_at TYPE timestamptz,
+    ALTER COLUMN tags SET DEFAULT ARRAY[]::text[];
+
+ALTER TABLE ${schema}.publications
+    ALTER COLUMN created_at TYPE timestamptz,
+    ALTER COLUMN updated_at TYPE timestamptz;
+
+-- Status/type filters used by the list endpoints (only the first definition had them)
+CREATE INDEX IF NOT EXISTS idx_${schema}_clients_status ON ${schema}.clients(status);
+CREATE INDEX IF NOT EXISTS idx_${schema}_projects_status ON ${schema}.projects(status);
+CREATE INDEX IF NOT EXISTS idx_${schema}_tasks_status ON ${schema}.tasks(status);
+CREATE INDEX IF NOT EXISTS idx_${schema}_transactions_type ON ${schema}.transactions(type);
+CREATE INDEX IF NOT EXISTS idx_${schema}_invoices_status ON ${schema}.invoices(status);
+CREATE INDEX IF NOT EXISTS idx_${schema}_invoices_due_date ON ${schema}.invoices(due_date);
+CREATE INDEX IF NOT EXISTS idx_${schema}_publications_status ON ${schema}.publications(status);
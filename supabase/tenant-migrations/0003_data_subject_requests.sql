@@ -0,0 +1,32 @@
+-- Personal data kept for each client (the CRM form already collects it) and the LGPD
+-- data-subject requests (access report / anonymisation) made about them.
+
+ALTER TABLE ${schema}.clients
+    ADD COLUMN IF NOT EXISTS cpf text,
+    ADD COLUMN IF NOT EXISTS rg text,
+    ADD COLUMN IF NOT EXISTS pis text,
+    ADD COLUMN IF NOT EXISTS cei text,
+    ADD COLUMN IF NOT EXISTS birth_date date,
+    ADD COLUMN IF NOT EXISTS marital_status text,
+    ADD COLUMN IF NOT EXISTS professional_title text,
+    ADD COLUMN IF NOT EXISTS anonymized_at timestamptz;
+
+-- client_id is the only reference to the person: after anonymisation nothing here identifies them
+CREATE TABLE IF NOT EXISTS ${schema}.data_subject_requests (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    client_id uuid NOT NULL,
+    type text NOT NULL CHECK (type IN ('access', 'anonymization')),
+    status text NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'completed', 'rejected')),
+    notes text,
+    due_at timestamptz NOT NULL,
+    requested_by uuid,
+    completed_by uuid,
+    completed_at timestamptz,
+    result jsonb,
+    created_at timestamptz DEFAULT now(),
+    updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_${schema}_clients_cpf ON ${schema}.clients(cpf);
+CREATE INDEX IF NOT EXISTS idx_${schema}_data_subject_requests_client_id ON ${schema}.data_subject_requests(client_id);
+CREATE INDEX IF NOT EXISTS idx_${schema}_data_subject_requests_status_due ON ${schema}.data_subject_requests(status, due_at);
@@ -0,0 +1,17 @@
+-- Files attached to clients, projects, tasks, transactions and invoices. The content lives in
+-- the storage driver under <tenant id>/<attachment id>; only its metadata is kept here.
+
+CREATE TABLE IF NOT EXISTS ${schema}.attachments (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    entity_type text NOT NULL CHECK (entity_type IN ('client', 'project', 'task', 'transaction', 'invoice')),
+    entity_id uuid NOT NULL,
+    name text NOT NULL,
+    mime_type text NOT NULL,
+    size bigint NOT NULL CHECK (size >= 0),
+    checksum text NOT NULL,
+    uploaded_by uuid,
+    created_at timestamptz DEFAULT now(),
+    updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_${schema}_attachments_entity ON ${schema}.attachments(entity_type, entity_id);
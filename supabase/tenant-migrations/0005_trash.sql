@@ -0,0 +1,21 @@
+-- Deletion time of soft-deleted rows (is_active = false), for the trash bin. Rows stay
+-- restorable until TRASH_RETENTION_DAYS after deleted_at, then they are purged.
+
+ALTER TABLE ${schema}.clients ADD COLUMN IF NOT EXISTS deleted_at timestamptz;
+ALTER TABLE ${schema}.projects ADD COLUMN IF NOT EXISTS deleted_at timestamptz;
+ALTER TABLE ${schema}.tasks ADD COLUMN IF NOT EXISTS deleted_at timestamptz;
+ALTER TABLE ${schema}.transactions ADD COLUMN IF NOT EXISTS deleted_at timestamptz;
+ALTER TABLE ${schema}.invoices ADD COLUMN IF NOT EXISTS deleted_at timestamptz;
+
+-- Rows deleted before this migration: the delete was their last update
+UPDATE ${schema}.clients SET deleted_at = updated_at WHERE is_active = false AND deleted_at IS NULL;
+UPDATE ${schema}.projects SET deleted_at = updated_at WHERE is_active = false AND deleted_at IS NULL;
+UPDATE ${schema}.tasks SET deleted_at = updated_at WHERE is_active = false AND deleted_at IS NULL;
+UPDATE ${schema}.transactions SET deleted_at = updated_at WHERE is_active = false AND deleted_at IS NULL;
+UPDATE ${schema}.invoices SET deleted_at = updated_at WHERE is_active = false AND deleted_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_${schema}_clients_deleted_at ON ${schema}.clients(deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_${schema}_projects_deleted_at ON ${schema}.projects(deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_${schema}_tasks_deleted_at ON ${schema}.tasks(deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_${schema}_transactions_deleted_at ON ${schema}.transactions(deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_${schema}_invoices_deleted_at ON ${schema}.invoices(deleted_at) WHERE deleted_at IS NOT NULL;